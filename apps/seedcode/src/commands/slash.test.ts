@@ -0,0 +1,55 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { listSeedModelInfo } from '@seedkit-ai/ai-sdk-provider';
+import { AVAILABLE_MODELS, describeModelSwitch } from './slash.js';
+
+test('offers every model the provider registry knows', () => {
+  assert.deepEqual(AVAILABLE_MODELS, listSeedModelInfo().map((info) => info.modelId));
+  assert.ok(AVAILABLE_MODELS.includes('doubao-seed-1-8-251228'));
+});
+
+test('confirms a model switch without warnings when the model supports the conversation', () => {
+  assert.equal(describeModelSwitch('doubao-seed-1-8-251228', [{ role: 'user', content: 'hi' }], true), '✓ Model: doubao-seed-1-8-251228');
+});
+
+test('warns about history the new model cannot read', () => {
+  const messages = [
+    { role: 'user' as const, content: [{ type: 'file' as const, data: 'JVBERi0=', mediaType: 'application/pdf' }] },
+  ];
+  assert.equal(
+    describeModelSwitch('doubao-seed-code-preview-251028', messages, false),
+    '✓ Model: doubao-seed-code-preview-251028\n⚠  doubao-seed-code-preview-251028 does not accept PDF files.'
+  );
+});
+
+test('warns about files returned by tools', () => {
+  const toolResult = (value: Array<{ type: 'file-data'; data: string; mediaType: string } | { type: 'file-url'; url: string }>) => ({
+    role: 'tool' as const,
+    content: [{ type: 'tool-result' as const, toolCallId: 'call-1', toolName: 'read', output: { type: 'content' as const, value } }],
+  });
+  const expected = '✓ Model: doubao-seed-code-preview-251028\n⚠  doubao-seed-code-preview-251028 does not accept PDF files.';
+
+  assert.equal(
+    describeModelSwitch('doubao-seed-code-preview-251028', [toolResult([{ type: 'file-data', data: 'JVBERi0=', mediaType: 'application/pdf' }])], false),
+    expected
+  );
+  assert.equal(describeModelSwitch('doubao-seed-code-preview-251028', [toolResult([{ type: 'file-url', url: 'https://example.com/spec.pdf' }])], false), expected);
+});
+
+test('accepts images in the history and in tool results for a model that reads images', () => {
+  const messages = [
+    { role: 'user' as const, content: [{ type: 'image' as const, image: 'iVBORw0KGgo=', mediaType: 'image/png' }] },
+    {
+      role: 'tool' as const,
+      content: [
+        {
+          type: 'tool-result' as const,
+          toolCallId: 'call-1',
+          toolName: 'screenshot',
+          output: { type: 'content' as const, value: [{ type: 'image-data' as const, data: 'iVBORw0KGgo=', mediaType: 'image/png' }] },
+        },
+      ],
+    },
+  ];
+  assert.equal(describeModelSwitch('doubao-seed-code-preview-251028', messages, false), '✓ Model: doubao-seed-code-preview-251028');
+});
@@ -1,17 +1,71 @@
+import type { ModelMessage, ToolResultPart } from 'ai';
+import { getSeedModelCapabilityWarnings, listSeedModelInfo } from '@seedkit-ai/ai-sdk-provider';
 import { PLANS, type Plan } from '../config/schema.js';
 import type { Config } from '../config/schema.js';
 import type { SkillEntry } from '../context/index.js';
 import { listSessions, resolveSessionId } from '../sessions/index.js';
+import { inlineToolMedia } from '../tools/media-output.js';
+import { estimateTokens, type ContextTokens } from '../utils/token-count.js';
+import { formatCost, type Cost } from '../utils/cost.js';
+
+/** Models the provider registry knows, newest first within each family */
+export const AVAILABLE_MODELS: readonly string[] = listSeedModelInfo().map((info) => info.modelId);
+
+type ToolOutputItem = Extract<ToolResultPart['output'], { type: 'content' }>['value'][number];
+
+function toolOutputMediaType(item: ToolOutputItem): string | undefined {
+  switch (item.type) {
+    case 'image-data':
+    case 'file-data':
+    case 'media':
+      return item.mediaType;
+    case 'image-url':
+    case 'image-file-id':
+      return 'image/*';
+    case 'file-url':
+      // No media type on URLs; PDFs are the only files a model may not accept
+      return /\.pdf(?:$|[?#])/i.test(item.url) ? 'application/pdf' : undefined;
+    default:
+      return undefined;
+  }
+}
 
-export const AVAILABLE_MODELS = [
-  'doubao-seed-2-0-pro-260215',
-  'doubao-seed-2-0-lite-260215',
-  'doubao-seed-2-0-mini-260215',
-  'doubao-seed-2-0-code-preview-260215',
-  'doubao-seed-1-8-251228',
-  'doubao-seed-code-preview-251028',
-] as const;
+/** Media types of the images and files a message sends, including tool results */
+function getMessageMediaTypes(message: ModelMessage): string[] {
+  const mediaTypes: string[] = [];
+  if (typeof message.content === 'string') return mediaTypes;
+  for (const part of message.content) {
+    if (part.type === 'image') mediaTypes.push(part.mediaType ?? 'image/*');
+    else if (part.type === 'file') mediaTypes.push(part.mediaType);
+    else if (part.type === 'tool-result' && part.output.type === 'content') {
+      for (const item of part.output.value) {
+        const mediaType = toolOutputMediaType(item);
+        if (mediaType) mediaTypes.push(mediaType);
+      }
+    }
+  }
+  return mediaTypes;
+}
 
+/**
+ * Confirmation for /model, with a warning for each thing the conversation uses
+ * that the new model does not support (e.g. images in the history).
+ */
+export function describeModelSwitch(model: string, messages: ModelMessage[], thinking: boolean): string {
+  const warnings = getSeedModelCapabilityWarnings({
+    modelId: model,
+    // The next request resends tool images that are still cached; only media types are checked
+    prompt: inlineToolMedia(messages).map((message) => ({
+      role: 'user' as const,
+      content: getMessageMediaTypes(message).map((mediaType) => ({ type: 'file' as const, data: '', mediaType })),
+    })),
+    thinking: thinking ? 'enabled' : undefined,
+  });
+  return [
+    `✓ Model: ${model}`,
+    ...warnings.map((warning) => `⚠  ${'message' in warning ? warning.message : warning.details ?? warning.feature}`),
+  ].join('\n');
+}
 
 export type SlashCommandResult =
   | { type: 'handled'; output?: string }
@@ -22,6 +76,7 @@ export type SlashCommandResult =
   | { type: 'thinking_toggle' }
   | { type: 'plan_change'; plan: Plan }
   | { type: 'compact' }
+  | { type: 'context_info' }
   | { type: 'resume'; sessionId: string }
   | { type: 'resume_picker' }
   | { type: 'memory_picker' }
@@ -33,13 +88,13 @@ export interface SessionState {
   turnCount: number;
   version: string;
   totalTokens: number;
+  /** Cost of priced calls this session; null when no call was priced */
+  sessionCost: Cost | null;
   availableSkills: SkillEntry[];
   sessionId: string;
   cwd: string;
   systemPrompt: string;
   memoryFilePath: string;
-  /** Serialised byte length of the current message history (for token estimation) */
-  messageHistoryChars: number;
 }
 
 export function handleSlashCommand(
@@ -89,7 +144,7 @@ export function handleSlashCommand(
       return { type: 'handled', output: buildSkillsList(state) };
 
     case 'context':
-      return { type: 'handled', output: buildContextInfo(state) };
+      return { type: 'context_info' };
 
     case 'compact':
       return { type: 'compact' };
@@ -144,7 +199,7 @@ function buildHelp(): string {
 }
 
 function buildStatus(state: SessionState): string {
-  const { config, turnCount, version, totalTokens, sessionId } = state;
+  const { config, turnCount, version, totalTokens, sessionCost, sessionId } = state;
   const maskedKey = config.apiKey
     ? config.apiKey.slice(0, 6) + '...' + config.apiKey.slice(-4)
     : '✗ not set';
@@ -154,11 +209,13 @@ function buildStatus(state: SessionState): string {
     `  Version:        ${version}`,
     `  Session ID:     ${sessionId.slice(0, 8)}`,
     `  Plan:           ${config.plan}`,
+    `  Region:         ${config.region}`,
     `  Model:          ${config.model}`,
     `  API Key:        ${maskedKey}`,
     `  Thinking:       ${config.thinking ? 'on' : 'off'}`,
     `  Turns:          ${turnCount}`,
     `  Tokens (est):   ${totalTokens > 0 ? totalTokens.toLocaleString() : 'n/a'}`,
+    `  Cost:           ${sessionCost ? formatCost(sessionCost) : 'n/a'}`,
   ].join('\n');
 }
 
@@ -177,27 +234,30 @@ function buildSkillsList(state: SessionState): string {
     .join('\n');
 }
 
-function buildContextInfo(state: SessionState): string {
-  const { systemPrompt, availableSkills, messageHistoryChars, turnCount } = state;
+/**
+ * Render the /context report. `tokens` holds the session totals, counted by the
+ * tokenization endpoint when available; the per-section breakdown is estimated.
+ */
+export function buildContextInfo(state: SessionState, tokens: ContextTokens, contextLimit: number): string {
+  const { systemPrompt, availableSkills, turnCount } = state;
+  const { systemTokens, historyTokens, exact } = tokens;
 
-  const est = (chars: number) => Math.ceil(chars / 4);
+  const est = estimateTokens;
   const bar = (tokens: number, scale: number) =>
     '█'.repeat(Math.min(Math.round(tokens / scale), 40));
+  const approx = exact ? ' ' : '~';
 
-  const systemTokens = est(systemPrompt.length);
-  const historyTokens = est(messageHistoryChars);
   const totalTokens = systemTokens + historyTokens;
-  const contextLimit = 256_000;
   const pct = ((totalTokens / contextLimit) * 100).toFixed(1);
 
   const lines: string[] = ['Context Window Usage:', ''];
 
   // ── Top-level summary ──────────────────────────────────────────────────
   const scale = Math.max(Math.ceil(totalTokens / 400), 50);
-  lines.push(`  ${'System prompt'.padEnd(22)} ~${systemTokens.toLocaleString().padStart(6)} tok  ${bar(systemTokens, scale)}`);
-  lines.push(`  ${'Message history'.padEnd(22)} ~${historyTokens.toLocaleString().padStart(6)} tok  ${bar(historyTokens, scale)}`);
+  lines.push(`  ${'System prompt'.padEnd(22)} ${approx}${systemTokens.toLocaleString().padStart(6)} tok  ${bar(systemTokens, scale)}`);
+  lines.push(`  ${'Message history'.padEnd(22)} ${approx}${historyTokens.toLocaleString().padStart(6)} tok  ${bar(historyTokens, scale)}`);
   lines.push('');
-  lines.push(`  ${'Total (est)'.padEnd(22)} ~${totalTokens.toLocaleString().padStart(6)} tok  (${pct}% of 256k)`);
+  lines.push(`  ${(exact ? 'Total' : 'Total (est)').padEnd(22)} ${approx}${totalTokens.toLocaleString().padStart(6)} tok  (${pct}% of ${Math.round(contextLimit / 1024)}k)`);
   lines.push(`  ${'Turns'.padEnd(22)}  ${turnCount}`);
 
   // ── System prompt breakdown ────────────────────────────────────────────
@@ -229,7 +289,9 @@ function buildContextInfo(state: SessionState): string {
   }
 
   lines.push('');
-  lines.push('  Note: ~4 chars/token estimate. Actual billed tokens may differ.');
+  lines.push(exact
+    ? '  Note: totals counted by the model tokenizer; breakdown is a ~4 chars/token estimate.'
+    : '  Note: ~4 chars/token estimate (tokenizer unavailable). Actual billed tokens may differ.');
   return lines.join('\n');
 }
 
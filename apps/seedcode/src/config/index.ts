@@ -1,19 +1,20 @@
 import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
-import { ConfigSchema, DEFAULT_MODEL, type Config, type Plan } from './schema.js';
+import { ConfigSchema, DEFAULT_MODEL, DEFAULT_REGION, type Config, type Plan } from './schema.js';
 
 export interface CliFlags {
   model?: string;
   apiKey?: string;
   thinking?: boolean;
   plan?: Plan;
+  region?: string;
 }
 
 const CONFIG_DIR = path.join(os.homedir(), '.seedcode');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 
-type StoredConfig = Partial<Pick<Config, 'apiKey' | 'model' | 'thinking' | 'plan'>>;
+type StoredConfig = Partial<Pick<Config, 'apiKey' | 'model' | 'thinking' | 'plan' | 'region' | 'endpoints'>>;
 
 function read(): StoredConfig {
   try {
@@ -37,6 +38,8 @@ export function loadConfig(flags: CliFlags = {}): Config {
     model: flags.model ?? stored.model ?? DEFAULT_MODEL,
     thinking: flags.thinking ?? stored.thinking ?? false,
     plan: flags.plan ?? stored.plan ?? 'api',
+    region: flags.region ?? process.env.ARK_REGION ?? stored.region ?? DEFAULT_REGION,
+    endpoints: stored.endpoints ?? {},
   });
 }
 
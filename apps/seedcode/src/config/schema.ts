@@ -1,18 +1,29 @@
+import { getSeedBaseURL } from '@seedkit-ai/ai-sdk-provider';
 import { z } from 'zod';
 
 export const PLANS = ['api', 'coding'] as const;
 export type Plan = typeof PLANS[number];
 
-export const PLAN_PRESETS: Record<Plan, { baseURL: string; model: string }> = {
-  api: { baseURL: 'https://ark.cn-beijing.volces.com/api/v3', model: 'doubao-seed-1-8-251228' },
-  coding: { baseURL: 'https://ark.cn-beijing.volces.com/api/coding/v3', model: 'doubao-seed-2.0-code' },
+export const PLAN_PRESETS: Record<Plan, { path: string; model: string }> = {
+  api: { path: '/api/v3', model: 'doubao-seed-1-8-251228' },
+  coding: { path: '/api/coding/v3', model: 'doubao-seed-2.0-code' },
 };
 
+export const DEFAULT_REGION = 'cn-beijing';
+
+/** Base URL of a plan in an Ark region, e.g. https://ark.cn-beijing.volces.com/api/coding/v3 */
+export function getPlanBaseURL(plan: Plan, region: string): string {
+  return new URL(PLAN_PRESETS[plan].path, getSeedBaseURL(region)).toString();
+}
+
 export const ConfigSchema = z.object({
   apiKey: z.string().optional(),
   model: z.string().default('doubao-seed-1-8-251228'),
   thinking: z.boolean().default(false),
   plan: z.enum(PLANS).default('api'),
+  region: z.string().default(DEFAULT_REGION),
+  /** Model aliases for custom inference endpoints, e.g. { "seed-prod": "ep-…" } */
+  endpoints: z.record(z.string(), z.string()).default({}),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -47,7 +47,7 @@ export function resolveMentions(text: string, cwd: string): MentionResult {
       const ext = path.extname(abs).toLowerCase();
 
       if (IMAGE_EXTENSIONS.has(ext)) {
-        // Image: embed a path hint — agent loads via read tool → MediaStore → auto-injected next turn
+        // Image: embed a path hint — agent loads via read tool, which returns the image in its result
         return `[image: ${abs} — use read("${abs}") to view it]`;
       }
 
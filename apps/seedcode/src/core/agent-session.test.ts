@@ -0,0 +1,242 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { ModelMessage } from 'ai';
+import { createFakeArk, FAKE_ARK_PNG, type FakeArk } from '@seedkit-ai/testing';
+import { ConfigSchema, type Config } from '../config/schema.js';
+import { clearMediaStore, pendingAttachmentIds, storeMedia } from '../media-store.js';
+import { deleteSession, loadSession } from '../sessions/index.js';
+import { AgentSession, type AgentEvent } from './index.js';
+
+function createSession(cwd = os.tmpdir(), opts: { fetch?: typeof globalThis.fetch; messages?: ModelMessage[] } = {}) {
+  return new AgentSession({
+    cwd,
+    apiKey: 'test-key',
+    skipConfirm: false,
+    sessionId: `test-${crypto.randomUUID().slice(0, 8)}`,
+    getSystemPrompt: () => '',
+    getAvailableSkills: () => [],
+    ...opts,
+  });
+}
+
+const config = ConfigSchema.parse({ apiKey: 'test-key' });
+
+/**
+ * Run one turn against the fake Ark server in a fresh directory and collect its
+ * events; the session file is removed afterwards.
+ */
+async function runTurn(
+  ark: FakeArk,
+  prompt: string,
+  opts: { fetch?: typeof globalThis.fetch; messages?: ModelMessage[]; inspect?: (session: AgentSession, cwd: string) => void } = {},
+) {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'seedcode-session-'));
+  const session = createSession(cwd, { fetch: opts.fetch ?? ark.fetch, messages: opts.messages });
+  const events: AgentEvent[] = [];
+  session.on((event) => events.push(event));
+  session.addUserMessage(prompt);
+  try {
+    const turn = await session.run(config);
+    opts.inspect?.(session, cwd);
+    return { session, events, turn };
+  } finally {
+    deleteSession(cwd, session.sessionId);
+    fs.rmSync(cwd, { recursive: true, force: true });
+  }
+}
+
+/** Event types in order, with runs of deltas collapsed into one */
+function eventTypes(events: AgentEvent[]): string[] {
+  return events.map((event) => event.type).filter((type, i, types) => !(type.endsWith('-delta') && types[i - 1] === type));
+}
+
+/** Answer tokenization requests with a fixed count per text; everything else goes to the fake */
+function withTokenCount(ark: FakeArk, tokensPerText: number): typeof globalThis.fetch {
+  return async (input, init) => {
+    const request = new Request(input, init);
+    if (!request.url.endsWith('/tokenization')) return ark.fetch(request);
+    const { text } = (await request.json()) as { text: string[] };
+    return Response.json({ data: text.map((_, index) => ({ index, total_tokens: tokensPerText })) });
+  };
+}
+
+test('addUserMessage inlines @-mentioned files', () => {
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'seedcode-session-'));
+  try {
+    fs.writeFileSync(path.join(cwd, 'a.ts'), 'export const a = 1;\n');
+    const session = createSession(cwd);
+    session.addUserMessage('explain @a.ts');
+    session.addUserMessage('thanks');
+    assert.deepEqual(session.messages, [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: `<file path="${path.join(cwd, 'a.ts')}">\nexport const a = 1;\n\n</file>` },
+          { type: 'text', text: 'explain [a.ts]' },
+        ],
+      },
+      { role: 'user', content: 'thanks' },
+    ]);
+  } finally {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  }
+});
+
+test('setSession swaps the history and the task store', () => {
+  const session = createSession();
+  const { taskStore } = session;
+  session.addUserMessage('hello');
+  session.setSession('test-other', [{ role: 'assistant', content: 'summary' }]);
+  assert.equal(session.sessionId, 'test-other');
+  assert.deepEqual(session.messages, [{ role: 'assistant', content: 'summary' }]);
+  assert.notEqual(session.taskStore, taskStore);
+});
+
+test('listeners receive events until they unsubscribe', async () => {
+  const session = createSession();
+  const events: AgentEvent[] = [];
+  const off = session.on((event) => events.push(event));
+  const config = { model: 'doubao-seed-1-8-251228', plan: 'api' } as Config;
+
+  await session.compact(config);
+  off();
+  await session.compact(config);
+
+  assert.deepEqual(events, [{ type: 'notice', level: 'info', message: 'Nothing to compact.' }]);
+});
+
+test('run streams a tool-using turn and saves the session', async () => {
+  const ark = createFakeArk();
+  const file = path.join(os.tmpdir(), `seedcode-${crypto.randomUUID().slice(0, 8)}.txt`);
+  fs.writeFileSync(file, 'hello\n');
+  ark.chat.push({ toolCalls: [{ id: 'call-1', name: 'read', arguments: { path: file } }] }, { text: 'It says hello.' });
+
+  try {
+    let saved: ModelMessage[] = [];
+    const { session, events, turn } = await runTurn(ark, 'what does the file say?', {
+      inspect: (session, cwd) => { saved = loadSession(cwd, session.sessionId); },
+    });
+
+    assert.deepEqual(eventTypes(events), ['tool-start', 'tool-call', 'tool-end', 'step', 'text-delta', 'step', 'usage']);
+    assert.equal(turn.status, 'completed');
+    assert.equal(turn.text, 'It says hello.');
+    assert.equal(turn.steps, 2);
+    assert.deepEqual(turn.toolCalls.map((call) => [call.toolName, call.isError]), [['read', false]]);
+    assert.deepEqual(session.messages.map((message) => message.role), ['user', 'assistant', 'tool', 'assistant']);
+    assert.deepEqual(saved, JSON.parse(JSON.stringify(session.messages)));
+  } finally {
+    fs.rmSync(file, { force: true });
+  }
+});
+
+test('run keeps tool images out of the history but sends them to the model', async () => {
+  const ark = createFakeArk();
+  const image = path.join(os.tmpdir(), `seedcode-${crypto.randomUUID().slice(0, 8)}.png`);
+  fs.writeFileSync(image, Buffer.from(FAKE_ARK_PNG, 'base64'));
+  ark.chat.push({ toolCalls: [{ id: 'call-1', name: 'read', arguments: { path: image } }] }, { text: 'A pixel.' });
+
+  try {
+    let saved = '';
+    const { session } = await runTurn(ark, 'what is in the image?', {
+      inspect: (session, cwd) => { saved = JSON.stringify(loadSession(cwd, session.sessionId)); },
+    });
+
+    assert.equal(JSON.stringify(session.messages).includes(FAKE_ARK_PNG), false);
+    assert.equal(saved.includes(FAKE_ARK_PNG), false);
+    assert.match(JSON.stringify(session.messages[2]), /"mediaId":"media_\d+"/);
+    const [, answerRequest] = ark.requests.filter((request) => request.path === '/chat/completions');
+    assert.equal(JSON.stringify(answerRequest.body).includes(FAKE_ARK_PNG), true);
+  } finally {
+    fs.rmSync(image, { force: true });
+    clearMediaStore();
+  }
+});
+
+test('run retries a rate limit reported mid-stream', async () => {
+  const ark = createFakeArk();
+  ark.chat.push(
+    { text: 'Partial', streamError: { code: 'RateLimitExceeded.EndpointRPMExceeded', message: 'Too many requests' } },
+    { text: 'Done.' },
+  );
+
+  const { events, turn } = await runTurn(ark, 'hi');
+
+  const retries = events.filter((event) => event.type === 'retry');
+  assert.deepEqual(retries.map(({ attempt, errorClass, error }) => ({ attempt, errorClass, error })), [
+    { attempt: 1, errorClass: 'rate_limit', error: 'Too many requests' },
+  ]);
+  assert.equal(turn.status, 'completed');
+  assert.equal(turn.text, 'Done.');
+});
+
+test('run fails without retrying errors that will not go away', async () => {
+  const ark = createFakeArk();
+  ark.chat.push({ error: { status: 401, code: 'AuthenticationError', message: 'The API key is invalid' } });
+
+  const { session, events, turn } = await runTurn(ark, 'hi');
+
+  assert.equal(events.some((event) => event.type === 'retry'), false);
+  assert.equal(turn.status, 'failed');
+  assert.deepEqual(turn.error, { errorClass: 'auth', message: 'The API key is invalid' });
+  assert.deepEqual(session.messages, []);
+});
+
+test('run compacts a full context before answering', async () => {
+  const ark = createFakeArk();
+  ark.chat.push({ text: 'We talked about tests.' }, { text: 'Answer.' });
+  const history: ModelMessage[] = [
+    { role: 'user', content: 'earlier question' },
+    { role: 'assistant', content: 'earlier answer' },
+  ];
+
+  const { session, events } = await runTurn(ark, 'next question', {
+    fetch: withTokenCount(ark, 200_000),
+    messages: history,
+  });
+
+  assert.deepEqual(eventTypes(events).slice(0, 3), ['notice', 'notice', 'compacted']);
+  assert.deepEqual(JSON.parse(JSON.stringify(session.messages)), [
+    { role: 'assistant', content: 'We talked about tests.' },
+    { role: 'user', content: 'next question' },
+    { role: 'assistant', content: [{ type: 'text', text: 'Answer.' }] },
+  ]);
+  // The summary request covers the old history, not the question being answered
+  const summaryRequest = ark.requests.find((request) => request.path === '/chat/completions')!;
+  assert.equal(JSON.stringify(summaryRequest.body).includes('next question'), false);
+});
+
+test('run sends pasted images with the turn and clears them', async () => {
+  const ark = createFakeArk();
+  storeMedia({ data: `data:image/png;base64,${FAKE_ARK_PNG}`, mediaType: 'image/png', byteSize: 68 });
+
+  try {
+    const { session } = await runTurn(ark, 'what is in the image?');
+
+    const [request] = ark.requests.filter((request) => request.path === '/chat/completions');
+    assert.match(JSON.stringify(request.body), /"type":"image_url"/);
+    assert.deepEqual(session.messages[1], {
+      role: 'user',
+      content: [
+        { type: 'file', data: `data:image/png;base64,${FAKE_ARK_PNG}`, mediaType: 'image/png' },
+        { type: 'text', text: '[1 image(s) attached above]' },
+      ],
+    });
+    assert.deepEqual(pendingAttachmentIds(), []);
+  } finally {
+    clearMediaStore();
+  }
+});
+
+test('run keeps the history consistent when the model replies with nothing', async () => {
+  const ark = createFakeArk({ defaultReply: { text: '' } });
+
+  const { session, events, turn } = await runTurn(ark, 'hi');
+
+  assert.equal(turn.status, 'completed');
+  assert.equal(events.some((event) => event.type === 'notice'), false);
+  assert.deepEqual(session.messages, [{ role: 'user', content: 'hi' }]);
+});
@@ -0,0 +1,388 @@
+import { streamText, stepCountIs, generateText, NoOutputGeneratedError, type ModelMessage, type ToolSet } from 'ai';
+import { createSeed } from '@seedkit-ai/ai-sdk-provider';
+import { getPlanBaseURL, type Config } from '../config/schema.js';
+import type { SkillEntry } from '../context/index.js';
+import { resolveMentions } from '../context/mentions.js';
+import type { McpManager } from '../mcp/manager.js';
+import { pendingAttachmentIds, getMedia, deleteMedia } from '../media-store.js';
+import { createSession, saveSession } from '../sessions/index.js';
+import { buildTools, createTaskStore, isToolError, MAX_TOOL_STEPS, type TaskStore } from '../tools/index.js';
+import { inlineToolMedia, stripToolMedia } from '../tools/media-output.js';
+import { sumCosts } from '../utils/cost.js';
+import { withRetry, classifyError } from '../utils/retry.js';
+import { countContextTokens } from '../utils/token-count.js';
+import { CONTEXT_COMPACT_THRESHOLD, getContextLimit } from './context-window.js';
+import type { AgentEvent, AgentEventListener, AgentToolCall, AgentTurnResult } from './events.js';
+
+/** Warn the model to wrap up this many steps before the hard limit */
+const STEP_WARN_MARGIN = 5;
+
+const COMPACT_PROMPT =
+  'Produce a compact context summary of this conversation for your own use in continuing the session. ' +
+  'Write in first-person as the assistant. Be precise and technical — this summary will replace the full history. ' +
+  'You MUST cover (omit sections that have no content):\n' +
+  '1. FILES MODIFIED: exact paths, what changed and why\n' +
+  '2. ERRORS & FIXES: error messages encountered and how they were resolved\n' +
+  '3. KEY DECISIONS: architectural or approach choices made, with rationale\n' +
+  '4. OPEN TASKS: any todo items or work still in progress\n' +
+  '5. FACTS ESTABLISHED: API signatures, config values, dependency versions, or other facts confirmed\n' +
+  'Preserve file paths, function names, and error messages verbatim. ≤600 words. Output only the summary text, no headings or labels.';
+
+export interface AgentSessionOptions {
+  cwd: string;
+  apiKey: string;
+  /** Run every tool without asking; otherwise tools emit `confirm` events */
+  skipConfirm: boolean;
+  /** Continue this session instead of starting a new one */
+  sessionId?: string;
+  messages?: ModelMessage[];
+  /** Read before every request so context reloads take effect */
+  getSystemPrompt: () => string;
+  getAvailableSkills: () => SkillEntry[];
+  mcpManager?: McpManager;
+  /** Custom fetch for all Ark requests, e.g. a fake server in tests */
+  fetch?: typeof globalThis.fetch;
+}
+
+type ToolOutcome =
+  | { type: 'tool-result'; toolCallId: string; toolName: string; input: unknown; output: unknown }
+  | { type: 'tool-error'; toolCallId: string; toolName: string; input: unknown; error: unknown };
+
+function toAgentToolCall(part: ToolOutcome): AgentToolCall {
+  const output = part.type === 'tool-result' ? part.output : { error: String(part.error) };
+  return { id: part.toolCallId, toolName: part.toolName, input: part.input, output, isError: isToolError(output) };
+}
+
+/**
+ * The agent tool loop without any UI: owns the conversation history, the
+ * session file and the task store, runs turns and reports progress as
+ * AgentEvents. The Ink REPL and print mode are both thin consumers.
+ */
+export class AgentSession {
+  messages: ModelMessage[];
+  private id: string;
+  private store: TaskStore;
+  private readonly listeners = new Set<AgentEventListener>();
+  private abortController: AbortController | null = null;
+  private stopped = false;
+
+  constructor(private readonly opts: AgentSessionOptions) {
+    this.id = opts.sessionId ?? createSession(opts.cwd);
+    this.messages = opts.messages ?? [];
+    this.store = createTaskStore(opts.cwd, this.id);
+  }
+
+  get sessionId(): string {
+    return this.id;
+  }
+
+  get taskStore(): TaskStore {
+    return this.store;
+  }
+
+  /** Subscribe to events; returns the unsubscribe function */
+  on(listener: AgentEventListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private emit(event: AgentEvent): void {
+    for (const listener of this.listeners) listener(event);
+  }
+
+  /** Switch to another session (resume, /clear); its tasks come with it */
+  setSession(sessionId: string, messages: ModelMessage[] = []): void {
+    this.id = sessionId;
+    this.messages = messages;
+    this.store = createTaskStore(this.opts.cwd, sessionId);
+  }
+
+  /** Append a user message, inlining @-mentioned files */
+  addUserMessage(input: string): void {
+    const { cleanText, injected } = resolveMentions(input, this.opts.cwd);
+    this.messages.push(
+      injected.length > 0
+        ? {
+            role: 'user',
+            content: [
+              ...injected.map((f) => ({ type: 'text' as const, text: `<file path="${f.path}">\n${f.content}\n</file>` })),
+              { type: 'text' as const, text: cleanText || input },
+            ],
+          }
+        : { role: 'user', content: input }
+    );
+  }
+
+  /** Stop the running turn, including sub-agents; the turn resolves as `aborted` */
+  abort(): void {
+    this.stopped = true;
+    this.abortController?.abort();
+  }
+
+  /** Answer the last user message, running tools until the model is done */
+  async run(cfg: Config): Promise<AgentTurnResult> {
+    const { cwd, apiKey, skipConfirm, mcpManager, fetch } = this.opts;
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    this.stopped = false;
+
+    const baseURL = getPlanBaseURL(cfg.plan, cfg.region);
+    const seed = createSeed({ apiKey, baseURL, endpoints: cfg.endpoints, fetch });
+    const model = seed.chat(cfg.model as Parameters<typeof seed.chat>[0]);
+
+    const agentProgressLines: string[] = [];
+    const builtinTools = buildTools({
+      cwd,
+      confirm: (pending) => this.emit({ type: 'confirm', pending }),
+      askQuestion: (pending) => this.emit({ type: 'question', pending }),
+      skipConfirm,
+      taskStore: this.store,
+      availableSkills: this.opts.getAvailableSkills(),
+      model,
+      onTaskChange: (tasks) => this.emit({ type: 'tasks', tasks }),
+      onSpawnAgentProgress: (info) => {
+        agentProgressLines.push(...info.toolCalls);
+        // Show last 3 tool calls under a step counter header
+        const recent = agentProgressLines.slice(-3);
+        const header = `Step ${info.step}/${info.maxSteps}`;
+        const progress = recent.length > 0 ? `${header}\n${recent.join('\n')}` : header;
+        this.emit({ type: 'tool-progress', toolName: 'spawnAgent', progress });
+      },
+      abortSignal: abortController.signal,
+    });
+
+    // Merge MCP tools (if any connected servers)
+    let tools: typeof builtinTools & Record<string, ToolSet[string]> = builtinTools;
+    if (mcpManager) {
+      try {
+        const mcpTools = await mcpManager.allTools();
+        if (Object.keys(mcpTools).length > 0) {
+          tools = { ...builtinTools, ...mcpTools } as typeof tools;
+        }
+      } catch {
+        this.emit({ type: 'notice', level: 'info', message: 'MCP tools unavailable' });
+      }
+    }
+
+    // Auto-compact if context exceeds threshold (exact count, estimate when offline)
+    const { systemTokens, historyTokens } = await countContextTokens({
+      apiKey,
+      baseURL,
+      endpoints: cfg.endpoints,
+      fetch,
+      model: cfg.model,
+      systemPrompt: this.opts.getSystemPrompt(),
+      messages: this.messages,
+    });
+    const contextPct = (systemTokens + historyTokens) / getContextLimit(cfg.model);
+    if (contextPct >= CONTEXT_COMPACT_THRESHOLD) {
+      this.emit({
+        type: 'notice',
+        level: 'info',
+        message: `⚡ Context at ${Math.round(contextPct * 100)}% — auto-compacting before continuing...`,
+      });
+      // Summarize the history before the message being answered, then answer it
+      const pending = this.messages.pop()!;
+      await this.compact(cfg);
+      this.messages.push(pending);
+    }
+
+    // Inject pending pasted images as user message parts.
+    // Tool media (screenshots, read) is sent with the tool result instead.
+    const pendingMediaIds = pendingAttachmentIds();
+    if (pendingMediaIds.length > 0) {
+      const fileParts = pendingMediaIds
+        .map((id) => getMedia(id))
+        .filter((m): m is NonNullable<typeof m> => m !== undefined)
+        .map((m) => ({ type: 'file' as const, data: m.data, mediaType: m.mediaType as `${string}/${string}` }));
+
+      if (fileParts.length > 0) {
+        this.messages.push({
+          role: 'user',
+          content: [...fileParts, { type: 'text', text: `[${fileParts.length} image(s) attached above]` }],
+        });
+      }
+      for (const id of pendingMediaIds) deleteMedia(id);
+    }
+
+    // Type uses `typeof tools` to preserve the concrete tool map and avoid ToolSet variance issues.
+    type ToolsMap = typeof tools;
+    let streamResult: ReturnType<typeof streamText<ToolsMap>> | null = null;
+    let stepLimitReached = false;
+    const turn: Omit<AgentTurnResult, 'status'> = { text: '', reasoning: '', steps: 0, toolCalls: [], usage: {} };
+
+    try {
+      await withRetry(async () => {
+        // Retries start the turn over
+        Object.assign(turn, { text: '', reasoning: '', steps: 0, toolCalls: [], usage: {}, cost: undefined });
+
+        streamResult = streamText({
+          model,
+          system: this.opts.getSystemPrompt(),
+          messages: inlineToolMedia(this.messages),
+          tools,
+          abortSignal: abortController.signal,
+          stopWhen: stepCountIs(MAX_TOOL_STEPS),
+          ...(cfg.thinking ? { providerOptions: { seed: { thinking: true } } } : {}),
+          // Stream errors are rethrown below and reported in the turn result, not logged
+          onError: () => {},
+          onStepFinish: (step) => {
+            const stepNumber = step.stepNumber + 1;
+            turn.steps = stepNumber;
+            turn.text = step.text;
+            turn.reasoning = step.reasoningText ?? '';
+            this.emit({
+              type: 'step',
+              step: stepNumber,
+              text: step.text,
+              reasoning: turn.reasoning,
+              toolCalls: step.content.flatMap((part) =>
+                part.type === 'tool-result' || part.type === 'tool-error' ? [toAgentToolCall(part)] : []
+              ),
+            });
+
+            const warnAt = MAX_TOOL_STEPS - STEP_WARN_MARGIN;
+            if (stepNumber === warnAt) {
+              this.emit({
+                type: 'notice',
+                level: 'info',
+                message: `⚠ Step ${warnAt}/${MAX_TOOL_STEPS} — approaching limit. Wrap up soon.`,
+              });
+            }
+            if (stepNumber >= MAX_TOOL_STEPS) {
+              this.emit({
+                type: 'notice',
+                level: 'error',
+                message: `Hard limit reached: ${MAX_TOOL_STEPS} tool steps in one turn. Stopping.`,
+              });
+              stepLimitReached = true;
+            }
+          },
+          onFinish: (result) => {
+            turn.usage = {
+              inputTokens: result.totalUsage.inputTokens,
+              outputTokens: result.totalUsage.outputTokens,
+              totalTokens: result.totalUsage.totalTokens,
+            };
+            turn.cost = sumCosts(result.steps.map((step) => step.providerMetadata));
+            this.emit({ type: 'usage', usage: result.usage, cost: turn.cost });
+          },
+        });
+
+        for await (const part of streamResult!.fullStream) {
+          if (this.stopped || stepLimitReached) break;
+          switch (part.type) {
+            case 'text-delta':
+              this.emit({ type: 'text-delta', text: part.text });
+              break;
+            case 'reasoning-delta':
+              this.emit({ type: 'reasoning-delta', text: part.text });
+              break;
+            case 'tool-input-start':
+              this.emit({ type: 'tool-start', id: part.id, toolName: part.toolName });
+              break;
+            case 'tool-call':
+              this.emit({ type: 'tool-call', id: part.toolCallId, toolName: part.toolName, input: part.input });
+              break;
+            case 'tool-result':
+            case 'tool-error': {
+              const toolCall = toAgentToolCall(part);
+              turn.toolCalls.push(toolCall);
+              this.emit({ type: 'tool-end', ...toolCall });
+              break;
+            }
+            case 'error':
+              throw part.error;
+          }
+        }
+      },
+      (attempt, delayMs, err) => {
+        this.emit({
+          type: 'retry',
+          attempt,
+          delayMs,
+          errorClass: classifyError(err),
+          error: err instanceof Error ? err.message : String(err),
+        });
+      },
+      abortController.signal);
+    } catch (err) {
+      this.abortController = null;
+      this.messages.pop();
+
+      // Abort: not an error, just clean up silently
+      if (this.stopped || (err instanceof Error && err.name === 'AbortError')) {
+        return { status: 'aborted', ...turn };
+      }
+      // The API returned an empty response (no text, no tool calls); the user can retry
+      if (NoOutputGeneratedError.isInstance(err)) {
+        return { status: 'failed', ...turn, error: { errorClass: 'empty', message: 'Model returned an empty response.' } };
+      }
+      const message = err instanceof Error ? err.message : String(err);
+      return { status: 'failed', ...turn, error: { errorClass: classifyError(err), message } };
+    }
+
+    this.abortController = null;
+    let status: AgentTurnResult['status'] = 'completed';
+    if (this.stopped || stepLimitReached) {
+      // Remove the user message we answered
+      this.messages.pop();
+      status = this.stopped ? 'aborted' : 'step-limit';
+    } else {
+      // Retrieve all response messages (assistant + tool) from the completed stream.
+      // Includes intermediate tool-call and tool-result messages from multi-step loops.
+      try {
+        const { messages: responseMessages } = await streamResult!.response;
+        // Tool images go back to a { mediaId } reference; inlineToolMedia resends them
+        const toolOutputs = new Map(turn.toolCalls.map((call) => [call.id, call.output]));
+        this.messages.push(...stripToolMedia(responseMessages as ModelMessage[], toolOutputs));
+      } catch (err) {
+        // Stream completed but response extraction failed (e.g. empty response).
+        // Steps were already reported — just warn and continue.
+        if (!NoOutputGeneratedError.isInstance(err)) {
+          this.emit({
+            type: 'notice',
+            level: 'error',
+            message: `Warning: failed to extract response messages — ${err instanceof Error ? err.message : String(err)}`,
+          });
+        }
+      }
+    }
+
+    saveSession(cwd, this.id, this.messages);
+    return { status, ...turn };
+  }
+
+  /** Replace the history with a summary written by the model */
+  async compact(cfg: Config): Promise<void> {
+    if (this.messages.length === 0) {
+      this.emit({ type: 'notice', level: 'info', message: 'Nothing to compact.' });
+      return;
+    }
+
+    this.emit({ type: 'notice', level: 'info', message: '⏳ Compacting conversation...' });
+
+    try {
+      const seed = createSeed({
+        apiKey: this.opts.apiKey,
+        baseURL: getPlanBaseURL(cfg.plan, cfg.region),
+        endpoints: cfg.endpoints,
+        fetch: this.opts.fetch,
+      });
+      const summary = await generateText({
+        model: seed.chat(cfg.model as Parameters<typeof seed.chat>[0]),
+        messages: [...this.messages, { role: 'user' as const, content: COMPACT_PROMPT }],
+      });
+
+      this.messages = [{ role: 'assistant', content: summary.text ?? '' }];
+      this.emit({
+        type: 'compacted',
+        summaryTokens: Math.ceil((summary.text?.length ?? 0) / 4),
+        cost: sumCosts([summary.providerMetadata]),
+      });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      this.emit({ type: 'notice', level: 'error', message: `Compact failed: ${msg}` });
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import type { ModelMessage } from 'ai';
+import { getSeedModelInfo } from '@seedkit-ai/ai-sdk-provider';
+import { estimateContextTokens } from '../utils/token-count.js';
+
+/** Fallback context window for models the provider registry does not know */
+const DEFAULT_CONTEXT_LIMIT = 256_000;
+/** Start warning in StatusBar above this fraction */
+export const CONTEXT_WARN_THRESHOLD = 0.75;
+/** Auto-compact before sending when estimated usage exceeds this fraction */
+export const CONTEXT_COMPACT_THRESHOLD = 0.70;
+
+export function getContextLimit(model: string): number {
+  return getSeedModelInfo(model)?.contextWindow ?? DEFAULT_CONTEXT_LIMIT;
+}
+
+export function estimateContextPct(systemPrompt: string, messages: ModelMessage[], model: string): number {
+  const { systemTokens, historyTokens } = estimateContextTokens(systemPrompt, messages);
+  return (systemTokens + historyTokens) / getContextLimit(model);
+}
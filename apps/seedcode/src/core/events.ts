@@ -0,0 +1,57 @@
+import type { PendingConfirm, PendingQuestion, TaskItem } from '../tools/index.js';
+import type { Cost } from '../utils/cost.js';
+import type { ErrorClass } from '../utils/retry.js';
+
+export interface AgentToolCall {
+  id: string;
+  toolName: string;
+  input: unknown;
+  output: unknown;
+  isError: boolean;
+}
+
+export interface AgentUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+/** Everything an AgentSession reports while it runs — UIs render these, nothing else */
+export type AgentEvent =
+  | { type: 'text-delta'; text: string }
+  | { type: 'reasoning-delta'; text: string }
+  /** The model started a tool call; its input is still streaming */
+  | { type: 'tool-start'; id: string; toolName: string }
+  /** The tool call is complete and about to run */
+  | { type: 'tool-call'; id: string; toolName: string; input: unknown }
+  | ({ type: 'tool-end' } & AgentToolCall)
+  | { type: 'tool-progress'; toolName: string; progress: string }
+  /** A model step finished; `toolCalls` are the calls it made */
+  | { type: 'step'; step: number; text: string; reasoning: string; toolCalls: AgentToolCall[] }
+  /** A tool needs approval — call `pending.resolve` */
+  | { type: 'confirm'; pending: PendingConfirm }
+  /** The model asks the user — call `pending.resolve` with the answer */
+  | { type: 'question'; pending: PendingQuestion }
+  | { type: 'tasks'; tasks: TaskItem[] }
+  /** Usage of the last step of a turn (about the context size) and the cost of the whole turn */
+  | { type: 'usage'; usage: AgentUsage; cost?: Cost }
+  | { type: 'retry'; attempt: number; delayMs: number; errorClass: ErrorClass; error: string }
+  | { type: 'notice'; level: 'info' | 'error'; message: string }
+  /** The history was replaced by a summary of about `summaryTokens` tokens */
+  | { type: 'compacted'; summaryTokens: number; cost?: Cost };
+
+export type AgentEventListener = (event: AgentEvent) => void;
+
+export interface AgentTurnResult {
+  /** Unless `completed`, the turn's user message is dropped from the history */
+  status: 'completed' | 'aborted' | 'step-limit' | 'failed';
+  /** Text of the last step, i.e. the answer */
+  text: string;
+  reasoning: string;
+  steps: number;
+  toolCalls: AgentToolCall[];
+  /** Usage summed over all steps */
+  usage: AgentUsage;
+  cost?: Cost;
+  error?: { errorClass: ErrorClass | 'empty'; message: string };
+}
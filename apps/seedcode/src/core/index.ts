@@ -0,0 +1,3 @@
+export { AgentSession, type AgentSessionOptions } from './agent-session.js';
+export { CONTEXT_WARN_THRESHOLD, estimateContextPct, getContextLimit } from './context-window.js';
+export type { AgentEvent, AgentEventListener, AgentToolCall, AgentTurnResult, AgentUsage } from './events.js';
@@ -2,6 +2,7 @@
 import { Command } from 'commander';
 import { loadConfig } from './config/index.js';
 import { PLANS, type Plan } from './config/schema.js';
+import { OUTPUT_FORMATS, readStdin, runPrint, type OutputFormat } from './print/index.js';
 import { startRepl } from './repl.js';
 import { resolveSessionId, listSessions, loadSession } from './sessions/index.js';
 
@@ -15,7 +16,10 @@ const program = new Command()
   .option('-k, --api-key <key>', 'API key (overrides ARK_API_KEY env var)')
   .option('--thinking', 'Enable extended thinking mode')
   .option('--plan <plan>', 'API plan: api (default) or coding', 'api')
+  .option('--region <region>', 'Ark region, e.g. cn-beijing (default) or ap-southeast')
   .option('-r, --resume [session-id]', 'Resume a previous session (by ID prefix or most recent)')
+  .option('-p, --print [prompt]', 'Run one prompt without the interactive UI and print the result (prompt read from stdin when omitted)')
+  .option('--output-format <format>', 'Print mode output: text (default), json or stream-json', 'text')
   .option(
     '--dangerously-skip-permissions',
     'Skip all tool confirmation prompts (CI use only, blocked when stdin is TTY)'
@@ -23,6 +27,11 @@ const program = new Command()
   .addHelpText(
     'after',
     `
+Print mode:
+  seedcode -p "explain src/index.ts"              Print the final answer
+  git diff | seedcode -p --output-format json     Prompt from stdin, JSON result
+  Exit code 0 on success, 1 on failure, 130 when interrupted.
+
 Slash commands (in session):
   /help                 List available commands
   /status               Show current session status
@@ -41,7 +50,10 @@ async function main(): Promise<void> {
     apiKey?: string;
     thinking?: boolean;
     plan?: string;
+    region?: string;
     resume?: string | true;
+    print?: string | true;
+    outputFormat: string;
     dangerouslySkipPermissions?: boolean;
   }>();
 
@@ -60,11 +72,18 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  const outputFormat = opts.outputFormat as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(outputFormat)) {
+    process.stderr.write(`Error: invalid output format "${outputFormat}". Must be one of: ${OUTPUT_FORMATS.join(', ')}\n`);
+    process.exit(1);
+  }
+
   const config = loadConfig({
     model: opts.model,
     apiKey: opts.apiKey,
     thinking: opts.thinking,
     plan,
+    region: opts.region,
   });
 
   // --resume: resolve session ID and load messages
@@ -88,7 +107,24 @@ async function main(): Promise<void> {
       }
       resumeSessionId = resolved;
     }
-    process.stderr.write(`Resuming session ${resumeSessionId.slice(0, 8)}…\n`);
+    if (opts.print === undefined) {
+      process.stderr.write(`Resuming session ${resumeSessionId.slice(0, 8)}…\n`);
+    }
+  }
+
+  if (opts.print !== undefined) {
+    const prompt = (opts.print === true ? await readStdin() : opts.print).trim();
+    if (!prompt) {
+      process.stderr.write('Error: print mode needs a prompt, as an argument or on stdin.\n');
+      process.exit(1);
+    }
+    process.exitCode = await runPrint(config, {
+      prompt,
+      outputFormat,
+      skipConfirm: opts.dangerouslySkipPermissions ?? false,
+      resumeSessionId,
+    });
+    return;
   }
 
   await startRepl(config, VERSION, {
@@ -1,11 +1,14 @@
 /**
  * MediaStore — process-lifetime LRU cache for binary media captured by tools
- * (screenshots, readMedia, etc.).
+ * (screenshots, read) or pasted by the user.
  *
- * Tools store their binary data here and return only a lightweight { mediaId }
- * reference in the tool result. ReplApp injects the actual data into the next
- * streamText call as a `file` content part, preventing large base64 payloads
- * from accumulating in the messages history.
+ * Tool media is referenced by a lightweight { mediaId } so large base64
+ * payloads do not accumulate in the messages history or saved sessions:
+ * - The history keeps the tool's { mediaId, ...meta } output (`stripToolMedia`)
+ *   and each request sends the image natively in the tool result while it is
+ *   still cached (`inlineToolMedia`).
+ * - Pasted images are injected into the next streamText call as `file`
+ *   content parts of a user message, which stay in the history.
  *
  * LRU eviction: once MAX_ENTRIES is reached, the oldest entry is dropped.
  * Screenshots are typically ~300–800 KB each; 5 entries ≈ 4 MB max.
@@ -16,6 +19,8 @@ export interface StoredMedia {
   mediaType: string; // MIME type, e.g. "image/png"
   byteSize: number;
   capturedAt: number;
+  /** Returned by a tool — reaches the model via the tool result, not as an attachment */
+  fromTool?: boolean;
 }
 
 const MAX_ENTRIES = 5;
@@ -57,3 +62,8 @@ export function clearMediaStore(): void {
 export function allMediaIds(): string[] {
   return [...store.keys()];
 }
+
+/** Return IDs of user attachments not yet sent, oldest first (excludes tool media) */
+export function pendingAttachmentIds(): string[] {
+  return [...store.entries()].filter(([, m]) => !m.fromTool).map(([id]) => id);
+}
@@ -0,0 +1,108 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { createFakeArk, type FakeArk } from '@seedkit-ai/testing';
+import { ConfigSchema } from '../config/schema.js';
+import { deleteSession } from '../sessions/index.js';
+import { readStdin, runPrint, type PrintOptions } from './index.js';
+import type { PrintEvent, PrintResult } from './output.js';
+
+const config = ConfigSchema.parse({ apiKey: 'test-key' });
+
+/** Run print mode against the fake Ark server in a fresh directory and capture its output */
+async function print(ark: FakeArk, opts: Partial<PrintOptions> & { apiKey?: string } = {}) {
+  const { apiKey, ...printOpts } = opts;
+  const cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'seedcode-print-'));
+  const out = { stdout: '', stderr: '' };
+  try {
+    const exitCode = await runPrint(
+      { ...config, apiKey: 'apiKey' in opts ? apiKey : config.apiKey },
+      { prompt: 'hi', outputFormat: 'stream-json', skipConfirm: false, ...printOpts },
+      {
+        cwd,
+        stdout: (chunk) => { out.stdout += chunk; },
+        stderr: (chunk) => { out.stderr += chunk; },
+        fetch: ark.fetch,
+      },
+    );
+    return { exitCode, ...out };
+  } finally {
+    for (const line of out.stdout.split('\n').filter(Boolean)) {
+      const event = JSON.parse(line) as PrintEvent;
+      if (event.type === 'start') deleteSession(cwd, event.sessionId);
+    }
+    fs.rmSync(cwd, { recursive: true, force: true });
+  }
+}
+
+function parseLines(stdout: string): PrintEvent[] {
+  assert.ok(stdout.endsWith('\n'), 'output ends with a newline');
+  return stdout.trimEnd().split('\n').map((line) => JSON.parse(line) as PrintEvent);
+}
+
+test('stream-json prints one event per line, from start to result', async () => {
+  const ark = createFakeArk();
+  ark.chat.push({ toolCalls: [{ id: 'call-1', name: 'glob', arguments: { pattern: '*.nothing' } }] }, { text: 'No files.' });
+
+  const { exitCode, stdout } = await print(ark);
+
+  const events = parseLines(stdout);
+  const types = events.map((event) => event.type).filter((type, i, all) => !(type === 'text' && all[i - 1] === 'text'));
+  assert.deepEqual(types, ['start', 'tool-call', 'tool-result', 'step-finish', 'text', 'step-finish', 'result']);
+  const result = events.at(-1) as PrintResult;
+  assert.equal(result.isError, false);
+  assert.equal(result.result, 'No files.');
+  assert.equal(result.steps, 2);
+  assert.equal(result.sessionId, events[0].type === 'start' ? events[0].sessionId : undefined);
+  assert.equal(exitCode, 0);
+});
+
+test('exits with 1 and reports the error when the request fails', async () => {
+  const ark = createFakeArk();
+  ark.chat.push({ error: { status: 400, code: 'InvalidParameter', message: 'The prompt is invalid' } });
+
+  const { exitCode, stdout } = await print(ark, { outputFormat: 'json' });
+
+  const [result] = parseLines(stdout) as PrintResult[];
+  assert.equal(exitCode, 1);
+  assert.equal(result.isError, true);
+  assert.equal(result.error, 'The prompt is invalid');
+});
+
+test('exits with 1 without an API key', async () => {
+  const ark = createFakeArk();
+
+  const { exitCode, stderr } = await print(ark, { outputFormat: 'text', apiKey: undefined });
+
+  assert.equal(exitCode, 1);
+  assert.equal(stderr, 'Error: No API key. Set ARK_API_KEY or pass --api-key.\n');
+  assert.deepEqual(ark.requests, []);
+});
+
+test('denies tool calls that need confirmation', async () => {
+  const ark = createFakeArk();
+  const file = path.join(os.tmpdir(), `seedcode-${crypto.randomUUID().slice(0, 8)}.txt`);
+  ark.chat.push({ toolCalls: [{ id: 'call-1', name: 'write', arguments: { path: file, content: 'x' } }] }, { text: 'I could not write it.' });
+
+  const { exitCode, stdout } = await print(ark);
+
+  const toolResult = parseLines(stdout).find((event) => event.type === 'tool-result');
+  assert.deepEqual(toolResult, {
+    type: 'tool-result',
+    id: 'call-1',
+    toolName: 'write',
+    output: { error: 'User denied write operation.' },
+    isError: true,
+  });
+  assert.equal(fs.existsSync(file), false);
+  assert.equal(exitCode, 0);
+});
+
+test('readStdin reads a piped prompt and ignores a terminal', async () => {
+  assert.equal(await readStdin(Readable.from([Buffer.from('fix '), Buffer.from('the bug\n')])), 'fix the bug\n');
+  assert.equal(await readStdin(Object.assign(Readable.from(['typed']), { isTTY: true })), '');
+});
@@ -0,0 +1,166 @@
+import type { Config } from '../config/schema.js';
+import { buildContext } from '../context/index.js';
+import { AgentSession, type AgentEvent, type AgentTurnResult } from '../core/index.js';
+import { loadMcpConfig } from '../mcp/config.js';
+import { McpManager } from '../mcp/manager.js';
+import { createSession, loadSession } from '../sessions/index.js';
+import { MAX_TOOL_STEPS } from '../tools/index.js';
+import { createPrintWriter, type OutputFormat, type PrintEvent, type PrintResult, type PrintStreams } from './output.js';
+
+export { OUTPUT_FORMATS, type OutputFormat } from './output.js';
+
+/** Exit code when the run is interrupted with Ctrl+C (128 + SIGINT) */
+const EXIT_INTERRUPTED = 130;
+
+const NO_USER_ANSWER =
+  'No user is available to answer (non-interactive print mode). Continue with your best judgement.';
+
+export interface PrintOptions {
+  prompt: string;
+  outputFormat: OutputFormat;
+  /** Approve every tool call; otherwise calls that need confirmation are denied */
+  skipConfirm: boolean;
+  resumeSessionId?: string;
+}
+
+/** Where print mode runs and writes: the current process unless tests swap it */
+export interface PrintEnvironment extends PrintStreams {
+  cwd: string;
+  /** Custom fetch for all Ark requests */
+  fetch?: typeof globalThis.fetch;
+}
+
+function processEnvironment(): PrintEnvironment {
+  return {
+    cwd: process.cwd(),
+    stdout: (chunk) => process.stdout.write(chunk),
+    stderr: (chunk) => process.stderr.write(chunk),
+  };
+}
+
+/** Read all of a stream, e.g. the prompt piped to stdin; empty when it is an interactive terminal */
+export async function readStdin(stdin: NodeJS.ReadableStream & { isTTY?: boolean } = process.stdin): Promise<string> {
+  if (stdin.isTTY) return '';
+  const chunks: Buffer[] = [];
+  for await (const chunk of stdin) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/** Map session events onto the print-mode event schema; null for events print mode handles itself */
+function toPrintEvent(event: AgentEvent): PrintEvent | null {
+  switch (event.type) {
+    case 'text-delta':
+      return { type: 'text', text: event.text };
+    case 'reasoning-delta':
+      return { type: 'reasoning', text: event.text };
+    case 'tool-call':
+      return { type: 'tool-call', id: event.id, toolName: event.toolName, input: event.input };
+    case 'tool-end':
+      return { type: 'tool-result', id: event.id, toolName: event.toolName, output: event.output, isError: event.isError };
+    case 'step':
+      return { type: 'step-finish', step: event.step };
+    case 'retry':
+      return { type: 'retry', attempt: event.attempt, delayMs: event.delayMs, error: event.error };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Run one prompt through the agent tool loop without the Ink UI and print the
+ * outcome in the requested format. Resolves with the process exit code:
+ * 0 on success, 1 on failure, 130 when interrupted.
+ */
+export async function runPrint(config: Config, opts: PrintOptions, env: PrintEnvironment = processEnvironment()): Promise<number> {
+  const startedAt = Date.now();
+  const { cwd } = env;
+  const emit = createPrintWriter(opts.outputFormat, env);
+
+  const sessionId = opts.resumeSessionId ?? createSession(cwd);
+
+  const finish = (turn: Partial<AgentTurnResult>, error?: string): void => {
+    const result: PrintResult = {
+      type: 'result',
+      isError: error !== undefined,
+      sessionId,
+      model: config.model,
+      result: error === undefined ? turn.text ?? '' : '',
+      ...(error !== undefined ? { error } : {}),
+      steps: turn.steps ?? 0,
+      durationMs: Date.now() - startedAt,
+      usage: turn.usage ?? {},
+      ...(turn.cost ? { cost: turn.cost } : {}),
+      toolCalls: turn.toolCalls ?? [],
+    };
+    emit(result);
+  };
+
+  emit({ type: 'start', sessionId, model: config.model });
+
+  if (!config.apiKey) {
+    finish({}, 'No API key. Set ARK_API_KEY or pass --api-key.');
+    return 1;
+  }
+
+  const context = buildContext(cwd);
+  for (const warning of context.warnings) {
+    env.stderr(`⚠  ${warning}\n`);
+  }
+
+  const mcpConfig = loadMcpConfig(cwd);
+  const mcpManager = mcpConfig.servers.length > 0 ? new McpManager() : undefined;
+  await mcpManager?.connectAll(mcpConfig.servers);
+
+  const session = new AgentSession({
+    cwd,
+    apiKey: config.apiKey,
+    skipConfirm: opts.skipConfirm,
+    sessionId,
+    messages: opts.resumeSessionId ? loadSession(cwd, opts.resumeSessionId) : [],
+    getSystemPrompt: () => context.systemPrompt,
+    getAvailableSkills: () => context.skills,
+    mcpManager,
+    fetch: env.fetch,
+  });
+  session.on((event) => {
+    switch (event.type) {
+      // Nobody can answer prompts: deny confirmations unless permissions are skipped
+      case 'confirm':
+        event.pending.resolve(false);
+        return;
+      case 'question':
+        event.pending.resolve(NO_USER_ANSWER);
+        return;
+      case 'notice':
+        env.stderr(`${event.message}\n`);
+        return;
+    }
+    const printEvent = toPrintEvent(event);
+    if (printEvent) emit(printEvent);
+  });
+  session.addUserMessage(opts.prompt);
+
+  const onInterrupt = () => session.abort();
+  process.once('SIGINT', onInterrupt);
+
+  try {
+    const turn = await session.run(config);
+    switch (turn.status) {
+      case 'completed':
+        finish(turn);
+        return 0;
+      case 'aborted':
+        finish(turn, 'Interrupted');
+        return EXIT_INTERRUPTED;
+      case 'step-limit':
+        finish(turn, `Stopped at the ${MAX_TOOL_STEPS}-step limit.`);
+        return 1;
+      default:
+        finish(turn, turn.error?.message);
+        return 1;
+    }
+  } finally {
+    process.off('SIGINT', onInterrupt);
+    await mcpManager?.closeAll();
+  }
+}
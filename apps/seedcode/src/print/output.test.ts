@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createPrintWriter, type OutputFormat, type PrintEvent, type PrintResult } from './output.js';
+
+const result: PrintResult = {
+  type: 'result',
+  isError: false,
+  sessionId: 'session-1',
+  model: 'doubao-seed-1-8-251228',
+  result: 'Done.',
+  steps: 2,
+  durationMs: 1200,
+  usage: { inputTokens: 100, outputTokens: 20, totalTokens: 120 },
+  toolCalls: [{ id: 'call-1', toolName: 'read', input: { path: 'a.ts' }, output: { content: 'x', lineCount: 1 }, isError: false }],
+};
+
+const events: PrintEvent[] = [
+  { type: 'start', sessionId: 'session-1', model: 'doubao-seed-1-8-251228' },
+  { type: 'tool-call', id: 'call-1', toolName: 'read', input: { path: 'a.ts' } },
+  { type: 'retry', attempt: 1, delayMs: 1500, error: 'fetch failed' },
+  { type: 'text', text: 'Done.' },
+  result,
+];
+
+function render(format: OutputFormat, printEvents: PrintEvent[] = events) {
+  const out = { stdout: '', stderr: '' };
+  const write = createPrintWriter(format, {
+    stdout: (chunk) => { out.stdout += chunk; },
+    stderr: (chunk) => { out.stderr += chunk; },
+  });
+  printEvents.forEach(write);
+  return out;
+}
+
+test('text prints only the final answer', () => {
+  assert.deepEqual(render('text'), {
+    stdout: 'Done.\n',
+    stderr: 'Retrying in 1.5s (attempt 1/3): fetch failed\n',
+  });
+});
+
+test('text prints errors to stderr', () => {
+  const failed: PrintResult = { ...result, isError: true, result: '', error: 'Invalid API key' };
+  assert.deepEqual(render('text', [failed]), { stdout: '', stderr: 'Error: Invalid API key\n' });
+});
+
+test('json prints the result as one object', () => {
+  const { stdout, stderr } = render('json');
+  assert.deepEqual(JSON.parse(stdout), result);
+  assert.equal(stderr, '');
+});
+
+test('stream-json prints every event as a line', () => {
+  const lines = render('stream-json').stdout.trimEnd().split('\n');
+  assert.deepEqual(lines.map((line) => JSON.parse(line)), events);
+});
@@ -0,0 +1,70 @@
+import type { Cost } from '../utils/cost.js';
+
+export const OUTPUT_FORMATS = ['text', 'json', 'stream-json'] as const;
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export interface PrintToolCall {
+  id: string;
+  toolName: string;
+  input: unknown;
+  output: unknown;
+  isError: boolean;
+}
+
+/** Final outcome of a print run — the whole output in `json` mode, the last line in `stream-json` */
+export interface PrintResult {
+  type: 'result';
+  isError: boolean;
+  sessionId: string;
+  model: string;
+  /** Text of the last step, i.e. the answer */
+  result: string;
+  error?: string;
+  steps: number;
+  durationMs: number;
+  usage: { inputTokens?: number; outputTokens?: number; totalTokens?: number };
+  cost?: Cost;
+  toolCalls: PrintToolCall[];
+}
+
+export type PrintEvent =
+  | { type: 'start'; sessionId: string; model: string }
+  | { type: 'text'; text: string }
+  | { type: 'reasoning'; text: string }
+  | { type: 'tool-call'; id: string; toolName: string; input: unknown }
+  | ({ type: 'tool-result' } & Omit<PrintToolCall, 'input'>)
+  | { type: 'step-finish'; step: number }
+  | { type: 'retry'; attempt: number; delayMs: number; error: string }
+  | PrintResult;
+
+export interface PrintStreams {
+  stdout: (chunk: string) => void;
+  stderr: (chunk: string) => void;
+}
+
+/**
+ * Render print-mode events in the chosen format:
+ * - `text`: only the final answer on stdout, errors and retries on stderr
+ * - `json`: one JSON object with the result once the run ends
+ * - `stream-json`: every event as a line of JSON (NDJSON)
+ */
+export function createPrintWriter(format: OutputFormat, { stdout, stderr }: PrintStreams) {
+  return (event: PrintEvent): void => {
+    switch (format) {
+      case 'stream-json':
+        stdout(`${JSON.stringify(event)}\n`);
+        return;
+      case 'json':
+        if (event.type === 'result') stdout(`${JSON.stringify(event)}\n`);
+        return;
+      case 'text':
+        if (event.type === 'retry') {
+          stderr(`Retrying in ${(event.delayMs / 1000).toFixed(1)}s (attempt ${event.attempt}/3): ${event.error}\n`);
+        } else if (event.type === 'result') {
+          if (event.isError) stderr(`Error: ${event.error}\n`);
+          else if (event.result) stdout(`${event.result}\n`);
+        }
+        return;
+    }
+  };
+}
@@ -8,10 +8,14 @@ import { grepFiles } from './grep.js';
 import { runBashAsync, truncateBashOutput } from './bash.js';
 import { webSearch, webFetch } from '@seedkit-ai/tools';
 import { captureScreenshot, getDisplayList } from './screenshot.js';
+import { toolOutputWithMedia } from './media-output.js';
 import { createTaskStore } from './task.js';
 import { loadSkillBody, type SkillEntry } from '../context/skills.js';
 import { buildSpawnAgentTool, type SpawnAgentProgressInfo } from './spawn-agent.js';
 
+/** Maximum model steps (tool round-trips) in one turn */
+export const MAX_TOOL_STEPS = 50;
+
 export type ToolName = 'read' | 'edit' | 'write' | 'glob' | 'grep' | 'bash' | 'webSearch' | 'webFetch' | 'screenshot' | 'taskCreate' | 'taskUpdate' | 'taskGet' | 'taskList' | 'askQuestion' | 'loadSkill' | 'spawnAgent';
 
 export { createTaskStore };
@@ -109,7 +113,7 @@ export function buildTools(opts: {
         'Read a file. By default reads up to 2000 lines from the start. ' +
         'Use offset and limit to paginate through large files. ' +
         'Lines longer than 2000 chars are truncated. Returns cat -n formatted output with line numbers. ' +
-        'For image files (.png/.jpg/.jpeg/.gif/.webp/.bmp), stores the image for display and returns a mediaId.',
+        'For image files (.png/.jpg/.jpeg/.gif/.webp/.bmp), returns the image itself.',
       inputSchema: z.object({
         path: z.string().describe('Path to the file to read (absolute or relative to CWD)'),
         offset: z.number().int().min(0).optional().describe('Line offset to start reading from (0-based). Omit to start from the beginning.'),
@@ -125,6 +129,7 @@ export function buildTools(opts: {
           return { error: err instanceof Error ? err.message : String(err) };
         }
       },
+      toModelOutput: toolOutputWithMedia,
     }),
 
     edit: tool({
@@ -307,6 +312,7 @@ export function buildTools(opts: {
           return { error: err instanceof Error ? err.message : String(err) };
         }
       },
+      toModelOutput: toolOutputWithMedia,
     }),
 
     askQuestion: tool({
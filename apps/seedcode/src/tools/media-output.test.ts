@@ -0,0 +1,46 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import type { ModelMessage } from 'ai';
+import { inlineToolMedia, stripToolMedia, toolOutputWithMedia } from './media-output.js';
+import { storeMedia, clearMediaStore } from '../media-store.js';
+
+test('sends stored media as an image part of the tool result', () => {
+  clearMediaStore();
+  const mediaId = storeMedia({ data: 'data:image/jpeg;base64,AAEC', mediaType: 'image/jpeg', byteSize: 3, fromTool: true });
+  assert.deepEqual(toolOutputWithMedia({ output: { mediaId, mediaType: 'image/jpeg', byteSize: 3 } }), {
+    type: 'content',
+    value: [
+      { type: 'text', text: '{"mediaType":"image/jpeg","byteSize":3}' },
+      { type: 'image-data', data: 'AAEC', mediaType: 'image/jpeg' },
+    ],
+  });
+});
+
+test('falls back to metadata when the media was evicted', () => {
+  clearMediaStore();
+  assert.deepEqual(toolOutputWithMedia({ output: { mediaId: 'media_9', byteSize: 3 } }), {
+    type: 'json',
+    value: { byteSize: 3, note: 'Image no longer available.' },
+  });
+});
+
+test('passes other outputs through as JSON', () => {
+  assert.deepEqual(toolOutputWithMedia({ output: { content: 'hi', lineCount: 1 } }), {
+    type: 'json',
+    value: { content: 'hi', lineCount: 1 },
+  });
+});
+
+test('strips tool images from response messages and inlines them again', () => {
+  clearMediaStore();
+  const output = { mediaId: storeMedia({ data: 'AAEC', mediaType: 'image/png', byteSize: 3, fromTool: true }), mediaType: 'image/png', byteSize: 3 };
+  const response: ModelMessage[] = [
+    { role: 'tool', content: [{ type: 'tool-result', toolCallId: 'call-1', toolName: 'read', output: toolOutputWithMedia({ output }) }] },
+  ];
+
+  const history = stripToolMedia(response, new Map([['call-1', output]]));
+  assert.deepEqual(history, [
+    { role: 'tool', content: [{ type: 'tool-result', toolCallId: 'call-1', toolName: 'read', output: { type: 'json', value: output } }] },
+  ]);
+  assert.deepEqual(inlineToolMedia(history), response);
+});
@@ -0,0 +1,75 @@
+import type { JSONValue, ModelMessage, ToolResultPart } from 'ai';
+import { getMedia } from '../media-store.js';
+
+type MediaRef = { mediaId: string } & Record<string, JSONValue>;
+
+function isMediaRef(output: unknown): output is MediaRef {
+  return typeof output === 'object' && output !== null && typeof (output as { mediaId?: unknown }).mediaId === 'string';
+}
+
+/** Rewrite the output of every tool result in the tool messages */
+function mapToolResults(
+  messages: ModelMessage[],
+  fn: (part: ToolResultPart) => ToolResultPart['output'] | undefined,
+): ModelMessage[] {
+  return messages.map((message) =>
+    message.role !== 'tool'
+      ? message
+      : {
+          ...message,
+          content: message.content.map((part) => {
+            if (part.type !== 'tool-result') return part;
+            const output = fn(part);
+            return output ? { ...part, output } : part;
+          }),
+        }
+  );
+}
+
+/**
+ * `toModelOutput` for tools whose result may reference stored media via
+ * `mediaId`. The image is sent natively in the tool result while it is still
+ * in the MediaStore; after eviction (or on a resumed session) the model only
+ * sees the metadata. AgentSession stores the plain output in the history, so
+ * this also runs for earlier turns through `inlineToolMedia`.
+ */
+export function toolOutputWithMedia({ output }: { output: unknown }): ToolResultPart['output'] {
+  if (!isMediaRef(output)) {
+    return { type: 'json', value: (output ?? null) as JSONValue };
+  }
+
+  const { mediaId, ...meta } = output;
+  const media = getMedia(mediaId);
+  if (!media) {
+    return { type: 'json', value: { ...meta, note: 'Image no longer available.' } };
+  }
+
+  // Stored data may be a data-URL or raw base64
+  const data = media.data.replace(/^data:[^;]+;base64,/, '');
+  return {
+    type: 'content',
+    value: [
+      { type: 'text', text: JSON.stringify(meta) },
+      { type: 'image-data', data, mediaType: media.mediaType },
+    ],
+  };
+}
+
+/**
+ * Replace the images that `toolOutputWithMedia` put into response messages
+ * with the tool's own `{ mediaId, ...meta }` output, keyed by tool call ID, so
+ * the history and saved sessions hold no base64.
+ */
+export function stripToolMedia(messages: ModelMessage[], outputs: ReadonlyMap<string, unknown>): ModelMessage[] {
+  return mapToolResults(messages, ({ toolCallId, output }) => {
+    const raw = outputs.get(toolCallId);
+    return output.type === 'content' && isMediaRef(raw) ? { type: 'json', value: raw } : undefined;
+  });
+}
+
+/** Undo `stripToolMedia` for a request: media still in the MediaStore is sent again */
+export function inlineToolMedia(messages: ModelMessage[]): ModelMessage[] {
+  return mapToolResults(messages, ({ output }) =>
+    output.type === 'json' && isMediaRef(output.value) ? toolOutputWithMedia({ output: output.value }) : undefined
+  );
+}
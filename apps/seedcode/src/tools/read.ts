@@ -82,7 +82,7 @@ export function readFile(
   if (IMAGE_EXTENSIONS.has(ext)) {
     const buffer = fs.readFileSync(abs);
     const mediaType = mediaTypeForExt(ext);
-    const mediaId = storeMedia({ data: buffer.toString('base64'), mediaType, byteSize: buffer.length });
+    const mediaId = storeMedia({ data: buffer.toString('base64'), mediaType, byteSize: buffer.length, fromTool: true });
     return { mediaId, mediaType, byteSize: buffer.length };
   }
 
@@ -8,9 +8,9 @@ export interface ListDisplaysResult {
 
 export interface ScreenshotResult {
   /**
-   * Opaque reference ID — the actual base64 data is stored in MediaStore.
-   * ReplApp will inject the image into the next streamText call as a file
-   * content part. This keeps the messages history free of large binary data.
+   * Opaque reference ID — the actual base64 data is stored in MediaStore and
+   * sent to the model with the tool result (see `toolOutputWithMedia`). The
+   * history keeps only this reference (see `stripToolMedia`).
    */
   mediaId: string;
   mediaType: 'image/jpeg';
@@ -28,6 +28,7 @@ export async function captureScreenshot(
     data: result.data,
     mediaType: result.mediaType,
     byteSize: result.byteSize,
+    fromTool: true,
   });
   return {
     mediaId,
@@ -1,12 +1,10 @@
 import React, { useReducer, useCallback, useRef, useEffect } from 'react';
 import { Box } from 'ink';
 import type { ModelMessage } from 'ai';
-import { PLAN_PRESETS } from '../config/schema.js';
+import { PLAN_PRESETS, getPlanBaseURL } from '../config/schema.js';
 import type { Config } from '../config/schema.js';
 import type { SkillEntry } from '../context/index.js';
-import { handleSlashCommand, type SessionState } from '../commands/slash.js';
-import { createTaskStore } from '../tools/index.js';
-import { resolveMentions } from '../context/mentions.js';
+import { handleSlashCommand, buildContextInfo, describeModelSwitch, type SessionState } from '../commands/slash.js';
 import { createSession, loadSession, listSessions, type SessionEntry } from '../sessions/index.js';
 import { clearMediaStore } from '../media-store.js';
 import { InputBox } from './InputBox.js';
@@ -22,7 +20,10 @@ import { ConfirmPrompt } from './ConfirmPrompt.js';
 import { TaskListView } from './TaskListView.js';
 import { replReducer, type AppState } from './replReducer.js';
 import { useAgentContext } from './hooks/useAgentContext.js';
-import { useAgentStream, estimateContextPct } from './hooks/useAgentStream.js';
+import { useAgentStream } from './hooks/useAgentStream.js';
+import { estimateContextPct, getContextLimit } from '../core/index.js';
+import { countContextTokens } from '../utils/token-count.js';
+import type { Cost } from '../utils/cost.js';
 import type { McpManager } from '../mcp/manager.js';
 
 export type { TurnEntry } from './replReducer.js';
@@ -33,6 +34,7 @@ export interface SavedReplState {
   turnCount: number;
   staticTurns: import('./replReducer.js').TurnEntry[];
   totalTokens: number;
+  sessionCost?: Cost | null;
 }
 
 interface ReplAppProps {
@@ -58,6 +60,7 @@ const INITIAL_STATE = (initialConfig: Config, initialSkills: SkillEntry[]): AppS
   pendingQuestion: null,
   liveConfig: initialConfig,
   totalTokens: 0,
+  sessionCost: null,
   waitingForModel: false,
   availableSkills: initialSkills,
   resumeSessions: null,
@@ -73,7 +76,7 @@ export function ReplApp({ config: initialConfig, version, apiKey, onExit, onOpen
   const [state, dispatch] = useReducer(replReducer, undefined, () => {
     const base = INITIAL_STATE(initialConfig, initialSkills);
     if (savedState) {
-      return { ...base, staticTurns: savedState.staticTurns, totalTokens: savedState.totalTokens };
+      return { ...base, staticTurns: savedState.staticTurns, totalTokens: savedState.totalTokens, sessionCost: savedState.sessionCost ?? null };
     }
     // Show banner once at startup
     const banner = buildBannerText({
@@ -103,10 +106,8 @@ export function ReplApp({ config: initialConfig, version, apiKey, onExit, onOpen
   // Restore conversation state after returning from editor
   useEffect(() => {
     if (!savedState) return;
-    stream.messages.current = savedState.messages;
+    stream.session.setSession(savedState.sessionId, savedState.messages);
     stream.turnCount.current = savedState.turnCount;
-    context.sessionIdRef.current = savedState.sessionId;
-    stream.taskStore.current = createTaskStore(cwd, savedState.sessionId);
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   // ── Session management ─────────────────────────────────────────────────
@@ -119,10 +120,8 @@ export function ReplApp({ config: initialConfig, version, apiKey, onExit, onOpen
       dispatch({ type: 'PUSH_STATIC', entry: { type: 'info', content: '✗ Session not found or empty.' } });
       return;
     }
-    stream.messages.current = loaded;
+    stream.session.setSession(sessionId, loaded);
     stream.turnCount.current = loaded.filter((m) => m.role === 'user').length;
-    context.sessionIdRef.current = sessionId;
-    stream.taskStore.current = createTaskStore(cwd, sessionId);
 
     const turns = loaded.flatMap((m): import('./replReducer.js').TurnEntry[] => {
       if (m.role === 'user') {
@@ -167,36 +166,34 @@ export function ReplApp({ config: initialConfig, version, apiKey, onExit, onOpen
     });
     turns.push({ type: 'info', content: `✓ Resumed session ${sessionId.slice(0, 8)} (${loaded.length} messages)` });
     dispatch({ type: 'SET_STATIC_TURNS', turns });
-  }, [cwd, context, stream]);
+  }, [cwd, stream]);
 
   // ── Input / slash command handler ──────────────────────────────────────
 
   const handleSubmit = useCallback((input: string, displayValue?: string) => {
     if (stream.inFlight.current) return;
 
-    const { liveConfig, totalTokens } = stateRef.current;
+    const { liveConfig, totalTokens, sessionCost } = stateRef.current;
 
-    const cmdResult = handleSlashCommand(input, {
+    const sessionState: SessionState = {
       config: liveConfig,
       turnCount: stream.turnCount.current,
       version,
       totalTokens,
+      sessionCost,
       availableSkills: context.availableSkillsRef.current,
-      sessionId: context.sessionIdRef.current,
+      sessionId: stream.session.sessionId,
       cwd,
       systemPrompt: context.systemPromptRef.current,
       memoryFilePath: context.memoryFilePathRef.current,
-      messageHistoryChars: JSON.stringify(stream.messages.current).length,
-    } satisfies SessionState);
+    };
+    const cmdResult = handleSlashCommand(input, sessionState);
 
     if (cmdResult.type === 'exit') { onExit(); return; }
     if (cmdResult.type === 'clear') {
-      stream.messages.current = [];
+      stream.session.setSession(createSession(cwd));
       stream.turnCount.current = 0;
-      const newSessionId = createSession(cwd);
-      context.sessionIdRef.current = newSessionId;
       clearMediaStore();
-      stream.taskStore.current = createTaskStore(cwd, newSessionId);
       // ANSI clear — wipe ink's <Static> output that is append-only
       process.stdout.write('\x1b[2J\x1b[H');
       dispatch({ type: 'CLEAR' });
@@ -217,7 +214,7 @@ export function ReplApp({ config: initialConfig, version, apiKey, onExit, onOpen
       return;
     }
     if (cmdResult.type === 'resume_picker') {
-      const sessions = listSessions(cwd).filter((s) => s.sessionId !== context.sessionIdRef.current);
+      const sessions = listSessions(cwd).filter((s) => s.sessionId !== stream.session.sessionId);
       if (sessions.length === 0) {
         dispatch({ type: 'PUSH_STATIC', entry: { type: 'info', content: 'No other saved sessions for this directory.' } });
         return;
@@ -227,7 +224,7 @@ export function ReplApp({ config: initialConfig, version, apiKey, onExit, onOpen
     }
     if (cmdResult.type === 'model_change') {
       dispatch({ type: 'SET_MODEL', model: cmdResult.model });
-      dispatch({ type: 'PUSH_STATIC', entry: { type: 'info', content: `✓ Model: ${cmdResult.model}` } });
+      dispatch({ type: 'PUSH_STATIC', entry: { type: 'info', content: describeModelSwitch(cmdResult.model, stream.session.messages, liveConfig.thinking) } });
       return;
     }
     if (cmdResult.type === 'thinking_toggle') {
@@ -241,6 +238,21 @@ export function ReplApp({ config: initialConfig, version, apiKey, onExit, onOpen
       return;
     }
 
+    if (cmdResult.type === 'context_info') {
+      // Counting calls the tokenization endpoint; the report is pushed when it returns
+      void countContextTokens({
+        apiKey,
+        baseURL: getPlanBaseURL(liveConfig.plan, liveConfig.region),
+        endpoints: liveConfig.endpoints,
+        model: liveConfig.model,
+        systemPrompt: sessionState.systemPrompt,
+        messages: stream.session.messages,
+      }).then((tokens) => {
+        const content = buildContextInfo(sessionState, tokens, getContextLimit(liveConfig.model));
+        dispatch({ type: 'PUSH_STATIC', entry: { type: 'info', content } });
+      });
+      return;
+    }
     if (cmdResult.type === 'compact') {
       void stream.runCompact(liveConfig);
       return;
@@ -268,34 +280,20 @@ export function ReplApp({ config: initialConfig, version, apiKey, onExit, onOpen
     }
 
     stream.inFlight.current = true;
-    stream.abortRef.current = false;
-
-    const { cleanText, injected } = resolveMentions(input, cwd);
-    if (injected.length > 0) {
-      stream.messages.current.push({
-        role: 'user',
-        content: [
-          ...injected.map((f) => ({ type: 'text' as const, text: `<file path="${f.path}">\n${f.content}\n</file>` })),
-          { type: 'text' as const, text: cleanText || input },
-        ],
-      });
-    } else {
-      stream.messages.current.push({ role: 'user', content: input });
-    }
+    stream.session.addUserMessage(input);
     dispatch({ type: 'PUSH_STATIC', entry: { type: 'user', content: displayValue ?? input } });
     stream.turnCount.current++;
     dispatch({ type: 'STREAM_START' });
 
     void stream.runStream(liveConfig);
-  }, [version, onExit, context, stream, handleResumeSelect, cwd]);
+  }, [version, onExit, context, stream, handleResumeSelect, cwd, apiKey]);
 
   // ── Stable event handlers ──────────────────────────────────────────────
 
   const handleInterrupt = useCallback(() => {
     if (stream.inFlight.current) {
-      stream.abortRef.current = true;
       // Cancel the HTTP request and all sub-agent streams
-      stream.abortControllerRef.current?.abort();
+      stream.session.abort();
       const { pendingConfirm, pendingQuestion } = stateRef.current;
       if (pendingConfirm) {
         pendingConfirm.resolve(false);
@@ -321,9 +319,12 @@ export function ReplApp({ config: initialConfig, version, apiKey, onExit, onOpen
     dispatch({ type: 'SET_WAITING_FOR_MODEL', value: false });
     if (model) {
       dispatch({ type: 'SET_MODEL', model });
-      dispatch({ type: 'PUSH_STATIC', entry: { type: 'info', content: `✓ Model: ${model}` } });
+      dispatch({
+        type: 'PUSH_STATIC',
+        entry: { type: 'info', content: describeModelSwitch(model, stream.session.messages, stateRef.current.liveConfig.thinking) },
+      });
     }
-  }, []);
+  }, [stream]);
 
   const handleConfirm = useCallback((approved: boolean) => {
     const { pendingConfirm } = stateRef.current;
@@ -336,14 +337,15 @@ export function ReplApp({ config: initialConfig, version, apiKey, onExit, onOpen
     dispatch({ type: 'SET_MEMORY_PICKER', value: false });
     if (filePath) {
       onOpenEditor(filePath, {
-        messages: stream.messages.current,
-        sessionId: context.sessionIdRef.current,
+        messages: stream.session.messages,
+        sessionId: stream.session.sessionId,
         turnCount: stream.turnCount.current,
         staticTurns: stateRef.current.staticTurns,
         totalTokens: stateRef.current.totalTokens,
+        sessionCost: stateRef.current.sessionCost,
       });
     }
-  }, [onOpenEditor, stream, context, stateRef]);
+  }, [onOpenEditor, stream, stateRef]);
 
   const handleMcpAction = useCallback(async (action: McpPickerAction) => {
     dispatch({ type: 'SET_MCP_PICKER', value: false });
@@ -375,7 +377,7 @@ export function ReplApp({ config: initialConfig, version, apiKey, onExit, onOpen
     mcpPicker, mcpServers, currentStep,
   } = state;
 
-  const contextPct = streaming ? estimateContextPct(context.systemPromptRef.current, stream.messages.current) : undefined;
+  const contextPct = streaming ? estimateContextPct(context.systemPromptRef.current, stream.session.messages, liveConfig.model) : undefined;
 
   const activeTurnEntry =
     activeTurn !== null ? ({ type: 'assistant', content: activeTurn, done: false } as const) : null;
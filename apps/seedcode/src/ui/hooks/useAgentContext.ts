@@ -1,6 +1,5 @@
 import { useRef, useCallback, useEffect } from 'react';
 import { buildContext, type SkillEntry } from '../../context/index.js';
-import { createSession } from '../../sessions/index.js';
 import type { Action } from '../replReducer.js';
 
 interface UseAgentContextOptions {
@@ -11,7 +10,6 @@ interface UseAgentContextOptions {
 export interface AgentContext {
   systemPromptRef: React.MutableRefObject<string>;
   availableSkillsRef: React.MutableRefObject<SkillEntry[]>;
-  sessionIdRef: React.MutableRefObject<string>;
   memoryFilePathRef: React.MutableRefObject<string>;
   getEffectiveSystemPrompt: () => string;
   loadContext: () => void;
@@ -20,7 +18,6 @@ export interface AgentContext {
 export function useAgentContext({ cwd, dispatch }: UseAgentContextOptions): AgentContext {
   const systemPromptRef = useRef<string>('');
   const availableSkillsRef = useRef<SkillEntry[]>([]);
-  const sessionIdRef = useRef<string>(createSession(cwd));
   const memoryFilePathRef = useRef<string>('');
 
   const loadContext = useCallback(() => {
@@ -38,5 +35,5 @@ export function useAgentContext({ cwd, dispatch }: UseAgentContextOptions): Agen
 
   const getEffectiveSystemPrompt = useCallback((): string => systemPromptRef.current, []);
 
-  return { systemPromptRef, availableSkillsRef, sessionIdRef, memoryFilePathRef, getEffectiveSystemPrompt, loadContext };
+  return { systemPromptRef, availableSkillsRef, memoryFilePathRef, getEffectiveSystemPrompt, loadContext };
 }
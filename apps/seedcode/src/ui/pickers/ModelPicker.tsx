@@ -1,5 +1,6 @@
 import React, { useState, useRef } from 'react';
 import { useInput } from 'ink';
+import { getSeedModelInfo } from '@seedkit-ai/ai-sdk-provider';
 import { AVAILABLE_MODELS } from '../../commands/slash.js';
 import { ListPicker, type ListPickerItem } from './ListPicker.js';
 
@@ -10,7 +11,7 @@ interface ModelPickerProps {
 
 export function ModelPicker({ currentModel, onSelect }: ModelPickerProps) {
   const [idx, setIdx] = useState(() => {
-    const found = AVAILABLE_MODELS.indexOf(currentModel as typeof AVAILABLE_MODELS[number]);
+    const found = currentModel ? AVAILABLE_MODELS.indexOf(currentModel) : -1;
     return found >= 0 ? found : 0;
   });
   const idxRef = useRef(idx);
@@ -34,6 +35,7 @@ export function ModelPicker({ currentModel, onSelect }: ModelPickerProps) {
   const items: ListPickerItem[] = AVAILABLE_MODELS.map((m) => ({
     key: m,
     label: m,
+    detail: formatModelInfo(m),
     color: m === currentModel ? 'cyan' : undefined,
     tag: m === currentModel ? 'current' : undefined,
   }));
@@ -47,3 +49,11 @@ export function ModelPicker({ currentModel, onSelect }: ModelPickerProps) {
     />
   );
 }
+
+function formatModelInfo(model: string): string | undefined {
+  const info = getSeedModelInfo(model);
+  if (!info) return undefined;
+  const inputs = (['image', 'video', 'pdf'] as const).filter((input) => info.input[input]);
+  return `${info.contextWindow / 1024}K context · ${info.maxOutputTokens / 1024}K output` +
+    (inputs.length > 0 ? ` · ${inputs.join(', ')}` : '');
+}
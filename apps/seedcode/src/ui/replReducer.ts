@@ -6,6 +6,7 @@ import type { ToolCallEntry } from './ToolCallView.js';
 import type { SessionEntry } from '../sessions/index.js';
 import type { SkillEntry } from '../context/index.js';
 import type { McpServerStatus } from '../mcp/manager.js';
+import { addCost, type Cost } from '../utils/cost.js';
 
 export type TurnEntry =
   | { type: 'user'; content: string }
@@ -25,6 +26,8 @@ export interface AppState {
   pendingQuestion: PendingQuestion | null;
   liveConfig: Config;
   totalTokens: number;
+  /** Cost of all priced calls this session, null until the first one */
+  sessionCost: Cost | null;
   waitingForModel: boolean;
   availableSkills: SkillEntry[];
   resumeSessions: SessionEntry[] | null;
@@ -55,6 +58,7 @@ export type Action =
   | { type: 'TOGGLE_THINKING' }
   | { type: 'ADD_TOKENS'; count: number }
   | { type: 'SET_TOTAL_TOKENS'; count: number }
+  | { type: 'ADD_COST'; cost: Cost }
   | { type: 'SET_WAITING_FOR_MODEL'; value: boolean }
   | { type: 'SET_AVAILABLE_SKILLS'; skills: SkillEntry[] }
   | { type: 'SET_RESUME_SESSIONS'; sessions: SessionEntry[] | null }
@@ -156,6 +160,9 @@ export function replReducer(state: AppState, action: Action): AppState {
     case 'SET_TOTAL_TOKENS':
       return { ...state, totalTokens: action.count };
 
+    case 'ADD_COST':
+      return { ...state, sessionCost: addCost(state.sessionCost, action.cost) };
+
     case 'SET_WAITING_FOR_MODEL':
       return { ...state, waitingForModel: action.value };
 
@@ -202,6 +209,7 @@ export function replReducer(state: AppState, action: Action): AppState {
         pendingConfirm: null,
         pendingQuestion: null,
         totalTokens: 0,
+        sessionCost: null,
         currentStep: null,
       };
   }
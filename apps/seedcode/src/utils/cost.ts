@@ -0,0 +1,31 @@
+/** Money spent on model calls, from `providerMetadata.seed.cost` */
+export interface Cost {
+  currency: string;
+  total: number;
+}
+
+type ProviderMetadata = Record<string, Record<string, unknown>> | undefined;
+
+/** Sum the `seed.cost` of calls; undefined when no call was priced */
+export function sumCosts(metadata: ProviderMetadata[]): Cost | undefined {
+  let sum: Cost | undefined;
+  for (const m of metadata) {
+    const cost = m?.seed?.cost as Cost | undefined;
+    if (cost) sum = addCost(sum, cost);
+  }
+  return sum;
+}
+
+/** Add two costs. Prices come from one pricing table, so currencies are assumed to match. */
+export function addCost(a: Cost | null | undefined, b: Cost): Cost {
+  return { currency: b.currency, total: (a?.total ?? 0) + b.total };
+}
+
+export function formatCost({ currency, total }: Cost): string {
+  const amount = total < 0.01 ? total.toFixed(4) : total.toFixed(2);
+  switch (currency) {
+    case 'CNY': return `¥${amount}`;
+    case 'USD': return `$${amount}`;
+    default: return `${amount} ${currency}`;
+  }
+}
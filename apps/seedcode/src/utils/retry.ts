@@ -1,11 +1,37 @@
+import { RetryError } from 'ai';
+import {
+  SeedAPICallError,
+  SeedAuthenticationError,
+  SeedQuotaExceededError,
+  SeedRateLimitError,
+} from '@seedkit-ai/ai-sdk-provider';
+
 const BASE_DELAY_MS = 1_000;
 const MAX_ATTEMPTS = 3;
 
+export type ErrorClass = 'rate_limit' | 'quota' | 'network' | 'auth' | 'unknown';
+
+/**
+ * Unwrap the AI SDK's RetryError to the error of the last attempt.
+ */
+function unwrapError(err: unknown): unknown {
+  return RetryError.isInstance(err) ? err.lastError : err;
+}
+
 /**
  * Check if an error is retryable (transient network / rate-limit).
- * Returns a descriptive category or null if not retryable.
+ * Typed Seed API errors are classified by kind; anything else by its message.
  */
-export function classifyError(err: unknown): 'rate_limit' | 'network' | 'auth' | 'unknown' {
+export function classifyError(error: unknown): ErrorClass {
+  const err = unwrapError(error);
+
+  if (SeedAPICallError.isInstance(err)) {
+    if (SeedAuthenticationError.isInstance(err)) return 'auth';
+    if (SeedRateLimitError.isInstance(err)) return 'rate_limit';
+    if (SeedQuotaExceededError.isInstance(err)) return 'quota';
+    return err.isRetryable ? 'network' : 'unknown';
+  }
+
   const msg = err instanceof Error ? err.message : String(err);
   const lower = msg.toLowerCase();
 
@@ -32,7 +58,8 @@ export function isRetryable(err: unknown): boolean {
 
 /**
  * Retry an async function with exponential backoff + jitter.
- * Only retries on transient errors (429, 503, network failures).
+ * Only retries on transient errors (429, 503, network failures), waiting at
+ * least as long as the server's Retry-After.
  *
  * @param fn - The async function to execute
  * @param onRetry - Optional callback fired before each retry with (attempt, delayMs, error)
@@ -56,7 +83,9 @@ export async function withRetry<T>(
       // Exponential backoff: 1s, 2s, 4s + jitter (±25%)
       const base = BASE_DELAY_MS * Math.pow(2, attempt - 1);
       const jitter = base * 0.25 * (Math.random() * 2 - 1); // -25% to +25%
-      const delay = Math.round(base + jitter);
+      // Honour the server's Retry-After when it asks for a longer wait
+      const retryAfterMs = retryAfterOf(err) ?? 0;
+      const delay = Math.round(Math.max(base + jitter, retryAfterMs));
       onRetry?.(attempt, delay, err);
       await sleep(delay, signal);
     }
@@ -64,6 +93,11 @@ export async function withRetry<T>(
   throw lastErr;
 }
 
+function retryAfterOf(error: unknown): number | undefined {
+  const err = unwrapError(error);
+  return SeedAPICallError.isInstance(err) ? err.retryAfterMs : undefined;
+}
+
 function sleep(ms: number, signal?: AbortSignal): Promise<void> {
   return new Promise((resolve) => {
     if (signal?.aborted) { resolve(); return; }
@@ -0,0 +1,66 @@
+import type { ModelMessage } from 'ai';
+import { createSeed, type SeedProvider } from '@seedkit-ai/ai-sdk-provider';
+
+/** Give up on the tokenization endpoint after this long and estimate instead */
+const TOKENIZE_TIMEOUT_MS = 5_000;
+
+export interface ContextTokens {
+  systemTokens: number;
+  historyTokens: number;
+  /** false when counts are the ~4 chars/token estimate */
+  exact: boolean;
+}
+
+/** Rough token estimate: 4 chars per token */
+export function estimateTokens(chars: number): number {
+  return Math.ceil(chars / 4);
+}
+
+export function estimateContextTokens(systemPrompt: string, messages: ModelMessage[]): ContextTokens {
+  return {
+    systemTokens: estimateTokens(systemPrompt.length),
+    historyTokens: estimateTokens(JSON.stringify(messages).length),
+    exact: false,
+  };
+}
+
+// One provider per key/endpoint so tokenizer caches survive across calls
+const providers = new Map<string, SeedProvider>();
+
+function getProvider(apiKey: string, baseURL: string, endpoints: Record<string, string>, fetch?: typeof globalThis.fetch): SeedProvider {
+  // A custom fetch (tests) gets its own provider instead of a cached one
+  if (fetch) return createSeed({ apiKey, baseURL, endpoints, fetch });
+  const key = `${baseURL}\n${apiKey}\n${JSON.stringify(endpoints)}`;
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = createSeed({ apiKey, baseURL, endpoints });
+    providers.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * Count context tokens with the Ark tokenization endpoint.
+ * Falls back to the chars/4 estimate when offline or the endpoint fails.
+ */
+export async function countContextTokens({ apiKey, baseURL, endpoints = {}, fetch, model, systemPrompt, messages }: {
+  apiKey: string;
+  baseURL: string;
+  endpoints?: Record<string, string>;
+  fetch?: typeof globalThis.fetch;
+  model: string;
+  systemPrompt: string;
+  messages: ModelMessage[];
+}): Promise<ContextTokens> {
+  try {
+    const tokenizer = getProvider(apiKey, baseURL, endpoints, fetch).tokenizer(model as Parameters<SeedProvider['tokenizer']>[0]);
+    const abortSignal = AbortSignal.timeout(TOKENIZE_TIMEOUT_MS);
+    const [systemTokens, historyTokens] = await Promise.all([
+      tokenizer.count(systemPrompt, { abortSignal }),
+      tokenizer.count(messages, { abortSignal }),
+    ]);
+    return { systemTokens, historyTokens, exact: true };
+  } catch {
+    return estimateContextTokens(systemPrompt, messages);
+  }
+}
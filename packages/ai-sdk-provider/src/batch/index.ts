@@ -0,0 +1,7 @@
+export {
+  SeedBatch,
+  type SeedBatchConfig,
+  type SeedBatchJob,
+  type SeedBatchJobStatus,
+  type SeedBatchResult,
+} from './seed-batch';
@@ -0,0 +1,79 @@
+import { InferSchema, lazySchema, zodSchema } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+
+const seedBatchJobSchemaObject = z.object({
+  id: z.string(),
+  model: z.string().nullish(),
+  status: z.enum([
+    'validating',
+    'queued',
+    'in_progress',
+    'finalizing',
+    'completed',
+    'failed',
+    'expired',
+    'cancelling',
+    'cancelled',
+  ]),
+  created_at: z.number().nullish(),
+  completed_at: z.number().nullish(),
+  expires_at: z.number().nullish(),
+  request_counts: z
+    .object({
+      total: z.number().nullish(),
+      completed: z.number().nullish(),
+      failed: z.number().nullish(),
+    })
+    .nullish(),
+  error: z
+    .object({
+      code: z.string().nullish(),
+      message: z.string().nullish(),
+    })
+    .nullish(),
+  metadata: z.record(z.string(), z.string()).nullish(),
+});
+
+export const seedBatchJobSchema = lazySchema(() =>
+  zodSchema(seedBatchJobSchemaObject),
+);
+
+export const seedBatchJobListSchema = lazySchema(() =>
+  zodSchema(
+    z.object({
+      data: z.array(seedBatchJobSchemaObject),
+      has_more: z.boolean().nullish(),
+      last_id: z.string().nullish(),
+    }),
+  ),
+);
+
+export const seedBatchResultsSchema = lazySchema(() =>
+  zodSchema(
+    z.object({
+      data: z.array(
+        z.object({
+          custom_id: z.string(),
+          response: z
+            .object({
+              status_code: z.number().nullish(),
+              // Validated against the chat response schema per item
+              body: z.unknown(),
+            })
+            .nullish(),
+          error: z
+            .object({
+              code: z.string().nullish(),
+              message: z.string().nullish(),
+            })
+            .nullish(),
+        }),
+      ),
+    }),
+  ),
+);
+
+export type SeedBatchJobResponse = InferSchema<typeof seedBatchJobSchema>;
+export type SeedBatchResultsResponse = InferSchema<
+  typeof seedBatchResultsSchema
+>;
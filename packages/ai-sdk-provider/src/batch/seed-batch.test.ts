@@ -0,0 +1,282 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SeedBatch } from './seed-batch';
+
+const BASE_URL = 'https://ark.cn-beijing.volces.com/api/v3';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+/**
+ * In-memory fake of the batch endpoints. Jobs complete after `pollsUntilDone`
+ * status checks and answer every request with an echo of its last message.
+ */
+const createFakeBatchServer = ({ pollsUntilDone = 1 } = {}) => {
+  const jobs = new Map<
+    string,
+    { status: string; polls: number; requests: Array<any> }
+  >();
+
+  const job = (id: string) => {
+    const { status, requests } = jobs.get(id)!;
+    return {
+      id,
+      model: 'test-model',
+      status,
+      created_at: 1732000000,
+      request_counts: {
+        total: requests.length,
+        completed: status === 'completed' ? requests.length : 0,
+        failed: 0,
+      },
+    };
+  };
+
+  const fetch = vi.fn(
+    async (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(input.toString());
+      const path = url.pathname.replace('/api/v3', '');
+      const method = init?.method ?? 'GET';
+
+      if (method === 'POST' && path === '/batches') {
+        const body = JSON.parse(init!.body as string);
+        const id = `batch_${jobs.size + 1}`;
+        jobs.set(id, {
+          status: 'validating',
+          polls: 0,
+          requests: body.requests,
+        });
+        return json(job(id));
+      }
+
+      if (method === 'GET' && path === '/batches') {
+        return json({
+          data: [...jobs.keys()].map(job),
+          has_more: false,
+          last_id: [...jobs.keys()].at(-1),
+        });
+      }
+
+      const match = path.match(/^\/batches\/([^/]+)(\/cancel|\/results)?$/);
+      const state = match != null ? jobs.get(match[1]) : undefined;
+      if (match == null || state == null) {
+        return json({ error: { message: 'batch not found' } }, 404);
+      }
+
+      if (match[2] === '/cancel') {
+        state.status = 'cancelled';
+        return json(job(match[1]));
+      }
+
+      if (match[2] === '/results') {
+        return json({
+          data: state.requests
+            .map(request =>
+              request.body.messages.at(-1).content[0].text === 'fail'
+                ? {
+                    custom_id: request.custom_id,
+                    error: { code: 'InvalidParameter', message: 'bad request' },
+                  }
+                : {
+                    custom_id: request.custom_id,
+                    response: {
+                      status_code: 200,
+                      body: {
+                        id: `chatcmpl-${request.custom_id}`,
+                        model: 'test-model',
+                        choices: [
+                          {
+                            index: 0,
+                            message: {
+                              role: 'assistant',
+                              content: `echo: ${request.body.messages.at(-1).content[0].text}`,
+                            },
+                            finish_reason: 'stop',
+                          },
+                        ],
+                        usage: { prompt_tokens: 5, completion_tokens: 3 },
+                      },
+                    },
+                  },
+            )
+            .reverse(),
+        });
+      }
+
+      state.polls++;
+      if (state.status !== 'cancelled') {
+        state.status =
+          state.polls >= pollsUntilDone ? 'completed' : 'in_progress';
+      }
+      return json(job(match[1]));
+    },
+  );
+
+  return { fetch, jobs };
+};
+
+const createBatch = (fetch: typeof globalThis.fetch) =>
+  new SeedBatch({
+    provider: 'seed.batch',
+    baseURL: BASE_URL,
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch,
+  });
+
+const userPrompt = (text: string) => ({
+  prompt: [
+    { role: 'user' as const, content: [{ type: 'text' as const, text }] },
+  ],
+});
+
+describe('SeedBatch', () => {
+  it('serializes calls with the chat request mapping', async () => {
+    const server = createFakeBatchServer();
+    const batch = createBatch(server.fetch);
+
+    const { job, warnings } = await batch.submit({
+      modelId: 'test-model',
+      calls: [
+        { ...userPrompt('a'), temperature: 0.2, topK: 4 },
+        {
+          ...userPrompt('b'),
+          providerOptions: { seed: { thinking: true } },
+        },
+      ],
+      completionWindow: '24h',
+    });
+
+    expect(job).toMatchObject({
+      id: 'batch_1',
+      status: 'validating',
+      requestCounts: { total: 2 },
+    });
+    expect(warnings).toEqual([[{ type: 'unsupported', feature: 'topK' }], []]);
+
+    const body = JSON.parse(server.fetch.mock.calls[0][1]!.body as string);
+    expect(body.model).toBe('test-model');
+    expect(body.completion_window).toBe('24h');
+    expect(body.requests[0]).toEqual({
+      custom_id: 'request-0',
+      method: 'POST',
+      url: '/chat/completions',
+      body: {
+        model: 'test-model',
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'a' }] }],
+        temperature: 0.2,
+      },
+    });
+    expect(body.requests[1].body.thinking).toEqual({ type: 'enabled' });
+  });
+
+  it('waits for completion and maps results back in call order', async () => {
+    const server = createFakeBatchServer({ pollsUntilDone: 3 });
+    const batch = createBatch(server.fetch);
+
+    const { job } = await batch.submit({
+      modelId: 'test-model',
+      calls: [userPrompt('first'), userPrompt('fail'), userPrompt('third')],
+    });
+    const finished = await batch.waitForCompletion(job.id, {
+      pollIntervalMs: 0,
+    });
+    const results = await batch.getResults(job.id);
+
+    expect(finished.status).toBe('completed');
+    expect(results.map(result => result.index)).toEqual([0, 1, 2]);
+    expect(results[0]).toMatchObject({
+      customId: 'request-0',
+      content: [{ type: 'text', text: 'echo: first' }],
+      finishReason: { unified: 'stop', raw: 'stop' },
+      usage: { inputTokens: { total: 5 }, outputTokens: { total: 3 } },
+      response: { id: 'chatcmpl-request-0', modelId: 'test-model' },
+      error: undefined,
+    });
+    expect(results[1]).toMatchObject({
+      content: [],
+      finishReason: { unified: 'error' },
+      error: { code: 'InvalidParameter', message: 'bad request' },
+    });
+  });
+
+  it('cancels and lists jobs', async () => {
+    const server = createFakeBatchServer();
+    const batch = createBatch(server.fetch);
+
+    const { job } = await batch.submit({
+      modelId: 'test-model',
+      calls: [userPrompt('a')],
+    });
+    const cancelled = await batch.cancel(job.id);
+    const { jobs, hasMore } = await batch.list({ limit: 10 });
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(jobs.map(({ id, status }) => ({ id, status }))).toEqual([
+      { id: 'batch_1', status: 'cancelled' },
+    ]);
+    expect(hasMore).toBe(false);
+    expect(server.fetch.mock.calls.at(-1)![0].toString()).toBe(
+      `${BASE_URL}/batches?limit=10`,
+    );
+  });
+
+  it('times out while the job is still running', async () => {
+    const server = createFakeBatchServer({ pollsUntilDone: Infinity });
+    const batch = createBatch(server.fetch);
+
+    const { job } = await batch.submit({
+      modelId: 'test-model',
+      calls: [userPrompt('a')],
+    });
+
+    await expect(
+      batch.waitForCompletion(job.id, { pollIntervalMs: 1, pollTimeoutMs: 0 }),
+    ).rejects.toThrow('Batch job did not finish');
+  });
+
+  it('stops waiting as soon as it is aborted', async () => {
+    const server = createFakeBatchServer({ pollsUntilDone: Infinity });
+    const batch = createBatch(server.fetch);
+    const { job } = await batch.submit({
+      modelId: 'test-model',
+      calls: [userPrompt('a')],
+    });
+    const controller = new AbortController();
+
+    const waiting = batch.waitForCompletion(job.id, {
+      pollIntervalMs: 60_000,
+      abortSignal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(waiting).rejects.toThrow('aborted');
+  });
+
+  it('rejects calls that use a context cache', async () => {
+    const server = createFakeBatchServer();
+    const batch = createBatch(server.fetch);
+
+    await expect(
+      batch.submit({
+        modelId: 'test-model',
+        calls: [
+          {
+            ...userPrompt('a'),
+            providerOptions: { seed: { contextId: 'ctx-1' } },
+          },
+        ],
+      }),
+    ).rejects.toThrow('cannot use a context cache');
+    expect(server.fetch).not.toHaveBeenCalled();
+  });
+
+  it('rejects empty batches', async () => {
+    const batch = createBatch(createFakeBatchServer().fetch);
+
+    await expect(
+      batch.submit({ modelId: 'test-model', calls: [] }),
+    ).rejects.toThrow('at least one call');
+  });
+});
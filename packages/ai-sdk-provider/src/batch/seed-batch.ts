@@ -0,0 +1,389 @@
+import {
+  AISDKError,
+  LanguageModelV3CallOptions,
+  LanguageModelV3Content,
+  LanguageModelV3FinishReason,
+  LanguageModelV3Usage,
+  SharedV3Warning,
+} from '@ai-sdk/provider';
+import {
+  FetchFunction,
+  combineHeaders,
+  createJsonResponseHandler,
+  delay,
+  getFromApi,
+  postJsonToApi,
+  removeUndefinedEntries,
+  safeValidateTypes,
+} from '@ai-sdk/provider-utils';
+import { convertSeedUsage } from '../chat/convert-seed-chat-usage';
+import { getResponseMetadata } from '../chat/get-response-metadata';
+import { mapSeedFinishReason } from '../chat/map-seed-finish-reason';
+import { seedChatResponseSchema } from '../chat/seed-chat-api';
+import {
+  SeedChatLanguageModel,
+  extractSeedChatContent,
+} from '../chat/seed-chat-language-model';
+import { SeedModelId } from '../chat/seed-chat-options';
+import { seedFailedResponseHandler } from '../chat/seed-error';
+import { SeedEndpointResolver } from '../endpoints';
+import {
+  SeedBatchJobResponse,
+  seedBatchJobListSchema,
+  seedBatchJobSchema,
+  seedBatchResultsSchema,
+} from './seed-batch-api';
+
+export interface SeedBatchConfig {
+  provider: string;
+  baseURL: string;
+  headers: () => Record<string, string>;
+  fetch?: FetchFunction;
+  endpoints?: SeedEndpointResolver;
+}
+
+export type SeedBatchJobStatus = SeedBatchJobResponse['status'];
+
+export interface SeedBatchJob {
+  id: string;
+  modelId: string | undefined;
+  status: SeedBatchJobStatus;
+  createdAt: Date | undefined;
+  completedAt: Date | undefined;
+  expiresAt: Date | undefined;
+  requestCounts: {
+    total: number;
+    completed: number;
+    failed: number;
+  };
+  error: { code?: string; message?: string } | undefined;
+  metadata: Record<string, string> | undefined;
+}
+
+export interface SeedBatchResult {
+  /** Position of the call in the submitted `calls` array. */
+  index: number;
+  customId: string;
+  content: LanguageModelV3Content[];
+  finishReason: LanguageModelV3FinishReason;
+  usage: LanguageModelV3Usage;
+  response:
+    | { id?: string; modelId?: string; timestamp?: Date; body: unknown }
+    | undefined;
+  /** Set when the individual request failed. */
+  error: { code?: string; message: string } | undefined;
+}
+
+type RequestOptions = {
+  headers?: Record<string, string | undefined>;
+  abortSignal?: AbortSignal;
+};
+
+const CUSTOM_ID_PREFIX = 'request-';
+
+/** Statuses after which a batch job no longer changes. */
+const TERMINAL_STATUSES: ReadonlySet<SeedBatchJobStatus> = new Set([
+  'completed',
+  'failed',
+  'expired',
+  'cancelled',
+]);
+
+/**
+ * Client for offline batch chat completions.
+ *
+ * Calls are serialized with the same request mapping as `seed.chat()`, so
+ * provider options, tools and response formats behave identically. Results
+ * are mapped back to AI SDK content, finish reasons and usage.
+ */
+export class SeedBatch {
+  constructor(private readonly config: SeedBatchConfig) {}
+
+  /**
+   * Submits a batch job. Each call gets the custom ID `request-<index>`.
+   *
+   * @returns the created job and the warnings produced for each call.
+   */
+  async submit({
+    modelId,
+    calls,
+    completionWindow,
+    metadata,
+    headers,
+    abortSignal,
+  }: {
+    modelId: SeedModelId;
+    calls: LanguageModelV3CallOptions[];
+    /** Time the server may take to finish the job, e.g. `'24h'`. */
+    completionWindow?: string;
+    metadata?: Record<string, string>;
+  } & RequestOptions): Promise<{
+    job: SeedBatchJob;
+    warnings: SharedV3Warning[][];
+  }> {
+    if (calls.length === 0) {
+      throw new AISDKError({
+        name: 'SEED_BATCH_ERROR',
+        message: 'A batch job needs at least one call',
+      });
+    }
+
+    const model = new SeedChatLanguageModel(modelId, this.config);
+    const requests = [];
+    const warnings: SharedV3Warning[][] = [];
+
+    for (const [index, call] of calls.entries()) {
+      const {
+        body,
+        contextId,
+        warnings: callWarnings,
+      } = await model.getRequestBody(call);
+      // Batch requests only go to /chat/completions, not the context API
+      if (contextId != null) {
+        throw new AISDKError({
+          name: 'SEED_BATCH_ERROR',
+          message: `Batch calls cannot use a context cache (contextId in call ${index})`,
+        });
+      }
+      requests.push({
+        custom_id: `${CUSTOM_ID_PREFIX}${index}`,
+        method: 'POST',
+        url: '/chat/completions',
+        body,
+      });
+      warnings.push(callWarnings);
+    }
+
+    const { value: response } = await postJsonToApi({
+      url: `${this.config.baseURL}/batches`,
+      headers: combineHeaders(this.config.headers(), headers),
+      body: removeUndefinedEntries({
+        model: this.config.endpoints?.getRequestModelId(modelId) ?? modelId,
+        requests,
+        completion_window: completionWindow,
+        metadata,
+      }),
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(seedBatchJobSchema),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return { job: convertBatchJob(response), warnings };
+  }
+
+  async get(
+    batchId: string,
+    { headers, abortSignal }: RequestOptions = {},
+  ): Promise<SeedBatchJob> {
+    const { value: response } = await getFromApi({
+      url: `${this.config.baseURL}/batches/${batchId}`,
+      headers: combineHeaders(this.config.headers(), headers),
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(seedBatchJobSchema),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return convertBatchJob(response);
+  }
+
+  async cancel(
+    batchId: string,
+    { headers, abortSignal }: RequestOptions = {},
+  ): Promise<SeedBatchJob> {
+    const { value: response } = await postJsonToApi({
+      url: `${this.config.baseURL}/batches/${batchId}/cancel`,
+      headers: combineHeaders(this.config.headers(), headers),
+      body: {},
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(seedBatchJobSchema),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return convertBatchJob(response);
+  }
+
+  async list({
+    limit,
+    after,
+    headers,
+    abortSignal,
+  }: { limit?: number; after?: string } & RequestOptions = {}): Promise<{
+    jobs: SeedBatchJob[];
+    hasMore: boolean;
+    lastId: string | undefined;
+  }> {
+    const query = new URLSearchParams(
+      removeUndefinedEntries({
+        limit: limit?.toString(),
+        after,
+      }),
+    ).toString();
+
+    const { value: response } = await getFromApi({
+      url: `${this.config.baseURL}/batches${query ? `?${query}` : ''}`,
+      headers: combineHeaders(this.config.headers(), headers),
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        seedBatchJobListSchema,
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return {
+      jobs: response.data.map(convertBatchJob),
+      hasMore: response.has_more ?? false,
+      lastId: response.last_id ?? undefined,
+    };
+  }
+
+  /**
+   * Fetches the per-call results of a finished job, ordered by call index.
+   */
+  async getResults(
+    batchId: string,
+    { headers, abortSignal }: RequestOptions = {},
+  ): Promise<SeedBatchResult[]> {
+    const { value: response } = await getFromApi({
+      url: `${this.config.baseURL}/batches/${batchId}/results`,
+      headers: combineHeaders(this.config.headers(), headers),
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        seedBatchResultsSchema,
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    const results: SeedBatchResult[] = [];
+
+    for (const item of response.data) {
+      const index = Number(item.custom_id.slice(CUSTOM_ID_PREFIX.length));
+      const failed = {
+        index,
+        customId: item.custom_id,
+        content: [],
+        finishReason: { unified: 'error' as const, raw: undefined },
+        usage: convertSeedUsage(undefined),
+        response: undefined,
+      };
+
+      if (item.error != null || item.response == null) {
+        results.push({
+          ...failed,
+          error: {
+            code: item.error?.code ?? undefined,
+            message: item.error?.message ?? 'Batch request failed',
+          },
+        });
+        continue;
+      }
+
+      const parsed = await safeValidateTypes({
+        value: item.response.body,
+        schema: seedChatResponseSchema,
+      });
+
+      if (!parsed.success) {
+        results.push({
+          ...failed,
+          error: { message: parsed.error.message },
+        });
+        continue;
+      }
+
+      const body = parsed.value;
+      const choice = body.choices[0];
+
+      results.push({
+        index,
+        customId: item.custom_id,
+        content: choice != null ? extractSeedChatContent(choice.message) : [],
+        finishReason: mapSeedFinishReason(choice?.finish_reason),
+        usage: convertSeedUsage(body.usage),
+        response: { ...getResponseMetadata(body), body: item.response.body },
+        error: undefined,
+      });
+    }
+
+    return results.sort((a, b) => a.index - b.index);
+  }
+
+  /**
+   * Polls a job until it reaches a terminal status.
+   *
+   * @returns the final job; check `status` to see whether it completed.
+   */
+  async waitForCompletion(
+    batchId: string,
+    {
+      pollIntervalMs = 30000,
+      pollTimeoutMs = 86400000,
+      headers,
+      abortSignal,
+    }: {
+      pollIntervalMs?: number;
+      pollTimeoutMs?: number;
+    } & RequestOptions = {},
+  ): Promise<SeedBatchJob> {
+    const startTime = Date.now();
+
+    while (true) {
+      if (abortSignal?.aborted) {
+        throw new AISDKError({
+          name: 'SEED_BATCH_ABORTED',
+          message: 'Waiting for the batch job was aborted',
+        });
+      }
+
+      const job = await this.get(batchId, { headers, abortSignal });
+
+      if (TERMINAL_STATUSES.has(job.status)) {
+        return job;
+      }
+
+      if (Date.now() - startTime > pollTimeoutMs) {
+        throw new AISDKError({
+          name: 'SEED_BATCH_TIMEOUT',
+          message: `Batch job did not finish within ${pollTimeoutMs}ms (batch: ${batchId})`,
+        });
+      }
+
+      try {
+        await delay(pollIntervalMs, { abortSignal });
+      } catch {
+        // Aborted while sleeping; reported at the top of the loop
+      }
+    }
+  }
+}
+
+function convertBatchJob(job: SeedBatchJobResponse): SeedBatchJob {
+  const toDate = (seconds: number | null | undefined) =>
+    seconds != null ? new Date(seconds * 1000) : undefined;
+
+  return {
+    id: job.id,
+    modelId: job.model ?? undefined,
+    status: job.status,
+    createdAt: toDate(job.created_at),
+    completedAt: toDate(job.completed_at),
+    expiresAt: toDate(job.expires_at),
+    requestCounts: {
+      total: job.request_counts?.total ?? 0,
+      completed: job.request_counts?.completed ?? 0,
+      failed: job.request_counts?.failed ?? 0,
+    },
+    error:
+      job.error != null
+        ? {
+            code: job.error.code ?? undefined,
+            message: job.error.message ?? undefined,
+          }
+        : undefined,
+    metadata: job.metadata ?? undefined,
+  };
+}
@@ -0,0 +1,43 @@
+import { SharedV3ProviderMetadata } from '@ai-sdk/provider';
+import { SeedChatResponse } from './seed-chat-api';
+
+/** Log probability of one output token and its most likely alternatives. */
+export type SeedChatLogprob = {
+  token: string;
+  logprob: number;
+  topLogprobs: Array<{ token: string; logprob: number }>;
+};
+
+type SeedLogprobsContent = NonNullable<
+  NonNullable<SeedChatResponse['choices'][number]['logprobs']>['content']
+>;
+
+/**
+ * Converts Seed token log probabilities to the format reported in
+ * `providerMetadata.seed.logprobs`.
+ */
+export function convertSeedChatLogprobs(
+  content: SeedLogprobsContent | null | undefined,
+): SeedChatLogprob[] {
+  return (content ?? []).map(({ token, logprob, top_logprobs }) => ({
+    token,
+    logprob,
+    topLogprobs: (top_logprobs ?? []).map(alternative => ({
+      token: alternative.token,
+      logprob: alternative.logprob,
+    })),
+  }));
+}
+
+export function withLogprobsProviderMetadata(
+  providerMetadata: SharedV3ProviderMetadata | undefined,
+  logprobs: SeedChatLogprob[] | undefined,
+): SharedV3ProviderMetadata | undefined {
+  if (logprobs == null) {
+    return providerMetadata;
+  }
+  return {
+    ...providerMetadata,
+    seed: { ...providerMetadata?.seed, logprobs },
+  };
+}
@@ -668,6 +668,135 @@ describe('convertToSeedChatMessages', () => {
         { role: 'tool', tool_call_id: 'call_2', content: 'Shanghai: Rainy' },
       ]);
     });
+
+    it('should convert tool result with text-only content output', () => {
+      const result = convertToSeedChatMessages([
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_1',
+              toolName: 'read',
+              output: {
+                type: 'content',
+                value: [
+                  { type: 'text', text: 'line 1' },
+                  { type: 'text', text: 'line 2' },
+                ],
+              },
+            },
+          ],
+        },
+      ]);
+
+      expect(result).toEqual([
+        { role: 'tool', tool_call_id: 'call_1', content: 'line 1\nline 2' },
+      ]);
+    });
+
+    it('should send tool result images in a following user message', () => {
+      const result = convertToSeedChatMessages([
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_1',
+              toolName: 'screenshot',
+              output: {
+                type: 'content',
+                value: [
+                  { type: 'text', text: 'Captured screen' },
+                  {
+                    type: 'image-data',
+                    data: 'AAECAw==',
+                    mediaType: 'image/png',
+                  },
+                ],
+              },
+            },
+            {
+              type: 'tool-result',
+              toolCallId: 'call_2',
+              toolName: 'read',
+              output: {
+                type: 'content',
+                value: [
+                  { type: 'image-url', url: 'https://example.com/a.jpg' },
+                ],
+              },
+            },
+          ],
+        },
+      ]);
+
+      expect(result).toEqual([
+        {
+          role: 'tool',
+          tool_call_id: 'call_1',
+          content: 'Captured screen\n[1 attachment(s) in the next message]',
+        },
+        {
+          role: 'tool',
+          tool_call_id: 'call_2',
+          content: '[1 attachment(s) in the next message]',
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Attachments from tool call call_1:' },
+            {
+              type: 'image_url',
+              image_url: { url: 'data:image/png;base64,AAECAw==' },
+            },
+            { type: 'text', text: 'Attachments from tool call call_2:' },
+            {
+              type: 'image_url',
+              image_url: { url: 'https://example.com/a.jpg' },
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('should convert PDF files in tool results', () => {
+      const result = convertToSeedChatMessages([
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_1',
+              toolName: 'read',
+              output: {
+                type: 'content',
+                value: [
+                  {
+                    type: 'file-data',
+                    data: 'JVBERi0=',
+                    mediaType: 'application/pdf',
+                    filename: 'spec.pdf',
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      ]);
+
+      expect(result[1]).toEqual({
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Attachments from tool call call_1:' },
+          {
+            type: 'input_file',
+            file_data: 'data:application/pdf;base64,JVBERi0=',
+            filename: 'spec.pdf',
+          },
+        ],
+      });
+    });
   });
 
   describe('conversation flow', () => {
@@ -1,6 +1,8 @@
 import {
   LanguageModelV3DataContent,
+  LanguageModelV3FilePart,
   LanguageModelV3Prompt,
+  LanguageModelV3ToolResultOutput,
   UnsupportedFunctionalityError,
 } from '@ai-sdk/provider';
 import { convertToBase64 } from '@ai-sdk/provider-utils';
@@ -23,6 +25,71 @@ function formatDataUrl(
   return `data:${mediaType};base64,${convertToBase64(data)}`;
 }
 
+function convertFilePart(
+  part: Omit<LanguageModelV3FilePart, 'type'>,
+): SeedChatUserMessageContent {
+  const { mediaType, data } = part;
+
+  if (mediaType.startsWith('image/')) {
+    const detail = part.providerOptions?.['seed']?.['detail'] as
+      'low' | 'high' | undefined;
+    return {
+      type: 'image_url',
+      image_url: {
+        url: formatDataUrl(data, mediaType),
+        ...(detail != null && { detail }),
+      },
+    };
+  }
+  if (mediaType.startsWith('video/')) {
+    const fps = part.providerOptions?.['seed']?.['fps'] as number | undefined;
+    return {
+      type: 'video_url',
+      video_url: {
+        url: formatDataUrl(data, mediaType),
+        ...(fps != null && { fps }),
+      },
+    };
+  }
+  if (mediaType === 'application/pdf') {
+    // URL format
+    if (data instanceof URL) {
+      return {
+        type: 'input_file',
+        file_url: data.toString(),
+      };
+    }
+    // String: could be URL or base64
+    if (typeof data === 'string') {
+      // Check if it's a URL (http/https) or data URL
+      if (data.startsWith('http://') || data.startsWith('https://')) {
+        return {
+          type: 'input_file',
+          file_url: data,
+        };
+      }
+      // Base64 string or data URL
+      const base64Data = data.startsWith('data:')
+        ? data
+        : `data:application/pdf;base64,${data}`;
+      return {
+        type: 'input_file',
+        file_data: base64Data,
+        filename: part.filename ?? 'document.pdf',
+      };
+    }
+    // Uint8Array: convert to base64
+    return {
+      type: 'input_file',
+      file_data: `data:application/pdf;base64,${convertToBase64(data)}`,
+      filename: part.filename ?? 'document.pdf',
+    };
+  }
+  throw new UnsupportedFunctionalityError({
+    functionality: `File type: ${mediaType}`,
+  });
+}
+
 export function convertToSeedChatMessages(
   prompt: LanguageModelV3Prompt,
 ): SeedChatPrompt {
@@ -47,74 +114,8 @@ export function convertToSeedChatMessages(
                 case 'text':
                   return { type: 'text', text: part.text };
 
-                case 'file': {
-                  const { mediaType, data } = part;
-
-                  if (mediaType.startsWith('image/')) {
-                    const detail = part.providerOptions?.['seed']?.[
-                      'detail'
-                    ] as 'low' | 'high' | undefined;
-                    return {
-                      type: 'image_url',
-                      image_url: {
-                        url: formatDataUrl(data, mediaType),
-                        ...(detail != null && { detail }),
-                      },
-                    };
-                  }
-                  if (mediaType.startsWith('video/')) {
-                    const fps = part.providerOptions?.['seed']?.[
-                      'fps'
-                    ] as number | undefined;
-                    return {
-                      type: 'video_url',
-                      video_url: {
-                        url: formatDataUrl(data, mediaType),
-                        ...(fps != null && { fps }),
-                      },
-                    };
-                  }
-                  if (mediaType === 'application/pdf') {
-                    // URL format
-                    if (data instanceof URL) {
-                      return {
-                        type: 'input_file',
-                        file_url: data.toString(),
-                      };
-                    }
-                    // String: could be URL or base64
-                    if (typeof data === 'string') {
-                      // Check if it's a URL (http/https) or data URL
-                      if (
-                        data.startsWith('http://') ||
-                        data.startsWith('https://')
-                      ) {
-                        return {
-                          type: 'input_file',
-                          file_url: data,
-                        };
-                      }
-                      // Base64 string or data URL
-                      const base64Data = data.startsWith('data:')
-                        ? data
-                        : `data:application/pdf;base64,${data}`;
-                      return {
-                        type: 'input_file',
-                        file_data: base64Data,
-                        filename: part.filename ?? 'document.pdf',
-                      };
-                    }
-                    // Uint8Array: convert to base64
-                    return {
-                      type: 'input_file',
-                      file_data: `data:application/pdf;base64,${convertToBase64(data)}`,
-                      filename: part.filename ?? 'document.pdf',
-                    };
-                  }
-                  throw new UnsupportedFunctionalityError({
-                    functionality: `File type: ${mediaType}`,
-                  });
-                }
+                case 'file':
+                  return convertFilePart(part);
 
                 default: {
                   const _exhaustiveCheck: never = part;
@@ -178,6 +179,10 @@ export function convertToSeedChatMessages(
       }
 
       case 'tool': {
+        // Tool messages only accept text, so images and files from tool
+        // results follow in a user message after the last tool message.
+        const mediaContent: SeedChatUserMessageContent[] = [];
+
         for (const toolResponse of message.content) {
           if (toolResponse.type === 'tool-approval-response') {
             continue;
@@ -198,11 +203,33 @@ export function convertToSeedChatMessages(
             case 'execution-denied':
               content = output.reason ?? 'Tool execution denied.';
               break;
-            case 'content':
-              content = output.value
-                .map(v => (v.type === 'text' ? v.text : JSON.stringify(v)))
-                .join('\n');
+            case 'content': {
+              const texts: string[] = [];
+              const media = output.value.flatMap(
+                (item): SeedChatUserMessageContent[] => {
+                  if (item.type === 'text') {
+                    texts.push(item.text);
+                    return [];
+                  }
+                  return [convertToolResultMediaPart(item)];
+                },
+              );
+
+              if (media.length > 0) {
+                texts.push(
+                  `[${media.length} attachment(s) in the next message]`,
+                );
+                mediaContent.push(
+                  {
+                    type: 'text',
+                    text: `Attachments from tool call ${toolResponse.toolCallId}:`,
+                  },
+                  ...media,
+                );
+              }
+              content = texts.join('\n');
               break;
+            }
           }
 
           messages.push({
@@ -211,6 +238,10 @@ export function convertToSeedChatMessages(
             content,
           });
         }
+
+        if (mediaContent.length > 0) {
+          messages.push({ role: 'user', content: mediaContent });
+        }
         break;
       }
 
@@ -225,3 +256,36 @@ export function convertToSeedChatMessages(
 
   return messages;
 }
+
+function convertToolResultMediaPart(
+  item: Exclude<
+    Extract<
+      LanguageModelV3ToolResultOutput,
+      { type: 'content' }
+    >['value'][number],
+    { type: 'text' }
+  >,
+): SeedChatUserMessageContent {
+  switch (item.type) {
+    case 'image-data':
+    case 'file-data':
+      return convertFilePart({
+        data: item.data,
+        mediaType: item.mediaType,
+        filename: item.type === 'file-data' ? item.filename : undefined,
+        providerOptions: item.providerOptions,
+      });
+    case 'image-url':
+      return convertFilePart({
+        data: new URL(item.url),
+        mediaType: 'image/*',
+        providerOptions: item.providerOptions,
+      });
+    case 'file-url':
+      return { type: 'input_file', file_url: item.url };
+    default:
+      throw new UnsupportedFunctionalityError({
+        functionality: `Tool result content type: ${item.type}`,
+      });
+  }
+}
@@ -0,0 +1,60 @@
+import { APICallError } from '@ai-sdk/provider';
+import {
+  type FetchFunction,
+  isAbortError,
+  removeUndefinedEntries,
+} from '@ai-sdk/provider-utils';
+import { seedFailedResponseHandler } from './seed-error';
+
+/**
+ * Sends a `DELETE` request, which provider-utils has no helper for. Network
+ * failures become retryable `APICallError`s and error responses typed Seed
+ * errors, as with `getFromApi` and `postJsonToApi`.
+ */
+export async function deleteFromApi({
+  url,
+  headers,
+  abortSignal,
+  fetch = globalThis.fetch,
+}: {
+  url: string;
+  headers: Record<string, string | undefined>;
+  abortSignal?: AbortSignal;
+  fetch?: FetchFunction;
+}): Promise<void> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'DELETE',
+      headers: removeUndefinedEntries(headers),
+      signal: abortSignal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    // `fetch failed` errors carry the network error as their cause
+    const cause =
+      error instanceof Error && error.cause instanceof Error
+        ? error.cause
+        : error;
+    throw new APICallError({
+      message: `Cannot connect to API: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      cause,
+      url,
+      requestBodyValues: {},
+      isRetryable: true,
+    });
+  }
+
+  if (!response.ok) {
+    const { value: error } = await seedFailedResponseHandler({
+      url,
+      requestBodyValues: {},
+      response,
+    });
+    throw error;
+  }
+}
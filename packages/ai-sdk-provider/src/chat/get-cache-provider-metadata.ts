@@ -0,0 +1,25 @@
+import { SharedV3ProviderMetadata } from '@ai-sdk/provider';
+
+/**
+ * Reports whether the prompt was served from Seed's context cache.
+ * Returns undefined when the response carries no cache information.
+ */
+export function getCacheProviderMetadata({
+  cachedTokens,
+  contextId,
+}: {
+  cachedTokens: number | null | undefined;
+  contextId?: string;
+}): SharedV3ProviderMetadata | undefined {
+  if (cachedTokens == null && contextId == null) {
+    return undefined;
+  }
+
+  return {
+    seed: {
+      cacheHit: (cachedTokens ?? 0) > 0,
+      cachedTokens: cachedTokens ?? 0,
+      ...(contextId != null ? { contextId } : {}),
+    },
+  };
+}
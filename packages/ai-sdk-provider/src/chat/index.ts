@@ -1,3 +1,4 @@
+export { type SeedChatLogprob } from './convert-seed-chat-logprobs';
 export {
   SeedChatLanguageModel,
   type SeedChatConfig,
@@ -6,3 +7,14 @@ export {
   type SeedChatOptions,
   type SeedModelId,
 } from './seed-chat-options';
+export {
+  SeedAPICallError,
+  SeedAuthenticationError,
+  SeedContentModerationError,
+  SeedInvalidParameterError,
+  SeedModelNotFoundError,
+  SeedQuotaExceededError,
+  SeedRateLimitError,
+  type SeedErrorData,
+  type SeedErrorKind,
+} from './seed-error';
@@ -1,5 +1,6 @@
 import { InferSchema, lazySchema, zodSchema } from '@ai-sdk/provider-utils';
 import { z } from 'zod';
+import { seedErrorDataSchema } from './seed-error';
 
 const seedUsageSchema = z.object({
   prompt_tokens: z.number().nullish(),
@@ -26,6 +27,22 @@ const seedToolCallSchema = z.object({
   }),
 });
 
+const seedTokenLogprobSchema = z.object({
+  token: z.string(),
+  logprob: z.number(),
+  bytes: z.array(z.number()).nullish(),
+});
+
+const seedLogprobsSchema = z.object({
+  content: z
+    .array(
+      seedTokenLogprobSchema.extend({
+        top_logprobs: z.array(seedTokenLogprobSchema).nullish(),
+      }),
+    )
+    .nullish(),
+});
+
 const seedMessageSchema = z.object({
   role: z.literal('assistant'),
   content: z.string().nullish(),
@@ -44,6 +61,7 @@ export const seedChatResponseSchema = lazySchema(() =>
         z.object({
           index: z.number(),
           message: seedMessageSchema,
+          logprobs: seedLogprobsSchema.nullish(),
           finish_reason: z.string().nullish(),
         }),
       ),
@@ -83,11 +101,14 @@ export const seedChatChunkSchema = lazySchema(() =>
                 )
                 .nullish(),
             }),
+            logprobs: seedLogprobsSchema.nullish(),
             finish_reason: z.string().nullish(),
           }),
         )
         .nullish(),
       usage: seedUsageSchema.nullish(),
+      /** Set when the request fails after the stream has started. */
+      error: seedErrorDataSchema.nullish(),
     }),
   ),
 );
@@ -1,5 +1,10 @@
 import { describe, expect, it, vi } from 'vitest';
+import { SeedEndpointResolver } from '../endpoints';
 import { SeedChatLanguageModel } from './seed-chat-language-model';
+import {
+  SeedContentModerationError,
+  SeedModelNotFoundError,
+} from './seed-error';
 
 // Mock fetch for testing
 const createMockFetch = (response: unknown, status = 200) => {
@@ -453,6 +458,66 @@ describe('SeedChatLanguageModel', () => {
         }),
       ).rejects.toThrow('No content in response message');
     });
+
+    it('should throw typed errors for failed requests', async () => {
+      const model = createModel(
+        createMockFetch(
+          {
+            error: {
+              code: 'InvalidEndpointOrModel.NotFound',
+              message: 'The model does not exist',
+              type: 'NotFound',
+            },
+          },
+          404,
+        ),
+      );
+
+      const error = await model
+        .doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        })
+        .catch(error => error);
+
+      expect(SeedModelNotFoundError.isInstance(error)).toBe(true);
+      expect(error).toMatchObject({
+        statusCode: 404,
+        code: 'InvalidEndpointOrModel.NotFound',
+        isRetryable: false,
+      });
+    });
+
+    it('should emit typed errors sent mid-stream', async () => {
+      const chunks = [
+        'data: {"id":"1","choices":[{"index":0,"delta":{"content":"Hel"},"finish_reason":null}]}\n\n',
+        'data: {"error":{"code":"OutputTextSensitiveContentDetected","message":"The output may contain sensitive content","type":"BadRequest"}}\n\n',
+      ];
+
+      const model = createModel(createStreamingMockFetch(chunks));
+      const result = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      });
+
+      const parts: any[] = [];
+      const reader = result.stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const errorPart = parts.find(part => part.type === 'error');
+      expect(SeedContentModerationError.isInstance(errorPart.error)).toBe(
+        true,
+      );
+      expect(errorPart.error.message).toBe(
+        'The output may contain sensitive content',
+      );
+      expect(parts.at(-1)).toMatchObject({
+        type: 'finish',
+        finishReason: { unified: 'error' },
+      });
+    });
   });
 
   describe('doStream', () => {
@@ -561,6 +626,383 @@ describe('SeedChatLanguageModel', () => {
     });
   });
 
+  describe('context caching', () => {
+    it('should send calls with contextId to the context chat endpoint', async () => {
+      const mockFetch = createMockFetch({
+        id: 'chatcmpl-123',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Cached answer' },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: {
+          prompt_tokens: 1200,
+          completion_tokens: 4,
+          prompt_tokens_details: { cached_tokens: 1024 },
+        },
+      });
+      const model = createModel(mockFetch);
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        providerOptions: { seed: { contextId: 'ctx-123' } },
+      });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe(
+        'https://ark.cn-beijing.volces.com/api/v3/context/chat/completions',
+      );
+      expect(JSON.parse(init.body).context_id).toBe('ctx-123');
+      expect(result.providerMetadata).toEqual({
+        seed: { cacheHit: true, cachedTokens: 1024, contextId: 'ctx-123' },
+      });
+    });
+
+    it('should report cache misses in stream finish metadata', async () => {
+      const chunks = [
+        'data: {"id":"1","choices":[{"index":0,"delta":{"content":"Hi"},"finish_reason":"stop"}]}\n\n',
+        'data: {"id":"1","choices":[],"usage":{"prompt_tokens":5,"completion_tokens":1,"prompt_tokens_details":{"cached_tokens":0}}}\n\n',
+        'data: [DONE]\n\n',
+      ];
+      const mockFetch = createStreamingMockFetch(chunks);
+      const model = createModel(mockFetch);
+
+      const result = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      });
+
+      const parts: unknown[] = [];
+      const reader = result.stream.getReader();
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://ark.cn-beijing.volces.com/api/v3/chat/completions',
+      );
+      expect(parts.at(-1)).toMatchObject({
+        type: 'finish',
+        providerMetadata: { seed: { cacheHit: false, cachedTokens: 0 } },
+      });
+    });
+  });
+
+  describe('cost', () => {
+    const createPricedModel = (fetchMock: typeof fetch) =>
+      new SeedChatLanguageModel('ep-20250101-abc', {
+        provider: 'seed.chat',
+        baseURL: 'https://ark.cn-beijing.volces.com/api/v3',
+        headers: () => ({ Authorization: 'Bearer test-key' }),
+        fetch: fetchMock,
+        pricing: {
+          'doubao-seed-1-6': {
+            tiers: [{ input: 1, cachedInput: 0.5, output: 10 }],
+          },
+        },
+      });
+
+    it('should report the cost of the response model', async () => {
+      const model = createPricedModel(
+        createMockFetch({
+          id: 'chatcmpl-123',
+          model: 'doubao-seed-1-6-250615',
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Hi' },
+              finish_reason: 'stop',
+            },
+          ],
+          usage: {
+            prompt_tokens: 3000,
+            completion_tokens: 200,
+            prompt_tokens_details: { cached_tokens: 1000 },
+          },
+        }),
+      );
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      });
+
+      expect(result.providerMetadata).toEqual({
+        seed: {
+          cacheHit: true,
+          cachedTokens: 1000,
+          cost: {
+            currency: 'CNY',
+            input: 0.002,
+            cachedInput: 0.0005,
+            output: 0.002,
+            total: 0.0045,
+          },
+        },
+      });
+    });
+
+    it('should report the cost in stream finish metadata', async () => {
+      const model = createPricedModel(
+        createStreamingMockFetch([
+          'data: {"id":"1","model":"doubao-seed-1-6-250615","choices":[{"index":0,"delta":{"content":"Hi"},"finish_reason":"stop"}]}\n\n',
+          'data: {"id":"1","choices":[],"usage":{"prompt_tokens":1000,"completion_tokens":100}}\n\n',
+          'data: [DONE]\n\n',
+        ]),
+      );
+
+      const result = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      });
+
+      const parts: unknown[] = [];
+      const reader = result.stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(parts.at(-1)).toMatchObject({
+        type: 'finish',
+        providerMetadata: {
+          seed: { cost: { currency: 'CNY', total: 0.002 } },
+        },
+      });
+    });
+  });
+
+  describe('logprobs', () => {
+    it('should send logprobs when topLogprobs is set', async () => {
+      const mockFetch = createMockFetch({
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'Yes' },
+            finish_reason: 'stop',
+          },
+        ],
+      });
+
+      await createModel(mockFetch).doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        providerOptions: { seed: { topLogprobs: 2 } },
+      });
+
+      const body = JSON.parse(
+        (mockFetch.mock.calls[0][1] as RequestInit).body as string,
+      );
+      expect(body.logprobs).toBe(true);
+      expect(body.top_logprobs).toBe(2);
+    });
+
+    it('should report logprobs in provider metadata', async () => {
+      const model = createModel(
+        createMockFetch({
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Yes' },
+              logprobs: {
+                content: [
+                  {
+                    token: 'Yes',
+                    logprob: -0.01,
+                    bytes: [89, 101, 115],
+                    top_logprobs: [
+                      { token: 'Yes', logprob: -0.01 },
+                      { token: 'No', logprob: -4.6 },
+                    ],
+                  },
+                ],
+              },
+              finish_reason: 'stop',
+            },
+          ],
+        }),
+      );
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        providerOptions: { seed: { logprobs: true, topLogprobs: 2 } },
+      });
+
+      expect(result.providerMetadata?.seed?.logprobs).toEqual([
+        {
+          token: 'Yes',
+          logprob: -0.01,
+          topLogprobs: [
+            { token: 'Yes', logprob: -0.01 },
+            { token: 'No', logprob: -4.6 },
+          ],
+        },
+      ]);
+    });
+
+    it('should accumulate logprobs per token in stream finish metadata', async () => {
+      const model = createModel(
+        createStreamingMockFetch([
+          'data: {"id":"1","choices":[{"index":0,"delta":{"content":"Hello"},"logprobs":{"content":[{"token":"Hello","logprob":-0.1,"top_logprobs":[]}]},"finish_reason":null}]}\n\n',
+          'data: {"id":"1","choices":[{"index":0,"delta":{"content":" world"},"logprobs":{"content":[{"token":" world","logprob":-0.2,"top_logprobs":[]}]},"finish_reason":"stop"}]}\n\n',
+          'data: [DONE]\n\n',
+        ]),
+      );
+
+      const result = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        providerOptions: { seed: { logprobs: true } },
+      });
+
+      const parts: unknown[] = [];
+      const reader = result.stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(parts.at(-1)).toMatchObject({
+        type: 'finish',
+        providerMetadata: {
+          seed: {
+            logprobs: [
+              { token: 'Hello', logprob: -0.1, topLogprobs: [] },
+              { token: ' world', logprob: -0.2, topLogprobs: [] },
+            ],
+          },
+        },
+      });
+    });
+
+    it('should omit logprobs when the response has none', async () => {
+      const model = createModel(
+        createMockFetch({
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Yes' },
+              finish_reason: 'stop',
+            },
+          ],
+        }),
+      );
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      });
+
+      expect(result.providerMetadata).toBeUndefined();
+    });
+  });
+
+  describe('endpoints', () => {
+    const createEndpointModel = (fetchMock: typeof fetch) =>
+      new SeedChatLanguageModel('prod', {
+        provider: 'seed.chat',
+        baseURL: 'https://ark.cn-beijing.volces.com/api/v3',
+        headers: () => ({ Authorization: 'Bearer test-key' }),
+        fetch: fetchMock,
+        endpoints: new SeedEndpointResolver({ prod: 'ep-20250101-abc' }),
+      });
+
+    const mockResponse = {
+      id: 'chatcmpl-123',
+      model: 'doubao-seed-1-6-flash-250828',
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'Hi' },
+          finish_reason: 'stop',
+        },
+      ],
+    };
+
+    it('should send the endpoint ID of an alias', async () => {
+      const mockFetch = createMockFetch(mockResponse);
+      const model = createEndpointModel(mockFetch);
+
+      await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.model).toBe('ep-20250101-abc');
+      expect(model.modelId).toBe('prod');
+    });
+
+    it('should check capabilities of the endpoint model', async () => {
+      const model = createEndpointModel(createMockFetch(mockResponse));
+      const call = () =>
+        model.doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+          providerOptions: { seed: { thinking: 'auto' } },
+        });
+
+      // The model is unknown until the endpoint has answered once
+      expect((await call()).warnings).toEqual([]);
+      expect((await call()).warnings).toContainEqual({
+        type: 'unsupported',
+        feature: 'thinking',
+        details:
+          "doubao-seed-1-6-flash-250828 does not support thinking mode 'auto'.",
+      });
+    });
+  });
+
+  describe('thinking', () => {
+    const getRequestBody = async (seed: Record<string, string | boolean>) => {
+      const mockFetch = createMockFetch({
+        id: 'chatcmpl-123',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: 'ok' },
+            finish_reason: 'stop',
+          },
+        ],
+      });
+      const model = createModel(mockFetch);
+
+      await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        providerOptions: { seed },
+      });
+
+      return JSON.parse(mockFetch.mock.calls[0][1].body);
+    };
+
+    it.each([
+      [true, 'enabled'],
+      ['enabled', 'enabled'],
+      [false, 'disabled'],
+      ['disabled', 'disabled'],
+      ['auto', 'auto'],
+    ] as const)('maps thinking %s to %s', async (thinking, type) => {
+      const body = await getRequestBody({ thinking });
+
+      expect(body.thinking).toEqual({ type });
+    });
+
+    it('sends reasoningEffort', async () => {
+      const body = await getRequestBody({
+        thinking: 'enabled',
+        reasoningEffort: 'high',
+      });
+
+      expect(body.reasoning_effort).toBe('high');
+    });
+
+    it('omits thinking options when not set', async () => {
+      const body = await getRequestBody({});
+
+      expect(body).not.toHaveProperty('thinking');
+      expect(body).not.toHaveProperty('reasoning_effort');
+    });
+  });
+
   describe('warnings', () => {
     it('should emit warning for unsupported topK', async () => {
       const mockResponse = {
@@ -705,6 +1147,66 @@ describe('SeedChatLanguageModel', () => {
         }),
       ).rejects.toThrow('No content in response message');
     });
+
+    it('should throw typed errors for failed requests', async () => {
+      const model = createModel(
+        createMockFetch(
+          {
+            error: {
+              code: 'InvalidEndpointOrModel.NotFound',
+              message: 'The model does not exist',
+              type: 'NotFound',
+            },
+          },
+          404,
+        ),
+      );
+
+      const error = await model
+        .doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        })
+        .catch(error => error);
+
+      expect(SeedModelNotFoundError.isInstance(error)).toBe(true);
+      expect(error).toMatchObject({
+        statusCode: 404,
+        code: 'InvalidEndpointOrModel.NotFound',
+        isRetryable: false,
+      });
+    });
+
+    it('should emit typed errors sent mid-stream', async () => {
+      const chunks = [
+        'data: {"id":"1","choices":[{"index":0,"delta":{"content":"Hel"},"finish_reason":null}]}\n\n',
+        'data: {"error":{"code":"OutputTextSensitiveContentDetected","message":"The output may contain sensitive content","type":"BadRequest"}}\n\n',
+      ];
+
+      const model = createModel(createStreamingMockFetch(chunks));
+      const result = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      });
+
+      const parts: any[] = [];
+      const reader = result.stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      const errorPart = parts.find(part => part.type === 'error');
+      expect(SeedContentModerationError.isInstance(errorPart.error)).toBe(
+        true,
+      );
+      expect(errorPart.error.message).toBe(
+        'The output may contain sensitive content',
+      );
+      expect(parts.at(-1)).toMatchObject({
+        type: 'finish',
+        finishReason: { unified: 'error' },
+      });
+    });
   });
 
   describe('response format', () => {
@@ -741,5 +1243,112 @@ describe('SeedChatLanguageModel', () => {
       expect(callBody.response_format).toBeDefined();
       expect(callBody.response_format.type).toBe('json_schema');
     });
+
+    describe('JSON repair', () => {
+      const createResponse = (content: string) => ({
+        id: 'chatcmpl-123',
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content },
+            finish_reason: 'stop',
+          },
+        ],
+        usage: { prompt_tokens: 10, completion_tokens: 5 },
+      });
+
+      const createRepairFetch = () =>
+        vi
+          .fn()
+          .mockResolvedValueOnce(Response.json(createResponse('{"name": 1}')))
+          .mockResolvedValueOnce(
+            Response.json(createResponse('{"name": "test"}')),
+          );
+
+      const repairOptions = {
+        prompt: [
+          {
+            role: 'user' as const,
+            content: [{ type: 'text' as const, text: 'Hi' }],
+          },
+        ],
+        responseFormat: {
+          type: 'json' as const,
+          schema: {
+            type: 'object',
+            properties: { name: { type: 'string' } },
+            required: ['name'],
+          },
+        },
+        providerOptions: {
+          seed: { structuredOutputs: false, maxJsonRepairs: 2 },
+        },
+      };
+
+      it('repairs json_object output that does not match the schema', async () => {
+        const mockFetch = createRepairFetch();
+
+        const result = await createModel(mockFetch).doGenerate(repairOptions);
+
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+        const repairBody = JSON.parse(
+          (mockFetch.mock.calls[1][1] as RequestInit).body as string,
+        );
+        expect(repairBody.response_format).toEqual({ type: 'json_object' });
+        expect(repairBody.messages.slice(-2)).toMatchObject([
+          { role: 'assistant', content: '{"name": 1}' },
+          {
+            role: 'user',
+            content: [{ text: expect.stringContaining('at name') }],
+          },
+        ]);
+        expect(result.content).toEqual([
+          { type: 'text', text: '{"name": "test"}' },
+        ]);
+        expect(result.usage.inputTokens.total).toBe(20);
+        expect(result.warnings).toMatchObject([
+          { type: 'other', message: expect.stringContaining('Repairing') },
+        ]);
+      });
+
+      it('emits the repaired output as a stream', async () => {
+        const result = await createModel(createRepairFetch()).doStream(
+          repairOptions,
+        );
+
+        const parts = [];
+        for await (const part of result.stream) {
+          parts.push(part);
+        }
+
+        expect(parts.map(part => part.type)).toEqual([
+          'stream-start',
+          'response-metadata',
+          'text-start',
+          'text-delta',
+          'text-end',
+          'finish',
+        ]);
+        expect(parts[3]).toMatchObject({ delta: '{"name": "test"}' });
+        // Headers and body of the final response stay out of the metadata part
+        expect(Object.keys(parts[1]).sort()).toEqual([
+          'id',
+          'modelId',
+          'timestamp',
+          'type',
+        ]);
+      });
+
+      it('does not validate json_schema output', async () => {
+        const mockFetch = createRepairFetch();
+
+        await createModel(mockFetch).doGenerate({
+          ...repairOptions,
+          providerOptions: { seed: { maxJsonRepairs: 2 } },
+        });
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+    });
   });
 });
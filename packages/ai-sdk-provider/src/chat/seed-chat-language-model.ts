@@ -23,8 +23,29 @@ import {
   postJsonToApi,
   removeUndefinedEntries,
 } from '@ai-sdk/provider-utils';
+import { SeedEndpointResolver } from '../endpoints';
+import { getSeedModelCapabilityWarnings } from '../model-info';
+import {
+  SeedPricingTable,
+  calculateSeedLanguageModelCost,
+  getSeedModelPricing,
+  withCostProviderMetadata,
+} from '../pricing';
+import { repairSeedJsonOutput, simulateSeedStream } from '../structured-output';
+import {
+  SeedTracer,
+  getSeedLanguageModelAttributes,
+  traceSeedCall,
+  traceSeedStream,
+} from '../telemetry';
 import { convertToSeedChatMessages } from './convert-to-seed-chat-message';
+import {
+  SeedChatLogprob,
+  convertSeedChatLogprobs,
+  withLogprobsProviderMetadata,
+} from './convert-seed-chat-logprobs';
 import { convertSeedUsage } from './convert-seed-chat-usage';
+import { getCacheProviderMetadata } from './get-cache-provider-metadata';
 import { getResponseMetadata } from './get-response-metadata';
 import { mapSeedFinishReason } from './map-seed-finish-reason';
 import {
@@ -37,7 +58,10 @@ import {
   seedChatOptions,
   SeedChatOptions,
 } from './seed-chat-options';
-import { seedFailedResponseHandler } from './seed-error';
+import {
+  createSeedAPICallError,
+  seedFailedResponseHandler,
+} from './seed-error';
 import { prepareTools } from './seed-prepare-tools';
 
 export type SeedChatConfig = {
@@ -45,8 +69,15 @@ export type SeedChatConfig = {
   baseURL: string;
   headers: () => Record<string, string>;
   fetch?: FetchFunction;
+  pricing?: SeedPricingTable;
+  endpoints?: SeedEndpointResolver;
+  tracer?: SeedTracer;
 };
 
+type SeedChatArgs = Awaited<
+  ReturnType<SeedChatLanguageModel['getArgs']>
+>;
+
 export class SeedChatLanguageModel implements LanguageModelV3 {
   readonly specificationVersion = 'v3' as const;
   readonly provider: string;
@@ -61,6 +92,13 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
     this.config = config;
   }
 
+  /** The model or endpoint ID sent to Ark. */
+  private get requestModelId(): string {
+    return (
+      this.config.endpoints?.getRequestModelId(this.modelId) ?? this.modelId
+    );
+  }
+
   private async getArgs({
     responseFormat,
     prompt,
@@ -115,9 +153,32 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
       });
     }
 
+    // Convert thinking option to Seed API format
+    const thinkingOption = options.thinking;
+    const thinkingConfig =
+      thinkingOption === true || thinkingOption === 'enabled'
+        ? { type: 'enabled' as const }
+        : thinkingOption === false || thinkingOption === 'disabled'
+          ? { type: 'disabled' as const }
+          : thinkingOption === 'auto'
+            ? { type: 'auto' as const }
+            : undefined;
+
+    warnings.push(
+      ...getSeedModelCapabilityWarnings({
+        modelId:
+          this.config.endpoints?.getModelInfoId(this.modelId) ?? this.modelId,
+        prompt,
+        maxOutputTokens: options.maxCompletionTokens ?? maxOutputTokens,
+        thinking: thinkingConfig?.type,
+        reasoningEffort: options.reasoningEffort,
+      }),
+    );
+
     // Handle response format
     let messages = convertToSeedChatMessages(prompt);
     let responseFormatConfig: Record<string, unknown> | undefined;
+    let maxJsonRepairs: number | undefined;
 
     if (responseFormat?.type === 'json') {
       if (
@@ -135,6 +196,8 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
         };
       } else {
         responseFormatConfig = { type: 'json_object' };
+        maxJsonRepairs =
+          responseFormat.schema != null ? options.maxJsonRepairs : undefined;
         messages = convertToSeedChatMessages(
           injectJsonInstructionIntoMessages({
             messages: prompt,
@@ -151,17 +214,9 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
       toolWarnings,
     } = await prepareTools({ tools, toolChoice });
 
-    // Convert boolean thinking option to Seed API format
-    const thinkingConfig =
-      options.thinking === true
-        ? { type: 'enabled' as const }
-        : options.thinking === false
-          ? { type: 'disabled' as const }
-          : undefined;
-
     return {
       args: removeUndefinedEntries({
-        model: this.modelId,
+        model: this.requestModelId,
         messages,
         ...(options.maxCompletionTokens != null
           ? { max_completion_tokens: options.maxCompletionTokens }
@@ -174,18 +229,78 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
         tool_choice: seedToolChoice,
         parallel_tool_calls: options.parallelToolCalls,
         thinking: thinkingConfig,
+        reasoning_effort: options.reasoningEffort,
+        logprobs:
+          options.logprobs ?? (options.topLogprobs != null ? true : undefined),
+        top_logprobs: options.topLogprobs,
+        context_id: options.contextId,
       }),
+      contextId: options.contextId,
+      maxJsonRepairs,
       warnings: [...warnings, ...toolWarnings],
     };
   }
 
+  /**
+   * Builds the request body for a call without sending it, so batched
+   * requests are serialized exactly like `doGenerate` calls.
+   */
+  async getRequestBody(options: LanguageModelV3CallOptions) {
+    const { args, contextId, warnings } = await this.getArgs(options);
+    return { body: args, contextId, warnings };
+  }
+
+  private getUrl(contextId: string | undefined) {
+    // Calls that reuse a context cache go through the context API
+    return contextId != null
+      ? `${this.config.baseURL}/context/chat/completions`
+      : `${this.config.baseURL}/chat/completions`;
+  }
+
   async doGenerate(
     options: LanguageModelV3CallOptions,
   ): Promise<LanguageModelV3GenerateResult> {
-    const { args, warnings } = await this.getArgs(options);
+    return traceSeedCall(
+      this.config.tracer,
+      { provider: this.provider, modelId: this.modelId },
+      async () => this.generate(options, await this.getArgs(options)),
+      getSeedLanguageModelAttributes,
+    );
+  }
 
+  async doStream(
+    options: LanguageModelV3CallOptions,
+  ): Promise<LanguageModelV3StreamResult> {
+    return traceSeedStream(
+      this.config.tracer,
+      { provider: this.provider, modelId: this.modelId },
+      () => this.stream(options),
+    );
+  }
+
+  private async generate(
+    options: LanguageModelV3CallOptions,
+    prepared: SeedChatArgs,
+  ): Promise<LanguageModelV3GenerateResult> {
+    const result = await this.generateOnce(options, prepared);
+
+    return prepared.maxJsonRepairs != null
+      ? repairSeedJsonOutput({
+          options,
+          result,
+          maxRepairs: prepared.maxJsonRepairs,
+          regenerate: async repairOptions =>
+            this.generateOnce(repairOptions, await this.getArgs(repairOptions)),
+        })
+      : result;
+  }
+
+  private async generateOnce(
+    options: LanguageModelV3CallOptions,
+    { args, contextId, warnings }: SeedChatArgs,
+  ): Promise<LanguageModelV3GenerateResult> {
     const { value: response, responseHeaders } = await postJsonToApi({
-      url: `${this.config.baseURL}/chat/completions`,
+      url: this.getUrl(contextId),
       headers: combineHeaders(this.config.headers(), options.headers),
       body: args,
       failedResponseHandler: seedFailedResponseHandler,
@@ -196,6 +311,8 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
       fetch: this.config.fetch,
     });
 
+    this.config.endpoints?.setResponseModelId(this.modelId, response.model);
+
     const choice = response.choices[0];
 
     if (!choice) {
@@ -204,7 +321,14 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
       });
     }
 
-    const content = this.extractContent(choice.message);
+    const content = extractSeedChatContent(choice.message);
+
+    if (content.length === 0) {
+      throw new NoContentGeneratedError({
+        message: 'No content in response message',
+      });
+    }
+
     const usage = convertSeedUsage(response.usage);
     const finishReason = mapSeedFinishReason(choice.finish_reason);
 
@@ -212,6 +336,18 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
       content,
       usage,
       finishReason,
+      providerMetadata: withCostProviderMetadata(
+        withLogprobsProviderMetadata(
+          getCacheProviderMetadata({
+            cachedTokens: response.usage?.prompt_tokens_details?.cached_tokens,
+            contextId,
+          }),
+          choice.logprobs?.content != null
+            ? convertSeedChatLogprobs(choice.logprobs.content)
+            : undefined,
+        ),
+        this.getCost(usage, response.model),
+      ),
       warnings,
       request: {
         body: {
@@ -227,15 +363,48 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
     };
   }
 
-  async doStream(
+  /**
+   * Prices the call with the pricing table, looking up the requested model ID
+   * and endpoint ID before the model ID in the response.
+   */
+  private getCost(
+    usage: LanguageModelV3Usage,
+    responseModelId: string | null | undefined,
+  ) {
+    return calculateSeedLanguageModelCost(
+      getSeedModelPricing(
+        this.config.pricing ?? {},
+        this.modelId,
+        this.requestModelId,
+        responseModelId,
+      ),
+      usage,
+    );
+  }
+
+  private async stream(
     options: LanguageModelV3CallOptions,
   ): Promise<LanguageModelV3StreamResult> {
-    const { args, warnings } = await this.getArgs(options);
+    const prepared = await this.getArgs(options);
+
+    // Validated JSON can only be emitted once it is complete
+    if (prepared.maxJsonRepairs != null) {
+      return simulateSeedStream(await this.generate(options, prepared));
+    }
+
+    const { args, contextId, warnings } = prepared;
+
+    const url = this.getUrl(contextId);
+    const body = {
+      ...args,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
 
     const { value: eventStream, responseHeaders } = await postJsonToApi({
-      url: `${this.config.baseURL}/chat/completions`,
+      url,
       headers: combineHeaders(this.config.headers(), options.headers),
-      body: { ...args, stream: true, stream_options: { include_usage: true } },
+      body,
       failedResponseHandler: seedFailedResponseHandler,
       successfulResponseHandler: createEventSourceResponseHandler(
         seedChatChunkSchema,
@@ -253,9 +422,15 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
       raw: undefined,
     };
     let usage: LanguageModelV3Usage | undefined;
+    let cachedTokens: number | null | undefined;
+    let logprobs: SeedChatLogprob[] | undefined;
     let textId: string | undefined;
     let reasoningId: string | undefined;
     let responseMetadataEmitted = false;
+    let responseModelId: string | null | undefined;
+    const getCost = this.getCost.bind(this);
+    const { endpoints } = this.config;
+    const modelId = this.modelId;
 
     const stream = eventStream.pipeThrough(
       new TransformStream<
@@ -278,8 +453,24 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
             controller.enqueue({ type: 'raw', rawValue: chunk });
           }
 
+          if (chunk.error != null) {
+            finishReason = { unified: 'error', raw: undefined };
+            controller.enqueue({
+              type: 'error',
+              error: createSeedAPICallError({
+                data: chunk.error,
+                url,
+                requestBodyValues: body,
+                responseHeaders,
+              }),
+            });
+            return;
+          }
+
           if (!responseMetadataEmitted && chunk.id) {
             responseMetadataEmitted = true;
+            responseModelId = chunk.model;
+            endpoints?.setResponseModelId(modelId, chunk.model);
             controller.enqueue({
               type: 'response-metadata',
               ...getResponseMetadata(chunk),
@@ -290,6 +481,7 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
           if (!choice) {
             if (chunk.usage != null) {
               usage = convertSeedUsage(chunk.usage);
+              cachedTokens = chunk.usage.prompt_tokens_details?.cached_tokens;
             }
             return;
           }
@@ -350,12 +542,18 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
             }
           }
 
+          if (choice.logprobs?.content != null) {
+            logprobs ??= [];
+            logprobs.push(...convertSeedChatLogprobs(choice.logprobs.content));
+          }
+
           if (choice.finish_reason) {
             finishReason = mapSeedFinishReason(choice.finish_reason);
           }
 
           if (chunk.usage != null) {
             usage = convertSeedUsage(chunk.usage);
+            cachedTokens = chunk.usage.prompt_tokens_details?.cached_tokens;
           }
         },
 
@@ -382,6 +580,16 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
             type: 'finish',
             finishReason,
             usage: usage ?? convertSeedUsage(undefined),
+            providerMetadata: withCostProviderMetadata(
+              withLogprobsProviderMetadata(
+                getCacheProviderMetadata({
+                  cachedTokens,
+                  contextId,
+                }),
+                logprobs,
+              ),
+              usage != null ? getCost(usage, responseModelId) : undefined,
+            ),
           });
         },
       }),
@@ -393,43 +601,37 @@ export class SeedChatLanguageModel implements LanguageModelV3 {
       response: { headers: responseHeaders },
     };
   }
+}
 
-  private extractContent(
-    message: SeedChatResponse['choices'][number]['message'],
-  ): LanguageModelV3Content[] {
-    const content: LanguageModelV3Content[] = [];
-
-    if (message.reasoning_content) {
-      content.push({
-        type: 'reasoning',
-        text: message.reasoning_content,
-      });
-    }
+export function extractSeedChatContent(
+  message: SeedChatResponse['choices'][number]['message'],
+): LanguageModelV3Content[] {
+  const content: LanguageModelV3Content[] = [];
 
-    if (message.content) {
-      content.push({
-        type: 'text',
-        text: message.content,
-      });
-    }
+  if (message.reasoning_content) {
+    content.push({
+      type: 'reasoning',
+      text: message.reasoning_content,
+    });
+  }
 
-    if (message.tool_calls) {
-      for (const toolCall of message.tool_calls) {
-        content.push({
-          type: 'tool-call',
-          toolCallId: toolCall.id,
-          toolName: toolCall.function.name,
-          input: toolCall.function.arguments,
-        } as LanguageModelV3ToolCall);
-      }
-    }
+  if (message.content) {
+    content.push({
+      type: 'text',
+      text: message.content,
+    });
+  }
 
-    if (content.length === 0) {
-      throw new NoContentGeneratedError({
-        message: 'No content in response message',
-      });
+  if (message.tool_calls) {
+    for (const toolCall of message.tool_calls) {
+      content.push({
+        type: 'tool-call',
+        toolCallId: toolCall.id,
+        toolName: toolCall.function.name,
+        input: toolCall.function.arguments,
+      } as LanguageModelV3ToolCall);
     }
-
-    return content;
   }
+
+  return content;
 }
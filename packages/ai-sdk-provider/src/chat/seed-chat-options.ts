@@ -24,6 +24,14 @@ const seedChatOptionsSchema = z.object({
    */
   strictJsonSchema: z.boolean().optional(),
 
+  /**
+   * Validates the output against `responseFormat.schema` when JSON mode falls
+   * back to `json_object` (`structuredOutputs: false`). Output that does not
+   * match is sent back with the validation errors for up to this many repair
+   * calls, each reported as a warning. Streams are then emitted at the end.
+   */
+  maxJsonRepairs: z.number().int().min(0).optional(),
+
   /**
    * Whether to enable parallel function calling during tool use.
    * When set to false, the model will use at most one tool per response.
@@ -33,12 +41,26 @@ const seedChatOptionsSchema = z.object({
   parallelToolCalls: z.boolean().optional(),
 
   /**
-   * Whether to enable extended thinking mode.
+   * Control the thinking mode.
    * When enabled, the model will generate reasoning_content in response.
+   * - `true` / `'enabled'`: force enable thinking
+   * - `false` / `'disabled'`: force disable thinking
+   * - `'auto'`: let the model decide (only doubao-seed-1-6-250615)
    *
-   * @default false
+   * @default undefined (not sent)
    */
-  thinking: z.boolean().optional(),
+  thinking: z
+    .union([z.boolean(), z.enum(['enabled', 'disabled', 'auto'])])
+    .optional(),
+
+  /**
+   * Control the depth of thinking. Only effective when thinking is enabled.
+   * - `'minimal'`: disable thinking, answer directly
+   * - `'low'`: lightweight thinking, faster response
+   * - `'medium'`: balanced mode (default)
+   * - `'high'`: deep analysis for complex problems
+   */
+  reasoningEffort: z.enum(['minimal', 'low', 'medium', 'high']).optional(),
 
   /**
    * Controls the maximum tokens for the entire completion (answer + reasoning chain).
@@ -46,6 +68,27 @@ const seedChatOptionsSchema = z.object({
    * Use this with thinking-enabled models to cap total output budget.
    */
   maxCompletionTokens: z.number().int().positive().optional(),
+
+  /**
+   * Return the log probability of each output token in
+   * `providerMetadata.seed.logprobs`.
+   *
+   * @default false
+   */
+  logprobs: z.boolean().optional(),
+
+  /**
+   * Number of most likely alternatives (0-20) to return for each output
+   * token. Enables `logprobs` when set.
+   */
+  topLogprobs: z.number().int().min(0).max(20).optional(),
+
+  /**
+   * ID of a context cache created with `seed.contextCache.create()`.
+   * The call is sent to the context chat endpoint and only the new messages
+   * need to be in the prompt.
+   */
+  contextId: z.string().optional(),
 });
 
 export const seedChatOptions = lazySchema(() =>
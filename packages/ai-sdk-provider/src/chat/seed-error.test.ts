@@ -0,0 +1,103 @@
+import { APICallError } from '@ai-sdk/provider';
+import { describe, expect, it } from 'vitest';
+import {
+  SeedAPICallError,
+  SeedAuthenticationError,
+  SeedContentModerationError,
+  SeedInvalidParameterError,
+  SeedQuotaExceededError,
+  SeedRateLimitError,
+  seedFailedResponseHandler,
+} from './seed-error';
+
+const URL = 'https://ark.cn-beijing.volces.com/api/v3/chat/completions';
+
+const handle = async (
+  body: unknown,
+  status: number,
+  headers: Record<string, string> = {},
+) => {
+  const { value } = await seedFailedResponseHandler({
+    url: URL,
+    requestBodyValues: { model: 'test-model' },
+    response: new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    }),
+  });
+  return value;
+};
+
+describe('seedFailedResponseHandler', () => {
+  it.each([
+    ['RateLimitExceeded.EndpointRPMExceeded', 429, SeedRateLimitError, true],
+    ['ServerOverloaded', 429, SeedRateLimitError, true],
+    ['QuotaExceeded', 429, SeedQuotaExceededError, false],
+    ['AccountOverdueError', 403, SeedQuotaExceededError, false],
+    [
+      'InputTextSensitiveContentDetected',
+      400,
+      SeedContentModerationError,
+      false,
+    ],
+    ['InvalidParameter', 400, SeedInvalidParameterError, false],
+    ['AuthenticationError', 401, SeedAuthenticationError, false],
+  ])(
+    'maps %s to a typed error',
+    async (code, status, ErrorClass, retryable) => {
+      const error = await handle(
+        { error: { code, message: 'failed', type: 'SomeType', param: 'x' } },
+        status,
+      );
+
+      expect(ErrorClass.isInstance(error)).toBe(true);
+      expect(APICallError.isInstance(error)).toBe(true);
+      expect(error).toMatchObject({
+        message: 'failed',
+        statusCode: status,
+        code,
+        type: 'SomeType',
+        param: 'x',
+        isRetryable: retryable,
+      });
+    },
+  );
+
+  it('falls back to the HTTP status without a known code', async () => {
+    const error = await handle({ error: { message: 'slow down' } }, 429);
+
+    expect(SeedRateLimitError.isInstance(error)).toBe(true);
+    expect(SeedQuotaExceededError.isInstance(error)).toBe(false);
+  });
+
+  it('keeps the default retry behavior for unclassified errors', async () => {
+    const error = await handle({ error: { message: 'internal' } }, 500);
+
+    expect(SeedAPICallError.isInstance(error)).toBe(true);
+    expect(error).toMatchObject({ kind: 'unknown', isRetryable: true });
+  });
+
+  it('reads Retry-After in seconds or milliseconds', async () => {
+    const seconds = await handle({ error: { message: 'a' } }, 429, {
+      'Retry-After': '2',
+    });
+    const milliseconds = await handle({ error: { message: 'a' } }, 429, {
+      'Retry-After': '2',
+      'Retry-After-Ms': '1500',
+    });
+
+    expect((seconds as SeedAPICallError).retryAfterMs).toBe(2000);
+    expect((milliseconds as SeedAPICallError).retryAfterMs).toBe(1500);
+  });
+
+  it('handles bodies that are not Ark errors', async () => {
+    const { value: error } = await seedFailedResponseHandler({
+      url: URL,
+      requestBodyValues: {},
+      response: new Response('Bad Gateway', { status: 502 }),
+    });
+
+    expect(SeedAPICallError.isInstance(error)).toBe(true);
+    expect(error).toMatchObject({ statusCode: 502, isRetryable: true });
+  });
+});
@@ -1,16 +1,278 @@
-import { createJsonErrorResponseHandler } from '@ai-sdk/provider-utils';
+import { AISDKError, APICallError } from '@ai-sdk/provider';
+import {
+  type ResponseHandler,
+  createJsonErrorResponseHandler,
+} from '@ai-sdk/provider-utils';
 import { z } from 'zod';
 
+export const seedErrorDataSchema = z.object({
+  message: z.string(),
+  type: z.string().optional(),
+  param: z.string().nullable().optional(),
+  code: z.string().nullable().optional(),
+});
+
 const seedErrorSchema = z.object({
-  error: z.object({
-    message: z.string(),
-    type: z.string().optional(),
-    param: z.string().nullable().optional(),
-    code: z.string().nullable().optional(),
-  }),
+  error: seedErrorDataSchema,
 });
 
-export const seedFailedResponseHandler = createJsonErrorResponseHandler({
+export type SeedErrorData = z.infer<typeof seedErrorDataSchema>;
+
+export type SeedErrorKind =
+  | 'rate_limit'
+  | 'quota_exceeded'
+  | 'content_moderation'
+  | 'invalid_parameter'
+  | 'model_not_found'
+  | 'authentication'
+  | 'unknown';
+
+const marker = 'seedkit.error.SeedAPICallError';
+const symbol: unique symbol = Symbol.for(marker);
+
+/**
+ * API call error with the parsed Ark error `code`, `type` and `param`.
+ *
+ * Use the subclasses' `isInstance` to tell errors apart; `kind` holds the same
+ * information as a string.
+ */
+export class SeedAPICallError extends APICallError {
+  private readonly [symbol] = true;
+
+  readonly kind: SeedErrorKind = 'unknown';
+  readonly code: string | undefined;
+  readonly type: string | undefined;
+  readonly param: string | undefined;
+  /**
+   * Delay requested by the server before retrying, from the `retry-after-ms`
+   * or `retry-after` response header.
+   */
+  readonly retryAfterMs: number | undefined;
+
+  constructor({
+    code,
+    type,
+    param,
+    ...options
+  }: ConstructorParameters<typeof APICallError>[0] & {
+    code?: string;
+    type?: string;
+    param?: string;
+  }) {
+    super(options);
+    this.code = code;
+    this.type = type;
+    this.param = param;
+    this.retryAfterMs = parseRetryAfterMs(options.responseHeaders);
+  }
+
+  static isInstance(error: unknown): error is SeedAPICallError {
+    return AISDKError.hasMarker(error, marker);
+  }
+}
+
+/** Request or token rate limit exceeded, or the model is overloaded. */
+export class SeedRateLimitError extends SeedAPICallError {
+  override readonly kind = 'rate_limit';
+
+  static override isInstance(error: unknown): error is SeedRateLimitError {
+    return SeedAPICallError.isInstance(error) && error.kind === 'rate_limit';
+  }
+}
+
+/** Free quota, spending limit or account balance exhausted. */
+export class SeedQuotaExceededError extends SeedAPICallError {
+  override readonly kind = 'quota_exceeded';
+
+  static override isInstance(error: unknown): error is SeedQuotaExceededError {
+    return (
+      SeedAPICallError.isInstance(error) && error.kind === 'quota_exceeded'
+    );
+  }
+}
+
+/** Input or output was blocked by content moderation. */
+export class SeedContentModerationError extends SeedAPICallError {
+  override readonly kind = 'content_moderation';
+
+  static override isInstance(
+    error: unknown,
+  ): error is SeedContentModerationError {
+    return (
+      SeedAPICallError.isInstance(error) && error.kind === 'content_moderation'
+    );
+  }
+}
+
+/** A request parameter is missing or invalid; see `param`. */
+export class SeedInvalidParameterError extends SeedAPICallError {
+  override readonly kind = 'invalid_parameter';
+
+  static override isInstance(
+    error: unknown,
+  ): error is SeedInvalidParameterError {
+    return (
+      SeedAPICallError.isInstance(error) && error.kind === 'invalid_parameter'
+    );
+  }
+}
+
+/** The model or endpoint does not exist or is not activated. */
+export class SeedModelNotFoundError extends SeedAPICallError {
+  override readonly kind = 'model_not_found';
+
+  static override isInstance(error: unknown): error is SeedModelNotFoundError {
+    return (
+      SeedAPICallError.isInstance(error) && error.kind === 'model_not_found'
+    );
+  }
+}
+
+/** The API key is missing or invalid, or access is denied. */
+export class SeedAuthenticationError extends SeedAPICallError {
+  override readonly kind = 'authentication';
+
+  static override isInstance(error: unknown): error is SeedAuthenticationError {
+    return (
+      SeedAPICallError.isInstance(error) && error.kind === 'authentication'
+    );
+  }
+}
+
+/**
+ * Error classes by Ark error code prefix. Codes are checked before HTTP
+ * statuses because e.g. rate limits and exhausted quotas are both 429s.
+ */
+const ERROR_CODE_PREFIXES: Array<
+  [prefix: string, type: typeof SeedAPICallError]
+> = [
+  ['RateLimitExceeded', SeedRateLimitError],
+  ['ServerOverloaded', SeedRateLimitError],
+  ['QuotaExceeded', SeedQuotaExceededError],
+  ['SetLimitExceeded', SeedQuotaExceededError],
+  ['AccountOverdue', SeedQuotaExceededError],
+  ['InvalidEndpointOrModel', SeedModelNotFoundError],
+  ['ModelNotOpen', SeedModelNotFoundError],
+  ['InvalidParameter', SeedInvalidParameterError],
+  ['MissingParameter', SeedInvalidParameterError],
+  ['AuthenticationError', SeedAuthenticationError],
+  ['AccessDenied', SeedAuthenticationError],
+];
+
+function getErrorClass({
+  code,
+  statusCode,
+}: {
+  code: string | undefined;
+  statusCode: number | undefined;
+}): typeof SeedAPICallError {
+  if (code != null) {
+    // e.g. InputTextSensitiveContentDetected, OutputVideoSensitiveContentDetected
+    if (code.includes('SensitiveContentDetected')) {
+      return SeedContentModerationError;
+    }
+
+    const match = ERROR_CODE_PREFIXES.find(([prefix]) =>
+      code.startsWith(prefix),
+    );
+    if (match != null) {
+      return match[1];
+    }
+  }
+
+  switch (statusCode) {
+    case 400:
+      return SeedInvalidParameterError;
+    case 401:
+    case 403:
+      return SeedAuthenticationError;
+    case 429:
+      return SeedRateLimitError;
+    default:
+      return SeedAPICallError;
+  }
+}
+
+/**
+ * Creates the typed error for an Ark error payload. Also used for errors that
+ * arrive inside an event stream, where `statusCode` is not available.
+ */
+export function createSeedAPICallError({
+  data,
+  ...options
+}: Omit<
+  ConstructorParameters<typeof APICallError>[0],
+  'message' | 'isRetryable' | 'data'
+> & {
+  data: SeedErrorData | undefined;
+  message?: string;
+}): SeedAPICallError {
+  const code = data?.code ?? undefined;
+  const ErrorClass = getErrorClass({ code, statusCode: options.statusCode });
+
+  return new ErrorClass({
+    ...options,
+    message: data?.message ?? options.message ?? 'Unknown Seed API error',
+    code,
+    type: data?.type,
+    param: data?.param ?? undefined,
+    data: data != null ? { error: data } : undefined,
+    // rate limits are retryable even when reported mid-stream (no status code);
+    // other classified errors will fail again with the same request
+    isRetryable:
+      ErrorClass === SeedRateLimitError
+        ? true
+        : ErrorClass === SeedAPICallError
+          ? undefined
+          : false,
+  });
+}
+
+const seedJsonErrorResponseHandler = createJsonErrorResponseHandler({
   errorSchema: seedErrorSchema,
   errorToMessage: data => data.error.message,
 });
+
+export const seedFailedResponseHandler: ResponseHandler<
+  APICallError
+> = async options => {
+  const { value: error, responseHeaders } =
+    await seedJsonErrorResponseHandler(options);
+
+  return {
+    responseHeaders,
+    value: createSeedAPICallError({
+      data: (error.data as z.infer<typeof seedErrorSchema> | undefined)?.error,
+      message: error.message,
+      url: error.url,
+      requestBodyValues: error.requestBodyValues,
+      statusCode: error.statusCode,
+      responseHeaders: error.responseHeaders,
+      responseBody: error.responseBody,
+      cause: error.cause,
+    }),
+  };
+};
+
+function parseRetryAfterMs(
+  headers: Record<string, string> | undefined,
+): number | undefined {
+  const retryAfterMs = Number.parseFloat(headers?.['retry-after-ms'] ?? '');
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers?.['retry-after'];
+  if (retryAfter == null) {
+    return undefined;
+  }
+
+  const seconds = Number.parseFloat(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  // HTTP date
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -114,6 +114,30 @@ describe('prepareTools', () => {
       ]);
     });
 
+    it('should point built-in Seed tools to the Responses API', async () => {
+      const result = await prepareTools({
+        tools: [
+          {
+            type: 'provider',
+            id: 'seed.web_search',
+            name: 'webSearch',
+            args: {},
+          },
+        ],
+        toolChoice: undefined,
+      });
+
+      expect(result.tools).toEqual([]);
+      expect(result.toolWarnings).toEqual([
+        {
+          type: 'unsupported',
+          feature: 'provider-defined tool seed.web_search',
+          details:
+            'Built-in Seed tools are only available through the Responses API.',
+        },
+      ]);
+    });
+
     it('should handle mixed tools (function and provider)', async () => {
       const result = await prepareTools({
         tools: [
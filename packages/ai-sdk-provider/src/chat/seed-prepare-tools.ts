@@ -46,6 +46,10 @@ export async function prepareTools({
       toolWarnings.push({
         type: 'unsupported',
         feature: `provider-defined tool ${tool.id}`,
+        ...(tool.id.startsWith('seed.') && {
+          details:
+            'Built-in Seed tools are only available through the Responses API.',
+        }),
       });
     } else {
       seedTools.push({
@@ -0,0 +1,6 @@
+export {
+  SeedContextCache,
+  type SeedContextCacheConfig,
+  type SeedContextCacheCreateOptions,
+  type SeedContextCacheCreateResult,
+} from './seed-context-cache';
@@ -0,0 +1,35 @@
+import { InferSchema, lazySchema, zodSchema } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+
+export const seedContextCreateResponseSchema = lazySchema(() =>
+  zodSchema(
+    z.object({
+      id: z.string(),
+      model: z.string().nullish(),
+      mode: z.string().nullish(),
+      ttl: z.number().nullish(),
+      truncation_strategy: z
+        .object({
+          type: z.string(),
+          last_history_tokens: z.number().nullish(),
+        })
+        .nullish(),
+      usage: z
+        .object({
+          prompt_tokens: z.number().nullish(),
+          completion_tokens: z.number().nullish(),
+          total_tokens: z.number().nullish(),
+          prompt_tokens_details: z
+            .object({
+              cached_tokens: z.number().nullish(),
+            })
+            .nullish(),
+        })
+        .nullish(),
+    }),
+  ),
+);
+
+export type SeedContextCreateResponse = InferSchema<
+  typeof seedContextCreateResponseSchema
+>;
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SeedEndpointResolver } from '../endpoints';
+import { SeedContextCache } from './seed-context-cache';
+
+const createMockFetch = (response: unknown, status = 200) => {
+  return vi.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    headers: new Headers({ 'content-type': 'application/json' }),
+    json: () => Promise.resolve(response),
+    text: () => Promise.resolve(JSON.stringify(response)),
+  });
+};
+
+const createContextCache = (fetchMock?: typeof fetch) =>
+  new SeedContextCache({
+    provider: 'seed.context',
+    baseURL: 'https://ark.cn-beijing.volces.com/api/v3',
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch: fetchMock,
+  });
+
+describe('SeedContextCache', () => {
+  it('creates a common prefix cache from the given messages', async () => {
+    const mockFetch = createMockFetch({
+      id: 'ctx-20250101-abc',
+      model: 'doubao-seed-1-6-250615',
+      mode: 'common_prefix',
+      ttl: 3600,
+      usage: { prompt_tokens: 1500, completion_tokens: 0, total_tokens: 1500 },
+    });
+
+    const result = await createContextCache(mockFetch).create({
+      model: 'doubao-seed-1-6-250615',
+      messages: [{ role: 'system', content: 'You are a code reviewer.' }],
+      ttl: 3600,
+    });
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://ark.cn-beijing.volces.com/api/v3/context/create');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'doubao-seed-1-6-250615',
+      messages: [{ role: 'system', content: 'You are a code reviewer.' }],
+      mode: 'common_prefix',
+      ttl: 3600,
+    });
+    expect(result).toMatchObject({
+      id: 'ctx-20250101-abc',
+      mode: 'common_prefix',
+      ttl: 3600,
+      usage: { inputTokens: { total: 1500 } },
+    });
+  });
+
+  it('creates the cache for the endpoint behind an alias', async () => {
+    const mockFetch = createMockFetch({ id: 'ctx-1' });
+    const contextCache = new SeedContextCache({
+      provider: 'seed.context',
+      baseURL: 'https://ark.cn-beijing.volces.com/api/v3',
+      headers: () => ({ Authorization: 'Bearer test-key' }),
+      fetch: mockFetch,
+      endpoints: new SeedEndpointResolver({ prod: 'ep-20250101-abc' }),
+    });
+
+    await contextCache.create({
+      model: 'prod',
+      messages: [{ role: 'system', content: 'You are a code reviewer.' }],
+    });
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).model).toBe(
+      'ep-20250101-abc',
+    );
+  });
+
+  it('sends the truncation strategy for session caches', async () => {
+    const mockFetch = createMockFetch({ id: 'ctx-1' });
+
+    await createContextCache(mockFetch).create({
+      model: 'doubao-seed-1-6-250615',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      mode: 'session',
+      lastHistoryTokens: 4096,
+    });
+
+    const [, init] = mockFetch.mock.calls[0];
+    expect(JSON.parse(init.body)).toMatchObject({
+      mode: 'session',
+      truncation_strategy: {
+        type: 'last_history_tokens',
+        last_history_tokens: 4096,
+      },
+    });
+  });
+
+  it('throws API errors', async () => {
+    const mockFetch = createMockFetch(
+      {
+        error: {
+          message: 'model does not support context',
+          code: 'InvalidParameter',
+        },
+      },
+      400,
+    );
+
+    await expect(
+      createContextCache(mockFetch).create({
+        model: 'test-model',
+        messages: [{ role: 'system', content: 'x' }],
+      }),
+    ).rejects.toThrow('model does not support context');
+  });
+});
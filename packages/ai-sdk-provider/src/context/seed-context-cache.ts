@@ -0,0 +1,131 @@
+import {
+  LanguageModelV3Prompt,
+  LanguageModelV3Usage,
+  SharedV3Headers,
+} from '@ai-sdk/provider';
+import {
+  FetchFunction,
+  combineHeaders,
+  createJsonResponseHandler,
+  postJsonToApi,
+  removeUndefinedEntries,
+} from '@ai-sdk/provider-utils';
+import { convertSeedUsage } from '../chat/convert-seed-chat-usage';
+import { convertToSeedChatMessages } from '../chat/convert-to-seed-chat-message';
+import { SeedModelId } from '../chat/seed-chat-options';
+import { seedFailedResponseHandler } from '../chat/seed-error';
+import { SeedEndpointResolver } from '../endpoints';
+import { seedContextCreateResponseSchema } from './seed-context-cache-api';
+
+export interface SeedContextCacheConfig {
+  provider: string;
+  baseURL: string;
+  headers: () => Record<string, string>;
+  fetch?: FetchFunction;
+  endpoints?: SeedEndpointResolver;
+}
+
+export interface SeedContextCacheCreateOptions {
+  /** Model, endpoint ID or endpoint alias the cache is created for. */
+  model: SeedModelId;
+
+  /** Messages to cache, usually a large system prompt or reference material. */
+  messages: LanguageModelV3Prompt;
+
+  /**
+   * Time to live in seconds. Every hit on the cache resets the timer.
+   *
+   * @default 86400
+   */
+  ttl?: number;
+
+  /**
+   * - `'common_prefix'`: the cached messages are a read-only prefix shared by
+   *   independent requests
+   * - `'session'`: each request appends its turn to the cache
+   *
+   * @default 'common_prefix'
+   */
+  mode?: 'common_prefix' | 'session';
+
+  /**
+   * Number of most recent tokens to keep when a `session` cache outgrows the
+   * context window.
+   */
+  lastHistoryTokens?: number;
+
+  headers?: Record<string, string | undefined>;
+  abortSignal?: AbortSignal;
+}
+
+export interface SeedContextCacheCreateResult {
+  /** Cache ID to pass as `providerOptions.seed.contextId`. */
+  id: string;
+  model: string | undefined;
+  mode: string | undefined;
+  ttl: number | undefined;
+  /** Tokens written to the cache. */
+  usage: LanguageModelV3Usage;
+  response: {
+    headers: SharedV3Headers | undefined;
+    body: unknown;
+  };
+}
+
+/**
+ * Client for the Ark context API, which pins a message prefix on the server
+ * so later chat calls only pay the cached-token rate for it.
+ *
+ * Pass the returned ID as `providerOptions.seed.contextId` on `seed.chat()`
+ * models.
+ */
+export class SeedContextCache {
+  constructor(private readonly config: SeedContextCacheConfig) {}
+
+  async create({
+    model,
+    messages,
+    ttl,
+    mode = 'common_prefix',
+    lastHistoryTokens,
+    headers,
+    abortSignal,
+  }: SeedContextCacheCreateOptions): Promise<SeedContextCacheCreateResult> {
+    const {
+      value: response,
+      responseHeaders,
+      rawValue,
+    } = await postJsonToApi({
+      url: `${this.config.baseURL}/context/create`,
+      headers: combineHeaders(this.config.headers(), headers),
+      body: removeUndefinedEntries({
+        model: this.config.endpoints?.getRequestModelId(model) ?? model,
+        messages: convertToSeedChatMessages(messages),
+        mode,
+        ttl,
+        truncation_strategy:
+          lastHistoryTokens != null
+            ? {
+                type: 'last_history_tokens',
+                last_history_tokens: lastHistoryTokens,
+              }
+            : undefined,
+      }),
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        seedContextCreateResponseSchema,
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return {
+      id: response.id,
+      model: response.model ?? undefined,
+      mode: response.mode ?? undefined,
+      ttl: response.ttl ?? undefined,
+      usage: convertSeedUsage(response.usage),
+      response: { headers: responseHeaders, body: rawValue },
+    };
+  }
+}
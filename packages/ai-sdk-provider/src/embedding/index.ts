@@ -0,0 +1,9 @@
+export {
+  SeedEmbeddingModel,
+  seedEmbeddingImage,
+  type SeedEmbeddingConfig,
+} from './seed-embedding-model';
+export {
+  type SeedEmbeddingModelId,
+  type SeedEmbeddingOptions,
+} from './seed-embedding-options';
@@ -0,0 +1,59 @@
+import { InferSchema, lazySchema, zodSchema } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+
+const seedEmbeddingUsageSchema = z.object({
+  prompt_tokens: z.number().nullish(),
+  total_tokens: z.number().nullish(),
+  prompt_tokens_details: z
+    .object({
+      text_tokens: z.number().nullish(),
+      image_tokens: z.number().nullish(),
+    })
+    .nullish(),
+});
+
+// Embeddings are returned as number arrays (`float`) or as base64-encoded
+// little-endian float32 buffers (`base64`).
+const seedEmbeddingVectorSchema = z.union([z.array(z.number()), z.string()]);
+
+export const seedEmbeddingResponseSchema = lazySchema(() =>
+  zodSchema(
+    z.object({
+      id: z.string().nullish(),
+      model: z.string().nullish(),
+      created: z.number().nullish(),
+      data: z.array(
+        z.object({
+          index: z.number().nullish(),
+          embedding: seedEmbeddingVectorSchema,
+        }),
+      ),
+      usage: seedEmbeddingUsageSchema.nullish(),
+    }),
+  ),
+);
+
+/**
+ * The multimodal endpoint fuses all input parts into a single embedding,
+ * so `data` is an object rather than an array.
+ */
+export const seedMultimodalEmbeddingResponseSchema = lazySchema(() =>
+  zodSchema(
+    z.object({
+      id: z.string().nullish(),
+      model: z.string().nullish(),
+      created: z.number().nullish(),
+      data: z.object({
+        embedding: seedEmbeddingVectorSchema,
+      }),
+      usage: seedEmbeddingUsageSchema.nullish(),
+    }),
+  ),
+);
+
+export type SeedEmbeddingResponse = InferSchema<
+  typeof seedEmbeddingResponseSchema
+>;
+export type SeedMultimodalEmbeddingResponse = InferSchema<
+  typeof seedMultimodalEmbeddingResponseSchema
+>;
@@ -0,0 +1,275 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SeedEmbeddingModel, seedEmbeddingImage } from './seed-embedding-model';
+
+const BASE_URL = 'https://ark.cn-beijing.volces.com/api/v3';
+
+const createMockFetch = (body: unknown, status = 200) =>
+  vi.fn().mockImplementation(async () =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    }),
+  );
+
+const createModel = (
+  fetchMock?: ReturnType<typeof vi.fn>,
+  modelId = 'doubao-embedding-large-text-250515',
+) =>
+  new SeedEmbeddingModel(modelId, {
+    provider: 'seed.embedding',
+    baseURL: BASE_URL,
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch: fetchMock as typeof fetch,
+  });
+
+const getRequest = (fetchMock: ReturnType<typeof vi.fn>, index = 0) => {
+  const [url, init] = fetchMock.mock.calls[index] as [string, RequestInit];
+  return { url, body: JSON.parse(init.body as string) };
+};
+
+const toBase64Float32 = (values: number[]) =>
+  Buffer.from(new Float32Array(values).buffer).toString('base64');
+
+describe('SeedEmbeddingModel', () => {
+  describe('constructor', () => {
+    it('exposes correct provider, modelId, specificationVersion', () => {
+      const model = createModel();
+      expect(model.provider).toBe('seed.embedding');
+      expect(model.modelId).toBe('doubao-embedding-large-text-250515');
+      expect(model.specificationVersion).toBe('v3');
+      expect(model.supportsParallelCalls).toBe(true);
+    });
+
+    it('allows 256 values per call for text models', () => {
+      expect(createModel().maxEmbeddingsPerCall).toBe(256);
+    });
+
+    it('allows one value per call for multimodal models', () => {
+      expect(
+        createModel(undefined, 'doubao-embedding-vision-250615')
+          .maxEmbeddingsPerCall,
+      ).toBe(1);
+    });
+  });
+
+  describe('doEmbed – text', () => {
+    it('posts values to /embeddings and returns embeddings in order', async () => {
+      const fetch = createMockFetch({
+        id: 'emb-1',
+        model: 'doubao-embedding-large-text-250515',
+        data: [
+          { index: 1, embedding: [0.3, 0.4] },
+          { index: 0, embedding: [0.1, 0.2] },
+        ],
+        usage: { prompt_tokens: 7, total_tokens: 7 },
+      });
+
+      const result = await createModel(fetch).doEmbed({
+        values: ['hello', 'world'],
+      });
+
+      const { url, body } = getRequest(fetch);
+      expect(url).toBe(`${BASE_URL}/embeddings`);
+      expect(body).toEqual({
+        model: 'doubao-embedding-large-text-250515',
+        input: ['hello', 'world'],
+      });
+      expect(result.embeddings).toEqual([
+        [0.1, 0.2],
+        [0.3, 0.4],
+      ]);
+      expect(result.usage).toEqual({ tokens: 7 });
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('sends dimensions and encoding format provider options', async () => {
+      const fetch = createMockFetch({
+        data: [{ index: 0, embedding: [0.5] }],
+      });
+
+      await createModel(fetch).doEmbed({
+        values: ['hello'],
+        providerOptions: {
+          seed: { dimensions: 1024, encodingFormat: 'float' },
+        },
+      });
+
+      expect(getRequest(fetch).body).toMatchObject({
+        dimensions: 1024,
+        encoding_format: 'float',
+      });
+    });
+
+    it('decodes base64 embeddings into numbers', async () => {
+      const fetch = createMockFetch({
+        data: [{ index: 0, embedding: toBase64Float32([0.5, -1, 2]) }],
+      });
+
+      const result = await createModel(fetch).doEmbed({
+        values: ['hello'],
+        providerOptions: { seed: { encodingFormat: 'base64' } },
+      });
+
+      expect(result.embeddings).toEqual([[0.5, -1, 2]]);
+    });
+
+    it('splits values that exceed the per-call limit into batches', async () => {
+      const fetch = vi.fn().mockImplementation(
+        async (_url: string, init: RequestInit) => {
+          const { input } = JSON.parse(init.body as string) as {
+            input: string[];
+          };
+          return new Response(
+            JSON.stringify({
+              data: input.map((value, index) => ({
+                index,
+                embedding: [Number(value)],
+              })),
+              usage: { prompt_tokens: input.length },
+            }),
+            { status: 200, headers: { 'Content-Type': 'application/json' } },
+          );
+        },
+      );
+
+      const values = Array.from({ length: 300 }, (_, i) => String(i));
+      const result = await createModel(fetch).doEmbed({ values });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(getRequest(fetch, 0).body.input).toHaveLength(256);
+      expect(getRequest(fetch, 1).body.input).toHaveLength(44);
+      expect(result.embeddings).toHaveLength(300);
+      expect(result.embeddings[299]).toEqual([299]);
+      expect(result.usage).toEqual({ tokens: 300 });
+    });
+
+    it('omits usage when the API does not report it', async () => {
+      const fetch = createMockFetch({ data: [{ index: 0, embedding: [1] }] });
+      const result = await createModel(fetch).doEmbed({ values: ['a'] });
+      expect(result.usage).toBeUndefined();
+    });
+
+    it('throws APICallError on API failure', async () => {
+      const fetch = createMockFetch(
+        { error: { message: 'Invalid model', code: 'InvalidParameter' } },
+        400,
+      );
+
+      await expect(
+        createModel(fetch).doEmbed({ values: ['a'] }),
+      ).rejects.toThrow('Invalid model');
+    });
+  });
+
+  describe('doEmbed – multimodal', () => {
+    const multimodalResponse = {
+      id: 'emb-mm-1',
+      model: 'doubao-embedding-vision-250615',
+      data: { embedding: [0.9, 0.8], object: 'embedding' },
+      usage: {
+        prompt_tokens: 12,
+        total_tokens: 12,
+        prompt_tokens_details: { text_tokens: 2, image_tokens: 10 },
+      },
+    };
+
+    it('uses /embeddings/multimodal for vision models', async () => {
+      const fetch = createMockFetch(multimodalResponse);
+
+      const result = await createModel(
+        fetch,
+        'doubao-embedding-vision-250615',
+      ).doEmbed({ values: ['a red apple'] });
+
+      const { url, body } = getRequest(fetch);
+      expect(url).toBe(`${BASE_URL}/embeddings/multimodal`);
+      expect(body.input).toEqual([{ type: 'text', text: 'a red apple' }]);
+      expect(result.embeddings).toEqual([[0.9, 0.8]]);
+      expect(result.usage).toEqual({ tokens: 12 });
+    });
+
+    it('sends marked URL and data URL values as image inputs', async () => {
+      const fetch = createMockFetch(multimodalResponse);
+
+      await createModel(fetch, 'doubao-embedding-vision-250615').doEmbed({
+        values: [
+          seedEmbeddingImage('https://example.com/apple.png'),
+          seedEmbeddingImage('data:image/png;base64,AAAA'),
+        ],
+      });
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(getRequest(fetch, 0).body.input).toEqual([
+        {
+          type: 'image_url',
+          image_url: { url: 'https://example.com/apple.png' },
+        },
+      ]);
+      expect(getRequest(fetch, 1).body.input).toEqual([
+        {
+          type: 'image_url',
+          image_url: { url: 'data:image/png;base64,AAAA' },
+        },
+      ]);
+    });
+
+    it('embeds unmarked URLs as text', async () => {
+      const fetch = createMockFetch(multimodalResponse);
+
+      await createModel(fetch, 'doubao-embedding-vision-250615').doEmbed({
+        values: ['https://example.com/apple.png'],
+      });
+
+      expect(getRequest(fetch).body.input).toEqual([
+        { type: 'text', text: 'https://example.com/apple.png' },
+      ]);
+    });
+
+    it('sums usage across per-value requests', async () => {
+      const fetch = createMockFetch(multimodalResponse);
+
+      const result = await createModel(
+        fetch,
+        'doubao-embedding-vision-250615',
+      ).doEmbed({ values: ['a', 'b', 'c'] });
+
+      expect(result.embeddings).toHaveLength(3);
+      expect(result.usage).toEqual({ tokens: 36 });
+    });
+
+    it('can be forced on via the multimodal provider option', async () => {
+      const fetch = createMockFetch(multimodalResponse);
+
+      await createModel(fetch, 'custom-endpoint').doEmbed({
+        values: ['hello'],
+        providerOptions: { seed: { multimodal: true, dimensions: 1024 } },
+      });
+
+      const { url, body } = getRequest(fetch);
+      expect(url).toBe(`${BASE_URL}/embeddings/multimodal`);
+      expect(body.dimensions).toBe(1024);
+    });
+
+    it('splits a text-model batch into one request per value when forced on', async () => {
+      const fetch = createMockFetch(multimodalResponse);
+      const model = createModel(fetch);
+
+      // embedMany chunks by the text limit; the override must still send one value per call
+      expect(model.maxEmbeddingsPerCall).toBe(256);
+      const result = await model.doEmbed({
+        values: ['a', 'b', 'c'],
+        providerOptions: { seed: { multimodal: true } },
+      });
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(
+        fetch.mock.calls.map((_, index) => getRequest(fetch, index).body.input),
+      ).toEqual([
+        [{ type: 'text', text: 'a' }],
+        [{ type: 'text', text: 'b' }],
+        [{ type: 'text', text: 'c' }],
+      ]);
+      expect(result.embeddings).toHaveLength(3);
+    });
+  });
+});
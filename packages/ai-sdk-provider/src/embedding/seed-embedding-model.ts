@@ -0,0 +1,247 @@
+import {
+  EmbeddingModelV3,
+  EmbeddingModelV3CallOptions,
+  EmbeddingModelV3Embedding,
+  EmbeddingModelV3Result,
+  SharedV3Headers,
+} from '@ai-sdk/provider';
+import {
+  FetchFunction,
+  combineHeaders,
+  convertBase64ToUint8Array,
+  createJsonResponseHandler,
+  parseProviderOptions,
+  postJsonToApi,
+  removeUndefinedEntries,
+} from '@ai-sdk/provider-utils';
+import { seedFailedResponseHandler } from '../chat/seed-error';
+import { SeedEndpointResolver } from '../endpoints';
+import {
+  seedEmbeddingResponseSchema,
+  seedMultimodalEmbeddingResponseSchema,
+} from './seed-embedding-api';
+import {
+  SeedEmbeddingModelId,
+  SeedEmbeddingOptions,
+  seedEmbeddingOptions,
+} from './seed-embedding-options';
+
+export interface SeedEmbeddingConfig {
+  provider: string;
+  baseURL: string;
+  headers: () => Record<string, string>;
+  fetch?: FetchFunction;
+  endpoints?: SeedEndpointResolver;
+}
+
+/** Maximum number of inputs accepted by `/embeddings` in a single request. */
+const MAX_TEXT_INPUTS_PER_CALL = 256;
+
+/** Prefix that marks a multimodal embedding value as an image URL. */
+const IMAGE_VALUE_PREFIX = 'seed-image:';
+
+/**
+ * Marks an image for the multimodal embedding endpoint. Pass the result as a
+ * value to `embed` / `embedMany`; plain strings are always embedded as text.
+ *
+ * @param url - An `http(s)://` URL or a `data:image/...` URL.
+ */
+export function seedEmbeddingImage(url: string): string {
+  return `${IMAGE_VALUE_PREFIX}${url}`;
+}
+
+type SeedMultimodalInput =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export class SeedEmbeddingModel implements EmbeddingModelV3 {
+  readonly specificationVersion = 'v3' as const;
+  readonly supportsParallelCalls = true;
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  /**
+   * Text models accept up to 256 inputs per request. The multimodal endpoint
+   * returns one fused embedding per request, so each value is its own call.
+   * When the `multimodal` provider option picks the other endpoint, `doEmbed`
+   * splits the values to match it.
+   */
+  get maxEmbeddingsPerCall(): number {
+    return this.isMultimodalModel() ? 1 : MAX_TEXT_INPUTS_PER_CALL;
+  }
+
+  constructor(
+    readonly modelId: SeedEmbeddingModelId,
+    private readonly config: SeedEmbeddingConfig,
+  ) {}
+
+  async doEmbed({
+    values,
+    headers,
+    abortSignal,
+    providerOptions,
+  }: EmbeddingModelV3CallOptions): Promise<EmbeddingModelV3Result> {
+    const options =
+      (await parseProviderOptions<SeedEmbeddingOptions>({
+        provider: 'seed',
+        providerOptions,
+        schema: seedEmbeddingOptions,
+      })) ?? {};
+
+    const multimodal = options.multimodal ?? this.isMultimodalModel();
+    const batchSize = multimodal ? 1 : MAX_TEXT_INPUTS_PER_CALL;
+
+    const embeddings: EmbeddingModelV3Embedding[] = [];
+    const responseBodies: unknown[] = [];
+    let tokens: number | undefined;
+    let responseHeaders: SharedV3Headers | undefined;
+
+    // Split oversized inputs so direct callers don't have to respect the
+    // per-call limit themselves; embedMany already chunks by maxEmbeddingsPerCall.
+    for (let start = 0; start < values.length; start += batchSize) {
+      const batch = values.slice(start, start + batchSize);
+
+      const result = multimodal
+        ? await this.embedMultimodal(batch[0], options, headers, abortSignal)
+        : await this.embedText(batch, options, headers, abortSignal);
+
+      embeddings.push(...result.embeddings);
+      responseBodies.push(result.body);
+      responseHeaders = result.headers;
+
+      if (result.tokens != null) {
+        tokens = (tokens ?? 0) + result.tokens;
+      }
+    }
+
+    return {
+      embeddings,
+      usage: tokens != null ? { tokens } : undefined,
+      response: {
+        headers: responseHeaders,
+        body: responseBodies.length === 1 ? responseBodies[0] : responseBodies,
+      },
+      warnings: [],
+    };
+  }
+
+  private async embedText(
+    values: string[],
+    options: SeedEmbeddingOptions,
+    headers: EmbeddingModelV3CallOptions['headers'],
+    abortSignal: AbortSignal | undefined,
+  ) {
+    const { value: response, responseHeaders, rawValue } = await postJsonToApi({
+      url: `${this.config.baseURL}/embeddings`,
+      headers: combineHeaders(this.config.headers(), headers),
+      body: removeUndefinedEntries({
+        model: this.requestModelId,
+        input: values,
+        encoding_format: options.encodingFormat,
+        dimensions: options.dimensions,
+      }),
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        seedEmbeddingResponseSchema,
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    this.config.endpoints?.setResponseModelId(this.modelId, response.model);
+
+    // Restore input order in case the API returns items out of order
+    const sorted = [...response.data].sort(
+      (a, b) => (a.index ?? 0) - (b.index ?? 0),
+    );
+
+    return {
+      embeddings: sorted.map(item => decodeEmbedding(item.embedding)),
+      tokens:
+        response.usage?.prompt_tokens ??
+        response.usage?.total_tokens ??
+        undefined,
+      headers: responseHeaders,
+      body: rawValue,
+    };
+  }
+
+  private async embedMultimodal(
+    value: string,
+    options: SeedEmbeddingOptions,
+    headers: EmbeddingModelV3CallOptions['headers'],
+    abortSignal: AbortSignal | undefined,
+  ) {
+    const { value: response, responseHeaders, rawValue } = await postJsonToApi({
+      url: `${this.config.baseURL}/embeddings/multimodal`,
+      headers: combineHeaders(this.config.headers(), headers),
+      body: removeUndefinedEntries({
+        model: this.requestModelId,
+        input: [toMultimodalInput(value)],
+        encoding_format: options.encodingFormat,
+        dimensions: options.dimensions,
+      }),
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        seedMultimodalEmbeddingResponseSchema,
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    this.config.endpoints?.setResponseModelId(this.modelId, response.model);
+
+    return {
+      embeddings: [decodeEmbedding(response.data.embedding)],
+      tokens:
+        response.usage?.prompt_tokens ??
+        response.usage?.total_tokens ??
+        undefined,
+      headers: responseHeaders,
+      body: rawValue,
+    };
+  }
+
+  /** The model or endpoint ID sent to Ark. */
+  private get requestModelId(): string {
+    return (
+      this.config.endpoints?.getRequestModelId(this.modelId) ?? this.modelId
+    );
+  }
+
+  private isMultimodalModel(): boolean {
+    const modelId =
+      this.config.endpoints?.getModelInfoId(this.modelId) ?? this.modelId;
+    return modelId.includes('embedding-vision');
+  }
+}
+
+function toMultimodalInput(value: string): SeedMultimodalInput {
+  if (value.startsWith(IMAGE_VALUE_PREFIX)) {
+    const url = value.slice(IMAGE_VALUE_PREFIX.length);
+    return { type: 'image_url', image_url: { url } };
+  }
+  return { type: 'text', text: value };
+}
+
+/**
+ * Decodes a base64 little-endian float32 buffer into a number array.
+ * Float embeddings are passed through unchanged.
+ */
+function decodeEmbedding(
+  embedding: number[] | string,
+): EmbeddingModelV3Embedding {
+  if (typeof embedding !== 'string') {
+    return embedding;
+  }
+
+  const bytes = convertBase64ToUint8Array(embedding);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const result: number[] = [];
+  for (let offset = 0; offset + 4 <= bytes.byteLength; offset += 4) {
+    result.push(view.getFloat32(offset, true));
+  }
+  return result;
+}
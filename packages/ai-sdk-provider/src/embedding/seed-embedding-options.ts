@@ -0,0 +1,42 @@
+import { lazySchema, zodSchema } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+
+export type SeedEmbeddingModelId =
+  | 'doubao-embedding-large-text-250515'
+  | 'doubao-embedding-text-240715'
+  | 'doubao-embedding-vision-250615'
+  | 'doubao-embedding-vision-250328'
+  | (string & {});
+
+const seedEmbeddingOptionsSchema = z.object({
+  /**
+   * Number of dimensions of the output embedding.
+   * Only supported by models with configurable output dimensions
+   * (e.g. 2048 / 1024 for doubao-embedding-large-text, 3072 / 1024 for
+   * doubao-embedding-vision-250615).
+   */
+  dimensions: z.number().int().positive().optional(),
+
+  /**
+   * Encoding format requested from the API.
+   * `base64` reduces response size; embeddings are decoded back to numbers.
+   *
+   * @default 'float'
+   */
+  encodingFormat: z.enum(['float', 'base64']).optional(),
+
+  /**
+   * Whether to use the multimodal embedding endpoint (`/embeddings/multimodal`).
+   * Defaults to true for `doubao-embedding-vision-*` models.
+   *
+   * In multimodal mode every value yields one embedding. Values wrapped with
+   * `seedEmbeddingImage(url)` are sent as images, all others as text.
+   */
+  multimodal: z.boolean().optional(),
+});
+
+export const seedEmbeddingOptions = lazySchema(() =>
+  zodSchema(seedEmbeddingOptionsSchema),
+);
+
+export type SeedEmbeddingOptions = z.infer<typeof seedEmbeddingOptionsSchema>;
@@ -0,0 +1,5 @@
+export {
+  getSeedBaseURL,
+  SeedEndpointResolver,
+  type SeedRegion,
+} from './seed-endpoints';
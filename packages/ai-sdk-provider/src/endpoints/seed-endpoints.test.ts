@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getSeedBaseURL, SeedEndpointResolver } from './seed-endpoints';
+
+describe('getSeedBaseURL', () => {
+  it('should default to cn-beijing', () => {
+    expect(getSeedBaseURL()).toBe('https://ark.cn-beijing.volces.com/api/v3');
+  });
+
+  it('should use Volcengine for cn regions', () => {
+    expect(getSeedBaseURL('cn-shanghai')).toBe(
+      'https://ark.cn-shanghai.volces.com/api/v3',
+    );
+  });
+
+  it('should use BytePlus for other regions', () => {
+    expect(getSeedBaseURL('ap-southeast')).toBe(
+      'https://ark.ap-southeast.bytepluses.com/api/v3',
+    );
+  });
+});
+
+describe('SeedEndpointResolver', () => {
+  it('should map aliases to endpoint IDs', () => {
+    const endpoints = new SeedEndpointResolver({ prod: 'ep-20250101-abc' });
+
+    expect(endpoints.getRequestModelId('prod')).toBe('ep-20250101-abc');
+    expect(endpoints.getRequestModelId('doubao-seed-1-6-250615')).toBe(
+      'doubao-seed-1-6-250615',
+    );
+  });
+
+  it('should resolve the model behind an endpoint from responses', () => {
+    const endpoints = new SeedEndpointResolver({ prod: 'ep-20250101-abc' });
+    expect(endpoints.getModelInfoId('prod')).toBe('prod');
+
+    endpoints.setResponseModelId('prod', 'doubao-seed-1-6-250615');
+
+    expect(endpoints.getModelInfoId('prod')).toBe('doubao-seed-1-6-250615');
+    expect(endpoints.getModelInfoId('ep-20250101-abc')).toBe(
+      'doubao-seed-1-6-250615',
+    );
+  });
+
+  it('should ignore responses that echo the requested ID', () => {
+    const endpoints = new SeedEndpointResolver();
+
+    endpoints.setResponseModelId('ep-20250101-abc', 'ep-20250101-abc');
+    endpoints.setResponseModelId('ep-20250101-abc', undefined);
+
+    expect(endpoints.getModelInfoId('ep-20250101-abc')).toBe('ep-20250101-abc');
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Ark regions. Volcengine regions (`cn-*`) are served from `volces.com`, all
+ * others from BytePlus ModelArk (`bytepluses.com`).
+ */
+export type SeedRegion =
+  'cn-beijing' | 'cn-shanghai' | 'ap-southeast' | (string & {});
+
+/**
+ * Returns the Ark API base URL of a region, e.g.
+ * `https://ark.cn-beijing.volces.com/api/v3`.
+ */
+export function getSeedBaseURL(region: SeedRegion = 'cn-beijing'): string {
+  const domain = region.startsWith('cn-') ? 'volces.com' : 'bytepluses.com';
+  return `https://ark.${region}.${domain}/api/v3`;
+}
+
+/**
+ * Maps the model IDs passed to the provider to the IDs sent to Ark, and
+ * remembers which model serves each endpoint.
+ *
+ * Custom inference endpoints (`ep-…`) hide the model behind them, so model
+ * capability checks and pricing fall back to the model reported in responses
+ * once an endpoint has been called.
+ */
+export class SeedEndpointResolver {
+  private readonly responseModelIds = new Map<string, string>();
+
+  constructor(private readonly endpoints: Record<string, string> = {}) {}
+
+  /** Returns the endpoint ID of an alias, or the model ID itself. */
+  getRequestModelId(modelId: string): string {
+    return this.endpoints[modelId] ?? modelId;
+  }
+
+  /**
+   * Returns the model to use for capability checks: the model last reported
+   * by the endpoint, or the model ID itself before the first response.
+   */
+  getModelInfoId(modelId: string): string {
+    return (
+      this.responseModelIds.get(this.getRequestModelId(modelId)) ?? modelId
+    );
+  }
+
+  /** Records the model that answered a request for `modelId`. */
+  setResponseModelId(
+    modelId: string,
+    responseModelId: string | null | undefined,
+  ): void {
+    const requestModelId = this.getRequestModelId(modelId);
+    if (responseModelId != null && responseModelId !== requestModelId) {
+      this.responseModelIds.set(requestModelId, responseModelId);
+    }
+  }
+}
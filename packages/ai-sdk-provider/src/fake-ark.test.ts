@@ -0,0 +1,155 @@
+/**
+ * End-to-end tests against the in-process fake Ark server from
+ * `@seedkit-ai/testing` — the full provider stack without network.
+ */
+
+import {
+  createFakeArk,
+  FAKE_ARK_BASE_URL,
+  FAKE_ARK_PNG,
+} from '@seedkit-ai/testing';
+import { describe, expect, it } from 'vitest';
+import { createSeed } from './seed-provider';
+
+const CHAT_MODEL = 'doubao-seed-1-8-251228';
+
+function createFakeSeed() {
+  const fake = createFakeArk();
+  const provider = createSeed({
+    apiKey: 'test-api-key',
+    baseURL: FAKE_ARK_BASE_URL,
+    fetch: fake.fetch,
+  });
+  return { fake, provider };
+}
+
+async function collectStream<T>(stream: ReadableStream<T>): Promise<T[]> {
+  const parts: T[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  return parts;
+}
+
+const prompt = [
+  { role: 'user' as const, content: [{ type: 'text' as const, text: 'Hi' }] },
+];
+
+describe('fake Ark', () => {
+  it('should stream chat text, reasoning and usage', async () => {
+    const { fake, provider } = createFakeSeed();
+    fake.chat.push({
+      text: 'Hello there',
+      reasoning: 'Be polite',
+      usage: { inputTokens: 12, outputTokens: 8, reasoningTokens: 3 },
+    });
+
+    const { stream } = await provider.chat(CHAT_MODEL).doStream({ prompt });
+    const parts = await collectStream(stream);
+
+    expect(
+      parts
+        .filter(part => part.type === 'text-delta')
+        .map(part => part.delta)
+        .join(''),
+    ).toBe('Hello there');
+    expect(
+      parts
+        .filter(part => part.type === 'reasoning-delta')
+        .map(part => part.delta)
+        .join(''),
+    ).toBe('Be polite');
+    expect(parts.at(-1)).toMatchObject({
+      type: 'finish',
+      finishReason: { unified: 'stop' },
+      usage: {
+        inputTokens: { total: 12 },
+        outputTokens: { total: 8, reasoning: 3 },
+      },
+    });
+    expect(fake.requests[0].body).toMatchObject({
+      model: CHAT_MODEL,
+      stream: true,
+    });
+  });
+
+  it('should return Responses API tool calls', async () => {
+    const { fake, provider } = createFakeSeed();
+    fake.responses.push({
+      toolCalls: [
+        { id: 'call-1', name: 'weather', arguments: { city: 'Paris' } },
+      ],
+    });
+
+    const result = await provider.responses(CHAT_MODEL).doGenerate({
+      prompt,
+      tools: [
+        {
+          type: 'function',
+          name: 'weather',
+          inputSchema: { type: 'object', properties: {} },
+        },
+      ],
+    });
+
+    expect(result.content).toContainEqual(
+      expect.objectContaining({
+        type: 'tool-call',
+        toolCallId: 'call-1',
+        toolName: 'weather',
+        input: '{"city":"Paris"}',
+      }),
+    );
+    expect(result.finishReason.unified).toBe('tool-calls');
+  });
+
+  it('should generate images', async () => {
+    const { provider } = createFakeSeed();
+
+    const result = await provider
+      .imageModel('doubao-seedream-4-5-251128')
+      .doGenerate({
+        prompt: 'A red square',
+        n: 1,
+        size: undefined,
+        aspectRatio: undefined,
+        seed: undefined,
+        files: undefined,
+        mask: undefined,
+        providerOptions: {},
+      });
+
+    expect(result.images).toEqual([FAKE_ARK_PNG]);
+  });
+
+  it('should poll video tasks until they succeed', async () => {
+    const { fake, provider } = createFakeSeed();
+    fake.videos.push({ pollsUntilDone: 2, videoUrl: 'https://cdn/a.mp4' });
+
+    const result = await provider
+      .videoModel('doubao-seedance-1-0-pro-250528')
+      .doGenerate({
+        prompt: 'A cat',
+        n: 1,
+        image: undefined,
+        aspectRatio: undefined,
+        resolution: undefined,
+        duration: undefined,
+        fps: undefined,
+        seed: undefined,
+        providerOptions: { seed: { pollIntervalMs: 1 } },
+        headers: undefined,
+        abortSignal: undefined,
+      });
+
+    expect(result.videos).toEqual([
+      expect.objectContaining({ type: 'url', url: 'https://cdn/a.mp4' }),
+    ]);
+    expect(
+      fake.requests.filter(request => request.method === 'GET'),
+    ).toHaveLength(3);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { downloadSeedImage } from './download-seed-image';
+
+const URL = 'https://ark-output.example.com/1.png';
+
+describe('downloadSeedImage', () => {
+  it('streams the image bytes', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(new Response(new Uint8Array([1, 2, 3])));
+
+    const stream = await downloadSeedImage(URL, { fetch });
+
+    expect(fetch).toHaveBeenCalledWith(URL, { signal: undefined });
+    expect(new Uint8Array(await new Response(stream).arrayBuffer())).toEqual(
+      new Uint8Array([1, 2, 3]),
+    );
+  });
+
+  it('throws a DownloadError for expired URLs', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(
+        new Response('AccessDenied', { status: 403, statusText: 'Forbidden' }),
+      );
+
+    await expect(downloadSeedImage(URL, { fetch })).rejects.toMatchObject({
+      name: 'AI_DownloadError',
+      statusCode: 403,
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { DownloadError, FetchFunction } from '@ai-sdk/provider-utils';
+
+/**
+ * Downloads an image returned with `response_format: 'url'` as a byte stream,
+ * so large images can be written to disk or uploaded without being held in
+ * memory. Ark image URLs expire 24 hours after generation.
+ *
+ * @throws DownloadError when the URL cannot be fetched, e.g. after it expired.
+ */
+export async function downloadSeedImage(
+  url: string,
+  {
+    fetch = globalThis.fetch,
+    abortSignal,
+  }: { fetch?: FetchFunction; abortSignal?: AbortSignal } = {},
+): Promise<ReadableStream<Uint8Array>> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: abortSignal });
+  } catch (error) {
+    throw new DownloadError({ url, cause: error });
+  }
+
+  if (!response.ok || response.body == null) {
+    throw new DownloadError({
+      url,
+      statusCode: response.status,
+      statusText: response.statusText,
+    });
+  }
+
+  return response.body;
+}
@@ -1,6 +1,12 @@
+export { downloadSeedImage } from './download-seed-image';
 export {
   SeedImageModel,
   type SeedImageModelId,
   type SeedImageConfig,
 } from './seed-image-model';
-export { type SeedImageModelOptions } from './seed-image-options';
+export {
+  type SeedImageMetadata,
+  type SeedImageModelOptions,
+  type SeedImageSettings,
+  type SeedImageStreamedImage,
+} from './seed-image-options';
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { seedErrorDataSchema } from '../chat/seed-error';
 
 /**
  * Response schema for Seed image generation API.
@@ -14,6 +15,7 @@ export const seedImageResponseSchema = z.object({
       url: z.string().optional(),
       b64_json: z.string().optional(),
       size: z.string().optional(),
+      seed: z.number().optional(),
     }),
   ),
   usage: z
@@ -28,3 +30,48 @@ export const seedImageResponseSchema = z.object({
 export type SeedImageResponse = z.infer<
   typeof seedImageResponseSchema
 >;
+
+/**
+ * Server-sent events of the streaming image generation API.
+ */
+export const seedImageStreamChunkSchema = z.union([
+  z.object({
+    type: z.literal('image_generation.partial_succeeded'),
+    model: z.string().optional(),
+    image_index: z.number(),
+    url: z.string().optional(),
+    b64_json: z.string().optional(),
+    size: z.string().optional(),
+    seed: z.number().optional(),
+  }),
+  z.object({
+    type: z.literal('image_generation.partial_failed'),
+    image_index: z.number(),
+    error: z
+      .object({
+        code: z.string().optional(),
+        message: z.string().optional(),
+      })
+      .optional(),
+  }),
+  z.object({
+    type: z.literal('image_generation.completed'),
+    model: z.string().optional(),
+    usage: seedImageResponseSchema.shape.usage,
+    error: z
+      .object({
+        code: z.string().optional(),
+        message: z.string().optional(),
+      })
+      .optional(),
+  }),
+  // Errors after the stream has started, and event types added later
+  z
+    .object({
+      type: z.string().optional(),
+      error: seedErrorDataSchema.optional(),
+    })
+    .transform(({ error }) => ({ type: 'unknown' as const, error })),
+]);
+
+export type SeedImageStreamChunk = z.infer<typeof seedImageStreamChunkSchema>;
@@ -1,5 +1,11 @@
 import { describe, expect, it, vi } from 'vitest';
 import { SeedImageModel } from './seed-image-model';
+import { AISDKError, JSONParseError } from '@ai-sdk/provider';
+import { generateImage } from 'ai';
+import {
+  SeedAPICallError,
+  SeedContentModerationError,
+} from '../chat/seed-error';
 
 const TEST_MODEL_ID = 'doubao-seedream-5-0-260128';
 const BASE_URL = 'https://ark.cn-beijing.volces.com/api/v3';
@@ -275,7 +281,7 @@ describe('SeedImageModel', () => {
       expect(body.n).toBe(2);
     });
 
-    it('always forces response_format to b64_json', async () => {
+    it('requests b64_json unless URLs are opted into', async () => {
       const fetch = createMockFetch(makeSuccessResponse());
       await createModel(fetch).doGenerate({
         prompt,
@@ -283,8 +289,7 @@ describe('SeedImageModel', () => {
         size: undefined,
         aspectRatio: undefined,
         seed: undefined,
-        // User tries to override response_format — should be ignored
-        providerOptions: { seed: { response_format: 'url' } },
+        providerOptions: { seed: { response_format: null } },
         files: undefined,
         headers: undefined,
         mask: undefined,
@@ -541,6 +546,82 @@ describe('SeedImageModel', () => {
       expect(result.images).toEqual(['aGVsbG8=', 'd29ybGQ=']);
     });
 
+    it('reports the cost of generated images when a price is known', async () => {
+      const fetch = createMockFetch({
+        model: TEST_MODEL_ID,
+        data: [{ b64_json: 'aGVsbG8=' }, { b64_json: 'd29ybGQ=' }],
+        usage: { generated_images: 2, output_tokens: 32768 },
+      });
+      const model = new SeedImageModel(TEST_MODEL_ID, {
+        provider: 'seed.image',
+        baseURL: BASE_URL,
+        headers: () => ({ Authorization: 'Bearer test-key' }),
+        fetch,
+        pricing: { 'doubao-seedream-5-0': { perImage: 0.22 } },
+      });
+
+      const result = await model.doGenerate({
+        prompt,
+        n: 2,
+        size: undefined,
+        aspectRatio: undefined,
+        seed: undefined,
+        providerOptions: {},
+        files: undefined,
+        headers: undefined,
+        mask: undefined,
+        abortSignal: undefined,
+      });
+
+      expect(result.providerMetadata).toEqual({
+        seed: { images: [{}, {}], cost: { currency: 'CNY', total: 0.44 } },
+      });
+    });
+
+    it('omits providerMetadata without a price', async () => {
+      const fetch = createMockFetch(makeSuccessResponse());
+
+      const result = await createModel(fetch).doGenerate({
+        prompt,
+        n: 1,
+        size: undefined,
+        aspectRatio: undefined,
+        seed: undefined,
+        providerOptions: {},
+        files: undefined,
+        headers: undefined,
+        mask: undefined,
+        abortSignal: undefined,
+      });
+
+      expect(result.providerMetadata).toBeUndefined();
+    });
+
+    it('keeps size and seed of each image', async () => {
+      const fetch = createMockFetch(
+        makeSuccessResponse({
+          data: [{ b64_json: 'aGVsbG8=', size: '2048x2048', seed: 42 }],
+        }),
+      );
+
+      const result = await createModel(fetch).doGenerate({
+        prompt,
+        n: 1,
+        size: undefined,
+        aspectRatio: undefined,
+        seed: undefined,
+        providerOptions: {},
+        files: undefined,
+        headers: undefined,
+        mask: undefined,
+        abortSignal: undefined,
+      });
+
+      expect(result.providerMetadata).toEqual({
+        seed: { images: [{ size: '2048x2048', seed: 42 }] },
+      });
+    });
+
     it('throws when b64_json is missing from response', async () => {
       const fetch = createMockFetch({
         model: TEST_MODEL_ID,
@@ -647,6 +728,95 @@ describe('SeedImageModel', () => {
     });
   });
 
+  // ─── URL output ──────────────────────────────────────────────────────────────
+
+  describe('doGenerate – URL output', () => {
+    const urlOptions = {
+      prompt,
+      n: 1,
+      size: undefined,
+      aspectRatio: undefined,
+      seed: undefined,
+      providerOptions: { seed: { response_format: 'url' } },
+      files: undefined,
+      headers: undefined,
+      mask: undefined,
+      abortSignal: undefined,
+    };
+
+    it('returns image URLs in providerMetadata', async () => {
+      const fetch = createMockFetch(
+        makeSuccessResponse({
+          created: 1767225600,
+          data: [
+            {
+              url: 'https://ark-output.example.com/1.png',
+              size: '2048x2048',
+              seed: 7,
+            },
+          ],
+        }),
+      );
+
+      const result = await createModel(fetch).doGenerate(urlOptions);
+
+      const body = await getRequestBody(fetch);
+      expect(body.response_format).toBe('url');
+      expect(result.images).toEqual([new Uint8Array(0)]);
+      expect(result.warnings).toEqual([
+        {
+          type: 'other',
+          message:
+            "With response_format 'url' the images are empty; read their URLs from providerMetadata.seed.images.",
+        },
+      ]);
+      expect(result.providerMetadata).toEqual({
+        seed: {
+          images: [
+            {
+              url: 'https://ark-output.example.com/1.png',
+              expiresAt: '2026-01-02T00:00:00.000Z',
+              size: '2048x2048',
+              seed: 7,
+            },
+          ],
+        },
+      });
+    });
+
+    it('returns empty images and the URLs through generateImage', async () => {
+      const fetch = createMockFetch(
+        makeSuccessResponse({
+          data: [{ url: 'https://ark-output.example.com/1.png' }],
+        }),
+      );
+
+      const result = await generateImage({
+        model: createModel(fetch),
+        prompt,
+        providerOptions: { seed: { response_format: 'url' } },
+      });
+
+      expect(result.image.uint8Array).toHaveLength(0);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({ type: 'other' }),
+      ]);
+      expect(result.providerMetadata.seed.images).toEqual([
+        expect.objectContaining({ url: 'https://ark-output.example.com/1.png' }),
+      ]);
+    });
+
+    it('throws when url is missing from response', async () => {
+      const fetch = createMockFetch(makeSuccessResponse());
+
+      const error = await createModel(fetch)
+        .doGenerate(urlOptions)
+        .catch(e => e);
+      expect(AISDKError.isInstance(error)).toBe(true);
+      expect(error.message).toBe('No image URL in response');
+    });
+  });
+
   // ─── API error ───────────────────────────────────────────────────────────────
 
   describe('doGenerate – API errors', () => {
@@ -672,4 +842,274 @@ describe('SeedImageModel', () => {
       ).rejects.toThrow();
     });
   });
+
+  // ─── streaming ───────────────────────────────────────────────────────────────
+
+  describe('doGenerate – streaming', () => {
+    const createStreamingFetch = (events: unknown[]) =>
+      vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'text/event-stream' }),
+        body: new ReadableStream({
+          start(controller) {
+            for (const event of events) {
+              controller.enqueue(
+                new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`),
+              );
+            }
+            controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
+            controller.close();
+          },
+        }),
+      });
+
+    const streamOptions = {
+      prompt,
+      n: 2,
+      size: undefined,
+      aspectRatio: undefined,
+      seed: undefined,
+      providerOptions: {
+        seed: { stream: true, sequential_image_generation: 'auto' },
+      },
+      files: undefined,
+      headers: undefined,
+      mask: undefined,
+      abortSignal: undefined,
+    };
+
+    it('hands each image to onImage and returns the aggregate result', async () => {
+      const fetch = createStreamingFetch([
+        {
+          type: 'image_generation.partial_succeeded',
+          model: TEST_MODEL_ID,
+          image_index: 0,
+          b64_json: 'Zmlyc3Q=',
+          size: '2048x2048',
+        },
+        {
+          type: 'image_generation.partial_succeeded',
+          model: TEST_MODEL_ID,
+          image_index: 1,
+          b64_json: 'c2Vjb25k',
+          size: '2048x2048',
+        },
+        {
+          type: 'image_generation.completed',
+          model: TEST_MODEL_ID,
+          usage: {
+            generated_images: 2,
+            output_tokens: 32768,
+            total_tokens: 32768,
+          },
+        },
+      ]);
+      const onImage = vi.fn();
+      const model = new SeedImageModel(
+        TEST_MODEL_ID,
+        {
+          provider: 'seed.image',
+          baseURL: BASE_URL,
+          headers: () => ({ Authorization: 'Bearer test-key' }),
+          fetch: fetch as typeof globalThis.fetch,
+        },
+        { onImage },
+      );
+
+      const result = await model.doGenerate(streamOptions);
+
+      const body = await getRequestBody(fetch);
+      expect(body.stream).toBe(true);
+      expect(body.response_format).toBe('b64_json');
+      expect(onImage.mock.calls).toEqual([
+        [{ index: 0, image: 'Zmlyc3Q=', size: '2048x2048' }],
+        [{ index: 1, image: 'c2Vjb25k', size: '2048x2048' }],
+      ]);
+      expect(result.images).toEqual(['Zmlyc3Q=', 'c2Vjb25k']);
+      expect(result.usage).toEqual({
+        inputTokens: undefined,
+        outputTokens: 32768,
+        totalTokens: 32768,
+      });
+    });
+
+    it('reports failed images as warnings and keeps the rest', async () => {
+      const fetch = createStreamingFetch([
+        {
+          type: 'image_generation.partial_failed',
+          image_index: 0,
+          error: {
+            code: 'OutputImageSensitiveContentDetected',
+            message: 'blocked',
+          },
+        },
+        {
+          type: 'image_generation.partial_succeeded',
+          image_index: 1,
+          b64_json: 'c2Vjb25k',
+        },
+        { type: 'image_generation.completed' },
+      ]);
+
+      const result = await createModel(fetch).doGenerate(streamOptions);
+
+      expect(result.images).toEqual(['c2Vjb25k']);
+      expect(result.warnings).toEqual([
+        { type: 'other', message: 'Image 0 failed: blocked' },
+      ]);
+    });
+
+    it('throws a typed API error when no image was generated', async () => {
+      const fetch = createStreamingFetch([
+        { type: 'image_generation.partial_failed', image_index: 0 },
+        { type: 'image_generation.completed' },
+      ]);
+
+      const error = await createModel(fetch)
+        .doGenerate(streamOptions)
+        .catch(e => e);
+      expect(SeedAPICallError.isInstance(error)).toBe(true);
+      expect(error.message).toBe('No images in streamed response');
+    });
+
+    it('reports the completed event error and throws it when nothing succeeded', async () => {
+      const fetch = createStreamingFetch([
+        {
+          type: 'image_generation.completed',
+          error: {
+            code: 'OutputImageSensitiveContentDetected',
+            message: 'blocked',
+          },
+        },
+      ]);
+
+      const error = await createModel(fetch)
+        .doGenerate(streamOptions)
+        .catch(e => e);
+      expect(error).toBeInstanceOf(SeedContentModerationError);
+      expect(error.message).toBe('blocked');
+    });
+
+    it('warns about a completed event error next to successful images', async () => {
+      const fetch = createStreamingFetch([
+        {
+          type: 'image_generation.partial_succeeded',
+          image_index: 0,
+          b64_json: 'Zmlyc3Q=',
+        },
+        {
+          type: 'image_generation.completed',
+          error: { code: 'InternalServiceError', message: 'image 1 lost' },
+        },
+      ]);
+
+      const result = await createModel(fetch).doGenerate(streamOptions);
+
+      expect(result.images).toEqual(['Zmlyc3Q=']);
+      expect(result.warnings).toEqual([
+        { type: 'other', message: 'Image generation failed: image 1 lost' },
+      ]);
+    });
+
+    it('hands image URLs to onImage without image data', async () => {
+      const fetch = createStreamingFetch([
+        {
+          type: 'image_generation.partial_succeeded',
+          image_index: 0,
+          url: 'https://ark-output.example.com/0.png',
+        },
+        { type: 'image_generation.completed' },
+      ]);
+      const onImage = vi.fn();
+      const model = new SeedImageModel(
+        TEST_MODEL_ID,
+        {
+          provider: 'seed.image',
+          baseURL: BASE_URL,
+          headers: () => ({ Authorization: 'Bearer test-key' }),
+          fetch: fetch as typeof globalThis.fetch,
+        },
+        { onImage },
+      );
+
+      await model.doGenerate({
+        ...streamOptions,
+        providerOptions: {
+          seed: {
+            ...streamOptions.providerOptions.seed,
+            response_format: 'url',
+          },
+        },
+      });
+
+      expect(onImage).toHaveBeenCalledOnce();
+      expect(onImage.mock.calls[0][0]).not.toHaveProperty('image');
+      expect(onImage.mock.calls[0][0].url).toBe(
+        'https://ark-output.example.com/0.png',
+      );
+    });
+
+    it('ignores unknown events', async () => {
+      const fetch = createStreamingFetch([
+        { type: 'image_generation.progress', image_index: 0 },
+        {
+          type: 'image_generation.partial_succeeded',
+          image_index: 0,
+          b64_json: 'Zmlyc3Q=',
+        },
+        { type: 'image_generation.completed' },
+      ]);
+
+      const result = await createModel(fetch).doGenerate(streamOptions);
+
+      expect(result.images).toEqual(['Zmlyc3Q=']);
+    });
+
+    it('throws a typed API error for an error event', async () => {
+      const fetch = createStreamingFetch([
+        {
+          type: 'image_generation.partial_succeeded',
+          image_index: 0,
+          b64_json: 'Zmlyc3Q=',
+        },
+        {
+          error: {
+            code: 'InternalServiceError',
+            message: 'The service encountered an unexpected internal error.',
+          },
+        },
+      ]);
+
+      const error = await createModel(fetch)
+        .doGenerate(streamOptions)
+        .catch(e => e);
+      expect(SeedAPICallError.isInstance(error)).toBe(true);
+      expect(error.code).toBe('InternalServiceError');
+      expect(error.message).toBe(
+        'The service encountered an unexpected internal error.',
+      );
+    });
+
+    it('cancels the stream when a chunk cannot be parsed', async () => {
+      const cancel = vi.fn();
+      const fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-type': 'text/event-stream' }),
+        body: new ReadableStream({
+          start(controller) {
+            // The stream stays open, as a connection would
+            controller.enqueue(new TextEncoder().encode('data: {oops\n\n'));
+          },
+          cancel,
+        }),
+      });
+
+      await expect(
+        createModel(fetch).doGenerate(streamOptions),
+      ).rejects.toThrow(JSONParseError);
+      expect(cancel).toHaveBeenCalled();
+    });
+  });
 });
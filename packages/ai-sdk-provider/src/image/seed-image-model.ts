@@ -1,18 +1,44 @@
 import {
+  AISDKError,
   ImageModelV3,
+  ImageModelV3ProviderMetadata,
   SharedV3Warning,
 } from '@ai-sdk/provider';
 import {
   FetchFunction,
   combineHeaders,
   convertImageModelFileToDataUri,
+  createEventSourceResponseHandler,
   createJsonResponseHandler,
   parseProviderOptions,
   postJsonToApi,
+  removeUndefinedEntries,
 } from '@ai-sdk/provider-utils';
-import { seedFailedResponseHandler } from '../chat/seed-error';
-import { seedImageResponseSchema } from './seed-image-api';
-import { seedImageModelOptionsSchema } from './seed-image-options';
+import {
+  createSeedAPICallError,
+  seedFailedResponseHandler,
+} from '../chat/seed-error';
+import { SeedEndpointResolver } from '../endpoints';
+import {
+  SeedPricingTable,
+  calculateSeedImageCost,
+  getSeedModelPricing,
+} from '../pricing';
+import {
+  SeedTracer,
+  getSeedResultAttributes,
+  traceSeedCall,
+} from '../telemetry';
+import {
+  SeedImageResponse,
+  seedImageResponseSchema,
+  seedImageStreamChunkSchema,
+} from './seed-image-api';
+import {
+  SeedImageMetadata,
+  SeedImageSettings,
+  seedImageModelOptionsSchema,
+} from './seed-image-options';
 
 export type SeedImageModelId =
   | 'doubao-seedream-5-0-260128'
@@ -26,8 +52,14 @@ export interface SeedImageConfig {
   baseURL: string;
   headers: () => Record<string, string>;
   fetch?: FetchFunction;
+  pricing?: SeedPricingTable;
+  endpoints?: SeedEndpointResolver;
+  tracer?: SeedTracer;
 }
 
+/** Ark keeps generated images downloadable for 24 hours. */
+const IMAGE_URL_TTL_MS = 24 * 60 * 60 * 1000;
+
 export class SeedImageModel implements ImageModelV3 {
   readonly specificationVersion = 'v3' as const;
 
@@ -42,9 +74,28 @@ export class SeedImageModel implements ImageModelV3 {
   constructor(
     readonly modelId: SeedImageModelId,
     private readonly config: SeedImageConfig,
+    private readonly settings: SeedImageSettings = {},
   ) {}
 
-  async doGenerate({
+  async doGenerate(
+    options: Parameters<ImageModelV3['doGenerate']>[0],
+  ): Promise<Awaited<ReturnType<ImageModelV3['doGenerate']>>> {
+    return traceSeedCall(
+      this.config.tracer,
+      { provider: this.provider, modelId: this.modelId },
+      () => this.generate(options),
+      result => ({
+        ...getSeedResultAttributes({
+          responseModelId: result.response.modelId,
+          providerMetadata: result.providerMetadata,
+        }),
+        'gen_ai.usage.output_tokens': result.usage?.outputTokens,
+        'seed.image.count': result.images.length,
+      }),
+    );
+  }
+
+  private async generate({
     prompt,
     n,
     size,
@@ -82,21 +133,32 @@ export class SeedImageModel implements ImageModelV3 {
       '2K';
 
     // Strip response_format and size_tier from user options before spreading —
-    // response_format is always forced to b64_json; size_tier is already consumed above.
+    // response_format is set explicitly below; size_tier is already consumed above.
     const {
-      response_format: _ignored,
+      response_format: responseFormat,
       size_tier: _sizeTier,
       ...safeOptions
     } = (seedOptions ?? {}) as Record<string, unknown>;
+    const urlOutput = responseFormat === 'url';
+    if (urlOutput) {
+      // ImageModelV3 can only return image data, so URLs go in the metadata
+      warnings.push({
+        type: 'other',
+        message:
+          "With response_format 'url' the images are empty; read their URLs from providerMetadata.seed.images.",
+      });
+    }
 
     const body: Record<string, unknown> = {
-      model: this.modelId,
+      model:
+        this.config.endpoints?.getRequestModelId(this.modelId) ?? this.modelId,
       prompt,
       size: resolvedSize,
       n: n ?? 1,
       ...safeOptions,
-      // Always use b64_json — AI SDK requires base64 data; must come last
-      response_format: 'b64_json',
+      // b64_json unless URLs were requested — AI SDK expects image data; must
+      // come last
+      response_format: urlOutput ? 'url' : 'b64_json',
     };
 
     // Handle reference images for image-to-image generation
@@ -105,6 +167,16 @@ export class SeedImageModel implements ImageModelV3 {
       body.image = imageUris.length === 1 ? imageUris[0] : imageUris;
     }
 
+    if (body.stream === true) {
+      return this.doGenerateStreaming({
+        body,
+        urlOutput,
+        headers,
+        abortSignal,
+        warnings,
+      });
+    }
+
     const { value: response, responseHeaders } = await postJsonToApi({
       url: `${this.config.baseURL}/images/generations`,
       headers: combineHeaders(this.config.headers(), headers),
@@ -117,32 +189,254 @@ export class SeedImageModel implements ImageModelV3 {
       fetch: this.config.fetch,
     });
 
-    const images: string[] = response.data.map(item => {
-      if (!item.b64_json) {
-        throw new Error('No base64 image data in response');
+    const expiresAt = new Date(
+      (response.created != null ? response.created * 1000 : Date.now()) +
+        IMAGE_URL_TTL_MS,
+    );
+    const images = response.data.map(item => {
+      const image = urlOutput ? item.url : item.b64_json;
+      if (!image) {
+        throw new AISDKError({
+          name: 'SEED_IMAGE_GENERATION_ERROR',
+          message: urlOutput
+            ? 'No image URL in response'
+            : 'No base64 image data in response',
+        });
       }
-      return item.b64_json;
+      return getImageMetadata(item, urlOutput ? expiresAt : undefined);
     });
 
     return {
-      images,
+      images: urlOutput
+        ? images.map(() => new Uint8Array(0))
+        : response.data.map(item => item.b64_json!),
       warnings,
       response: {
         timestamp: new Date(),
         modelId: response.model ?? this.modelId,
         headers: responseHeaders,
       },
-      usage: response.usage
-        ? {
-            inputTokens: undefined,
-            outputTokens: response.usage.output_tokens,
-            totalTokens: response.usage.total_tokens,
+      usage: convertImageUsage(response.usage),
+      providerMetadata: this.getProviderMetadata(
+        images,
+        response.usage,
+        response.model,
+      ),
+    };
+  }
+
+  /**
+   * Reads the SSE response of a `stream: true` request, hands each image to
+   * `onImage` as soon as it arrives and returns the aggregated result.
+   */
+  private async doGenerateStreaming({
+    body,
+    urlOutput,
+    headers,
+    abortSignal,
+    warnings,
+  }: {
+    body: Record<string, unknown>;
+    urlOutput: boolean;
+    headers: Record<string, string | undefined> | undefined;
+    abortSignal: AbortSignal | undefined;
+    warnings: SharedV3Warning[];
+  }): Promise<Awaited<ReturnType<ImageModelV3['doGenerate']>>> {
+    const { value: eventStream, responseHeaders } = await postJsonToApi({
+      url: `${this.config.baseURL}/images/generations`,
+      headers: combineHeaders(this.config.headers(), headers),
+      body,
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createEventSourceResponseHandler(
+        seedImageStreamChunkSchema,
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    const imagesByIndex = new Map<
+      number,
+      { image: string; metadata: SeedImageMetadata }
+    >();
+    let modelId: string | undefined;
+    let usage: SeedImageResponse['usage'];
+    let lastError: { code?: string; message?: string } | undefined;
+
+    const reader = eventStream.getReader();
+    try {
+      while (true) {
+        const { done, value: parseResult } = await reader.read();
+        if (done) break;
+
+        if (!parseResult.success) {
+          throw parseResult.error;
+        }
+
+        const chunk = parseResult.value;
+        switch (chunk.type) {
+          case 'image_generation.partial_succeeded': {
+            if (urlOutput ? !chunk.url : !chunk.b64_json) {
+              throw new AISDKError({
+                name: 'SEED_IMAGE_GENERATION_ERROR',
+                message: urlOutput
+                  ? 'No image URL in response'
+                  : 'No base64 image data in response',
+              });
+            }
+            modelId ??= chunk.model;
+            const image = urlOutput ? '' : chunk.b64_json!;
+            imagesByIndex.set(chunk.image_index, {
+              image,
+              metadata: getImageMetadata(
+                chunk,
+                urlOutput ? new Date(Date.now() + IMAGE_URL_TTL_MS) : undefined,
+              ),
+            });
+            await this.settings.onImage?.({
+              index: chunk.image_index,
+              ...(urlOutput ? {} : { image }),
+              url: chunk.url,
+              size: chunk.size,
+            });
+            break;
           }
-        : undefined,
+          case 'image_generation.partial_failed': {
+            // Later images in a sequential group can still succeed
+            lastError = chunk.error ?? lastError;
+            warnings.push({
+              type: 'other',
+              message: `Image ${chunk.image_index} failed: ${
+                chunk.error?.message ?? 'unknown error'
+              }`,
+            });
+            break;
+          }
+          case 'image_generation.completed': {
+            modelId ??= chunk.model;
+            usage = chunk.usage;
+            if (chunk.error != null) {
+              lastError = chunk.error;
+              warnings.push({
+                type: 'other',
+                message: `Image generation failed: ${
+                  chunk.error.message ?? 'unknown error'
+                }`,
+              });
+            }
+            break;
+          }
+          case 'unknown': {
+            if (chunk.error != null) {
+              throw createSeedAPICallError({
+                data: chunk.error,
+                url: `${this.config.baseURL}/images/generations`,
+                requestBodyValues: body,
+                responseHeaders,
+              });
+            }
+            break;
+          }
+        }
+      }
+    } finally {
+      // Release the connection when reading stops early; a no-op once done
+      await reader.cancel().catch(() => {});
+    }
+
+    if (imagesByIndex.size === 0) {
+      throw createSeedAPICallError({
+        data:
+          lastError != null
+            ? {
+                code: lastError.code,
+                message: lastError.message ?? 'No images in streamed response',
+              }
+            : undefined,
+        message: 'No images in streamed response',
+        url: `${this.config.baseURL}/images/generations`,
+        requestBodyValues: body,
+      });
+    }
+
+    const images = [...imagesByIndex.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, image]) => image);
+
+    return {
+      images: urlOutput
+        ? images.map(() => new Uint8Array(0))
+        : images.map(({ image }) => image),
+      warnings,
+      response: {
+        timestamp: new Date(),
+        modelId: modelId ?? this.modelId,
+        headers: responseHeaders,
+      },
+      usage: convertImageUsage(usage),
+      providerMetadata: this.getProviderMetadata(
+        images.map(({ metadata }) => metadata),
+        usage,
+        modelId,
+      ),
+    };
+  }
+
+  /**
+   * Reports the per-image metadata, and `cost` when the pricing table has a
+   * per-image price for the model. Failed images of a sequential group are
+   * not billed.
+   */
+  private getProviderMetadata(
+    images: SeedImageMetadata[],
+    usage: SeedImageResponse['usage'],
+    responseModelId: string | undefined,
+  ): ImageModelV3ProviderMetadata | undefined {
+    const cost = calculateSeedImageCost(
+      getSeedModelPricing(
+        this.config.pricing ?? {},
+        this.modelId,
+        this.config.endpoints?.getRequestModelId(this.modelId),
+        responseModelId,
+      ),
+      usage?.generated_images ?? images.length,
+    );
+    if (
+      cost == null &&
+      images.every(metadata => Object.keys(metadata).length === 0)
+    ) {
+      return undefined;
+    }
+    return {
+      seed: {
+        images,
+        ...(cost != null ? { cost: { ...cost } } : {}),
+      },
     };
   }
 }
 
+function getImageMetadata(
+  item: { url?: string; size?: string; seed?: number },
+  expiresAt: Date | undefined,
+): SeedImageMetadata {
+  return removeUndefinedEntries({
+    url: expiresAt != null ? item.url : undefined,
+    expiresAt: expiresAt?.toISOString(),
+    size: item.size,
+    seed: item.seed,
+  });
+}
+
+function convertImageUsage(usage: SeedImageResponse['usage']) {
+  return usage
+    ? {
+        inputTokens: undefined,
+        outputTokens: usage.output_tokens,
+        totalTokens: usage.total_tokens,
+      }
+    : undefined;
+}
+
 /**
  * Maps AI SDK aspectRatio to Seed pixel size strings.
  * Uses 2K tier (2048px range) as the baseline resolution.
@@ -56,6 +56,16 @@ export const seedImageModelOptionsSchema = zodSchema(
         })
         .nullish(),
 
+      /**
+       * Output of the generated images.
+       * - "b64_json": image data is returned in `images` (default)
+       * - "url": `images` holds empty placeholders and each image's URL is
+       *   reported in `providerMetadata.seed.images`; download it with
+       *   `downloadSeedImage` when the bytes are needed. URLs expire after
+       *   24 hours.
+       */
+      response_format: z.enum(['b64_json', 'url']).nullish(),
+
       /**
        * Enable streaming output — returns each generated image as soon as it's ready.
        */
@@ -67,3 +77,33 @@ export const seedImageModelOptionsSchema = zodSchema(
 export type SeedImageModelOptions = InferSchema<
   typeof seedImageModelOptionsSchema
 >;
+
+export type SeedImageStreamedImage = {
+  /** Position of the image in the generated group. */
+  index: number;
+  /** Base64-encoded image data, omitted with `response_format: 'url'`. */
+  image?: string;
+  /** Short-lived image URL with `response_format: 'url'`. */
+  url: string | undefined;
+  /** Pixel size of the image, e.g. "2048x2048". */
+  size: string | undefined;
+};
+
+/** Per-image entry of `providerMetadata.seed.images`. */
+export type SeedImageMetadata = {
+  /** Image URL with `response_format: 'url'`. */
+  url?: string;
+  /** ISO timestamp after which `url` can no longer be downloaded. */
+  expiresAt?: string;
+  /** Pixel size of the image, e.g. "2048x2048". */
+  size?: string;
+  seed?: number;
+};
+
+export interface SeedImageSettings {
+  /**
+   * Called with each image as soon as it is ready when the `stream` provider
+   * option is enabled. The complete result is still returned at the end.
+   */
+  onImage?: (image: SeedImageStreamedImage) => void | PromiseLike<void>;
+}
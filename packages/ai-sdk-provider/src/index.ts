@@ -3,14 +3,91 @@ export type {
   SeedProvider,
   SeedProviderSettings,
 } from './seed-provider';
-export type { SeedChatOptions } from './chat';
-export type { SeedImageModelId } from './image';
 export type {
+  SeedBatch,
+  SeedBatchJob,
+  SeedBatchJobStatus,
+  SeedBatchResult,
+} from './batch';
+export type { SeedChatLogprob, SeedChatOptions } from './chat';
+export {
+  SeedAPICallError,
+  SeedAuthenticationError,
+  SeedContentModerationError,
+  SeedInvalidParameterError,
+  SeedModelNotFoundError,
+  SeedQuotaExceededError,
+  SeedRateLimitError,
+} from './chat';
+export type { SeedErrorData, SeedErrorKind } from './chat';
+export type {
+  SeedContextCache,
+  SeedContextCacheCreateOptions,
+  SeedContextCacheCreateResult,
+} from './context';
+export { seedEmbeddingImage } from './embedding';
+export type {
+  SeedEmbeddingModelId,
+  SeedEmbeddingOptions,
+} from './embedding';
+export { downloadSeedImage } from './image';
+export type {
+  SeedImageMetadata,
+  SeedImageModelId,
+  SeedImageSettings,
+  SeedImageStreamedImage,
+} from './image';
+export { getSeedBaseURL } from './endpoints';
+export type { SeedRegion } from './endpoints';
+export {
+  getSeedModelCapabilityWarnings,
+  getSeedModelInfo,
+  listSeedModelInfo,
+} from './model-info';
+export type { SeedModelInfo, SeedThinkingMode } from './model-info';
+export type { SeedTokenizer, SeedTokenizerMessage } from './tokenizer';
+export { defaultSeedPricing } from './pricing';
+export type {
+  SeedCost,
+  SeedModelPricing,
+  SeedPriceTier,
+  SeedPricingTable,
+} from './pricing';
+export type {
+  SeedAttributeValue,
+  SeedErrorInfo,
+  SeedHooks,
+  SeedRequestInfo,
+  SeedResponseInfo,
+  SeedSpan,
+  SeedStreamChunkInfo,
+  SeedTracer,
+} from './telemetry';
+export { seedTools } from './tool';
+export type {
+  ImageProcessArgs,
+  KnowledgeSearchArgs,
+  WebSearchArgs,
+} from './tool';
+export type {
+  SeedVideoChainClip,
+  SeedVideoContent,
+  SeedVideoImageRole,
   SeedVideoModelId,
   SeedVideoModelOptions,
+  SeedVideoTask,
+  SeedVideoTaskCreateOptions,
+  SeedVideoTasks,
+  SeedVideoTaskStatus,
+  SeedVideoTimelineEntry,
 } from './video';
 export type {
+  SeedResponsesInputItem,
   SeedResponsesModelId,
   SeedResponsesOptions,
+  SeedResponsesResponse,
+  SeedResponsesStore,
 } from './responses';
+export { seedConversationMiddleware } from './responses';
+export type { SeedConversationMiddlewareOptions } from './responses';
 export { VERSION } from './version';
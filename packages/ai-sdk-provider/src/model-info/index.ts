@@ -0,0 +1,7 @@
+export {
+  getSeedModelCapabilityWarnings,
+  getSeedModelInfo,
+  listSeedModelInfo,
+  type SeedModelInfo,
+  type SeedThinkingMode,
+} from './seed-model-info';
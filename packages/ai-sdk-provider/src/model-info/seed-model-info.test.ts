@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { SeedChatLanguageModel } from '../chat/seed-chat-language-model';
+import {
+  getSeedModelCapabilityWarnings,
+  getSeedModelInfo,
+  listSeedModelInfo,
+} from './seed-model-info';
+
+const userPrompt = (mediaType: string) => [
+  {
+    role: 'user' as const,
+    content: [
+      { type: 'text' as const, text: 'Describe this' },
+      { type: 'file' as const, data: 'AAAA', mediaType },
+    ],
+  },
+];
+
+describe('getSeedModelInfo', () => {
+  it('returns the capabilities of known models', () => {
+    expect(getSeedModelInfo('doubao-seed-1-6-250615')).toEqual({
+      modelId: 'doubao-seed-1-6-250615',
+      contextWindow: 262144,
+      maxOutputTokens: 32768,
+      input: { image: true, video: true, pdf: false },
+      thinkingModes: ['enabled', 'disabled', 'auto'],
+      reasoningEffort: false,
+    });
+  });
+
+  it('falls back to the newest version of the model family', () => {
+    expect(getSeedModelInfo('doubao-seed-1-6-flash-251201')).toMatchObject({
+      modelId: 'doubao-seed-1-6-flash-251201',
+      maxOutputTokens: 32768,
+    });
+  });
+
+  it('returns undefined for unknown models and endpoint IDs', () => {
+    expect(getSeedModelInfo('ep-20250101000000-abcde')).toBeUndefined();
+  });
+
+  it('returns copies that cannot change the registry', () => {
+    getSeedModelInfo('doubao-seed-1-8-251228')!.thinkingModes.push('auto');
+
+    expect(getSeedModelInfo('doubao-seed-1-8-251228')!.thinkingModes).toEqual([
+      'enabled',
+      'disabled',
+    ]);
+    expect(listSeedModelInfo().map(info => info.modelId)).toContain(
+      'doubao-seed-1-8-251228',
+    );
+  });
+});
+
+describe('getSeedModelCapabilityWarnings', () => {
+  it('warns about unsupported inputs and options', () => {
+    const warnings = getSeedModelCapabilityWarnings({
+      modelId: 'doubao-seed-code-preview-251028',
+      prompt: [...userPrompt('video/mp4'), ...userPrompt('application/pdf')],
+      maxOutputTokens: 100000,
+      thinking: 'auto',
+      reasoningEffort: 'high',
+    });
+
+    expect(warnings.map(warning => (warning as any).feature)).toEqual([
+      'video input',
+      'pdf input',
+      'maxOutputTokens',
+      'thinking',
+      'reasoningEffort',
+    ]);
+  });
+
+  it('does not warn for supported settings or unknown models', () => {
+    expect(
+      getSeedModelCapabilityWarnings({
+        modelId: 'doubao-seed-1-8-251228',
+        prompt: userPrompt('image/png'),
+        thinking: 'enabled',
+        reasoningEffort: 'low',
+      }),
+    ).toEqual([]);
+    expect(
+      getSeedModelCapabilityWarnings({
+        modelId: 'custom-endpoint',
+        prompt: userPrompt('video/mp4'),
+        thinking: 'auto',
+      }),
+    ).toEqual([]);
+  });
+
+  it('is applied by the chat model before sending', async () => {
+    const model = new SeedChatLanguageModel('doubao-seed-code-preview-251028', {
+      provider: 'seed.chat',
+      baseURL: 'https://ark.cn-beijing.volces.com/api/v3',
+      headers: () => ({}),
+    });
+
+    const { body, warnings } = await model.getRequestBody({
+      prompt: userPrompt('application/pdf'),
+    });
+
+    expect(body.messages).toHaveLength(1);
+    expect(warnings).toEqual([
+      {
+        type: 'unsupported',
+        feature: 'pdf input',
+        details: 'doubao-seed-code-preview-251028 does not accept PDF files.',
+      },
+    ]);
+  });
+});
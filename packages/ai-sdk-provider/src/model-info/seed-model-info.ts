@@ -0,0 +1,178 @@
+import type { LanguageModelV3Prompt, SharedV3Warning } from '@ai-sdk/provider';
+
+export type SeedThinkingMode = 'enabled' | 'disabled' | 'auto';
+
+/** Capabilities of a Seed language model. */
+export interface SeedModelInfo {
+  modelId: string;
+  /** Context window in tokens (input and output). */
+  contextWindow: number;
+  /** Maximum output tokens, including the reasoning chain. */
+  maxOutputTokens: number;
+  input: {
+    image: boolean;
+    video: boolean;
+    pdf: boolean;
+  };
+  /** Values accepted by the `thinking` option. */
+  thinkingModes: SeedThinkingMode[];
+  /** Whether the `reasoningEffort` option is supported. */
+  reasoningEffort: boolean;
+}
+
+type SeedModelCapabilities = Omit<SeedModelInfo, 'modelId'>;
+
+const K = 1024;
+
+const seed2: SeedModelCapabilities = {
+  contextWindow: 256 * K,
+  maxOutputTokens: 128 * K,
+  input: { image: true, video: true, pdf: true },
+  thinkingModes: ['enabled', 'disabled'],
+  reasoningEffort: true,
+};
+
+const seed16: SeedModelCapabilities = {
+  contextWindow: 256 * K,
+  maxOutputTokens: 32 * K,
+  input: { image: true, video: true, pdf: false },
+  thinkingModes: ['enabled', 'disabled'],
+  reasoningEffort: false,
+};
+
+/**
+ * Known models, newest version of each family first. Values follow the Ark
+ * model documentation.
+ */
+const MODELS: Record<string, SeedModelCapabilities> = {
+  'doubao-seed-2-0-pro-260215': seed2,
+  'doubao-seed-2-0-lite-260215': seed2,
+  'doubao-seed-2-0-mini-260215': seed2,
+  'doubao-seed-2-0-code-preview-260215': seed2,
+  'doubao-seed-1-8-251228': {
+    contextWindow: 256 * K,
+    maxOutputTokens: 64 * K,
+    input: { image: true, video: true, pdf: true },
+    thinkingModes: ['enabled', 'disabled'],
+    reasoningEffort: true,
+  },
+  'doubao-seed-code-preview-251028': {
+    contextWindow: 256 * K,
+    maxOutputTokens: 32 * K,
+    input: { image: true, video: false, pdf: false },
+    thinkingModes: ['enabled', 'disabled'],
+    reasoningEffort: false,
+  },
+  'doubao-seed-1-6-vision-250815': {
+    ...seed16,
+    maxOutputTokens: 64 * K,
+    input: { image: true, video: true, pdf: true },
+  },
+  'doubao-seed-1-6-251015': { ...seed16, reasoningEffort: true },
+  'doubao-seed-1-6-250615': {
+    ...seed16,
+    thinkingModes: ['enabled', 'disabled', 'auto'],
+  },
+  'doubao-seed-1-6-lite-251015': { ...seed16, reasoningEffort: true },
+  'doubao-seed-1-6-flash-250828': seed16,
+  'doubao-seed-1-6-flash-250715': seed16,
+  'doubao-seed-1-6-flash-250615': seed16,
+};
+
+/** Strips the version date, e.g. `doubao-seed-1-6-flash-250828` → `doubao-seed-1-6-flash`. */
+const getFamily = (modelId: string) => modelId.replace(/-\d{6}$/, '');
+
+/**
+ * Returns the capabilities of a Seed language model.
+ *
+ * Unknown versions of a known model family get the capabilities of the newest
+ * known version. Returns `undefined` for unknown models and endpoint IDs.
+ */
+export function getSeedModelInfo(modelId: string): SeedModelInfo | undefined {
+  const capabilities =
+    MODELS[modelId] ??
+    Object.entries(MODELS).find(
+      ([id]) => getFamily(id) === getFamily(modelId),
+    )?.[1];
+
+  return capabilities != null
+    ? structuredClone({ modelId, ...capabilities })
+    : undefined;
+}
+
+/** Lists all known Seed language models, newest first within each family. */
+export function listSeedModelInfo(): SeedModelInfo[] {
+  return Object.keys(MODELS).map(modelId => getSeedModelInfo(modelId)!);
+}
+
+/**
+ * Warns about call settings the model is known not to support. The request is
+ * still sent unchanged, since the registry may lag behind the API.
+ */
+export function getSeedModelCapabilityWarnings({
+  modelId,
+  prompt,
+  maxOutputTokens,
+  thinking,
+  reasoningEffort,
+}: {
+  modelId: string;
+  prompt: LanguageModelV3Prompt;
+  maxOutputTokens?: number;
+  thinking?: SeedThinkingMode;
+  reasoningEffort?: string;
+}): SharedV3Warning[] {
+  const info = getSeedModelInfo(modelId);
+  if (info == null) {
+    return [];
+  }
+
+  const warnings: SharedV3Warning[] = [];
+  const unsupported = (feature: string, details: string) =>
+    warnings.push({ type: 'unsupported', feature, details });
+
+  const mediaTypes = new Set(
+    prompt.flatMap(message =>
+      typeof message.content === 'string'
+        ? []
+        : message.content.flatMap(part =>
+            part.type === 'file' ? [part.mediaType] : [],
+          ),
+    ),
+  );
+  const hasMediaType = (predicate: (mediaType: string) => boolean) =>
+    [...mediaTypes].some(predicate);
+
+  if (!info.input.image && hasMediaType(type => type.startsWith('image/'))) {
+    unsupported('image input', `${modelId} does not accept images.`);
+  }
+  if (!info.input.video && hasMediaType(type => type.startsWith('video/'))) {
+    unsupported('video input', `${modelId} does not accept videos.`);
+  }
+  if (!info.input.pdf && mediaTypes.has('application/pdf')) {
+    unsupported('pdf input', `${modelId} does not accept PDF files.`);
+  }
+
+  if (maxOutputTokens != null && maxOutputTokens > info.maxOutputTokens) {
+    unsupported(
+      'maxOutputTokens',
+      `${modelId} generates at most ${info.maxOutputTokens} tokens.`,
+    );
+  }
+
+  if (thinking != null && !info.thinkingModes.includes(thinking)) {
+    unsupported(
+      'thinking',
+      `${modelId} does not support thinking mode '${thinking}'.`,
+    );
+  }
+
+  if (reasoningEffort != null && !info.reasoningEffort) {
+    unsupported(
+      'reasoningEffort',
+      `${modelId} does not support reasoning effort.`,
+    );
+  }
+
+  return warnings;
+}
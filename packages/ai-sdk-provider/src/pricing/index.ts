@@ -0,0 +1,13 @@
+export {
+  addSeedCosts,
+  calculateSeedImageCost,
+  calculateSeedLanguageModelCost,
+  calculateSeedVideoCost,
+  defaultSeedPricing,
+  getSeedModelPricing,
+  withCostProviderMetadata,
+  type SeedCost,
+  type SeedModelPricing,
+  type SeedPriceTier,
+  type SeedPricingTable,
+} from './seed-pricing';
@@ -0,0 +1,145 @@
+import { LanguageModelV3Usage } from '@ai-sdk/provider';
+import { describe, expect, it } from 'vitest';
+import {
+  addSeedCosts,
+  calculateSeedImageCost,
+  calculateSeedLanguageModelCost,
+  calculateSeedVideoCost,
+  defaultSeedPricing,
+  getSeedModelPricing,
+  withCostProviderMetadata,
+} from './seed-pricing';
+
+const createUsage = (
+  input: number,
+  output: number,
+  cacheRead?: number,
+): LanguageModelV3Usage => ({
+  inputTokens: {
+    total: input,
+    noCache: input - (cacheRead ?? 0),
+    cacheRead,
+    cacheWrite: undefined,
+  },
+  outputTokens: { total: output, text: output, reasoning: undefined },
+});
+
+describe('getSeedModelPricing', () => {
+  it('looks up model IDs by family', () => {
+    expect(
+      getSeedModelPricing(defaultSeedPricing, 'doubao-seed-1-6-flash-250828'),
+    ).toBe(defaultSeedPricing['doubao-seed-1-6-flash']);
+  });
+
+  it('prefers exact IDs and tries the model IDs in order', () => {
+    const pricing = {
+      'doubao-seed-1-6': { perImage: 1 },
+      'doubao-seed-1-6-250615': { perImage: 2 },
+    };
+
+    expect(getSeedModelPricing(pricing, 'doubao-seed-1-6-250615')).toEqual({
+      perImage: 2,
+    });
+    expect(
+      getSeedModelPricing(pricing, 'ep-123', 'doubao-seed-1-6-251015'),
+    ).toEqual({ perImage: 1 });
+    expect(getSeedModelPricing(pricing, 'ep-123', undefined)).toBeUndefined();
+  });
+});
+
+describe('calculateSeedLanguageModelCost', () => {
+  const prices = {
+    tiers: [
+      { maxInputTokens: 1000, input: 1, cachedInput: 0.1, output: 10 },
+      { input: 2, output: 20 },
+    ],
+  };
+
+  it('prices cached and non-cached input and output tokens', () => {
+    expect(
+      calculateSeedLanguageModelCost(prices, createUsage(1000, 100, 400)),
+    ).toEqual({
+      currency: 'CNY',
+      input: 0.0006,
+      cachedInput: 0.00004,
+      output: 0.001,
+      total: 0.00164,
+    });
+  });
+
+  it('bills the whole call at the tier of its input length', () => {
+    expect(
+      calculateSeedLanguageModelCost(prices, createUsage(1001, 100, 1000)),
+    ).toMatchObject({ input: 0.000002, cachedInput: 0.002, output: 0.002 });
+  });
+
+  it('returns undefined without prices or usage', () => {
+    expect(
+      calculateSeedLanguageModelCost(undefined, createUsage(1, 1)),
+    ).toBeUndefined();
+    expect(
+      calculateSeedLanguageModelCost(prices, {
+        ...createUsage(1, 1),
+        outputTokens: {
+          total: undefined,
+          text: undefined,
+          reasoning: undefined,
+        },
+      }),
+    ).toBeUndefined();
+  });
+});
+
+describe('calculateSeedImageCost and calculateSeedVideoCost', () => {
+  it('prices images per unit and videos per token', () => {
+    expect(calculateSeedImageCost({ perImage: 0.2 }, 3)).toEqual({
+      currency: 'CNY',
+      total: 0.6,
+    });
+    expect(
+      calculateSeedVideoCost(
+        { currency: 'USD', videoPerMillionTokens: 15 },
+        246_840,
+      ),
+    ).toEqual({ currency: 'USD', total: 3.7026 });
+    expect(calculateSeedVideoCost({ perImage: 0.2 }, 100)).toBeUndefined();
+  });
+});
+
+describe('addSeedCosts', () => {
+  it('adds up costs in the same currency', () => {
+    expect(
+      addSeedCosts([
+        { currency: 'CNY', total: 0.1, input: 0.04, output: 0.06 },
+        { currency: 'CNY', total: 0.2, input: 0.05, output: 0.15 },
+      ]),
+    ).toEqual({ currency: 'CNY', total: 0.3, input: 0.09, output: 0.21 });
+    expect(
+      addSeedCosts([
+        { currency: 'CNY', total: 0.1 },
+        { currency: 'USD', total: 0.2 },
+      ]),
+    ).toBeUndefined();
+    expect(
+      addSeedCosts([{ currency: 'CNY', total: 0.1 }, undefined]),
+    ).toBeUndefined();
+  });
+});
+
+describe('withCostProviderMetadata', () => {
+  it('merges the cost into the seed metadata', () => {
+    expect(
+      withCostProviderMetadata(
+        { seed: { cacheHit: false, cachedTokens: 0 } },
+        { currency: 'CNY', total: 1 },
+      ),
+    ).toEqual({
+      seed: {
+        cacheHit: false,
+        cachedTokens: 0,
+        cost: { currency: 'CNY', total: 1 },
+      },
+    });
+    expect(withCostProviderMetadata(undefined, undefined)).toBeUndefined();
+  });
+});
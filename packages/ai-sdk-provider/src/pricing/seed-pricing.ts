@@ -0,0 +1,195 @@
+import {
+  LanguageModelV3Usage,
+  SharedV3ProviderMetadata,
+} from '@ai-sdk/provider';
+
+/**
+ * Token prices for calls up to `maxInputTokens` input tokens, per million
+ * tokens. Ark bills the whole call at the tier its input length falls into.
+ */
+export interface SeedPriceTier {
+  /** Upper bound of the tier (inclusive). Omit for the last tier. */
+  maxInputTokens?: number;
+  input: number;
+  /** Price of input tokens served from the context cache. Defaults to `input`. */
+  cachedInput?: number;
+  output: number;
+}
+
+/** Prices of a model or endpoint. */
+export interface SeedModelPricing {
+  /** Defaults to `CNY`. */
+  currency?: string;
+  /** Language model token prices, ordered by `maxInputTokens`. */
+  tiers?: SeedPriceTier[];
+  /** Image model price per generated image. */
+  perImage?: number;
+  /** Video model price per million output tokens. */
+  videoPerMillionTokens?: number;
+}
+
+/**
+ * Prices keyed by model ID, model family (the model ID without its version
+ * date, e.g. `doubao-seed-1-6-flash`) or endpoint ID.
+ */
+export type SeedPricingTable = Record<string, SeedModelPricing>;
+
+/** Cost of a call, reported as `providerMetadata.seed.cost`. */
+export interface SeedCost {
+  currency: string;
+  total: number;
+  input?: number;
+  cachedInput?: number;
+  output?: number;
+}
+
+const K = 1024;
+
+const seed16: SeedModelPricing = {
+  tiers: [
+    { maxInputTokens: 32 * K, input: 0.8, cachedInput: 0.16, output: 8 },
+    { maxInputTokens: 128 * K, input: 1.2, cachedInput: 0.16, output: 16 },
+    { input: 2.4, cachedInput: 0.16, output: 24 },
+  ],
+};
+
+/**
+ * List prices in CNY at the time of writing. Pass `pricing` to `createSeed` to
+ * correct them or to add models and endpoint IDs.
+ */
+export const defaultSeedPricing: SeedPricingTable = {
+  'doubao-seed-1-8': seed16,
+  'doubao-seed-1-6': seed16,
+  'doubao-seed-1-6-vision': seed16,
+  'doubao-seed-1-6-flash': {
+    tiers: [
+      { maxInputTokens: 32 * K, input: 0.15, cachedInput: 0.03, output: 1.5 },
+      { maxInputTokens: 128 * K, input: 0.3, cachedInput: 0.03, output: 3 },
+      { input: 0.6, cachedInput: 0.03, output: 6 },
+    ],
+  },
+  'doubao-seedream-4-5': { perImage: 0.25 },
+  'doubao-seedream-4-0': { perImage: 0.2 },
+  'doubao-seedance-1-0-pro': { videoPerMillionTokens: 15 },
+  'doubao-seedance-1-0-pro-fast': { videoPerMillionTokens: 4.2 },
+  'doubao-seedance-1-0-lite-t2v': { videoPerMillionTokens: 10 },
+  'doubao-seedance-1-0-lite-i2v': { videoPerMillionTokens: 10 },
+};
+
+/**
+ * Returns the prices for the first of `modelIds` found in the table, by exact
+ * ID first and then by model family.
+ */
+export function getSeedModelPricing(
+  pricing: SeedPricingTable,
+  ...modelIds: Array<string | null | undefined>
+): SeedModelPricing | undefined {
+  for (const modelId of modelIds) {
+    if (modelId == null) {
+      continue;
+    }
+    const prices = pricing[modelId] ?? pricing[modelId.replace(/-\d{6}$/, '')];
+    if (prices != null) {
+      return prices;
+    }
+  }
+  return undefined;
+}
+
+// Avoids floating point noise such as 0.30000000000000004
+const round = (amount: number) => Math.round(amount * 1e8) / 1e8;
+
+export function calculateSeedLanguageModelCost(
+  prices: SeedModelPricing | undefined,
+  usage: LanguageModelV3Usage,
+): SeedCost | undefined {
+  const inputTokens = usage.inputTokens.total;
+  const outputTokens = usage.outputTokens.total;
+  if (prices?.tiers == null || inputTokens == null || outputTokens == null) {
+    return undefined;
+  }
+
+  const tier =
+    prices.tiers.find(
+      tier => tier.maxInputTokens == null || inputTokens <= tier.maxInputTokens,
+    ) ?? prices.tiers[prices.tiers.length - 1];
+  if (tier == null) {
+    return undefined;
+  }
+
+  const cachedTokens = usage.inputTokens.cacheRead ?? 0;
+  const input = ((inputTokens - cachedTokens) * tier.input) / 1e6;
+  const cachedInput = (cachedTokens * (tier.cachedInput ?? tier.input)) / 1e6;
+  const output = (outputTokens * tier.output) / 1e6;
+
+  return {
+    currency: prices.currency ?? 'CNY',
+    total: round(input + cachedInput + output),
+    input: round(input),
+    cachedInput: round(cachedInput),
+    output: round(output),
+  };
+}
+
+export function calculateSeedImageCost(
+  prices: SeedModelPricing | undefined,
+  generatedImages: number,
+): SeedCost | undefined {
+  if (prices?.perImage == null) {
+    return undefined;
+  }
+  return {
+    currency: prices.currency ?? 'CNY',
+    total: round(generatedImages * prices.perImage),
+  };
+}
+
+export function calculateSeedVideoCost(
+  prices: SeedModelPricing | undefined,
+  outputTokens: number | null | undefined,
+): SeedCost | undefined {
+  if (prices?.videoPerMillionTokens == null || outputTokens == null) {
+    return undefined;
+  }
+  return {
+    currency: prices.currency ?? 'CNY',
+    total: round((outputTokens * prices.videoPerMillionTokens) / 1e6),
+  };
+}
+
+/**
+ * Adds up the costs of several calls, e.g. retries of the same generation.
+ * Returns undefined unless every call has a cost in the same currency.
+ */
+export function addSeedCosts(
+  costs: Array<SeedCost | undefined>,
+): SeedCost | undefined {
+  const [first, ...rest] = costs;
+  if (
+    first == null ||
+    rest.some(cost => cost == null || cost.currency !== first.currency)
+  ) {
+    return undefined;
+  }
+  const total: SeedCost = { currency: first.currency, total: 0 };
+  for (const key of ['total', 'input', 'cachedInput', 'output'] as const) {
+    if (costs.every(cost => cost?.[key] != null)) {
+      total[key] = round(costs.reduce((sum, cost) => sum + cost![key]!, 0));
+    }
+  }
+  return total;
+}
+
+/** Adds `cost` to the `seed` provider metadata, if there is a cost. */
+export function withCostProviderMetadata(
+  providerMetadata: SharedV3ProviderMetadata | undefined,
+  cost: SeedCost | undefined,
+): SharedV3ProviderMetadata | undefined {
+  if (cost == null) {
+    return providerMetadata;
+  }
+  return {
+    ...providerMetadata,
+    seed: { ...providerMetadata?.seed, cost: { ...cost } },
+  };
+}
@@ -0,0 +1,269 @@
+import { JSONObject } from '@ai-sdk/provider';
+import {
+  AssistantContent,
+  FilePart,
+  ImagePart,
+  ModelMessage,
+  TextPart,
+  ToolResultOutput,
+} from '@ai-sdk/provider-utils';
+import {
+  SeedResponsesInputItem,
+  SeedResponsesOutputItem,
+  seedBuiltInToolCallTypes,
+} from './seed-responses-api';
+
+/** One response of a stored chain with the input items it was called with. */
+export type SeedStoredResponseTurn = {
+  inputItems: SeedResponsesInputItem[];
+  output: SeedResponsesOutputItem[];
+};
+
+type SeedContentPart = { type: string; [key: string]: unknown };
+
+/**
+ * Rebuilds the AI SDK message history of a stored response chain, oldest
+ * turn first. Reasoning parts keep their item ID and encrypted content in
+ * `providerOptions.seed`, so the history can be sent to `seed.responses()`
+ * models again.
+ */
+export function convertSeedResponsesToModelMessages({
+  turns,
+  instructions,
+}: {
+  turns: SeedStoredResponseTurn[];
+  /** Instructions of the latest response, added as a system message. */
+  instructions?: string | null;
+}): ModelMessage[] {
+  const messages: ModelMessage[] = [];
+  const toolNames = new Map<string, string>();
+
+  if (instructions != null) {
+    messages.push({ role: 'system', content: instructions });
+  }
+
+  const pushAssistant = (parts: Exclude<AssistantContent, string>) => {
+    const last = messages.at(-1);
+    if (last?.role === 'assistant' && Array.isArray(last.content)) {
+      last.content.push(...parts);
+    } else {
+      messages.push({ role: 'assistant', content: parts });
+    }
+  };
+
+  const convertItem = (item: SeedResponsesInputItem) => {
+    switch (item.type) {
+      case 'message': {
+        const parts =
+          typeof item.content === 'string'
+            ? [{ type: 'input_text', text: item.content }]
+            : item.content;
+
+        if (item.role === 'system' || item.role === 'developer') {
+          messages.push({
+            role: 'system',
+            content: parts.map(part => String(part.text ?? '')).join('\n'),
+          });
+        } else if (item.role === 'user') {
+          messages.push({
+            role: 'user',
+            content: parts.flatMap(convertUserPart),
+          });
+        } else {
+          pushAssistant(
+            parts.map(part => ({
+              type: 'text' as const,
+              text: String(part.type === 'refusal' ? part.refusal : part.text),
+            })),
+          );
+        }
+        break;
+      }
+
+      case 'reasoning': {
+        const providerOptions = {
+          seed: {
+            ...(item.id != null ? { itemId: item.id } : {}),
+            ...(item.encrypted_content != null
+              ? { reasoningEncryptedContent: item.encrypted_content }
+              : {}),
+          },
+        };
+        const summaries = item.summary ?? [];
+        pushAssistant(
+          summaries.length > 0
+            ? summaries.map(summary => ({
+                type: 'reasoning' as const,
+                text: summary.text,
+                providerOptions,
+              }))
+            : [{ type: 'reasoning', text: '', providerOptions }],
+        );
+        break;
+      }
+
+      case 'function_call': {
+        toolNames.set(item.call_id, item.name);
+        pushAssistant([
+          {
+            type: 'tool-call',
+            toolCallId: item.call_id,
+            toolName: item.name,
+            input: parseArguments(item.arguments),
+          },
+        ]);
+        break;
+      }
+
+      case 'function_call_output': {
+        const part = {
+          type: 'tool-result' as const,
+          toolCallId: item.call_id,
+          toolName: toolNames.get(item.call_id) ?? 'unknown',
+          output: convertToolOutput(item.output),
+        };
+        const last = messages.at(-1);
+        if (last?.role === 'tool') {
+          last.content.push(part);
+        } else {
+          messages.push({ role: 'tool', content: [part] });
+        }
+        break;
+      }
+
+      default: {
+        if (
+          (seedBuiltInToolCallTypes as readonly string[]).includes(item.type)
+        ) {
+          const { id, type, status, action, ...rest } = item as Extract<
+            SeedResponsesInputItem,
+            { type: (typeof seedBuiltInToolCallTypes)[number] }
+          >;
+          const toolName = type.replace(/_call$/, '');
+          pushAssistant([
+            {
+              type: 'tool-call',
+              toolCallId: id,
+              toolName,
+              input: action ?? {},
+              providerExecuted: true,
+            },
+            {
+              type: 'tool-result',
+              toolCallId: id,
+              toolName,
+              output: {
+                type: 'json',
+                value: {
+                  ...rest,
+                  ...(status != null ? { status } : {}),
+                } as JSONObject,
+              },
+            },
+          ]);
+        }
+      }
+    }
+  };
+
+  for (const { inputItems, output } of turns) {
+    inputItems.forEach(convertItem);
+    for (const item of output) {
+      // Output messages carry no role
+      convertItem(
+        item.type === 'message'
+          ? { ...item, role: 'assistant', content: item.content ?? [] }
+          : item,
+      );
+    }
+  }
+
+  return messages;
+}
+
+function convertUserPart(
+  part: SeedContentPart,
+): Array<TextPart | ImagePart | FilePart> {
+  switch (part.type) {
+    case 'input_text':
+      return [{ type: 'text', text: String(part.text) }];
+    case 'input_image':
+      return [{ type: 'image', image: new URL(String(part.image_url)) }];
+    case 'input_video':
+      return [
+        {
+          type: 'file',
+          data: new URL(String(part.video_url)),
+          mediaType: 'video/mp4',
+        },
+      ];
+    case 'input_file':
+      return [
+        {
+          type: 'file',
+          data: new URL(String(part.file_url ?? part.file_data)),
+          mediaType: 'application/pdf',
+          ...(part.filename != null ? { filename: String(part.filename) } : {}),
+        },
+      ];
+    default:
+      return [];
+  }
+}
+
+function convertToolOutput(
+  output: string | SeedContentPart[],
+): ToolResultOutput {
+  if (typeof output === 'string') {
+    return { type: 'text', value: output };
+  }
+
+  return {
+    type: 'content',
+    value: output.flatMap(
+      (part): Extract<ToolResultOutput, { type: 'content' }>['value'] => {
+        switch (part.type) {
+          case 'input_text':
+            return [{ type: 'text', text: String(part.text) }];
+          case 'input_image':
+            return [{ type: 'image-url', url: String(part.image_url) }];
+          case 'input_file': {
+            if (part.file_url != null) {
+              return [{ type: 'file-url', url: String(part.file_url) }];
+            }
+            const file = parseDataUrl(String(part.file_data ?? ''));
+            return file != null
+              ? [
+                  {
+                    type: 'file-data',
+                    ...file,
+                    ...(part.filename != null
+                      ? { filename: String(part.filename) }
+                      : {}),
+                  },
+                ]
+              : [];
+          }
+          default:
+            return [];
+        }
+      },
+    ),
+  };
+}
+
+/** Splits a base64 data URL, e.g. the `file_data` of a PDF, into its parts. */
+function parseDataUrl(
+  value: string,
+): { mediaType: string; data: string } | undefined {
+  const match = /^data:([^;,]+)[^,]*,([\s\S]*)$/.exec(value);
+  return match != null ? { mediaType: match[1], data: match[2] } : undefined;
+}
+
+function parseArguments(value: string | null | undefined): unknown {
+  try {
+    return JSON.parse(value || '{}');
+  } catch {
+    return value;
+  }
+}
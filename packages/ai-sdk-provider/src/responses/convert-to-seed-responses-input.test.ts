@@ -126,4 +126,227 @@ describe('convertToSeedResponsesInput', () => {
       },
     ]);
   });
+
+  it('converts tool results with images to input content parts', async () => {
+    const result = await convertToSeedResponsesInput({
+      prompt: [
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_1',
+              toolName: 'screenshot',
+              output: {
+                type: 'content',
+                value: [
+                  { type: 'text', text: 'Captured screen' },
+                  {
+                    type: 'image-data',
+                    data: 'AAECAw==',
+                    mediaType: 'image/png',
+                    providerOptions: { seed: { detail: 'high' } },
+                  },
+                  { type: 'file-url', url: 'https://example.com/spec.pdf' },
+                ],
+              },
+            },
+            {
+              type: 'tool-result',
+              toolCallId: 'call_2',
+              toolName: 'read',
+              output: {
+                type: 'content',
+                value: [{ type: 'text', text: 'plain text' }],
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(result.input).toEqual([
+      {
+        type: 'function_call_output',
+        call_id: 'call_1',
+        output: [
+          { type: 'input_text', text: 'Captured screen' },
+          {
+            type: 'input_image',
+            image_url: 'data:image/png;base64,AAECAw==',
+            detail: 'high',
+          },
+          { type: 'input_file', file_url: 'https://example.com/spec.pdf' },
+        ],
+      },
+      { type: 'function_call_output', call_id: 'call_2', output: 'plain text' },
+    ]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('warns about unsupported tool result content', async () => {
+    const result = await convertToSeedResponsesInput({
+      prompt: [
+        {
+          role: 'tool',
+          content: [
+            {
+              type: 'tool-result',
+              toolCallId: 'call_1',
+              toolName: 'read',
+              output: {
+                type: 'content',
+                value: [
+                  { type: 'text', text: 'see file' },
+                  { type: 'file-id', fileId: 'file-123' },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(result.input).toEqual([
+      {
+        type: 'function_call_output',
+        call_id: 'call_1',
+        output: [{ type: 'input_text', text: 'see file' }],
+      },
+    ]);
+    expect(result.warnings).toEqual([
+      {
+        type: 'other',
+        message: 'unsupported tool result content type: file-id',
+      },
+    ]);
+  });
+
+  it('skips provider-executed tool calls and results in history', async () => {
+    const result = await convertToSeedResponsesInput({
+      prompt: [
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'tool-call',
+              toolCallId: 'ws_1',
+              toolName: 'webSearch',
+              input: { query: 'seed' },
+              providerExecuted: true,
+            },
+            {
+              type: 'tool-result',
+              toolCallId: 'ws_1',
+              toolName: 'webSearch',
+              output: { type: 'json', value: { status: 'completed' } },
+            },
+            { type: 'text', text: 'Here is what I found.' },
+          ],
+        },
+      ],
+    });
+
+    expect(result.warnings).toEqual([]);
+    expect(result.input).toEqual([
+      {
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'output_text', text: 'Here is what I found.' }],
+      },
+    ]);
+  });
+
+  it('replays reasoning parts as reasoning items before the tool call', async () => {
+    const result = await convertToSeedResponsesInput({
+      prompt: [
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'reasoning',
+              text: 'Need the weather first.',
+              providerOptions: {
+                seed: { itemId: 'rs_1', reasoningEncryptedContent: 'enc_1' },
+              },
+            },
+            {
+              type: 'reasoning',
+              text: 'Call get_weather.',
+              providerOptions: { seed: { itemId: 'rs_1' } },
+            },
+            { type: 'text', text: 'Checking.' },
+            {
+              type: 'tool-call',
+              toolCallId: 'call_1',
+              toolName: 'get_weather',
+              input: { city: 'Beijing' },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(result.warnings).toEqual([]);
+    expect(result.input).toEqual([
+      {
+        type: 'reasoning',
+        id: 'rs_1',
+        summary: [
+          { type: 'summary_text', text: 'Need the weather first.' },
+          { type: 'summary_text', text: 'Call get_weather.' },
+        ],
+        encrypted_content: 'enc_1',
+      },
+      {
+        type: 'message',
+        role: 'assistant',
+        content: [{ type: 'output_text', text: 'Checking.' }],
+      },
+      {
+        type: 'function_call',
+        call_id: 'call_1',
+        name: 'get_weather',
+        arguments: '{"city":"Beijing"}',
+      },
+    ]);
+  });
+
+  it('keeps separate reasoning items and encrypted-only reasoning', async () => {
+    const result = await convertToSeedResponsesInput({
+      prompt: [
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'reasoning',
+              text: '',
+              providerOptions: {
+                seed: { itemId: 'rs_1', reasoningEncryptedContent: 'enc_1' },
+              },
+            },
+            {
+              type: 'reasoning',
+              text: 'Second thought.',
+              providerOptions: { seed: { itemId: 'rs_2' } },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(result.input).toEqual([
+      {
+        type: 'reasoning',
+        id: 'rs_1',
+        summary: [],
+        encrypted_content: 'enc_1',
+      },
+      {
+        type: 'reasoning',
+        id: 'rs_2',
+        summary: [{ type: 'summary_text', text: 'Second thought.' }],
+      },
+    ]);
+  });
 });
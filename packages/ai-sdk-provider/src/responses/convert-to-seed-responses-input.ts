@@ -1,4 +1,9 @@
-import { LanguageModelV3Prompt, SharedV3Warning } from '@ai-sdk/provider';
+import {
+  LanguageModelV3FilePart,
+  LanguageModelV3Prompt,
+  LanguageModelV3ToolResultOutput,
+  SharedV3Warning,
+} from '@ai-sdk/provider';
 import { convertToBase64 } from '@ai-sdk/provider-utils';
 
 type SeedInputImagePart = {
@@ -17,16 +22,32 @@ type SeedInputVideoPart = {
   fps?: number;
 };
 
+type SeedInputFilePart = {
+  type: 'input_file';
+  file_url?: string;
+  file_data?: string;
+  filename?: string;
+};
+
+type SeedInputContentPart =
+  | { type: 'input_text'; text: string }
+  | SeedInputImagePart
+  | SeedInputVideoPart
+  | SeedInputFilePart;
+
+type SeedInputReasoningItem = {
+  type: 'reasoning';
+  id?: string;
+  summary: Array<{ type: 'summary_text'; text: string }>;
+  encrypted_content?: string;
+};
+
 type SeedInputItem =
+  | SeedInputReasoningItem
   | {
       type: 'message';
       role: 'user';
-      content: Array<
-        | { type: 'input_text'; text: string }
-        | SeedInputImagePart
-        | SeedInputVideoPart
-        | { type: 'input_file'; file_url?: string; file_data?: string; filename?: string }
-      >;
+      content: Array<SeedInputContentPart>;
     }
   | {
       type: 'message';
@@ -45,7 +66,7 @@ type SeedInputItem =
   | {
       type: 'function_call_output';
       call_id: string;
-      output: string;
+      output: string | Array<SeedInputContentPart>;
     };
 
 export async function convertToSeedResponsesInput({
@@ -69,17 +90,7 @@ export async function convertToSeedResponsesInput({
       }
 
       case 'user': {
-        const userContent: Array<
-          | { type: 'input_text'; text: string }
-          | { type: 'input_image'; image_url: string }
-          | SeedInputVideoPart
-          | {
-              type: 'input_file';
-              file_url?: string;
-              file_data?: string;
-              filename?: string;
-            }
-        > = [];
+        const userContent: Array<SeedInputContentPart> = [];
 
         for (const part of content) {
           switch (part.type) {
@@ -88,85 +99,10 @@ export async function convertToSeedResponsesInput({
               break;
             }
             case 'file': {
-              if (part.mediaType.startsWith('image/')) {
-                const mediaType =
-                  part.mediaType === 'image/*' ? 'image/jpeg' : part.mediaType;
-
-                const seedOptions = part.providerOptions?.seed as
-                  | {
-                      detail?: 'low' | 'high' | 'xhigh';
-                      image_pixel_limit?: { max_pixels?: number; min_pixels?: number };
-                    }
-                  | undefined;
-
-                const imagePart: SeedInputImagePart = {
-                  type: 'input_image',
-                  image_url:
-                    part.data instanceof URL
-                      ? part.data.toString()
-                      : `data:${mediaType};base64,${convertToBase64(part.data)}`,
-                };
-
-                if (seedOptions?.detail != null) {
-                  imagePart.detail = seedOptions.detail;
-                }
-                if (seedOptions?.image_pixel_limit != null) {
-                  imagePart.image_pixel_limit = seedOptions.image_pixel_limit;
-                }
-
-                userContent.push(imagePart);
-                break;
-              }
-
-              if (part.mediaType.startsWith('video/')) {
-                const fps = part.providerOptions?.['seed']?.['fps'] as
-                  | number
-                  | undefined;
-                const videoPart: SeedInputVideoPart = {
-                  type: 'input_video',
-                  video_url:
-                    part.data instanceof URL
-                      ? part.data.toString()
-                      : `data:${part.mediaType};base64,${convertToBase64(part.data)}`,
-                };
-                if (fps != null) {
-                  videoPart.fps = fps;
-                }
-                userContent.push(videoPart);
-                break;
+              const filePart = convertFilePart(part, warnings);
+              if (filePart != null) {
+                userContent.push(filePart);
               }
-
-              if (part.mediaType === 'application/pdf') {
-                if (part.data instanceof URL) {
-                  userContent.push({
-                    type: 'input_file',
-                    file_url: part.data.toString(),
-                    filename: part.filename,
-                  });
-                } else if (
-                  typeof part.data === 'string' &&
-                  (part.data.startsWith('http://') ||
-                    part.data.startsWith('https://'))
-                ) {
-                  userContent.push({
-                    type: 'input_file',
-                    file_url: part.data,
-                    filename: part.filename,
-                  });
-                } else {
-                  userContent.push({
-                    type: 'input_file',
-                    file_data: `data:application/pdf;base64,${convertToBase64(part.data)}`,
-                    filename: part.filename ?? 'document.pdf',
-                  });
-                }
-                break;
-              }
-
-              warnings.push({
-                type: 'other',
-                message: `unsupported file content type: ${part.mediaType}`,
-              });
               break;
             }
           }
@@ -177,17 +113,41 @@ export async function convertToSeedResponsesInput({
       }
 
       case 'assistant': {
-        const assistantContent: Array<
+        let assistantContent: Array<
           { type: 'output_text'; text: string } | { type: 'refusal'; refusal: string }
         > = [];
+        let reasoningItem: SeedInputReasoningItem | undefined;
+
+        // Items are emitted in their original order so reasoning precedes
+        // the message or function call it led to.
+        const flushMessage = () => {
+          if (assistantContent.length > 0) {
+            input.push({
+              type: 'message',
+              role: 'assistant',
+              content: assistantContent,
+            });
+            assistantContent = [];
+          }
+        };
 
         for (const part of content) {
+          if (part.type !== 'reasoning') {
+            reasoningItem = undefined;
+          }
+
           switch (part.type) {
             case 'text': {
               assistantContent.push({ type: 'output_text', text: part.text });
               break;
             }
             case 'tool-call': {
+              // Built-in tools were executed server-side and cannot be
+              // replayed as function calls.
+              if (part.providerExecuted) {
+                break;
+              }
+              flushMessage();
               input.push({
                 type: 'function_call',
                 call_id: part.toolCallId,
@@ -200,10 +160,35 @@ export async function convertToSeedResponsesInput({
               break;
             }
             case 'reasoning': {
-              assistantContent.push({
-                type: 'output_text',
-                text: part.text,
-              });
+              const seedOptions = part.providerOptions?.seed as
+                | { itemId?: string; reasoningEncryptedContent?: string }
+                | undefined;
+              const itemId = seedOptions?.itemId;
+
+              // Summary parts of the same reasoning item are merged
+              if (reasoningItem == null || reasoningItem.id !== itemId) {
+                flushMessage();
+                reasoningItem = { type: 'reasoning', summary: [] };
+                if (itemId != null) {
+                  reasoningItem.id = itemId;
+                }
+                input.push(reasoningItem);
+              }
+
+              if (part.text.length > 0) {
+                reasoningItem.summary.push({
+                  type: 'summary_text',
+                  text: part.text,
+                });
+              }
+              if (seedOptions?.reasoningEncryptedContent != null) {
+                reasoningItem.encrypted_content =
+                  seedOptions.reasoningEncryptedContent;
+              }
+              break;
+            }
+            case 'tool-result': {
+              // Results of provider-executed tools stay server-side.
               break;
             }
             default: {
@@ -215,14 +200,7 @@ export async function convertToSeedResponsesInput({
           }
         }
 
-        if (assistantContent.length > 0) {
-          input.push({
-            type: 'message',
-            role: 'assistant',
-            content: assistantContent,
-          });
-        }
-
+        flushMessage();
         break;
       }
 
@@ -232,7 +210,7 @@ export async function convertToSeedResponsesInput({
             continue;
           }
 
-          let output: string;
+          let output: string | Array<SeedInputContentPart>;
           switch (part.output.type) {
             case 'text':
             case 'error-text':
@@ -246,7 +224,7 @@ export async function convertToSeedResponsesInput({
               output = JSON.stringify(part.output.value);
               break;
             case 'content':
-              output = JSON.stringify(part.output.value);
+              output = convertToolResultContent(part.output.value, warnings);
               break;
             default:
               warnings.push({
@@ -275,3 +253,140 @@ export async function convertToSeedResponsesInput({
     warnings,
   };
 }
+
+function convertFilePart(
+  part: Omit<LanguageModelV3FilePart, 'type'>,
+  warnings: Array<SharedV3Warning>,
+): SeedInputContentPart | undefined {
+  if (part.mediaType.startsWith('image/')) {
+    const mediaType =
+      part.mediaType === 'image/*' ? 'image/jpeg' : part.mediaType;
+
+    const seedOptions = part.providerOptions?.seed as
+      | {
+          detail?: 'low' | 'high' | 'xhigh';
+          image_pixel_limit?: { max_pixels?: number; min_pixels?: number };
+        }
+      | undefined;
+
+    const imagePart: SeedInputImagePart = {
+      type: 'input_image',
+      image_url:
+        part.data instanceof URL
+          ? part.data.toString()
+          : `data:${mediaType};base64,${convertToBase64(part.data)}`,
+    };
+
+    if (seedOptions?.detail != null) {
+      imagePart.detail = seedOptions.detail;
+    }
+    if (seedOptions?.image_pixel_limit != null) {
+      imagePart.image_pixel_limit = seedOptions.image_pixel_limit;
+    }
+
+    return imagePart;
+  }
+
+  if (part.mediaType.startsWith('video/')) {
+    const fps = part.providerOptions?.['seed']?.['fps'] as number | undefined;
+    const videoPart: SeedInputVideoPart = {
+      type: 'input_video',
+      video_url:
+        part.data instanceof URL
+          ? part.data.toString()
+          : `data:${part.mediaType};base64,${convertToBase64(part.data)}`,
+    };
+    if (fps != null) {
+      videoPart.fps = fps;
+    }
+    return videoPart;
+  }
+
+  if (part.mediaType === 'application/pdf') {
+    if (part.data instanceof URL) {
+      return {
+        type: 'input_file',
+        file_url: part.data.toString(),
+        filename: part.filename,
+      };
+    }
+    if (
+      typeof part.data === 'string' &&
+      (part.data.startsWith('http://') || part.data.startsWith('https://'))
+    ) {
+      return {
+        type: 'input_file',
+        file_url: part.data,
+        filename: part.filename,
+      };
+    }
+    return {
+      type: 'input_file',
+      file_data: `data:application/pdf;base64,${convertToBase64(part.data)}`,
+      filename: part.filename ?? 'document.pdf',
+    };
+  }
+
+  warnings.push({
+    type: 'other',
+    message: `unsupported file content type: ${part.mediaType}`,
+  });
+  return undefined;
+}
+
+/**
+ * Tool results with images or files are sent as content parts, so tools such
+ * as screenshots can return media directly. Text-only results stay strings.
+ */
+function convertToolResultContent(
+  value: Extract<LanguageModelV3ToolResultOutput, { type: 'content' }>['value'],
+  warnings: Array<SharedV3Warning>,
+): string | Array<SeedInputContentPart> {
+  if (value.every(item => item.type === 'text')) {
+    return value.map(item => item.text).join('\n');
+  }
+
+  const output: Array<SeedInputContentPart> = [];
+  for (const item of value) {
+    let part: SeedInputContentPart | undefined;
+    switch (item.type) {
+      case 'text':
+        part = { type: 'input_text', text: item.text };
+        break;
+      case 'image-data':
+      case 'file-data':
+        part = convertFilePart(
+          {
+            data: item.data,
+            mediaType: item.mediaType,
+            filename: item.type === 'file-data' ? item.filename : undefined,
+            providerOptions: item.providerOptions,
+          },
+          warnings,
+        );
+        break;
+      case 'image-url':
+        part = convertFilePart(
+          {
+            data: new URL(item.url),
+            mediaType: 'image/*',
+            providerOptions: item.providerOptions,
+          },
+          warnings,
+        );
+        break;
+      case 'file-url':
+        part = { type: 'input_file', file_url: item.url };
+        break;
+      default:
+        warnings.push({
+          type: 'other',
+          message: `unsupported tool result content type: ${item.type}`,
+        });
+    }
+    if (part != null) {
+      output.push(part);
+    }
+  }
+  return output;
+}
@@ -6,3 +6,15 @@ export {
   type SeedResponsesModelId,
   type SeedResponsesOptions,
 } from './seed-responses-options';
+export {
+  seedConversationMiddleware,
+  type SeedConversationMiddlewareOptions,
+} from './seed-conversation-middleware';
+export {
+  SeedResponsesStore,
+  type SeedResponsesStoreConfig,
+} from './seed-responses-store';
+export {
+  type SeedResponsesInputItem,
+  type SeedResponsesResponse,
+} from './seed-responses-api';
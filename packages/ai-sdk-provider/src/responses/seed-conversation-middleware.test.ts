@@ -0,0 +1,254 @@
+import {
+  LanguageModelV3CallOptions,
+  LanguageModelV3Prompt,
+} from '@ai-sdk/provider';
+import { describe, expect, it, vi } from 'vitest';
+import { seedConversationMiddleware } from './seed-conversation-middleware';
+import { SeedResponsesLanguageModel } from './seed-responses-language-model';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const textResponse = (id: string, text: string) => ({
+  id,
+  output: [
+    {
+      id: `msg_${id}`,
+      type: 'message',
+      content: [{ type: 'output_text', text }],
+    },
+  ],
+});
+
+const createModel = (fetchMock: ReturnType<typeof vi.fn>) =>
+  new SeedResponsesLanguageModel('test-model', {
+    provider: 'seed.responses',
+    baseURL: 'https://ark.cn-beijing.volces.com/api/v3',
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch: fetchMock as typeof fetch,
+  });
+
+const getRequestBody = (fetchMock: ReturnType<typeof vi.fn>, index: number) => {
+  const [, init] = fetchMock.mock.calls[index] as [string, RequestInit];
+  return JSON.parse(init.body as string);
+};
+
+// Mirrors how wrapLanguageModel invokes the middleware
+const generate = (
+  middleware: ReturnType<typeof seedConversationMiddleware>,
+  model: SeedResponsesLanguageModel,
+  params: LanguageModelV3CallOptions,
+) =>
+  middleware.wrapGenerate!({
+    doGenerate: () => model.doGenerate(params),
+    doStream: () => model.doStream(params),
+    params,
+    model,
+  });
+
+const stream = async (
+  middleware: ReturnType<typeof seedConversationMiddleware>,
+  model: SeedResponsesLanguageModel,
+  params: LanguageModelV3CallOptions,
+) => {
+  const result = await middleware.wrapStream!({
+    doGenerate: () => model.doGenerate(params),
+    doStream: () => model.doStream(params),
+    params,
+    model,
+  });
+  const reader = result.stream.getReader();
+  const parts: Array<{ type: string; [key: string]: unknown }> = [];
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value as { type: string; [key: string]: unknown });
+  }
+  return parts;
+};
+
+const system: LanguageModelV3Prompt[number] = {
+  role: 'system',
+  content: 'Be brief.',
+};
+const user = (text: string): LanguageModelV3Prompt[number] => ({
+  role: 'user',
+  content: [{ type: 'text', text }],
+});
+const assistant = (text: string): LanguageModelV3Prompt[number] => ({
+  role: 'assistant',
+  content: [{ type: 'text', text }],
+});
+
+describe('seedConversationMiddleware', () => {
+  it('sends full history on the first call', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(jsonResponse(textResponse('r1', 'hi')));
+    const middleware = seedConversationMiddleware();
+
+    await generate(middleware, createModel(fetch), {
+      prompt: [system, user('hello')],
+    });
+
+    const body = getRequestBody(fetch, 0);
+    expect(body.previous_response_id).toBeUndefined();
+    expect(body.input).toHaveLength(1);
+  });
+
+  it('chains follow-up calls with previous_response_id and only new input', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(textResponse('r1', 'hi')))
+      .mockResolvedValueOnce(jsonResponse(textResponse('r2', 'fine')));
+    const middleware = seedConversationMiddleware();
+    const model = createModel(fetch);
+
+    await generate(middleware, model, { prompt: [system, user('hello')] });
+    await generate(middleware, model, {
+      prompt: [system, user('hello'), assistant('hi'), user('how are you?')],
+    });
+
+    const body = getRequestBody(fetch, 1);
+    expect(body.previous_response_id).toBe('r1');
+    expect(body.instructions).toBe('Be brief.');
+    expect(body.input).toEqual([
+      {
+        type: 'message',
+        role: 'user',
+        content: [{ type: 'input_text', text: 'how are you?' }],
+      },
+    ]);
+  });
+
+  it('falls back to full history when the history was rewritten', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(textResponse('r1', 'hi')))
+      .mockResolvedValueOnce(jsonResponse(textResponse('r2', 'ok')));
+    const middleware = seedConversationMiddleware();
+    const model = createModel(fetch);
+
+    await generate(middleware, model, { prompt: [user('hello')] });
+    await generate(middleware, model, {
+      prompt: [user('summary of earlier turns'), assistant('hi'), user('next')],
+    });
+
+    const body = getRequestBody(fetch, 1);
+    expect(body.previous_response_id).toBeUndefined();
+    expect(body.input).toHaveLength(3);
+  });
+
+  it('retries with full history when the stored response expired', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(textResponse('r1', 'hi')))
+      .mockResolvedValueOnce(
+        jsonResponse(
+          {
+            error: {
+              message: 'previous response r1 not found',
+              code: 'NotFound',
+            },
+          },
+          404,
+        ),
+      )
+      .mockResolvedValueOnce(jsonResponse(textResponse('r2', 'ok')));
+    const middleware = seedConversationMiddleware();
+    const model = createModel(fetch);
+
+    await generate(middleware, model, { prompt: [user('hello')] });
+    const result = await generate(middleware, model, {
+      prompt: [user('hello'), assistant('hi'), user('next')],
+    });
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(getRequestBody(fetch, 1).previous_response_id).toBe('r1');
+    expect(getRequestBody(fetch, 2).previous_response_id).toBeUndefined();
+    expect(getRequestBody(fetch, 2).input).toHaveLength(3);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({ type: 'other' }),
+    ]);
+  });
+
+  it('does not chain when the caller sets previousResponseId or store: false', async () => {
+    const fetch = vi
+      .fn()
+      .mockImplementation(async () => jsonResponse(textResponse('r1', 'hi')));
+    const middleware = seedConversationMiddleware();
+    const model = createModel(fetch);
+
+    await generate(middleware, model, { prompt: [user('hello')] });
+    await generate(middleware, model, {
+      prompt: [user('hello'), assistant('hi'), user('next')],
+      providerOptions: { seed: { store: false } },
+    });
+
+    const body = getRequestBody(fetch, 1);
+    expect(body.previous_response_id).toBeUndefined();
+    expect(body.store).toBe(false);
+  });
+
+  it('tracks conversations separately by conversation id', async () => {
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(textResponse('a1', 'hi')))
+      .mockResolvedValueOnce(jsonResponse(textResponse('b1', 'hi')));
+    const middleware = seedConversationMiddleware({
+      getConversationId: params => String(params.headers?.['x-conversation']),
+    });
+    const model = createModel(fetch);
+
+    await generate(middleware, model, {
+      prompt: [user('hello')],
+      headers: { 'x-conversation': 'a' },
+    });
+    await generate(middleware, model, {
+      prompt: [user('hello'), assistant('hi'), user('next')],
+      headers: { 'x-conversation': 'b' },
+    });
+
+    expect(getRequestBody(fetch, 1).previous_response_id).toBeUndefined();
+  });
+
+  it('remembers the response id from streamed response metadata', async () => {
+    const sse = (events: unknown[]) =>
+      new Response(
+        events.map(event => `data: ${JSON.stringify(event)}\n\n`).join(''),
+        { status: 200, headers: { 'Content-Type': 'text/event-stream' } },
+      );
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        sse([
+          {
+            type: 'response.created',
+            response: { id: 'r1', created_at: 1732000000, model: 'test-model' },
+          },
+          { type: 'response.completed', response: {} },
+        ]),
+      )
+      .mockResolvedValueOnce(
+        sse([{ type: 'response.completed', response: {} }]),
+      );
+    const middleware = seedConversationMiddleware();
+    const model = createModel(fetch);
+
+    const parts = await stream(middleware, model, { prompt: [user('hello')] });
+    expect(parts.find(part => part.type === 'response-metadata')).toMatchObject(
+      { id: 'r1', modelId: 'test-model' },
+    );
+
+    await stream(middleware, model, {
+      prompt: [user('hello'), assistant('hi'), user('next')],
+    });
+
+    const body = getRequestBody(fetch, 1);
+    expect(body.previous_response_id).toBe('r1');
+    expect(body.input).toHaveLength(1);
+  });
+});
@@ -0,0 +1,260 @@
+import {
+  APICallError,
+  LanguageModelV3CallOptions,
+  LanguageModelV3Middleware,
+  LanguageModelV3Prompt,
+  LanguageModelV3StreamPart,
+} from '@ai-sdk/provider';
+
+export interface SeedConversationMiddlewareOptions {
+  /**
+   * Returns the key under which the last response ID is remembered.
+   * Use it to share one middleware instance across several conversations.
+   *
+   * @default all calls belong to a single conversation
+   */
+  getConversationId?: (params: LanguageModelV3CallOptions) => string;
+}
+
+type ConversationState = {
+  responseId: string;
+  /** Number of prompt messages sent with the call that produced `responseId`. */
+  promptLength: number;
+  /** Fingerprint of those messages, used to detect rewritten history. */
+  promptFingerprint: string;
+};
+
+/**
+ * Language model middleware that chains Responses API calls on the server via
+ * `previous_response_id`.
+ *
+ * After each call the response ID is remembered per conversation. The next
+ * call sends only the messages added since then (system messages are always
+ * kept as `instructions`) together with `previous_response_id`. When the
+ * history no longer extends the previous prompt, or the server reports that
+ * the stored response is gone, the full history is sent instead.
+ *
+ * Only use it with `seed.responses()` models and `store` left enabled.
+ *
+ * @example
+ * ```ts
+ * const model = wrapLanguageModel({
+ *   model: seed.responses('doubao-seed-1-8-251228'),
+ *   middleware: seedConversationMiddleware(),
+ * });
+ * ```
+ */
+export function seedConversationMiddleware({
+  getConversationId = () => 'default',
+}: SeedConversationMiddlewareOptions = {}): LanguageModelV3Middleware {
+  const conversations = new Map<string, ConversationState>();
+
+  const prepare = (params: LanguageModelV3CallOptions) => {
+    const conversationId = getConversationId(params);
+    const seedOptions = params.providerOptions?.seed ?? {};
+
+    // Respect explicit chaining and calls that opt out of server storage
+    if (seedOptions.previousResponseId != null || seedOptions.store === false) {
+      conversations.delete(conversationId);
+      return { conversationId, chainedParams: undefined };
+    }
+
+    const state = conversations.get(conversationId);
+    if (state == null) {
+      return { conversationId, chainedParams: undefined };
+    }
+
+    const newMessages = getMessagesSince(params.prompt, state);
+    if (newMessages == null) {
+      conversations.delete(conversationId);
+      return { conversationId, chainedParams: undefined };
+    }
+
+    const chainedParams: LanguageModelV3CallOptions = {
+      ...params,
+      prompt: [
+        ...params.prompt.filter(message => message.role === 'system'),
+        ...newMessages,
+      ],
+      providerOptions: {
+        ...params.providerOptions,
+        seed: { ...seedOptions, previousResponseId: state.responseId },
+      },
+    };
+
+    return { conversationId, chainedParams };
+  };
+
+  const remember = (
+    conversationId: string,
+    prompt: LanguageModelV3Prompt,
+    responseId: string | undefined,
+  ) => {
+    if (responseId == null) {
+      conversations.delete(conversationId);
+      return;
+    }
+    conversations.set(conversationId, {
+      responseId,
+      promptLength: prompt.length,
+      promptFingerprint: fingerprint(prompt),
+    });
+  };
+
+  return {
+    specificationVersion: 'v3',
+
+    wrapGenerate: async ({ doGenerate, params, model }) => {
+      const { conversationId, chainedParams } = prepare(params);
+
+      let result;
+      if (chainedParams == null) {
+        result = await doGenerate();
+      } else {
+        try {
+          result = await model.doGenerate(chainedParams);
+        } catch (error) {
+          if (!isPreviousResponseUnavailableError(error)) {
+            throw error;
+          }
+          conversations.delete(conversationId);
+          result = await doGenerate();
+          result = {
+            ...result,
+            warnings: [...result.warnings, FALLBACK_WARNING],
+          };
+        }
+      }
+
+      remember(conversationId, params.prompt, result.response?.id);
+      return result;
+    },
+
+    wrapStream: async ({ doStream, params, model }) => {
+      const { conversationId, chainedParams } = prepare(params);
+
+      let result;
+      if (chainedParams == null) {
+        result = await doStream();
+      } else {
+        try {
+          result = await model.doStream(chainedParams);
+        } catch (error) {
+          if (!isPreviousResponseUnavailableError(error)) {
+            throw error;
+          }
+          conversations.delete(conversationId);
+          result = await doStream();
+          result = { ...result, stream: prependFallbackWarning(result.stream) };
+        }
+      }
+
+      let responseId: string | undefined;
+      let failed = false;
+
+      return {
+        ...result,
+        stream: result.stream.pipeThrough(
+          new TransformStream<
+            LanguageModelV3StreamPart,
+            LanguageModelV3StreamPart
+          >({
+            transform(part, controller) {
+              if (part.type === 'response-metadata' && part.id != null) {
+                responseId = part.id;
+              } else if (part.type === 'error') {
+                failed = true;
+              }
+              controller.enqueue(part);
+            },
+            flush() {
+              remember(
+                conversationId,
+                params.prompt,
+                failed ? undefined : responseId,
+              );
+            },
+          }),
+        ),
+      };
+    },
+  };
+}
+
+const FALLBACK_WARNING = {
+  type: 'other' as const,
+  message:
+    'Previous response is no longer available on the server; resent the full conversation history.',
+};
+
+function prependFallbackWarning(
+  stream: ReadableStream<LanguageModelV3StreamPart>,
+) {
+  return stream.pipeThrough(
+    new TransformStream<LanguageModelV3StreamPart, LanguageModelV3StreamPart>({
+      transform(part, controller) {
+        if (part.type === 'stream-start') {
+          controller.enqueue({
+            ...part,
+            warnings: [...part.warnings, FALLBACK_WARNING],
+          });
+          return;
+        }
+        controller.enqueue(part);
+      },
+    }),
+  );
+}
+
+/**
+ * Returns the messages added after the response stored on the server, or
+ * undefined when the prompt does not extend the previously sent prompt.
+ */
+function getMessagesSince(
+  prompt: LanguageModelV3Prompt,
+  state: ConversationState,
+): LanguageModelV3Prompt | undefined {
+  if (prompt.length <= state.promptLength) {
+    return undefined;
+  }
+
+  if (
+    fingerprint(prompt.slice(0, state.promptLength)) !== state.promptFingerprint
+  ) {
+    return undefined;
+  }
+
+  // The assistant output of the previous response is already stored server-side
+  let start = state.promptLength;
+  while (start < prompt.length && prompt[start].role === 'assistant') {
+    start++;
+  }
+
+  const newMessages = prompt
+    .slice(start)
+    .filter(message => message.role !== 'system');
+
+  return newMessages.length > 0 ? newMessages : undefined;
+}
+
+/** FNV-1a hash of the serialized prompt; enough to detect edited history. */
+function fingerprint(prompt: LanguageModelV3Prompt): string {
+  const text = JSON.stringify(prompt);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${prompt.length}:${(hash >>> 0).toString(16)}`;
+}
+
+function isPreviousResponseUnavailableError(error: unknown): boolean {
+  if (!APICallError.isInstance(error)) {
+    return false;
+  }
+  const details = `${error.message} ${error.responseBody ?? ''}`;
+  return (
+    error.statusCode === 404 ||
+    (error.statusCode === 400 && /previous[_ ]response|expired/i.test(details))
+  );
+}
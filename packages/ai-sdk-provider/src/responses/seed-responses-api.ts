@@ -17,9 +17,21 @@ const seedUsageSchema = z.object({
     .nullish(),
 });
 
+const seedUrlCitationSchema = z.object({
+  type: z.literal('url_citation'),
+  url: z.string(),
+  title: z.string().nullish(),
+});
+
+const seedAnnotationSchema = z.union([
+  seedUrlCitationSchema,
+  z.object({ type: z.string() }).passthrough(),
+]);
+
 const seedResponseOutputTextSchema = z.object({
   type: z.literal('output_text'),
   text: z.string(),
+  annotations: z.array(seedAnnotationSchema).nullish(),
 });
 
 const seedResponseRefusalSchema = z.object({
@@ -40,6 +52,7 @@ const seedResponseMessageSchema = z.object({
 const seedResponseReasoningSchema = z.object({
   id: z.string().nullish(),
   type: z.literal('reasoning'),
+  encrypted_content: z.string().nullish(),
   summary: z
     .array(
       z.object({
@@ -58,10 +71,30 @@ const seedResponseFunctionCallSchema = z.object({
   arguments: z.string().nullish(),
 });
 
+/**
+ * Output items of built-in tools executed server-side (see `seedTools`).
+ * Tool-specific fields are kept via passthrough and surfaced as tool results.
+ */
+export const seedBuiltInToolCallTypes = [
+  'web_search_call',
+  'image_process_call',
+  'knowledge_search_call',
+] as const;
+
+const seedResponseBuiltInToolCallSchema = z
+  .object({
+    id: z.string(),
+    type: z.enum(seedBuiltInToolCallTypes),
+    status: z.string().nullish(),
+    action: z.record(z.string(), z.unknown()).nullish(),
+  })
+  .passthrough();
+
 export const seedResponseOutputItemSchema = z.union([
   seedResponseMessageSchema,
   seedResponseReasoningSchema,
   seedResponseFunctionCallSchema,
+  seedResponseBuiltInToolCallSchema,
 ]);
 
 export const seedResponsesResponseSchema = lazySchema(() =>
@@ -70,6 +103,9 @@ export const seedResponsesResponseSchema = lazySchema(() =>
       id: z.string(),
       model: z.string().nullish(),
       created_at: z.number().nullish(),
+      status: z.string().nullish(),
+      previous_response_id: z.string().nullish(),
+      instructions: z.string().nullish(),
       output: z.array(seedResponseOutputItemSchema).nullish(),
       incomplete_details: z
         .object({
@@ -81,6 +117,43 @@ export const seedResponsesResponseSchema = lazySchema(() =>
   ),
 );
 
+const seedInputContentPartSchema = z
+  .object({ type: z.string() })
+  .passthrough();
+
+/**
+ * Input items of a stored response. Messages carry `input_*` parts for user
+ * turns and `output_text` or `refusal` parts for assistant turns.
+ */
+export const seedResponseInputItemSchema = z.union([
+  z.object({
+    id: z.string().nullish(),
+    type: z.literal('message'),
+    role: z.enum(['user', 'assistant', 'system', 'developer']),
+    content: z.union([z.string(), z.array(seedInputContentPartSchema)]),
+  }),
+  z.object({
+    id: z.string().nullish(),
+    type: z.literal('function_call_output'),
+    call_id: z.string(),
+    output: z.union([z.string(), z.array(seedInputContentPartSchema)]),
+  }),
+  seedResponseReasoningSchema,
+  seedResponseFunctionCallSchema,
+  seedResponseBuiltInToolCallSchema,
+]);
+
+export const seedResponsesInputItemListSchema = lazySchema(() =>
+  zodSchema(
+    z.object({
+      data: z.array(seedResponseInputItemSchema),
+      first_id: z.string().nullish(),
+      last_id: z.string().nullish(),
+      has_more: z.boolean().nullish(),
+    }),
+  ),
+);
+
 export const seedResponsesChunkSchema = lazySchema(() =>
   zodSchema(
     z.union([
@@ -108,7 +181,11 @@ export const seedResponsesChunkSchema = lazySchema(() =>
         type: z.literal('response.output_item.added'),
         item: z.discriminatedUnion('type', [
           z.object({ type: z.literal('message'), id: z.string() }),
-          z.object({ type: z.literal('reasoning'), id: z.string() }),
+          z.object({
+            type: z.literal('reasoning'),
+            id: z.string(),
+            encrypted_content: z.string().nullish(),
+          }),
           z.object({
             type: z.literal('function_call'),
             id: z.string(),
@@ -117,13 +194,18 @@ export const seedResponsesChunkSchema = lazySchema(() =>
             arguments: z.string(),
           }),
           z.object({ type: z.literal('web_search'), id: z.string() }),
+          seedResponseBuiltInToolCallSchema,
         ]),
       }),
       z.object({
         type: z.literal('response.output_item.done'),
         item: z.discriminatedUnion('type', [
           z.object({ type: z.literal('message'), id: z.string() }),
-          z.object({ type: z.literal('reasoning'), id: z.string() }),
+          z.object({
+            type: z.literal('reasoning'),
+            id: z.string(),
+            encrypted_content: z.string().nullish(),
+          }),
           z.object({
             type: z.literal('function_call'),
             id: z.string(),
@@ -132,8 +214,14 @@ export const seedResponsesChunkSchema = lazySchema(() =>
             arguments: z.string(),
           }),
           z.object({ type: z.literal('web_search'), id: z.string() }),
+          seedResponseBuiltInToolCallSchema,
         ]),
       }),
+      z.object({
+        type: z.literal('response.output_text.annotation.added'),
+        item_id: z.string(),
+        annotation: seedAnnotationSchema,
+      }),
       z.object({
         type: z.literal('response.function_call_arguments.delta'),
         item_id: z.string(),
@@ -179,4 +267,14 @@ export type SeedResponsesResponse = InferSchema<
 export type SeedResponsesChunk = InferSchema<
   typeof seedResponsesChunkSchema
 >;
+export type SeedResponsesOutputItem = z.infer<
+  typeof seedResponseOutputItemSchema
+>;
+export type SeedResponsesInputItem = z.infer<
+  typeof seedResponseInputItemSchema
+>;
 export type SeedResponsesUsage = z.infer<typeof seedUsageSchema>;
+export type SeedResponsesBuiltInToolCall = z.infer<
+  typeof seedResponseBuiltInToolCallSchema
+>;
+export type SeedResponsesAnnotation = z.infer<typeof seedAnnotationSchema>;
@@ -1,4 +1,6 @@
 import { describe, expect, it, vi } from 'vitest';
+import { TypeValidationError } from '@ai-sdk/provider';
+import { seedTools } from '../tool';
 import { SeedResponsesLanguageModel } from './seed-responses-language-model';
 
 const createMockFetch = (response: unknown, status = 200) => {
@@ -137,4 +139,559 @@ describe('SeedResponsesLanguageModel', () => {
     ).toEqual(['Hello', ' world']);
     expect(parts.some(part => part.type === 'finish')).toBe(true);
   });
+
+  it('repairs json_object output that does not match the schema', async () => {
+    const createResponse = (text: string) => ({
+      id: 'resp_1',
+      model: 'test-model',
+      output: [
+        {
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          content: [{ type: 'output_text', text }],
+        },
+      ],
+    });
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(Response.json(createResponse('{}')))
+      .mockResolvedValueOnce(Response.json(createResponse('{"name":"seed"}')));
+
+    const result = await createModel(mockFetch).doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      responseFormat: {
+        type: 'json',
+        schema: {
+          type: 'object',
+          properties: { name: { type: 'string' } },
+          required: ['name'],
+        },
+      },
+      providerOptions: {
+        seed: { structuredOutputs: false, maxJsonRepairs: 1 },
+      },
+    });
+
+    const repairBody = JSON.parse(
+      (mockFetch.mock.calls[1][1] as RequestInit).body as string,
+    );
+    expect(repairBody.text).toEqual({ format: { type: 'json_object' } });
+    expect(repairBody.input.at(-1)).toMatchObject({ role: 'user' });
+    expect(result.content).toMatchObject([
+      { type: 'text', text: '{"name":"seed"}' },
+    ]);
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  describe('reasoning items', () => {
+    it('returns reasoning item id and encrypted content as provider metadata', async () => {
+      const model = createModel(
+        createMockFetch({
+          id: 'resp_r1',
+          output: [
+            {
+              id: 'rs_1',
+              type: 'reasoning',
+              summary: [{ type: 'summary_text', text: 'Thinking...' }],
+              encrypted_content: 'enc_1',
+            },
+            {
+              id: 'rs_2',
+              type: 'reasoning',
+              summary: [],
+              encrypted_content: 'enc_2',
+            },
+            {
+              id: 'msg_1',
+              type: 'message',
+              content: [{ type: 'output_text', text: 'Done.' }],
+            },
+          ],
+        }),
+      );
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'think' }] }],
+      });
+
+      expect(result.content).toEqual([
+        {
+          type: 'reasoning',
+          text: 'Thinking...',
+          providerMetadata: {
+            seed: { itemId: 'rs_1', reasoningEncryptedContent: 'enc_1' },
+          },
+        },
+        {
+          type: 'reasoning',
+          text: '',
+          providerMetadata: {
+            seed: { itemId: 'rs_2', reasoningEncryptedContent: 'enc_2' },
+          },
+        },
+        { type: 'text', text: 'Done.' },
+      ]);
+    });
+
+    it('requests encrypted reasoning when store is false', async () => {
+      const fetch = createMockFetch({
+        id: 'resp_1',
+        output: [
+          {
+            id: 'msg_1',
+            type: 'message',
+            content: [{ type: 'output_text', text: 'ok' }],
+          },
+        ],
+      });
+
+      await createModel(fetch).doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'think' }] }],
+        providerOptions: { seed: { store: false } },
+      });
+
+      const [, init] = fetch.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(init.body as string)).toMatchObject({
+        store: false,
+        include: ['reasoning.encrypted_content'],
+      });
+    });
+
+    it('sends include only when requested or store is false', async () => {
+      const fetch = createMockFetch({
+        id: 'resp_1',
+        output: [
+          {
+            id: 'msg_1',
+            type: 'message',
+            content: [{ type: 'output_text', text: 'ok' }],
+          },
+        ],
+      });
+      const prompt = [
+        {
+          role: 'user' as const,
+          content: [{ type: 'text' as const, text: 'hi' }],
+        },
+      ];
+
+      await createModel(fetch).doGenerate({ prompt });
+      await createModel(fetch).doGenerate({
+        prompt,
+        providerOptions: { seed: { include: ['reasoning.encrypted_content'] } },
+      });
+
+      const bodies = fetch.mock.calls.map(([, init]) =>
+        JSON.parse((init as RequestInit).body as string),
+      );
+      expect(bodies[0]).not.toHaveProperty('include');
+      expect(bodies[1].include).toEqual(['reasoning.encrypted_content']);
+    });
+
+    it('streams reasoning item metadata on start and end', async () => {
+      const chunks = [
+        'data: {"type":"response.output_item.added","item":{"type":"reasoning","id":"rs_1"}}\n\n',
+        'data: {"type":"response.reasoning_summary_text.delta","item_id":"rs_1","delta":"Hmm"}\n\n',
+        'data: {"type":"response.output_item.done","item":{"type":"reasoning","id":"rs_1","encrypted_content":"enc_1"}}\n\n',
+        'data: {"type":"response.completed","response":{"usage":{"input_tokens":4,"output_tokens":2}}}\n\n',
+      ];
+
+      const result = await createModel(
+        createStreamingMockFetch(chunks),
+      ).doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'think' }] }],
+      });
+
+      const reader = result.stream.getReader();
+      const parts: Array<{ type: string; [key: string]: unknown }> = [];
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value as { type: string; [key: string]: unknown });
+      }
+
+      expect(parts.find(part => part.type === 'reasoning-start')).toEqual({
+        type: 'reasoning-start',
+        id: 'rs_1',
+        providerMetadata: { seed: { itemId: 'rs_1' } },
+      });
+      expect(parts.find(part => part.type === 'reasoning-end')).toEqual({
+        type: 'reasoning-end',
+        id: 'rs_1',
+        providerMetadata: {
+          seed: { itemId: 'rs_1', reasoningEncryptedContent: 'enc_1' },
+        },
+      });
+    });
+  });
+
+  describe('thinking', () => {
+    const getRequestBody = async (seed: Record<string, string | boolean>) => {
+      const mockFetch = createMockFetch({
+        id: 'resp_1',
+        output: [
+          {
+            id: 'msg_1',
+            type: 'message',
+            content: [{ type: 'output_text', text: 'ok' }],
+          },
+        ],
+      });
+      const model = createModel(mockFetch);
+
+      await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        providerOptions: { seed },
+      });
+
+      return JSON.parse(mockFetch.mock.calls[0][1].body);
+    };
+
+    it.each([
+      [true, 'enabled'],
+      ['enabled', 'enabled'],
+      [false, 'disabled'],
+      ['disabled', 'disabled'],
+      ['auto', 'auto'],
+    ] as const)('maps thinking %s to %s', async (thinking, type) => {
+      const body = await getRequestBody({ thinking });
+
+      expect(body.thinking).toEqual({ type });
+    });
+
+    it('sends reasoningEffort', async () => {
+      const body = await getRequestBody({
+        thinking: 'enabled',
+        reasoningEffort: 'high',
+      });
+
+      expect(body.reasoning).toEqual({ effort: 'high' });
+    });
+
+    it('omits thinking options when not set', async () => {
+      const body = await getRequestBody({});
+
+      expect(body).not.toHaveProperty('thinking');
+      expect(body).not.toHaveProperty('reasoning');
+    });
+  });
+
+  describe('context caching', () => {
+    it('sends caching options and reports cached tokens', async () => {
+      const mockFetch = createMockFetch({
+        id: 'resp_1',
+        output: [
+          {
+            id: 'msg_1',
+            type: 'message',
+            content: [{ type: 'output_text', text: 'ok' }],
+          },
+        ],
+        usage: {
+          input_tokens: 2048,
+          output_tokens: 2,
+          input_tokens_details: { cached_tokens: 2000 },
+        },
+      });
+      const model = createModel(mockFetch);
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        providerOptions: { seed: { caching: 'prefix' } },
+      });
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(JSON.parse(init.body).caching).toEqual({
+        type: 'enabled',
+        prefix: true,
+      });
+      expect(result.providerMetadata).toEqual({
+        seed: { cacheHit: true, cachedTokens: 2000 },
+      });
+    });
+
+    it('warns that context caches are chat-only', async () => {
+      const mockFetch = createMockFetch({
+        id: 'resp_1',
+        output: [
+          {
+            id: 'msg_1',
+            type: 'message',
+            content: [{ type: 'output_text', text: 'ok' }],
+          },
+        ],
+      });
+      const model = createModel(mockFetch);
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+        providerOptions: { seed: { contextId: 'ctx-123' } },
+      });
+
+      expect(result.warnings).toEqual([
+        expect.objectContaining({ type: 'unsupported', feature: 'contextId' }),
+      ]);
+      expect(result.providerMetadata).toBeUndefined();
+    });
+
+    it('streams cached tokens on finish', async () => {
+      const model = createModel(
+        createStreamingMockFetch([
+          'data: {"type":"response.completed","response":{"usage":{"input_tokens":10,"output_tokens":1,"input_tokens_details":{"cached_tokens":8}}}}\n\n',
+        ]),
+      );
+
+      const result = await model.doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }],
+      });
+
+      const parts: unknown[] = [];
+      const reader = result.stream.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
+
+      expect(parts.at(-1)).toMatchObject({
+        type: 'finish',
+        providerMetadata: { seed: { cacheHit: true, cachedTokens: 8 } },
+      });
+    });
+  });
+
+  describe('built-in tools', () => {
+    const webSearchTool = {
+      type: 'provider' as const,
+      id: 'seed.web_search' as const,
+      name: 'webSearch',
+      args: { limit: 5, sources: ['toutiao'] },
+    };
+
+    it('exposes web search, image process and knowledge search factories', () => {
+      expect(seedTools.webSearch({})).toMatchObject({
+        type: 'provider',
+        id: 'seed.web_search',
+      });
+      expect(seedTools.imageProcess({ zoom: true })).toMatchObject({
+        type: 'provider',
+        id: 'seed.image_process',
+        args: { zoom: true },
+      });
+      expect(
+        seedTools.knowledgeSearch({ knowledgeResourceId: 'kb-1' }),
+      ).toMatchObject({
+        type: 'provider',
+        id: 'seed.knowledge_search',
+        args: { knowledgeResourceId: 'kb-1' },
+      });
+    });
+
+    it('maps provider tools to Responses API built-in tools', async () => {
+      const fetch = createMockFetch({
+        id: 'resp_1',
+        output: [
+          {
+            id: 'msg_1',
+            type: 'message',
+            content: [{ type: 'output_text', text: 'ok' }],
+          },
+        ],
+      });
+
+      const result = await createModel(fetch).doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'news' }] }],
+        tools: [
+          webSearchTool,
+          {
+            type: 'provider',
+            id: 'seed.image_process',
+            name: 'imageProcess',
+            args: { zoom: true, rotate: false },
+          },
+          {
+            type: 'provider',
+            id: 'seed.knowledge_search',
+            name: 'kb',
+            args: { knowledgeResourceId: 'kb-1', limit: 3 },
+          },
+        ],
+      });
+
+      const [, init] = fetch.mock.calls[0] as [string, RequestInit];
+      expect(JSON.parse(init.body as string).tools).toEqual([
+        { type: 'web_search', limit: 5, sources: ['toutiao'] },
+        {
+          type: 'image_process',
+          zoom: { type: 'enabled' },
+          rotate: { type: 'disabled' },
+        },
+        { type: 'knowledge_search', knowledge_resource_id: 'kb-1', limit: 3 },
+      ]);
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('rejects built-in tool args that do not match the tool schema', async () => {
+      const fetch = createMockFetch({});
+
+      await expect(
+        createModel(fetch).doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'news' }] }],
+          tools: [{ ...webSearchTool, args: { limit: 100 } }],
+        }),
+      ).rejects.toThrow(TypeValidationError);
+      await expect(
+        createModel(fetch).doGenerate({
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'kb' }] }],
+          tools: [
+            {
+              type: 'provider',
+              id: 'seed.knowledge_search',
+              name: 'kb',
+              args: { knowledge_resource_id: 'kb-1' },
+            },
+          ],
+        }),
+      ).rejects.toThrow(/kb/);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    it('warns about unknown provider tools', async () => {
+      const result = await createModel(
+        createMockFetch({
+          id: 'resp_1',
+          output: [
+            {
+              id: 'msg_1',
+              type: 'message',
+              content: [{ type: 'output_text', text: 'ok' }],
+            },
+          ],
+        }),
+      ).doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+        tools: [
+          { type: 'provider', id: 'other.tool', name: 'other', args: {} },
+        ],
+      });
+
+      expect(result.warnings).toEqual([
+        { type: 'unsupported', feature: 'provider-defined tool other.tool' },
+      ]);
+    });
+
+    it('returns provider-executed tool calls and url citations', async () => {
+      const model = createModel(
+        createMockFetch({
+          id: 'resp_2',
+          output: [
+            {
+              id: 'ws_1',
+              type: 'web_search_call',
+              status: 'completed',
+              action: { type: 'search', query: 'seed news' },
+            },
+            {
+              id: 'msg_1',
+              type: 'message',
+              content: [
+                {
+                  type: 'output_text',
+                  text: 'Seed released a new model.',
+                  annotations: [
+                    {
+                      type: 'url_citation',
+                      url: 'https://example.com/news',
+                      title: 'Seed news',
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        }),
+      );
+
+      const result = await model.doGenerate({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'news' }] }],
+        tools: [webSearchTool],
+      });
+
+      expect(result.content).toEqual([
+        {
+          type: 'tool-call',
+          toolCallId: 'ws_1',
+          toolName: 'webSearch',
+          input: '{"type":"search","query":"seed news"}',
+          providerExecuted: true,
+        },
+        {
+          type: 'tool-result',
+          toolCallId: 'ws_1',
+          toolName: 'webSearch',
+          result: { status: 'completed' },
+        },
+        { type: 'text', text: 'Seed released a new model.' },
+        {
+          type: 'source',
+          sourceType: 'url',
+          id: expect.any(String),
+          url: 'https://example.com/news',
+          title: 'Seed news',
+        },
+      ]);
+      expect(result.finishReason.unified).toBe('stop');
+    });
+
+    it('streams provider-executed tool calls and citations', async () => {
+      const chunks = [
+        'data: {"type":"response.output_item.added","item":{"type":"web_search_call","id":"ws_1","status":"in_progress"}}\n\n',
+        'data: {"type":"response.output_item.done","item":{"type":"web_search_call","id":"ws_1","status":"completed","action":{"type":"search","query":"seed"}}}\n\n',
+        'data: {"type":"response.output_item.added","item":{"type":"message","id":"msg_1"}}\n\n',
+        'data: {"type":"response.output_text.delta","item_id":"msg_1","delta":"Answer"}\n\n',
+        'data: {"type":"response.output_text.annotation.added","item_id":"msg_1","annotation":{"type":"url_citation","url":"https://example.com","title":"Example"}}\n\n',
+        'data: {"type":"response.output_item.done","item":{"type":"message","id":"msg_1"}}\n\n',
+        'data: {"type":"response.completed","response":{"usage":{"input_tokens":4,"output_tokens":2}}}\n\n',
+      ];
+
+      const result = await createModel(
+        createStreamingMockFetch(chunks),
+      ).doStream({
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'seed' }] }],
+        tools: [webSearchTool],
+      });
+
+      const reader = result.stream.getReader();
+      const parts: Array<{ type: string; [key: string]: unknown }> = [];
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        parts.push(value as { type: string; [key: string]: unknown });
+      }
+
+      expect(parts.find(part => part.type === 'tool-call')).toEqual({
+        type: 'tool-call',
+        toolCallId: 'ws_1',
+        toolName: 'webSearch',
+        input: '{"type":"search","query":"seed"}',
+        providerExecuted: true,
+      });
+      expect(parts.find(part => part.type === 'tool-result')).toEqual({
+        type: 'tool-result',
+        toolCallId: 'ws_1',
+        toolName: 'webSearch',
+        result: { status: 'completed' },
+      });
+      expect(parts.find(part => part.type === 'source')).toMatchObject({
+        sourceType: 'url',
+        url: 'https://example.com',
+        title: 'Example',
+      });
+      expect(parts.at(-1)).toMatchObject({
+        type: 'finish',
+        finishReason: { unified: 'stop' },
+      });
+    });
+  });
 });
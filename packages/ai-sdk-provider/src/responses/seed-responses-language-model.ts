@@ -1,33 +1,66 @@
 import {
+  JSONObject,
   LanguageModelV3,
   LanguageModelV3CallOptions,
   LanguageModelV3Content,
   LanguageModelV3FinishReason,
   LanguageModelV3GenerateResult,
-  LanguageModelV3ProviderTool,
+  LanguageModelV3Source,
   LanguageModelV3StreamPart,
   LanguageModelV3StreamResult,
+  LanguageModelV3ToolCall,
+  LanguageModelV3ToolResult,
   LanguageModelV3Usage,
   NoContentGeneratedError,
+  SharedV3ProviderMetadata,
   SharedV3Warning,
 } from '@ai-sdk/provider';
 import {
   FetchFunction,
   ParseResult,
+  ToolNameMapping,
   combineHeaders,
   createEventSourceResponseHandler,
   createJsonResponseHandler,
+  createToolNameMapping,
+  generateId,
   parseProviderOptions,
   postJsonToApi,
   removeUndefinedEntries,
+  validateTypes,
 } from '@ai-sdk/provider-utils';
-import { seedFailedResponseHandler } from '../chat/seed-error';
+import { getCacheProviderMetadata } from '../chat/get-cache-provider-metadata';
+import {
+  createSeedAPICallError,
+  seedFailedResponseHandler,
+} from '../chat/seed-error';
+import { SeedEndpointResolver } from '../endpoints';
+import { getSeedModelCapabilityWarnings } from '../model-info';
+import {
+  SeedPricingTable,
+  calculateSeedLanguageModelCost,
+  getSeedModelPricing,
+  withCostProviderMetadata,
+} from '../pricing';
+import { repairSeedJsonOutput, simulateSeedStream } from '../structured-output';
+import {
+  SeedTracer,
+  getSeedLanguageModelAttributes,
+  traceSeedCall,
+  traceSeedStream,
+} from '../telemetry';
+import { imageProcessArgsSchema } from '../tool/image-process';
+import { knowledgeSearchArgsSchema } from '../tool/knowledge-search';
+import { WebSearchArgs, webSearchArgsSchema } from '../tool/web-search';
 import { convertToSeedResponsesInput } from './convert-to-seed-responses-input';
 import { convertSeedResponsesUsage } from './convert-seed-responses-usage';
 import { mapSeedResponsesFinishReason } from './map-seed-responses-finish-reason';
 import {
+  SeedResponsesAnnotation,
+  SeedResponsesBuiltInToolCall,
   SeedResponsesChunk,
   SeedResponsesResponse,
+  seedBuiltInToolCallTypes,
   seedResponsesChunkSchema,
   seedResponsesResponseSchema,
 } from './seed-responses-api';
@@ -41,6 +74,9 @@ export type SeedResponsesConfig = {
   baseURL: string;
   headers: () => Record<string, string>;
   fetch?: FetchFunction;
+  pricing?: SeedPricingTable;
+  endpoints?: SeedEndpointResolver;
+  tracer?: SeedTracer;
 };
 
 type SeedFunctionTool = {
@@ -51,12 +87,38 @@ type SeedFunctionTool = {
   strict?: boolean;
 };
 
+type SeedBuiltInTool =
+  | {
+      type: 'web_search';
+      limit?: number;
+      max_keyword?: number;
+      sources?: string[];
+      user_location?: WebSearchArgs['userLocation'];
+    }
+  | {
+      type: 'image_process';
+      point?: { type: 'enabled' | 'disabled' };
+      grounding?: { type: 'enabled' | 'disabled' };
+      zoom?: { type: 'enabled' | 'disabled' };
+      rotate?: { type: 'enabled' | 'disabled' };
+    }
+  | {
+      type: 'knowledge_search';
+      knowledge_resource_id: string;
+      description?: string;
+      limit?: number;
+    };
+
 type SeedToolChoice =
   | 'auto'
   | 'none'
   | 'required'
   | { type: 'function'; name: string };
 
+type SeedResponsesArgs = Awaited<
+  ReturnType<SeedResponsesLanguageModel['getArgs']>
+>;
+
 export class SeedResponsesLanguageModel implements LanguageModelV3 {
   readonly specificationVersion = 'v3' as const;
   readonly provider: string;
@@ -74,6 +136,13 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
     this.config = config;
   }
 
+  /** The model or endpoint ID sent to Ark. */
+  private get requestModelId(): string {
+    return (
+      this.config.endpoints?.getRequestModelId(this.modelId) ?? this.modelId
+    );
+  }
+
   private async getArgs({
     prompt,
     maxOutputTokens,
@@ -139,7 +208,15 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
           }
         : undefined;
 
-    const functionTools = this.convertTools(tools, warnings);
+    const convertedTools = await this.convertTools(tools, warnings);
+    const toolNameMapping = createToolNameMapping({
+      tools,
+      providerToolNames: {
+        'seed.web_search': 'web_search',
+        'seed.image_process': 'image_process',
+        'seed.knowledge_search': 'knowledge_search',
+      },
+    });
     const convertedToolChoice = this.convertToolChoice(toolChoice);
     const thinkingOption = options.thinking;
     const thinking =
@@ -151,6 +228,36 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
             ? { type: 'auto' as const }
             : undefined;
 
+    const cachingOption = options.caching;
+    const caching =
+      cachingOption === true || cachingOption === 'enabled'
+        ? { type: 'enabled' as const }
+        : cachingOption === 'prefix'
+          ? { type: 'enabled' as const, prefix: true }
+          : cachingOption === false || cachingOption === 'disabled'
+            ? { type: 'disabled' as const }
+            : undefined;
+
+    if (options.contextId != null) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'contextId',
+        details:
+          'Context caches are only available through the Chat API. Use caching with previousResponseId on the Responses API.',
+      });
+    }
+
+    warnings.push(
+      ...getSeedModelCapabilityWarnings({
+        modelId:
+          this.config.endpoints?.getModelInfoId(this.modelId) ?? this.modelId,
+        prompt,
+        maxOutputTokens,
+        thinking: thinking?.type,
+        reasoningEffort: options.reasoningEffort,
+      }),
+    );
+
     const reasoning =
       options.reasoningEffort != null
         ? { effort: options.reasoningEffort }
@@ -158,30 +265,81 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
 
     return {
       body: removeUndefinedEntries({
-        model: this.modelId,
+        model: this.requestModelId,
         input,
         instructions,
         max_output_tokens: maxOutputTokens,
         temperature,
         top_p: topP,
-        tools: functionTools,
+        tools: convertedTools,
         tool_choice: convertedToolChoice,
         parallel_tool_calls: options.parallelToolCalls,
         text: responseFormatConfig,
         store: options.store,
+        // Without stored context, reasoning can only be replayed encrypted
+        include:
+          options.include ??
+          (options.store === false
+            ? ['reasoning.encrypted_content']
+            : undefined),
         previous_response_id: options.previousResponseId,
         thinking,
         reasoning,
+        caching,
       }),
+      maxJsonRepairs:
+        responseFormat?.type === 'json' &&
+        responseFormat.schema != null &&
+        responseFormatConfig?.format.type === 'json_object'
+          ? options.maxJsonRepairs
+          : undefined,
       warnings,
+      toolNameMapping,
     };
   }
 
   async doGenerate(
     options: LanguageModelV3CallOptions,
   ): Promise<LanguageModelV3GenerateResult> {
-    const { body, warnings } = await this.getArgs(options);
+    return traceSeedCall(
+      this.config.tracer,
+      { provider: this.provider, modelId: this.modelId },
+      async () => this.generate(options, await this.getArgs(options)),
+      getSeedLanguageModelAttributes,
+    );
+  }
+
+  async doStream(
+    options: LanguageModelV3CallOptions,
+  ): Promise<LanguageModelV3StreamResult> {
+    return traceSeedStream(
+      this.config.tracer,
+      { provider: this.provider, modelId: this.modelId },
+      () => this.stream(options),
+    );
+  }
+
+  private async generate(
+    options: LanguageModelV3CallOptions,
+    prepared: SeedResponsesArgs,
+  ): Promise<LanguageModelV3GenerateResult> {
+    const result = await this.generateOnce(options, prepared);
+
+    return prepared.maxJsonRepairs != null
+      ? repairSeedJsonOutput({
+          options,
+          result,
+          maxRepairs: prepared.maxJsonRepairs,
+          regenerate: async repairOptions =>
+            this.generateOnce(repairOptions, await this.getArgs(repairOptions)),
+        })
+      : result;
+  }
 
+  private async generateOnce(
+    options: LanguageModelV3CallOptions,
+    { body, warnings, toolNameMapping }: SeedResponsesArgs,
+  ): Promise<LanguageModelV3GenerateResult> {
     const {
       responseHeaders,
       value: response,
@@ -198,10 +356,17 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
       fetch: this.config.fetch,
     });
 
-    const { content, hasToolCalls } = this.extractContent(response);
+    this.config.endpoints?.setResponseModelId(this.modelId, response.model);
+
+    const { content, hasToolCalls } = this.extractContent(
+      response,
+      toolNameMapping,
+    );
     const rawFinishReason =
       response.incomplete_details?.reason ?? undefined;
 
+    const usage = convertSeedResponsesUsage(response.usage);
+
     return {
       content,
       finishReason: {
@@ -211,7 +376,13 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
         }),
         raw: rawFinishReason,
       },
-      usage: convertSeedResponsesUsage(response.usage),
+      usage,
+      providerMetadata: withCostProviderMetadata(
+        getCacheProviderMetadata({
+          cachedTokens: response.usage?.input_tokens_details?.cached_tokens,
+        }),
+        this.getCost(usage, response.model),
+      ),
       request: { body },
       response: {
         id: response.id,
@@ -227,18 +398,44 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
     };
   }
 
-  async doStream(
+  /**
+   * Prices the call with the pricing table, looking up the requested model ID
+   * and endpoint ID before the model ID in the response.
+   */
+  private getCost(
+    usage: LanguageModelV3Usage,
+    responseModelId: string | null | undefined,
+  ) {
+    return calculateSeedLanguageModelCost(
+      getSeedModelPricing(
+        this.config.pricing ?? {},
+        this.modelId,
+        this.requestModelId,
+        responseModelId,
+      ),
+      usage,
+    );
+  }
+
+  private async stream(
     options: LanguageModelV3CallOptions,
   ): Promise<LanguageModelV3StreamResult> {
-    const { body, warnings } = await this.getArgs(options);
+    const prepared = await this.getArgs(options);
+
+    // Validated JSON can only be emitted once it is complete
+    if (prepared.maxJsonRepairs != null) {
+      return simulateSeedStream(await this.generate(options, prepared));
+    }
+
+    const { body, warnings, toolNameMapping } = prepared;
+
+    const url = `${this.config.baseURL}/responses`;
+    const requestBody = { ...body, stream: true };
 
     const { responseHeaders, value: eventStream } = await postJsonToApi({
-      url: `${this.config.baseURL}/responses`,
+      url,
       headers: combineHeaders(this.config.headers(), options.headers),
-      body: {
-        ...body,
-        stream: true,
-      },
+      body: requestBody,
       failedResponseHandler: seedFailedResponseHandler,
       successfulResponseHandler: createEventSourceResponseHandler(
         seedResponsesChunkSchema,
@@ -255,7 +452,12 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
       raw: undefined,
     };
     let hasToolCalls = false;
+    let cachedTokens: number | null | undefined;
+    let responseModelId: string | undefined;
     let activeReasoningId: string | undefined;
+    const getCost = this.getCost.bind(this);
+    const { endpoints } = this.config;
+    const modelId = this.modelId;
     const toolCallsByItemId: Record<
       string,
       { toolName?: string; toolCallId?: string; arguments?: string }
@@ -282,6 +484,18 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
               controller.enqueue({ type: 'raw', rawValue: chunk });
             }
 
+            if (chunk.type === 'response.created') {
+              responseModelId = chunk.response.model;
+              endpoints?.setResponseModelId(modelId, chunk.response.model);
+              controller.enqueue({
+                type: 'response-metadata',
+                id: chunk.response.id,
+                modelId: chunk.response.model,
+                timestamp: new Date(chunk.response.created_at * 1000),
+              });
+              return;
+            }
+
             if (chunk.type === 'response.output_item.added') {
               if (chunk.item.type === 'function_call') {
                 toolCallsByItemId[chunk.item.id] = {
@@ -294,6 +508,7 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
                 controller.enqueue({
                   type: 'reasoning-start',
                   id: activeReasoningId,
+                  providerMetadata: getReasoningProviderMetadata(chunk.item),
                 });
               } else if (chunk.item.type === 'message') {
                 controller.enqueue({ type: 'text-start', id: chunk.item.id });
@@ -316,10 +531,26 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
                 controller.enqueue({
                   type: 'reasoning-end',
                   id: chunk.item.id,
+                  providerMetadata: getReasoningProviderMetadata(chunk.item),
                 });
                 activeReasoningId = undefined;
               } else if (chunk.item.type === 'message') {
                 controller.enqueue({ type: 'text-end', id: chunk.item.id });
+              } else if (isBuiltInToolCall(chunk.item)) {
+                const { toolCall, toolResult } = convertBuiltInToolCall(
+                  chunk.item,
+                  toolNameMapping,
+                );
+                controller.enqueue(toolCall);
+                controller.enqueue(toolResult);
+              }
+              return;
+            }
+
+            if (chunk.type === 'response.output_text.annotation.added') {
+              const source = convertAnnotationToSource(chunk.annotation);
+              if (source != null) {
+                controller.enqueue(source);
               }
               return;
             }
@@ -361,6 +592,24 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
               return;
             }
 
+            if (chunk.type === 'error') {
+              finishReason = { unified: 'error', raw: undefined };
+              controller.enqueue({
+                type: 'error',
+                error: createSeedAPICallError({
+                  data: {
+                    message: chunk.message,
+                    code: chunk.code,
+                    param: chunk.param,
+                  },
+                  url,
+                  requestBodyValues: requestBody,
+                  responseHeaders,
+                }),
+              });
+              return;
+            }
+
             if (
               chunk.type === 'response.completed' ||
               chunk.type === 'response.incomplete' ||
@@ -381,6 +630,8 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
               usage.inputTokens = mappedUsage.inputTokens;
               usage.outputTokens = mappedUsage.outputTokens;
               usage.raw = mappedUsage.raw;
+              cachedTokens =
+                chunk.response.usage?.input_tokens_details?.cached_tokens;
             }
           },
           flush(controller) {
@@ -394,6 +645,10 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
               type: 'finish',
               finishReason,
               usage,
+              providerMetadata: withCostProviderMetadata(
+                getCacheProviderMetadata({ cachedTokens }),
+                getCost(usage, responseModelId),
+              ),
             });
           },
         }),
@@ -403,21 +658,76 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
     };
   }
 
-  private convertTools(
+  /**
+   * Built-in tool args are validated against the tool's schema so a bad
+   * config fails here with a TypeValidationError instead of an Ark 400.
+   */
+  private async convertTools(
     tools: LanguageModelV3CallOptions['tools'],
     warnings: SharedV3Warning[],
-  ): SeedFunctionTool[] | undefined {
+  ): Promise<Array<SeedFunctionTool | SeedBuiltInTool> | undefined> {
     if (tools == null || tools.length === 0) {
       return undefined;
     }
 
-    const result: SeedFunctionTool[] = [];
+    const result: Array<SeedFunctionTool | SeedBuiltInTool> = [];
     for (const tool of tools) {
       if (tool.type === 'provider') {
-        warnings.push({
-          type: 'unsupported',
-          feature: `provider-defined tool ${(tool as LanguageModelV3ProviderTool).id}`,
-        });
+        switch (tool.id) {
+          case 'seed.web_search': {
+            const args = await validateTypes({
+              value: tool.args,
+              schema: webSearchArgsSchema,
+              context: { entityName: tool.name, field: 'args' },
+            });
+            result.push({
+              type: 'web_search',
+              limit: args.limit,
+              max_keyword: args.maxKeyword,
+              sources: args.sources,
+              user_location: args.userLocation,
+            });
+            break;
+          }
+          case 'seed.image_process': {
+            const args = await validateTypes({
+              value: tool.args,
+              schema: imageProcessArgsSchema,
+              context: { entityName: tool.name, field: 'args' },
+            });
+            const toggle = (value: boolean | undefined) =>
+              value == null
+                ? undefined
+                : { type: value ? ('enabled' as const) : ('disabled' as const) };
+            result.push({
+              type: 'image_process',
+              point: toggle(args.point),
+              grounding: toggle(args.grounding),
+              zoom: toggle(args.zoom),
+              rotate: toggle(args.rotate),
+            });
+            break;
+          }
+          case 'seed.knowledge_search': {
+            const args = await validateTypes({
+              value: tool.args,
+              schema: knowledgeSearchArgsSchema,
+              context: { entityName: tool.name, field: 'args' },
+            });
+            result.push({
+              type: 'knowledge_search',
+              knowledge_resource_id: args.knowledgeResourceId,
+              description: args.description,
+              limit: args.limit,
+            });
+            break;
+          }
+          default:
+            warnings.push({
+              type: 'unsupported',
+              feature: `provider-defined tool ${tool.id}`,
+            });
+        }
         continue;
       }
 
@@ -450,7 +760,10 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
     }
   }
 
-  private extractContent(response: SeedResponsesResponse): {
+  private extractContent(
+    response: SeedResponsesResponse,
+    toolNameMapping: ToolNameMapping,
+  ): {
     content: LanguageModelV3Content[];
     hasToolCalls: boolean;
   } {
@@ -459,8 +772,20 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
 
     for (const item of response.output ?? []) {
       if (item.type === 'reasoning') {
-        for (const summary of item.summary ?? []) {
-          content.push({ type: 'reasoning', text: summary.text });
+        const providerMetadata = getReasoningProviderMetadata(item);
+        const summaries = item.summary ?? [];
+
+        // Keep encrypted-only reasoning so it can be replayed on the next turn
+        if (summaries.length === 0 && item.encrypted_content != null) {
+          content.push({ type: 'reasoning', text: '', providerMetadata });
+        }
+
+        for (const summary of summaries) {
+          content.push({
+            type: 'reasoning',
+            text: summary.text,
+            providerMetadata,
+          });
         }
         continue;
       }
@@ -469,6 +794,12 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
         for (const part of item.content ?? []) {
           if (part.type === 'output_text') {
             content.push({ type: 'text', text: part.text });
+            for (const annotation of part.annotations ?? []) {
+              const source = convertAnnotationToSource(annotation);
+              if (source != null) {
+                content.push(source);
+              }
+            }
           } else if (part.type === 'refusal') {
             content.push({ type: 'text', text: part.refusal });
           }
@@ -484,6 +815,15 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
           input: item.arguments ?? '',
         });
         hasToolCalls = true;
+        continue;
+      }
+
+      if (isBuiltInToolCall(item)) {
+        const { toolCall, toolResult } = convertBuiltInToolCall(
+          item,
+          toolNameMapping,
+        );
+        content.push(toolCall, toolResult);
       }
     }
 
@@ -497,3 +837,76 @@ export class SeedResponsesLanguageModel implements LanguageModelV3 {
   }
 }
 
+/**
+ * Reasoning item ID and encrypted content are kept in provider metadata so
+ * `convertToSeedResponsesInput` can replay them as `reasoning` input items.
+ */
+function getReasoningProviderMetadata(item: {
+  id?: string | null;
+  encrypted_content?: string | null;
+}): SharedV3ProviderMetadata {
+  return {
+    seed: {
+      ...(item.id != null ? { itemId: item.id } : {}),
+      ...(item.encrypted_content != null
+        ? { reasoningEncryptedContent: item.encrypted_content }
+        : {}),
+    },
+  };
+}
+
+function isBuiltInToolCall(item: {
+  type: string;
+}): item is SeedResponsesBuiltInToolCall {
+  return (seedBuiltInToolCallTypes as readonly string[]).includes(item.type);
+}
+
+/**
+ * Maps a server-executed built-in tool output item (e.g. `web_search_call`)
+ * to a provider-executed tool call and its result.
+ */
+function convertBuiltInToolCall(
+  item: SeedResponsesBuiltInToolCall,
+  toolNameMapping: ToolNameMapping,
+): { toolCall: LanguageModelV3ToolCall; toolResult: LanguageModelV3ToolResult } {
+  const { id, type, status, action, ...rest } = item;
+  const toolName = toolNameMapping.toCustomToolName(
+    type.replace(/_call$/, ''),
+  );
+
+  return {
+    toolCall: {
+      type: 'tool-call',
+      toolCallId: id,
+      toolName,
+      input: JSON.stringify(action ?? {}),
+      providerExecuted: true,
+    },
+    toolResult: {
+      type: 'tool-result',
+      toolCallId: id,
+      toolName,
+      result: {
+        ...rest,
+        ...(status != null ? { status } : {}),
+      } as JSONObject,
+    },
+  };
+}
+
+function convertAnnotationToSource(
+  annotation: SeedResponsesAnnotation,
+): LanguageModelV3Source | undefined {
+  if (annotation.type !== 'url_citation' || !('url' in annotation)) {
+    return undefined;
+  }
+
+  const { url, title } = annotation as { url: string; title?: string | null };
+  return {
+    type: 'source',
+    sourceType: 'url',
+    id: generateId(),
+    url,
+    title: title ?? undefined,
+  };
+}
@@ -32,6 +32,14 @@ const seedResponsesOptionsSchema = z.object({
    */
   strictJsonSchema: z.boolean().optional(),
 
+  /**
+   * Validates the output against `responseFormat.schema` when JSON mode falls
+   * back to `json_object` (`structuredOutputs: false`). Output that does not
+   * match is sent back with the validation errors for up to this many repair
+   * calls, each reported as a warning. Streams are then emitted at the end.
+   */
+  maxJsonRepairs: z.number().int().min(0).optional(),
+
   /**
    * Whether to enable parallel function calling during tool use.
    * When set to false, the model will use at most one tool per response.
@@ -66,10 +74,39 @@ const seedResponsesOptionsSchema = z.object({
    */
   store: z.boolean().optional(),
 
+  /**
+   * Additional output data to include in the response.
+   * `'reasoning.encrypted_content'` returns reasoning items in encrypted form
+   * so they can be replayed without server-side storage.
+   *
+   * @default ['reasoning.encrypted_content'] when `store` is false
+   */
+  include: z.array(z.enum(['reasoning.encrypted_content'])).optional(),
+
   /**
    * Continue a previous response by ID.
    */
   previousResponseId: z.string().optional(),
+
+  /**
+   * Control server-side context caching. Requires `store` to be enabled.
+   * - `true` / `'enabled'`: cache the whole conversation for follow-up calls
+   *   that pass `previousResponseId`
+   * - `'prefix'`: only cache the input as a reusable prefix; the response
+   *   ID then acts as the cache ID for later calls
+   * - `false` / `'disabled'`: disable caching
+   *
+   * @default undefined (not sent)
+   */
+  caching: z
+    .union([z.boolean(), z.enum(['enabled', 'disabled', 'prefix'])])
+    .optional(),
+
+  /**
+   * Context caches created with `seed.contextCache.create()` only work with
+   * chat models. Use `caching` and `previousResponseId` instead.
+   */
+  contextId: z.string().optional(),
 });
 
 export const seedResponsesOptions = lazySchema(() =>
@@ -0,0 +1,343 @@
+import { APICallError } from '@ai-sdk/provider';
+import { describe, expect, it, vi } from 'vitest';
+import { SeedResponsesStore } from './seed-responses-store';
+
+const BASE_URL = 'https://ark.cn-beijing.volces.com/api/v3';
+
+/** Mock fetch answering each URL with the given body. */
+const createRoutedFetch = (routes: Record<string, unknown>) =>
+  vi.fn().mockImplementation(async (url: string) => {
+    const body = routes[url.replace(BASE_URL, '')];
+    return body != null
+      ? Response.json(body)
+      : Response.json(
+          { error: { code: 'NotFound', message: `No response at ${url}` } },
+          { status: 404 },
+        );
+  });
+
+const createStore = (fetchMock: typeof fetch) =>
+  new SeedResponsesStore({
+    provider: 'seed.responses',
+    baseURL: BASE_URL,
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch: fetchMock,
+  });
+
+describe('SeedResponsesStore', () => {
+  it('gets a stored response', async () => {
+    const store = createStore(
+      createRoutedFetch({
+        '/responses/resp-1': {
+          id: 'resp-1',
+          model: 'doubao-seed-1-8-251228',
+          previous_response_id: 'resp-0',
+          output: [
+            {
+              id: 'msg-1',
+              type: 'message',
+              content: [{ type: 'output_text', text: 'Hi' }],
+            },
+          ],
+        },
+      }),
+    );
+
+    await expect(store.get('resp-1')).resolves.toMatchObject({
+      id: 'resp-1',
+      previous_response_id: 'resp-0',
+      output: [{ type: 'message' }],
+    });
+  });
+
+  it('lists input items with paging parameters', async () => {
+    const fetchMock = createRoutedFetch({
+      '/responses/resp-1/input_items?limit=1&order=asc': {
+        data: [
+          {
+            id: 'item-1',
+            type: 'message',
+            role: 'user',
+            content: [{ type: 'input_text', text: 'Hello' }],
+          },
+        ],
+        first_id: 'item-1',
+        last_id: 'item-1',
+        has_more: true,
+      },
+    });
+
+    const page = await createStore(fetchMock).listInputItems('resp-1', {
+      limit: 1,
+      order: 'asc',
+    });
+
+    expect(page).toEqual({
+      items: [
+        {
+          id: 'item-1',
+          type: 'message',
+          role: 'user',
+          content: [{ type: 'input_text', text: 'Hello' }],
+        },
+      ],
+      hasMore: true,
+      firstId: 'item-1',
+      lastId: 'item-1',
+    });
+  });
+
+  it('deletes a stored response', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(Response.json({ id: 'resp-1', deleted: true }));
+
+    await createStore(fetchMock).delete('resp-1');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`${BASE_URL}/responses/resp-1`);
+    expect(init.method).toBe('DELETE');
+    expect(init.headers.Authorization).toBe('Bearer test-key');
+  });
+
+  it('throws API errors', async () => {
+    const store = createStore(createRoutedFetch({}));
+
+    await expect(store.delete('resp-missing')).rejects.toThrow(
+      'No response at',
+    );
+  });
+
+  it('throws retryable API call errors when a delete request fails', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValue(
+        new TypeError('fetch failed', { cause: new Error('ECONNRESET') }),
+      );
+
+    const error = await createStore(fetchMock)
+      .delete('resp-1')
+      .catch(e => e);
+
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(error.isRetryable).toBe(true);
+    expect(error.message).toBe('Cannot connect to API: ECONNRESET');
+  });
+
+  it('rebuilds the history of a response chain', async () => {
+    const store = createStore(
+      createRoutedFetch({
+        '/responses/resp-1': {
+          id: 'resp-1',
+          output: [
+            {
+              id: 'rs-1',
+              type: 'reasoning',
+              summary: [{ type: 'summary_text', text: 'Need the weather' }],
+              encrypted_content: 'enc-1',
+            },
+            {
+              id: 'fc-1',
+              type: 'function_call',
+              call_id: 'call-1',
+              name: 'weather',
+              arguments: '{"city":"Paris"}',
+            },
+          ],
+        },
+        '/responses/resp-1/input_items?after=item-1&order=asc': {
+          data: [
+            {
+              id: 'item-2',
+              type: 'message',
+              role: 'user',
+              content: [
+                { type: 'input_image', image_url: 'https://cdn/paris.png' },
+              ],
+            },
+          ],
+          has_more: false,
+        },
+        '/responses/resp-1/input_items?order=asc': {
+          data: [
+            {
+              id: 'item-1',
+              type: 'message',
+              role: 'user',
+              content: [{ type: 'input_text', text: 'Weather here?' }],
+            },
+          ],
+          last_id: 'item-1',
+          has_more: true,
+        },
+        '/responses/resp-2': {
+          id: 'resp-2',
+          previous_response_id: 'resp-1',
+          instructions: 'Be brief.',
+          output: [
+            {
+              id: 'msg-2',
+              type: 'message',
+              content: [{ type: 'output_text', text: 'Sunny.' }],
+            },
+          ],
+        },
+        '/responses/resp-2/input_items?order=asc': {
+          data: [
+            {
+              id: 'item-3',
+              type: 'function_call_output',
+              call_id: 'call-1',
+              output: '{"sky":"clear"}',
+            },
+          ],
+          has_more: false,
+        },
+      }),
+    );
+
+    const messages = await store.getHistory('resp-2');
+
+    expect(messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      {
+        role: 'user',
+        content: [{ type: 'text', text: 'Weather here?' }],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'image', image: new URL('https://cdn/paris.png') }],
+      },
+      {
+        role: 'assistant',
+        content: [
+          {
+            type: 'reasoning',
+            text: 'Need the weather',
+            providerOptions: {
+              seed: { itemId: 'rs-1', reasoningEncryptedContent: 'enc-1' },
+            },
+          },
+          {
+            type: 'tool-call',
+            toolCallId: 'call-1',
+            toolName: 'weather',
+            input: { city: 'Paris' },
+          },
+        ],
+      },
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: 'call-1',
+            toolName: 'weather',
+            output: { type: 'text', value: '{"sky":"clear"}' },
+          },
+        ],
+      },
+      {
+        role: 'assistant',
+        content: [{ type: 'text', text: 'Sunny.' }],
+      },
+    ]);
+  });
+
+  it('stops at a response chain that loops', async () => {
+    const fetchMock = createRoutedFetch({
+      '/responses/resp-1': {
+        id: 'resp-1',
+        previous_response_id: 'resp-2',
+        output: [],
+      },
+      '/responses/resp-1/input_items?order=asc': {
+        data: [
+          {
+            id: 'item-1',
+            type: 'message',
+            role: 'user',
+            content: [{ type: 'input_text', text: 'First' }],
+          },
+        ],
+        has_more: false,
+      },
+      '/responses/resp-2': {
+        id: 'resp-2',
+        previous_response_id: 'resp-1',
+        output: [],
+      },
+      '/responses/resp-2/input_items?order=asc': {
+        data: [
+          {
+            id: 'item-2',
+            type: 'message',
+            role: 'user',
+            content: [{ type: 'input_text', text: 'Second' }],
+          },
+        ],
+        has_more: false,
+      },
+    });
+
+    const messages = await createStore(fetchMock).getHistory('resp-2');
+
+    expect(messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'First' }] },
+      { role: 'user', content: [{ type: 'text', text: 'Second' }] },
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps inline files of tool outputs', async () => {
+    const store = createStore(
+      createRoutedFetch({
+        '/responses/resp-1': { id: 'resp-1', output: [] },
+        '/responses/resp-1/input_items?order=asc': {
+          data: [
+            {
+              id: 'item-1',
+              type: 'function_call_output',
+              call_id: 'call-1',
+              output: [
+                { type: 'input_text', text: 'The report' },
+                {
+                  type: 'input_file',
+                  file_data: 'data:application/pdf;base64,JVBERi0=',
+                  filename: 'report.pdf',
+                },
+              ],
+            },
+          ],
+          has_more: false,
+        },
+      }),
+    );
+
+    const messages = await store.getHistory('resp-1');
+
+    expect(messages).toMatchObject([
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: 'call-1',
+            output: {
+              type: 'content',
+              value: [
+                { type: 'text', text: 'The report' },
+                {
+                  type: 'file-data',
+                  data: 'JVBERi0=',
+                  mediaType: 'application/pdf',
+                  filename: 'report.pdf',
+                },
+              ],
+            },
+          },
+        ],
+      },
+    ]);
+  });
+});
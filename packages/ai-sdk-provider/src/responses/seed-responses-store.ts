@@ -0,0 +1,172 @@
+import {
+  FetchFunction,
+  ModelMessage,
+  combineHeaders,
+  createJsonResponseHandler,
+  getFromApi,
+  removeUndefinedEntries,
+} from '@ai-sdk/provider-utils';
+import { deleteFromApi } from '../chat/delete-from-api';
+import { seedFailedResponseHandler } from '../chat/seed-error';
+import {
+  SeedStoredResponseTurn,
+  convertSeedResponsesToModelMessages,
+} from './convert-seed-responses-to-messages';
+import {
+  SeedResponsesInputItem,
+  SeedResponsesResponse,
+  seedResponsesInputItemListSchema,
+  seedResponsesResponseSchema,
+} from './seed-responses-api';
+
+export interface SeedResponsesStoreConfig {
+  provider: string;
+  baseURL: string;
+  headers: () => Record<string, string>;
+  fetch?: FetchFunction;
+}
+
+type RequestOptions = {
+  headers?: Record<string, string | undefined>;
+  abortSignal?: AbortSignal;
+};
+
+/**
+ * Client for responses stored on the server by `seed.responses()` calls
+ * (`store` defaults to true). Use it to audit past calls, delete them, or
+ * resume a conversation elsewhere from its last response ID.
+ */
+export class SeedResponsesStore {
+  constructor(private readonly config: SeedResponsesStoreConfig) {}
+
+  async get(
+    responseId: string,
+    { headers, abortSignal }: RequestOptions = {},
+  ): Promise<SeedResponsesResponse> {
+    const { value: response } = await getFromApi({
+      url: `${this.config.baseURL}/responses/${responseId}`,
+      headers: combineHeaders(this.config.headers(), headers),
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        seedResponsesResponseSchema,
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return response;
+  }
+
+  /**
+   * Lists the input items a response was created with. Items of earlier
+   * responses in a `previousResponseId` chain are not included.
+   */
+  async listInputItems(
+    responseId: string,
+    {
+      limit,
+      after,
+      order,
+      headers,
+      abortSignal,
+    }: {
+      limit?: number;
+      after?: string;
+      order?: 'asc' | 'desc';
+    } & RequestOptions = {},
+  ): Promise<{
+    items: SeedResponsesInputItem[];
+    hasMore: boolean;
+    firstId: string | undefined;
+    lastId: string | undefined;
+  }> {
+    const query = new URLSearchParams(
+      removeUndefinedEntries({
+        limit: limit?.toString(),
+        after,
+        order,
+      }),
+    ).toString();
+
+    const { value: response } = await getFromApi({
+      url: `${this.config.baseURL}/responses/${responseId}/input_items${query ? `?${query}` : ''}`,
+      headers: combineHeaders(this.config.headers(), headers),
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        seedResponsesInputItemListSchema,
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return {
+      items: response.data,
+      hasMore: response.has_more ?? false,
+      firstId: response.first_id ?? undefined,
+      lastId: response.last_id ?? undefined,
+    };
+  }
+
+  async delete(
+    responseId: string,
+    { headers, abortSignal }: RequestOptions = {},
+  ): Promise<void> {
+    await deleteFromApi({
+      url: `${this.config.baseURL}/responses/${responseId}`,
+      headers: combineHeaders(this.config.headers(), headers),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+  }
+
+  /**
+   * Rebuilds the message history that led to a response by following its
+   * `previous_response_id` chain, including the response's own output.
+   */
+  async getHistory(
+    responseId: string,
+    options: RequestOptions = {},
+  ): Promise<ModelMessage[]> {
+    const turns: SeedStoredResponseTurn[] = [];
+    let instructions: string | null | undefined;
+    let currentId: string | null | undefined = responseId;
+    // Guards against a chain that points back to one of its own responses
+    const visited = new Set<string>();
+
+    while (currentId != null && !visited.has(currentId)) {
+      visited.add(currentId);
+      const response = await this.get(currentId, options);
+      if (turns.length === 0) {
+        instructions = response.instructions;
+      }
+      turns.unshift({
+        inputItems: await this.listAllInputItems(currentId, options),
+        output: response.output ?? [],
+      });
+      currentId = response.previous_response_id;
+    }
+
+    return convertSeedResponsesToModelMessages({ turns, instructions });
+  }
+
+  private async listAllInputItems(
+    responseId: string,
+    options: RequestOptions,
+  ): Promise<SeedResponsesInputItem[]> {
+    const items: SeedResponsesInputItem[] = [];
+    let after: string | undefined;
+
+    while (true) {
+      const page = await this.listInputItems(responseId, {
+        ...options,
+        order: 'asc',
+        after,
+      });
+      items.push(...page.items);
+      if (!page.hasMore || page.lastId == null) {
+        return items;
+      }
+      after = page.lastId;
+    }
+  }
+}
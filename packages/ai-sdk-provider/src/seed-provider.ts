@@ -1,32 +1,49 @@
 import {
+  EmbeddingModelV3,
   Experimental_VideoModelV3,
   ImageModelV3,
   LanguageModelV3,
-  NoSuchModelError,
   ProviderV3,
 } from '@ai-sdk/provider';
 import {
   FetchFunction,
   loadApiKey,
+  loadOptionalSetting,
   withUserAgentSuffix,
   withoutTrailingSlash,
 } from '@ai-sdk/provider-utils';
 import { VERSION } from './version';
+import { SeedBatch } from './batch';
 import { SeedChatLanguageModel, SeedModelId } from './chat';
-import { SeedImageModel, SeedImageModelId } from './image';
+import { SeedContextCache } from './context';
+import { getSeedBaseURL, SeedEndpointResolver, SeedRegion } from './endpoints';
+import { SeedEmbeddingModel, SeedEmbeddingModelId } from './embedding';
+import { SeedImageModel, SeedImageModelId, SeedImageSettings } from './image';
+import { SeedTokenizer } from './tokenizer';
+import { defaultSeedPricing, SeedPricingTable } from './pricing';
+import { SeedHooks, SeedTracer, withSeedHooks } from './telemetry';
+import { seedTools } from './tool';
 import {
   SeedResponsesLanguageModel,
   SeedResponsesModelId,
+  SeedResponsesStore,
 } from './responses';
-import { SeedVideoModel, SeedVideoModelId } from './video';
+import { SeedVideoModel, SeedVideoModelId, SeedVideoTasks } from './video';
 
 export interface SeedProviderSettings {
   /**
 Use a different URL prefix for API calls, e.g. to use proxy servers.
-The default prefix is `https://ark.cn-beijing.volces.com/api/v3`.
+The default prefix is the Ark URL of `region`.
    */
   baseURL?: string;
 
+  /**
+Ark region to call, e.g. `cn-beijing` (Volcengine) or `ap-southeast` (BytePlus).
+It defaults to the `ARK_REGION` environment variable, then `cn-beijing`.
+Ignored when `baseURL` is set.
+   */
+  region?: SeedRegion;
+
   /**
 API key that is sent using the `Authorization` header.
 It defaults to the `ARK_API_KEY` environment variable.
@@ -43,6 +60,35 @@ Custom fetch implementation. You can use it as a middleware to intercept request
 or to provide a custom fetch implementation for e.g. testing.
    */
   fetch?: FetchFunction;
+
+  /**
+Prices used to report `providerMetadata.seed.cost` for chat, responses, image and
+video calls. Entries are keyed by model ID, model family or endpoint ID and are
+merged over the built-in list prices.
+   */
+  pricing?: SeedPricingTable;
+
+  /**
+Maps model IDs to custom inference endpoint IDs (`ep-…`), e.g.
+`{ 'doubao-seed-1-6-250615': 'ep-20250101000000-abcde' }`. Models created with
+an alias call its endpoint. Endpoint IDs can also be passed as model IDs
+directly; capability checks then use the model reported in the first response.
+   */
+  endpoints?: Record<string, string>;
+
+  /**
+Hooks called for every request, response, stream chunk and error, e.g. for
+logging. The `Authorization` header is redacted from reported requests.
+   */
+  hooks?: SeedHooks;
+
+  /**
+OpenTelemetry tracer, e.g. `trace.getTracer('my-app')` from `@opentelemetry/api`.
+When set, chat, responses, image and video calls are recorded as spans with the
+model ID, token usage, cached tokens, finish reason, cost and latency to first
+token.
+   */
+  tracer?: SeedTracer;
 }
 
 export interface SeedProvider extends ProviderV3 {
@@ -66,7 +112,10 @@ Creates a model for text generation using the Responses API.
   /**
 Creates a model for image generation.
 */
-  imageModel(modelId: SeedImageModelId): ImageModelV3;
+  imageModel(
+    modelId: SeedImageModelId,
+    settings?: SeedImageSettings,
+  ): ImageModelV3;
 
   /**
 Creates a model for video generation (Seedance series).
@@ -74,9 +123,43 @@ Creates a model for video generation (Seedance series).
   videoModel(modelId: SeedVideoModelId): Experimental_VideoModelV3;
 
   /**
-Creates a model for text embeddings.
+Creates a model for text and multimodal (text + image) embeddings.
+*/
+  embeddingModel(modelId: SeedEmbeddingModelId): EmbeddingModelV3;
+
+  /**
+Built-in tools executed by the Responses API (web search, image processing,
+knowledge base search).
+*/
+  tools: typeof seedTools;
+
+  /**
+Creates and references context caches for chat models.
+*/
+  contextCache: SeedContextCache;
+
+  /**
+Submits and manages offline batch chat completion jobs.
 */
-  embeddingModel(modelId: SeedModelId): never;
+  batch: SeedBatch;
+
+  /**
+Reads, lists the input items of and deletes responses stored by Responses API
+calls, and rebuilds conversation history from a stored response chain.
+*/
+  responsesStore: SeedResponsesStore;
+
+  /**
+Creates, resumes, cancels and lists Seedance video generation tasks without
+blocking on completion.
+*/
+  videoTasks: SeedVideoTasks;
+
+  /**
+Returns a token counter for the model that uses the Ark tokenization endpoint.
+Tokenizers are cached per model ID, so repeated counts reuse cached results.
+*/
+  tokenizer(modelId: SeedModelId): SeedTokenizer;
 }
 
 /**
@@ -87,7 +170,12 @@ export function createSeed(
 ): SeedProvider {
   const baseURL =
     withoutTrailingSlash(options.baseURL) ??
-    'https://ark.cn-beijing.volces.com/api/v3';
+    getSeedBaseURL(
+      loadOptionalSetting({
+        settingValue: options.region,
+        environmentVariableName: 'ARK_REGION',
+      }),
+    );
 
   const getHeaders = () =>
     withUserAgentSuffix(
@@ -102,28 +190,52 @@ export function createSeed(
       `ai-sdk/seed/${VERSION}`,
     );
 
+  const pricing = { ...defaultSeedPricing, ...options.pricing };
+  const endpoints = new SeedEndpointResolver(options.endpoints);
+  const { tracer } = options;
+  const fetch =
+    options.hooks != null
+      ? withSeedHooks(options.hooks, options.fetch)
+      : options.fetch;
+
   const createChatModel = (modelId: string) =>
     new SeedChatLanguageModel(modelId, {
       provider: 'seed.chat',
       baseURL,
       headers: getHeaders,
-      fetch: options.fetch,
+      fetch,
+      pricing,
+      endpoints,
+      tracer,
     });
 
-  const createImageModel = (modelId: string) =>
-    new SeedImageModel(modelId, {
-      provider: 'seed.image',
-      baseURL,
-      headers: getHeaders,
-      fetch: options.fetch,
-    });
+  const createImageModel = (
+    modelId: string,
+    settings: SeedImageSettings = {},
+  ) =>
+    new SeedImageModel(
+      modelId,
+      {
+        provider: 'seed.image',
+        baseURL,
+        headers: getHeaders,
+        fetch,
+        pricing,
+        endpoints,
+        tracer,
+      },
+      settings,
+    );
 
   const createResponsesModel = (modelId: string) =>
     new SeedResponsesLanguageModel(modelId, {
       provider: 'seed.responses',
       baseURL,
       headers: getHeaders,
-      fetch: options.fetch,
+      fetch,
+      pricing,
+      endpoints,
+      tracer,
     });
 
   const createVideoModel = (modelId: string) =>
@@ -131,9 +243,37 @@ export function createSeed(
       provider: 'seed.video',
       baseURL,
       headers: getHeaders,
-      fetch: options.fetch,
+      fetch,
+      pricing,
+      endpoints,
+      tracer,
+    });
+
+  const createEmbeddingModel = (modelId: string) =>
+    new SeedEmbeddingModel(modelId, {
+      provider: 'seed.embedding',
+      baseURL,
+      headers: getHeaders,
+      fetch,
+      endpoints,
     });
 
+  const tokenizers = new Map<string, SeedTokenizer>();
+  const getTokenizer = (modelId: string) => {
+    let tokenizer = tokenizers.get(modelId);
+    if (tokenizer == null) {
+      tokenizer = new SeedTokenizer(modelId, {
+        provider: 'seed.tokenizer',
+        baseURL,
+        headers: getHeaders,
+        fetch,
+        endpoints,
+      });
+      tokenizers.set(modelId, tokenizer);
+    }
+    return tokenizer;
+  };
+
   const provider = function (modelId: SeedResponsesModelId) {
     return createResponsesModel(modelId);
   };
@@ -144,9 +284,36 @@ export function createSeed(
   provider.responses = createResponsesModel;
   provider.imageModel = createImageModel;
   provider.videoModel = createVideoModel;
-  provider.embeddingModel = (modelId: string) => {
-    throw new NoSuchModelError({ modelId, modelType: 'embeddingModel' });
-  };
+  provider.embeddingModel = createEmbeddingModel;
+  provider.tools = seedTools;
+  provider.contextCache = new SeedContextCache({
+    provider: 'seed.context',
+    baseURL,
+    headers: getHeaders,
+    fetch,
+    endpoints,
+  });
+  provider.batch = new SeedBatch({
+    provider: 'seed.batch',
+    baseURL,
+    headers: getHeaders,
+    fetch,
+    endpoints,
+  });
+  provider.responsesStore = new SeedResponsesStore({
+    provider: 'seed.responses',
+    baseURL,
+    headers: getHeaders,
+    fetch,
+  });
+  provider.videoTasks = new SeedVideoTasks({
+    provider: 'seed.video',
+    baseURL,
+    headers: getHeaders,
+    fetch,
+    endpoints,
+  });
+  provider.tokenizer = getTokenizer;
 
   return provider as SeedProvider;
 }
@@ -0,0 +1,2 @@
+export { repairSeedJsonOutput } from './repair-seed-json-output';
+export { simulateSeedStream } from './simulate-seed-stream';
@@ -0,0 +1,119 @@
+import {
+  LanguageModelV3CallOptions,
+  LanguageModelV3GenerateResult,
+} from '@ai-sdk/provider';
+import { describe, expect, it, vi } from 'vitest';
+import { repairSeedJsonOutput } from './repair-seed-json-output';
+
+const options: LanguageModelV3CallOptions = {
+  prompt: [{ role: 'user', content: [{ type: 'text', text: 'Extract' }] }],
+  responseFormat: {
+    type: 'json',
+    schema: {
+      type: 'object',
+      properties: { name: { type: 'string' }, age: { type: 'integer' } },
+      required: ['name', 'age'],
+    },
+  },
+};
+
+const createResult = (
+  text: string,
+  cost = 0.01,
+): LanguageModelV3GenerateResult => ({
+  content: [{ type: 'text', text }],
+  finishReason: { unified: 'stop', raw: 'stop' },
+  usage: {
+    inputTokens: {
+      total: 10,
+      noCache: 10,
+      cacheRead: undefined,
+      cacheWrite: undefined,
+    },
+    outputTokens: { total: 5, text: 5, reasoning: undefined },
+  },
+  providerMetadata: { seed: { cost: { currency: 'CNY', total: cost } } },
+  warnings: [],
+});
+
+describe('repairSeedJsonOutput', () => {
+  it('returns valid output unchanged', async () => {
+    const result = createResult('{"name":"Ada","age":36}');
+    const regenerate = vi.fn();
+
+    await expect(
+      repairSeedJsonOutput({ options, result, maxRepairs: 2, regenerate }),
+    ).resolves.toBe(result);
+    expect(regenerate).not.toHaveBeenCalled();
+  });
+
+  it('sends the validation errors back and adds up the calls', async () => {
+    const regenerate = vi
+      .fn()
+      .mockResolvedValue(createResult('{"name":"Ada","age":36}', 0.02));
+
+    const result = await repairSeedJsonOutput({
+      options,
+      result: createResult('{"name":"Ada","age":"36"}'),
+      maxRepairs: 2,
+      regenerate,
+    });
+
+    const { prompt } = regenerate.mock.calls[0][0];
+    expect(prompt.slice(1)).toEqual([
+      {
+        role: 'assistant',
+        content: [{ type: 'text', text: '{"name":"Ada","age":"36"}' }],
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'text',
+            text: expect.stringContaining('expected number, received string'),
+          },
+        ],
+      },
+    ]);
+    expect(result.content).toEqual([
+      { type: 'text', text: '{"name":"Ada","age":36}' },
+    ]);
+    expect(result.usage.inputTokens.total).toBe(20);
+    expect(result.usage.outputTokens.total).toBe(10);
+    expect(result.providerMetadata).toEqual({
+      seed: { cost: { currency: 'CNY', total: 0.03 } },
+    });
+    expect(result.warnings).toEqual([
+      {
+        type: 'other',
+        message: expect.stringMatching(/^Repairing JSON output \(1 of 2\)/),
+      },
+    ]);
+  });
+
+  it('gives up after maxRepairs', async () => {
+    const regenerate = vi.fn().mockResolvedValue(createResult('{"name":'));
+
+    const result = await repairSeedJsonOutput({
+      options,
+      result: createResult('not json'),
+      maxRepairs: 1,
+      regenerate,
+    });
+
+    expect(regenerate).toHaveBeenCalledTimes(1);
+    expect(result.content).toEqual([{ type: 'text', text: '{"name":' }]);
+    expect(result.warnings).toEqual([
+      {
+        type: 'other',
+        message: expect.stringMatching(/^Repairing JSON output \(1 of 1\)/),
+      },
+      {
+        type: 'other',
+        message: expect.stringMatching(
+          /^JSON output does not match the schema: Invalid JSON/,
+        ),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  LanguageModelV3CallOptions,
+  LanguageModelV3GenerateResult,
+  LanguageModelV3Usage,
+  SharedV3Warning,
+} from '@ai-sdk/provider';
+import { z } from 'zod';
+import { SeedCost, addSeedCosts, withCostProviderMetadata } from '../pricing';
+
+/**
+ * Validates the JSON text of a `json_object` generation against
+ * `responseFormat.schema`. While it does not match, asks the model to fix it,
+ * up to `maxRepairs` more calls that include the validation errors.
+ *
+ * Every repair is reported as a warning. `usage` and `cost` add up all calls,
+ * the rest of the result is that of the last call.
+ */
+export async function repairSeedJsonOutput({
+  options,
+  result,
+  maxRepairs,
+  regenerate,
+}: {
+  options: LanguageModelV3CallOptions;
+  result: LanguageModelV3GenerateResult;
+  maxRepairs: number;
+  regenerate: (
+    options: LanguageModelV3CallOptions,
+  ) => Promise<LanguageModelV3GenerateResult>;
+}): Promise<LanguageModelV3GenerateResult> {
+  const schema =
+    options.responseFormat?.type === 'json'
+      ? options.responseFormat.schema
+      : undefined;
+  if (schema == null) {
+    return result;
+  }
+
+  let validator: z.ZodType;
+  try {
+    validator = z.fromJSONSchema(
+      schema as Parameters<typeof z.fromJSONSchema>[0],
+    );
+  } catch (error) {
+    return {
+      ...result,
+      warnings: [
+        ...result.warnings,
+        {
+          type: 'other',
+          message: `JSON output was not validated, the schema is not supported: ${getErrorMessage(error)}`,
+        },
+      ],
+    };
+  }
+
+  const results = [result];
+  const repairWarnings: SharedV3Warning[] = [];
+  let prompt = options.prompt;
+
+  for (let repair = 1; ; repair++) {
+    const text = getText(result);
+    const error = validateJson(text, validator);
+    if (error == null) {
+      break;
+    }
+
+    if (repair > maxRepairs) {
+      repairWarnings.push({
+        type: 'other',
+        message: `JSON output does not match the schema: ${error}`,
+      });
+      break;
+    }
+
+    repairWarnings.push({
+      type: 'other',
+      message: `Repairing JSON output (${repair} of ${maxRepairs}): ${error}`,
+    });
+    prompt = [
+      ...prompt,
+      { role: 'assistant', content: [{ type: 'text', text }] },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'text',
+            text: `Your JSON does not match the required schema:\n${error}\nReply with the corrected JSON only.`,
+          },
+        ],
+      },
+    ];
+    result = await regenerate({ ...options, prompt });
+    results.push(result);
+  }
+
+  if (results.length === 1) {
+    return repairWarnings.length > 0
+      ? { ...result, warnings: [...result.warnings, ...repairWarnings] }
+      : result;
+  }
+
+  const cost = addSeedCosts(
+    results.map(
+      ({ providerMetadata }) =>
+        providerMetadata?.seed?.cost as SeedCost | undefined,
+    ),
+  );
+  return {
+    ...result,
+    usage: addUsage(results.map(({ usage }) => usage)),
+    providerMetadata:
+      cost != null
+        ? withCostProviderMetadata(result.providerMetadata, cost)
+        : result.providerMetadata,
+    warnings: [...result.warnings, ...repairWarnings],
+  };
+}
+
+function getText({ content }: LanguageModelV3GenerateResult): string {
+  return content.map(part => (part.type === 'text' ? part.text : '')).join('');
+}
+
+/** Returns a description of what is wrong with the JSON, if anything. */
+function validateJson(text: string, validator: z.ZodType): string | undefined {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return `Invalid JSON: ${getErrorMessage(error)}`;
+  }
+
+  const result = validator.safeParse(value);
+  return result.success ? undefined : z.prettifyError(result.error);
+}
+
+function addUsage(usages: LanguageModelV3Usage[]): LanguageModelV3Usage {
+  const sum = (values: Array<number | undefined>) =>
+    values.every(value => value == null)
+      ? undefined
+      : values.reduce<number>((total, value) => total + (value ?? 0), 0);
+
+  return {
+    inputTokens: {
+      total: sum(usages.map(usage => usage.inputTokens.total)),
+      noCache: sum(usages.map(usage => usage.inputTokens.noCache)),
+      cacheRead: sum(usages.map(usage => usage.inputTokens.cacheRead)),
+      cacheWrite: sum(usages.map(usage => usage.inputTokens.cacheWrite)),
+    },
+    outputTokens: {
+      total: sum(usages.map(usage => usage.outputTokens.total)),
+      text: sum(usages.map(usage => usage.outputTokens.text)),
+      reasoning: sum(usages.map(usage => usage.outputTokens.reasoning)),
+    },
+  };
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,67 @@
+import {
+  LanguageModelV3GenerateResult,
+  LanguageModelV3StreamPart,
+  LanguageModelV3StreamResult,
+} from '@ai-sdk/provider';
+
+/**
+ * Replays a finished generation as a stream, for calls whose output has to be
+ * complete before any of it can be emitted.
+ */
+export function simulateSeedStream(
+  result: LanguageModelV3GenerateResult,
+): LanguageModelV3StreamResult {
+  const parts: LanguageModelV3StreamPart[] = [
+    { type: 'stream-start', warnings: result.warnings },
+    {
+      type: 'response-metadata',
+      id: result.response?.id,
+      modelId: result.response?.modelId,
+      timestamp: result.response?.timestamp,
+    },
+  ];
+
+  result.content.forEach((part, index) => {
+    const id = String(index);
+    switch (part.type) {
+      case 'text':
+        parts.push(
+          { type: 'text-start', id, providerMetadata: part.providerMetadata },
+          { type: 'text-delta', id, delta: part.text },
+          { type: 'text-end', id },
+        );
+        break;
+      case 'reasoning':
+        parts.push(
+          {
+            type: 'reasoning-start',
+            id,
+            providerMetadata: part.providerMetadata,
+          },
+          { type: 'reasoning-delta', id, delta: part.text },
+          { type: 'reasoning-end', id },
+        );
+        break;
+      default:
+        parts.push(part);
+    }
+  });
+
+  parts.push({
+    type: 'finish',
+    finishReason: result.finishReason,
+    usage: result.usage,
+    providerMetadata: result.providerMetadata,
+  });
+
+  return {
+    stream: new ReadableStream({
+      start(controller) {
+        parts.forEach(part => controller.enqueue(part));
+        controller.close();
+      },
+    }),
+    request: result.request,
+    response: { headers: result.response?.headers },
+  };
+}
@@ -0,0 +1,19 @@
+export {
+  withSeedHooks,
+  type SeedErrorInfo,
+  type SeedHooks,
+  type SeedRequestInfo,
+  type SeedResponseInfo,
+  type SeedStreamChunkInfo,
+} from './seed-hooks';
+export {
+  getSeedLanguageModelAttributes,
+  getSeedResultAttributes,
+  getSeedUsageAttributes,
+  traceSeedCall,
+  traceSeedStream,
+  type SeedAttributes,
+  type SeedAttributeValue,
+  type SeedSpan,
+  type SeedTracer,
+} from './seed-tracing';
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import { withSeedHooks } from './seed-hooks';
+
+const createHooks = () => ({
+  onRequest: vi.fn(),
+  onResponse: vi.fn(),
+  onStreamChunk: vi.fn(),
+  onError: vi.fn(),
+});
+
+const postJson = (fetch: typeof globalThis.fetch) =>
+  fetch('https://ark.cn-beijing.volces.com/api/v3/chat/completions', {
+    method: 'POST',
+    headers: {
+      Authorization: 'Bearer secret-key',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ model: 'doubao-seed-1-6-250615' }),
+  });
+
+describe('withSeedHooks', () => {
+  it('should report requests with a redacted Authorization header', async () => {
+    const hooks = createHooks();
+    const fetch = withSeedHooks(
+      hooks,
+      vi.fn().mockResolvedValue(Response.json({ id: 'chatcmpl-123' })),
+    );
+
+    await postJson(fetch);
+
+    expect(hooks.onRequest).toHaveBeenCalledWith({
+      url: 'https://ark.cn-beijing.volces.com/api/v3/chat/completions',
+      method: 'POST',
+      headers: {
+        authorization: '[REDACTED]',
+        'content-type': 'application/json',
+      },
+      body: { model: 'doubao-seed-1-6-250615' },
+    });
+  });
+
+  it('should report JSON responses and leave the body readable', async () => {
+    const hooks = createHooks();
+    const fetch = withSeedHooks(
+      hooks,
+      vi.fn().mockResolvedValue(Response.json({ id: 'chatcmpl-123' })),
+    );
+
+    const response = await postJson(fetch);
+
+    expect(await response.json()).toEqual({ id: 'chatcmpl-123' });
+    expect(hooks.onResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 200, body: { id: 'chatcmpl-123' } }),
+    );
+    expect(hooks.onError).not.toHaveBeenCalled();
+  });
+
+  it('should report failed responses as errors', async () => {
+    const hooks = createHooks();
+    const error = {
+      error: { code: 'RateLimitExceeded', message: 'Slow down' },
+    };
+    const fetch = withSeedHooks(
+      hooks,
+      vi.fn().mockResolvedValue(Response.json(error, { status: 429 })),
+    );
+
+    const response = await postJson(fetch);
+
+    expect(response.status).toBe(429);
+    expect(hooks.onResponse).toHaveBeenCalledOnce();
+    expect(hooks.onError).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 429, error }),
+    );
+  });
+
+  it('should report network errors', async () => {
+    const hooks = createHooks();
+    const networkError = new TypeError('fetch failed');
+    const fetch = withSeedHooks(hooks, vi.fn().mockRejectedValue(networkError));
+
+    await expect(postJson(fetch)).rejects.toBe(networkError);
+    expect(hooks.onError).toHaveBeenCalledWith(
+      expect.objectContaining({ error: networkError }),
+    );
+  });
+
+  it('should report stream chunks and pass the stream through', async () => {
+    const hooks = createHooks();
+    const sse =
+      'data: {"id":"1","choices":[]}\n\ndata: {"id":"2",' +
+      '"choices":[]}\n\ndata: [DONE]\n\n';
+    const fetch = withSeedHooks(
+      hooks,
+      vi.fn().mockResolvedValue(
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              // Split an event across chunks
+              controller.enqueue(new TextEncoder().encode(sse.slice(0, 40)));
+              controller.enqueue(new TextEncoder().encode(sse.slice(40)));
+              controller.close();
+            },
+          }),
+          { headers: { 'content-type': 'text/event-stream' } },
+        ),
+      ),
+    );
+
+    const response = await postJson(fetch);
+
+    expect(await response.text()).toBe(sse);
+    expect(hooks.onStreamChunk.mock.calls.map(([info]) => info.chunk)).toEqual([
+      { id: '1', choices: [] },
+      { id: '2', choices: [] },
+    ]);
+    expect(hooks.onResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 200, body: undefined }),
+    );
+  });
+});
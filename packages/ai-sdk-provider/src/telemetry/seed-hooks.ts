@@ -0,0 +1,202 @@
+import { FetchFunction } from '@ai-sdk/provider-utils';
+
+/** A request sent to Ark. The `Authorization` header is redacted. */
+export interface SeedRequestInfo {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  /** JSON bodies are parsed, other bodies are passed as-is. */
+  body: unknown;
+}
+
+export interface SeedResponseInfo {
+  request: SeedRequestInfo;
+  status: number;
+  headers: Record<string, string>;
+  /** Parsed JSON body. Undefined for streams and non-JSON responses. */
+  body?: unknown;
+  durationMs: number;
+}
+
+export interface SeedStreamChunkInfo {
+  request: SeedRequestInfo;
+  /** Parsed `data` payload of a server-sent event. */
+  chunk: unknown;
+}
+
+export interface SeedErrorInfo {
+  request: SeedRequestInfo;
+  /** HTTP status of failed responses. Undefined for network and stream errors. */
+  status?: number;
+  /** The thrown error, or the response body of failed responses. */
+  error: unknown;
+  durationMs: number;
+}
+
+/**
+ * Observability hooks called for every Ark request made by the provider.
+ * Hooks run synchronously on the request path and should return quickly.
+ */
+export interface SeedHooks {
+  onRequest?: (request: SeedRequestInfo) => void;
+  /** Called for every HTTP response, including failed ones. */
+  onResponse?: (response: SeedResponseInfo) => void;
+  onStreamChunk?: (chunk: SeedStreamChunkInfo) => void;
+  /** Called for failed responses, network errors and interrupted streams. */
+  onError?: (error: SeedErrorInfo) => void;
+}
+
+type FetchInput = Parameters<FetchFunction>[0];
+type FetchInit = Parameters<FetchFunction>[1];
+
+const REDACTED_HEADERS = new Set(['authorization']);
+
+function getHeaders(headers: NonNullable<FetchInit>['headers'] | Headers) {
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    result[key] = REDACTED_HEADERS.has(key) ? '[REDACTED]' : value;
+  });
+  return result;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function getUrl(input: FetchInput) {
+  if (typeof input === 'string') {
+    return input;
+  }
+  return input instanceof URL ? input.toString() : input.url;
+}
+
+/**
+ * Passes server-sent event bytes through unchanged and reports the parsed
+ * `data` payload of each event.
+ */
+function createChunkReporter(onChunk: (chunk: unknown) => void) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const reportLines = (lines: string[]) => {
+    for (const line of lines) {
+      if (!line.startsWith('data:')) {
+        continue;
+      }
+      const data = line.slice('data:'.length).trim();
+      if (data.length > 0 && data !== '[DONE]') {
+        onChunk(parseJson(data));
+      }
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(bytes, controller) {
+      controller.enqueue(bytes);
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      reportLines(lines);
+    },
+    flush() {
+      reportLines([buffer + decoder.decode()]);
+    },
+  });
+}
+
+/**
+ * Wraps `fetch` so that every request, response, stream chunk and error is
+ * reported to the hooks.
+ */
+export function withSeedHooks(
+  hooks: SeedHooks,
+  fetch: FetchFunction = globalThis.fetch,
+): FetchFunction {
+  return async (input, init) => {
+    const request: SeedRequestInfo = {
+      url: getUrl(input),
+      method: init?.method ?? 'GET',
+      headers: getHeaders(init?.headers),
+      body: typeof init?.body === 'string' ? parseJson(init.body) : init?.body,
+    };
+    hooks.onRequest?.(request);
+
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(input, init);
+    } catch (error) {
+      hooks.onError?.({ request, error, durationMs: Date.now() - startedAt });
+      throw error;
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const headers = getHeaders(response.headers);
+    const contentType = response.headers.get('content-type') ?? '';
+    const isStream = contentType.includes('text/event-stream');
+    const body =
+      !isStream && contentType.includes('application/json')
+        ? parseJson(await response.clone().text())
+        : undefined;
+
+    hooks.onResponse?.({
+      request,
+      status: response.status,
+      headers,
+      body,
+      durationMs,
+    });
+
+    if (!response.ok) {
+      hooks.onError?.({
+        request,
+        status: response.status,
+        error: body ?? (await response.clone().text()),
+        durationMs,
+      });
+      return response;
+    }
+
+    if (!isStream || response.body == null) {
+      return response;
+    }
+
+    const reader = response.body
+      .pipeThrough(
+        createChunkReporter(chunk => hooks.onStreamChunk?.({ request, chunk })),
+      )
+      .getReader();
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          hooks.onError?.({
+            request,
+            error,
+            durationMs: Date.now() - startedAt,
+          });
+          controller.error(error);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+
+    return new Response(stream, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
@@ -0,0 +1,215 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SeedChatLanguageModel } from '../chat/seed-chat-language-model';
+import { SeedImageModel } from '../image/seed-image-model';
+import { SeedTracer } from './seed-tracing';
+
+const createTracer = () => {
+  const span = {
+    setAttributes: vi.fn(),
+    addEvent: vi.fn(),
+    recordException: vi.fn(),
+    setStatus: vi.fn(),
+    end: vi.fn(),
+  };
+  const tracer: SeedTracer = { startSpan: vi.fn().mockReturnValue(span) };
+  const getAttributes = () =>
+    Object.assign({}, ...span.setAttributes.mock.calls.map(([attrs]) => attrs));
+  return { tracer, span, getAttributes };
+};
+
+const createChatModel = (fetch: typeof globalThis.fetch, tracer: SeedTracer) =>
+  new SeedChatLanguageModel('doubao-seed-1-6-250615', {
+    provider: 'seed.chat',
+    baseURL: 'https://ark.cn-beijing.volces.com/api/v3',
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch,
+    tracer,
+  });
+
+const prompt = [
+  { role: 'user' as const, content: [{ type: 'text' as const, text: 'Hi' }] },
+];
+
+describe('tracing', () => {
+  it('should record a span for generate calls', async () => {
+    const { tracer, span, getAttributes } = createTracer();
+    const model = createChatModel(
+      vi.fn().mockResolvedValue(
+        Response.json({
+          id: 'chatcmpl-123',
+          model: 'doubao-seed-1-6-250615',
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Hello' },
+              finish_reason: 'stop',
+            },
+          ],
+          usage: {
+            prompt_tokens: 10,
+            completion_tokens: 5,
+            total_tokens: 15,
+            prompt_tokens_details: { cached_tokens: 4 },
+          },
+        }),
+      ),
+      tracer,
+    );
+
+    await model.doGenerate({ prompt });
+
+    expect(tracer.startSpan).toHaveBeenCalledWith('seed.chat.doGenerate', {
+      attributes: {
+        'gen_ai.provider.name': 'seed.chat',
+        'gen_ai.request.model': 'doubao-seed-1-6-250615',
+      },
+    });
+    expect(getAttributes()).toMatchObject({
+      'gen_ai.response.model': 'doubao-seed-1-6-250615',
+      'gen_ai.usage.input_tokens': 10,
+      'gen_ai.usage.output_tokens': 5,
+      'seed.usage.cached_tokens': 4,
+      'gen_ai.response.finish_reasons': ['stop'],
+    });
+    expect(span.end).toHaveBeenCalledOnce();
+  });
+
+  it('should record errors', async () => {
+    const { tracer, span } = createTracer();
+    const model = createChatModel(
+      vi
+        .fn()
+        .mockResolvedValue(
+          Response.json(
+            { error: { code: 'InternalServiceError', message: 'Boom' } },
+            { status: 500 },
+          ),
+        ),
+      tracer,
+    );
+
+    await expect(model.doGenerate({ prompt })).rejects.toThrow();
+
+    expect(span.recordException).toHaveBeenCalled();
+    expect(span.setStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 2 }),
+    );
+    expect(span.end).toHaveBeenCalledOnce();
+  });
+
+  it('should record time to first token for streams', async () => {
+    const { tracer, span, getAttributes } = createTracer();
+    const chunks = [
+      'data: {"id":"1","model":"doubao-seed-1-6-250615","choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\n',
+      'data: {"id":"1","choices":[{"index":0,"delta":{},"finish_reason":"stop"}],"usage":{"prompt_tokens":10,"completion_tokens":1}}\n\n',
+      'data: [DONE]\n\n',
+    ];
+    const model = createChatModel(
+      vi.fn().mockResolvedValue(
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              for (const chunk of chunks) {
+                controller.enqueue(new TextEncoder().encode(chunk));
+              }
+              controller.close();
+            },
+          }),
+          { headers: { 'content-type': 'text/event-stream' } },
+        ),
+      ),
+      tracer,
+    );
+
+    const { stream } = await model.doStream({ prompt });
+    expect(span.end).not.toHaveBeenCalled();
+
+    const reader = stream.getReader();
+    while (!(await reader.read()).done) {}
+
+    expect(tracer.startSpan).toHaveBeenCalledWith(
+      'seed.chat.doStream',
+      expect.anything(),
+    );
+    expect(span.addEvent).toHaveBeenCalledWith('first_token');
+    expect(getAttributes()).toMatchObject({
+      'seed.time_to_first_token_ms': expect.any(Number),
+      'gen_ai.response.model': 'doubao-seed-1-6-250615',
+      'gen_ai.usage.input_tokens': 10,
+      'gen_ai.usage.output_tokens': 1,
+      'gen_ai.response.finish_reasons': ['stop'],
+    });
+    expect(span.end).toHaveBeenCalledOnce();
+  });
+
+  it('should end the span when a stream is cancelled', async () => {
+    const { tracer, span } = createTracer();
+    const model = createChatModel(
+      vi.fn().mockResolvedValue(
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(
+                new TextEncoder().encode(
+                  'data: {"id":"1","model":"doubao-seed-1-6-250615","choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\n',
+                ),
+              );
+              // Never closes, like a long generation
+            },
+          }),
+          { headers: { 'content-type': 'text/event-stream' } },
+        ),
+      ),
+      tracer,
+    );
+
+    const { stream } = await model.doStream({ prompt });
+    const reader = stream.getReader();
+    while ((await reader.read()).value?.type !== 'text-delta') {}
+    await reader.cancel();
+
+    expect(span.setStatus).toHaveBeenCalledWith({
+      code: 2,
+      message: 'Cancelled',
+    });
+    expect(span.end).toHaveBeenCalledOnce();
+  });
+
+  it('should record image counts for image models', async () => {
+    const { tracer, getAttributes } = createTracer();
+    const model = new SeedImageModel('doubao-seedream-4-5-251128', {
+      provider: 'seed.image',
+      baseURL: 'https://ark.cn-beijing.volces.com/api/v3',
+      headers: () => ({ Authorization: 'Bearer test-key' }),
+      fetch: vi.fn().mockResolvedValue(
+        Response.json({
+          model: 'doubao-seedream-4-5-251128',
+          created: 1,
+          data: [{ b64_json: 'aW1hZ2U=' }],
+          usage: { generated_images: 1, output_tokens: 16384 },
+        }),
+      ),
+      pricing: { 'doubao-seedream-4-5': { perImage: 0.25 } },
+      tracer,
+    });
+
+    await model.doGenerate({
+      prompt: 'A cat',
+      n: 1,
+      size: undefined,
+      aspectRatio: undefined,
+      seed: undefined,
+      files: undefined,
+      mask: undefined,
+      providerOptions: {},
+    });
+
+    expect(getAttributes()).toMatchObject({
+      'gen_ai.response.model': 'doubao-seedream-4-5-251128',
+      'gen_ai.usage.output_tokens': 16384,
+      'seed.image.count': 1,
+      'seed.cost.total': 0.25,
+      'seed.cost.currency': 'CNY',
+    });
+  });
+});
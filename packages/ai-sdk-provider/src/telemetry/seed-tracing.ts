@@ -0,0 +1,236 @@
+import {
+  LanguageModelV3FinishReason,
+  LanguageModelV3GenerateResult,
+  LanguageModelV3StreamPart,
+  LanguageModelV3StreamResult,
+  LanguageModelV3Usage,
+} from '@ai-sdk/provider';
+import { removeUndefinedEntries } from '@ai-sdk/provider-utils';
+
+export type SeedAttributeValue = string | number | boolean | string[];
+
+/** Span attributes. Undefined values are dropped before they are set. */
+export type SeedAttributes = Record<string, SeedAttributeValue | undefined>;
+
+/**
+ * The subset of an OpenTelemetry `Span` used by the provider.
+ */
+export interface SeedSpan {
+  setAttributes(attributes: Record<string, SeedAttributeValue>): unknown;
+  addEvent(name: string): unknown;
+  recordException(exception: Error | string): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry `Tracer` used by the provider, so a tracer
+ * from `@opentelemetry/api` can be passed without the provider depending on it.
+ */
+export interface SeedTracer {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, SeedAttributeValue> },
+  ): SeedSpan;
+}
+
+/** `SpanStatusCode.ERROR` of `@opentelemetry/api`. */
+const SPAN_STATUS_ERROR = 2;
+
+type SeedSpanInfo = {
+  provider: string;
+  modelId: string;
+  operation: 'doGenerate' | 'doStream';
+};
+
+function startSpan(
+  tracer: SeedTracer,
+  { provider, modelId, operation }: SeedSpanInfo,
+): SeedSpan {
+  return tracer.startSpan(`${provider}.${operation}`, {
+    attributes: {
+      'gen_ai.provider.name': provider,
+      'gen_ai.request.model': modelId,
+    },
+  });
+}
+
+function endSpanWithError(span: SeedSpan, error: unknown) {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({
+    code: SPAN_STATUS_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+  span.end();
+}
+
+/**
+ * Attributes shared by all models: the response model, plus the call cost
+ * when the pricing table knows the model.
+ */
+export function getSeedResultAttributes({
+  responseModelId,
+  providerMetadata,
+}: {
+  responseModelId?: string;
+  providerMetadata?: Record<string, unknown>;
+}): SeedAttributes {
+  const { cost } = (providerMetadata?.seed ?? {}) as {
+    cost?: { currency?: string; total?: number };
+  };
+  return {
+    'gen_ai.response.model': responseModelId,
+    'seed.cost.total': cost?.total,
+    'seed.cost.currency': cost?.currency,
+  };
+}
+
+export function getSeedUsageAttributes({
+  usage,
+  finishReason,
+}: {
+  usage?: LanguageModelV3Usage;
+  finishReason?: LanguageModelV3FinishReason;
+}): SeedAttributes {
+  return {
+    'gen_ai.usage.input_tokens': usage?.inputTokens.total,
+    'gen_ai.usage.output_tokens': usage?.outputTokens.total,
+    'seed.usage.cached_tokens': usage?.inputTokens.cacheRead,
+    'seed.usage.reasoning_tokens': usage?.outputTokens.reasoning,
+    'gen_ai.response.finish_reasons':
+      finishReason != null ? [finishReason.unified] : undefined,
+  };
+}
+
+export function getSeedLanguageModelAttributes(
+  result: LanguageModelV3GenerateResult,
+): SeedAttributes {
+  return {
+    ...getSeedUsageAttributes(result),
+    ...getSeedResultAttributes({
+      responseModelId: result.response?.modelId,
+      providerMetadata: result.providerMetadata,
+    }),
+  };
+}
+
+/**
+ * Runs a model call in a span. The span records the attributes returned by
+ * `getAttributes` on success and the error otherwise.
+ */
+export async function traceSeedCall<T>(
+  tracer: SeedTracer | undefined,
+  info: Omit<SeedSpanInfo, 'operation'>,
+  call: () => Promise<T>,
+  getAttributes: (result: T) => SeedAttributes,
+): Promise<T> {
+  if (tracer == null) {
+    return call();
+  }
+
+  const span = startSpan(tracer, { ...info, operation: 'doGenerate' });
+  try {
+    const result = await call();
+    span.setAttributes(removeUndefinedEntries(getAttributes(result)));
+    span.end();
+    return result;
+  } catch (error) {
+    endSpanWithError(span, error);
+    throw error;
+  }
+}
+
+/**
+ * Runs a streaming language model call in a span that ends with the stream,
+ * or with an error status when the consumer cancels it.
+ * Besides usage and finish reason, it records the latency to the first
+ * text, reasoning or tool input delta as `seed.time_to_first_token_ms`.
+ */
+export async function traceSeedStream(
+  tracer: SeedTracer | undefined,
+  info: Omit<SeedSpanInfo, 'operation'>,
+  call: () => Promise<LanguageModelV3StreamResult>,
+): Promise<LanguageModelV3StreamResult> {
+  if (tracer == null) {
+    return call();
+  }
+
+  const span = startSpan(tracer, { ...info, operation: 'doStream' });
+  const startedAt = Date.now();
+  let result: LanguageModelV3StreamResult;
+  try {
+    result = await call();
+  } catch (error) {
+    endSpanWithError(span, error);
+    throw error;
+  }
+
+  let firstTokenReceived = false;
+  let responseModelId: string | undefined;
+
+  const recordPart = (part: LanguageModelV3StreamPart) => {
+    switch (part.type) {
+      case 'response-metadata':
+        responseModelId ??= part.modelId;
+        break;
+      case 'text-delta':
+      case 'reasoning-delta':
+      case 'tool-input-start':
+      case 'tool-call':
+        if (!firstTokenReceived) {
+          firstTokenReceived = true;
+          const latency = Date.now() - startedAt;
+          span.setAttributes({ 'seed.time_to_first_token_ms': latency });
+          span.addEvent('first_token');
+        }
+        break;
+      case 'error':
+        span.recordException(
+          part.error instanceof Error ? part.error : String(part.error),
+        );
+        span.setStatus({ code: SPAN_STATUS_ERROR });
+        break;
+      case 'finish':
+        span.setAttributes(
+          removeUndefinedEntries({
+            ...getSeedUsageAttributes(part),
+            ...getSeedResultAttributes({
+              responseModelId,
+              providerMetadata: part.providerMetadata,
+            }),
+          }),
+        );
+        break;
+    }
+  };
+
+  // A pulling stream instead of a transform, so that the span also ends
+  // when the consumer cancels the stream
+  const reader = result.stream.getReader();
+
+  return {
+    ...result,
+    stream: new ReadableStream<LanguageModelV3StreamPart>({
+      async pull(controller) {
+        const next = await reader.read().catch(error => {
+          endSpanWithError(span, error);
+          throw error;
+        });
+
+        if (next.done) {
+          span.end();
+          controller.close();
+          return;
+        }
+
+        recordPart(next.value);
+        controller.enqueue(next.value);
+      },
+      async cancel(reason) {
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: 'Cancelled' });
+        span.end();
+        await reader.cancel(reason);
+      },
+    }),
+  };
+}
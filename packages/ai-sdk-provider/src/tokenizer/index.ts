@@ -0,0 +1,5 @@
+export {
+  SeedTokenizer,
+  type SeedTokenizerConfig,
+  type SeedTokenizerMessage,
+} from './seed-tokenizer';
@@ -0,0 +1,21 @@
+import { InferSchema, lazySchema, zodSchema } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+
+export const seedTokenizationResponseSchema = lazySchema(() =>
+  zodSchema(
+    z.object({
+      id: z.string().nullish(),
+      model: z.string().nullish(),
+      data: z.array(
+        z.object({
+          index: z.number(),
+          total_tokens: z.number(),
+        }),
+      ),
+    }),
+  ),
+);
+
+export type SeedTokenizationResponse = InferSchema<
+  typeof seedTokenizationResponseSchema
+>;
@@ -0,0 +1,170 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SeedTokenizer } from './seed-tokenizer';
+
+// Counts one token per character so results are easy to check
+const createMockFetch = () =>
+  vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+    const { text } = JSON.parse(init.body as string) as { text: string[] };
+    const response = {
+      data: text.map((item, index) => ({ index, total_tokens: item.length })),
+    };
+    return {
+      ok: true,
+      status: 200,
+      headers: new Headers({ 'content-type': 'application/json' }),
+      json: () => Promise.resolve(response),
+      text: () => Promise.resolve(JSON.stringify(response)),
+    };
+  });
+
+const createTokenizer = (fetchMock?: typeof fetch) =>
+  new SeedTokenizer('doubao-seed-1-6-250615', {
+    provider: 'seed.tokenizer',
+    baseURL: 'https://ark.cn-beijing.volces.com/api/v3',
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch: fetchMock,
+  });
+
+describe('SeedTokenizer', () => {
+  it('counts the tokens of a text', async () => {
+    const mockFetch = createMockFetch();
+
+    const count = await createTokenizer(mockFetch).count('hello');
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://ark.cn-beijing.volces.com/api/v3/tokenization');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'doubao-seed-1-6-250615',
+      text: ['hello'],
+    });
+    expect(init.headers).toMatchObject({ authorization: 'Bearer test-key' });
+    expect(count).toBe(5);
+  });
+
+  it('sums the text content of messages', async () => {
+    const mockFetch = createMockFetch();
+
+    const count = await createTokenizer(mockFetch).count([
+      { role: 'system', content: 'abc' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'de' },
+          { type: 'image', image: 'https://example.com/a.png' },
+          { type: 'text', text: 'f' },
+        ],
+      },
+      {
+        role: 'assistant',
+        content: [
+          {
+            type: 'tool-call',
+            toolCallId: '1',
+            toolName: 'x',
+            input: { query: 'g' },
+          },
+        ],
+      },
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: '1',
+            toolName: 'x',
+            output: { type: 'json', value: { found: true } },
+          },
+        ],
+      },
+    ]);
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).text).toEqual([
+      'abc',
+      'de\nf',
+      '{"query":"g"}',
+      '{"found":true}',
+    ]);
+    expect(count).toBe(3 + 4 + 13 + 14);
+  });
+
+  it('skips media in tool results', async () => {
+    const mockFetch = createMockFetch();
+
+    const count = await createTokenizer(mockFetch).count([
+      {
+        role: 'tool',
+        content: [
+          {
+            type: 'tool-result',
+            toolCallId: '1',
+            toolName: 'screenshot',
+            output: {
+              type: 'content',
+              value: [
+                { type: 'text', text: 'Screenshot' },
+                {
+                  type: 'image-data',
+                  data: 'iVBORw0KGgo=',
+                  mediaType: 'image/png',
+                },
+                { type: 'file-url', url: 'https://example.com/a.pdf' },
+              ],
+            },
+          },
+        ],
+      },
+    ]);
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).text).toEqual([
+      'Screenshot',
+    ]);
+    expect(count).toBe(10);
+  });
+
+  it('only sends texts that are not cached yet', async () => {
+    const mockFetch = createMockFetch();
+    const tokenizer = createTokenizer(mockFetch);
+
+    await tokenizer.count([{ role: 'user', content: 'first' }]);
+    const counts = await tokenizer.countEach(['first', 'second', 'first']);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body).text).toEqual([
+      'second',
+    ]);
+    expect(counts).toEqual([5, 6, 5]);
+
+    await tokenizer.count('second');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('counts empty text as zero without a request', async () => {
+    const mockFetch = createMockFetch();
+
+    const count = await createTokenizer(mockFetch).count([
+      { role: 'user', content: '' },
+      { role: 'user', content: [{ type: 'file', data: 'abc' }] },
+    ]);
+
+    expect(count).toBe(0);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('throws typed API errors', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          error: {
+            code: 'InvalidEndpointOrModel.NotFound',
+            message: 'The model does not exist',
+          },
+        }),
+        { status: 404, headers: { 'content-type': 'application/json' } },
+      ),
+    );
+
+    await expect(
+      createTokenizer(mockFetch).count('hello'),
+    ).rejects.toMatchObject({ kind: 'model_not_found', statusCode: 404 });
+  });
+});
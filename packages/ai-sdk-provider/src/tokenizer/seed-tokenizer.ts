@@ -0,0 +1,177 @@
+import {
+  FetchFunction,
+  combineHeaders,
+  createJsonResponseHandler,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { seedFailedResponseHandler } from '../chat/seed-error';
+import { SeedEndpointResolver } from '../endpoints';
+import { seedTokenizationResponseSchema } from './seed-tokenizer-api';
+
+export interface SeedTokenizerConfig {
+  provider: string;
+  baseURL: string;
+  headers: () => Record<string, string>;
+  fetch?: FetchFunction;
+  endpoints?: SeedEndpointResolver;
+}
+
+/**
+ * A chat message in AI SDK prompt or `ModelMessage` format. Only text is
+ * counted: text and reasoning parts as-is, tool call inputs and tool outputs
+ * as JSON or text. Images and files are skipped, also inside tool outputs.
+ */
+export interface SeedTokenizerMessage {
+  role: string;
+  content: unknown;
+}
+
+type RequestOptions = {
+  headers?: Record<string, string | undefined>;
+  abortSignal?: AbortSignal;
+};
+
+const MAX_CACHE_ENTRIES = 4096;
+
+/**
+ * Counts tokens with the Ark tokenization endpoint.
+ *
+ * Counts are cached per text hash, so recounting a growing conversation only
+ * sends the new messages.
+ */
+export class SeedTokenizer {
+  private readonly cache = new Map<string, number>();
+
+  constructor(
+    readonly modelId: string,
+    private readonly config: SeedTokenizerConfig,
+  ) {}
+
+  /**
+   * Counts the tokens of a text, or the total tokens of the text content of
+   * a list of messages.
+   */
+  async count(
+    input: string | SeedTokenizerMessage[],
+    options: RequestOptions = {},
+  ): Promise<number> {
+    const counts = await this.countEach(
+      typeof input === 'string' ? [input] : input.map(getMessageText),
+      options,
+    );
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * Counts the tokens of each text in one request.
+   */
+  async countEach(
+    texts: string[],
+    { headers, abortSignal }: RequestOptions = {},
+  ): Promise<number[]> {
+    const keys = await Promise.all(texts.map(hashText));
+
+    const missing = new Map<string, string>();
+    texts.forEach((text, index) => {
+      if (text !== '' && !this.cache.has(keys[index])) {
+        missing.set(keys[index], text);
+      }
+    });
+
+    if (missing.size > 0) {
+      const missingKeys = [...missing.keys()];
+      const { value: response } = await postJsonToApi({
+        url: `${this.config.baseURL}/tokenization`,
+        headers: combineHeaders(this.config.headers(), headers),
+        body: {
+          model:
+            this.config.endpoints?.getRequestModelId(this.modelId) ??
+            this.modelId,
+          text: [...missing.values()],
+        },
+        failedResponseHandler: seedFailedResponseHandler,
+        successfulResponseHandler: createJsonResponseHandler(
+          seedTokenizationResponseSchema,
+        ),
+        abortSignal,
+        fetch: this.config.fetch,
+      });
+
+      for (const item of response.data) {
+        this.remember(missingKeys[item.index], item.total_tokens);
+      }
+    }
+
+    return keys.map(
+      (key, index) => (texts[index] === '' ? 0 : this.cache.get(key)) ?? 0,
+    );
+  }
+
+  private remember(key: string, tokens: number) {
+    // Map iteration order is insertion order, so the first key is the oldest
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(key, tokens);
+  }
+}
+
+function getMessageText({ content }: SeedTokenizerMessage): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return '';
+  }
+
+  return content
+    .map(part => {
+      switch (part?.type) {
+        case 'text':
+        case 'reasoning':
+          return part.text as string;
+        case 'tool-call':
+          return JSON.stringify(part.input) ?? '';
+        case 'tool-result':
+          return getToolOutputText(part.output);
+        default:
+          return '';
+      }
+    })
+    .filter(text => text !== '')
+    .join('\n');
+}
+
+function getToolOutputText(output: {
+  type: string;
+  value?: unknown;
+  reason?: string;
+}): string {
+  switch (output?.type) {
+    case 'text':
+    case 'error-text':
+      return output.value as string;
+    case 'json':
+    case 'error-json':
+      return JSON.stringify(output.value) ?? '';
+    case 'execution-denied':
+      return output.reason ?? '';
+    case 'content':
+      return (output.value as Array<{ type: string; text?: string }>)
+        .filter(item => item.type === 'text')
+        .map(item => item.text)
+        .join('\n');
+    default:
+      return '';
+  }
+}
+
+async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest), byte =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+}
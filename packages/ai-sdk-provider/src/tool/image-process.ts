@@ -0,0 +1,57 @@
+import {
+  createProviderToolFactoryWithOutputSchema,
+  lazySchema,
+  zodSchema,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+
+export type ImageProcessArgs = {
+  /**
+   * Allow the model to mark points on the input image.
+   */
+  point?: boolean;
+
+  /**
+   * Allow the model to draw bounding boxes (grounding) on the input image.
+   */
+  grounding?: boolean;
+
+  /**
+   * Allow the model to zoom into a region of the input image.
+   */
+  zoom?: boolean;
+
+  /**
+   * Allow the model to rotate the input image.
+   */
+  rotate?: boolean;
+};
+
+export const imageProcessArgsSchema = lazySchema(() =>
+  zodSchema(
+    z.strictObject({
+      point: z.boolean().optional(),
+      grounding: z.boolean().optional(),
+      zoom: z.boolean().optional(),
+      rotate: z.boolean().optional(),
+    }),
+  ),
+);
+
+export const imageProcessInputSchema = lazySchema(() =>
+  zodSchema(z.object({ type: z.string().optional() }).passthrough()),
+);
+
+export const imageProcessOutputSchema = lazySchema(() =>
+  zodSchema(z.object({ status: z.string().optional() }).passthrough()),
+);
+
+export const imageProcess = createProviderToolFactoryWithOutputSchema<
+  { type?: string; [key: string]: unknown },
+  { status?: string; [key: string]: unknown },
+  ImageProcessArgs
+>({
+  id: 'seed.image_process',
+  inputSchema: imageProcessInputSchema,
+  outputSchema: imageProcessOutputSchema,
+});
@@ -0,0 +1,4 @@
+export { seedTools } from './seed-tools';
+export { type ImageProcessArgs } from './image-process';
+export { type KnowledgeSearchArgs } from './knowledge-search';
+export { type WebSearchArgs } from './web-search';
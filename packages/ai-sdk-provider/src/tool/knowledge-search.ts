@@ -0,0 +1,54 @@
+import {
+  createProviderToolFactoryWithOutputSchema,
+  lazySchema,
+  zodSchema,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+
+export type KnowledgeSearchArgs = {
+  /**
+   * ID of the knowledge base to search.
+   */
+  knowledgeResourceId: string;
+
+  /**
+   * Description of the knowledge base content, used by the model to decide
+   * when to search it.
+   */
+  description?: string;
+
+  /**
+   * Maximum number of chunks recalled per search.
+   */
+  limit?: number;
+};
+
+export const knowledgeSearchArgsSchema = lazySchema(() =>
+  zodSchema(
+    z.strictObject({
+      knowledgeResourceId: z.string().min(1),
+      description: z.string().optional(),
+      limit: z.number().int().positive().optional(),
+    }),
+  ),
+);
+
+export const knowledgeSearchInputSchema = lazySchema(() =>
+  zodSchema(
+    z.object({ queries: z.array(z.string()).optional() }).passthrough(),
+  ),
+);
+
+export const knowledgeSearchOutputSchema = lazySchema(() =>
+  zodSchema(z.object({ status: z.string().optional() }).passthrough()),
+);
+
+export const knowledgeSearch = createProviderToolFactoryWithOutputSchema<
+  { queries?: string[]; [key: string]: unknown },
+  { status?: string; [key: string]: unknown },
+  KnowledgeSearchArgs
+>({
+  id: 'seed.knowledge_search',
+  inputSchema: knowledgeSearchInputSchema,
+  outputSchema: knowledgeSearchOutputSchema,
+});
@@ -0,0 +1,25 @@
+import { imageProcess } from './image-process';
+import { knowledgeSearch } from './knowledge-search';
+import { webSearch } from './web-search';
+
+/**
+ * Built-in tools executed server-side by the Responses API.
+ * They are not available on the Chat Completions model.
+ */
+export const seedTools = {
+  /**
+   * Searches the web and grounds the answer with citations, which are
+   * returned as `source` parts.
+   */
+  webSearch,
+
+  /**
+   * Lets vision models point at, ground, zoom into or rotate input images.
+   */
+  imageProcess,
+
+  /**
+   * Searches a Volcengine knowledge base.
+   */
+  knowledgeSearch,
+};
@@ -0,0 +1,80 @@
+import {
+  createProviderToolFactoryWithOutputSchema,
+  lazySchema,
+  zodSchema,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+
+export type WebSearchArgs = {
+  /**
+   * Maximum number of results recalled per search round. Range: [1, 50].
+   *
+   * @default 10
+   */
+  limit?: number;
+
+  /**
+   * Maximum number of keywords searched in parallel. Range: [1, 50].
+   */
+  maxKeyword?: number;
+
+  /**
+   * Additional content sources to search.
+   */
+  sources?: Array<'toutiao' | 'douyin' | 'moji'>;
+
+  /**
+   * Approximate user location used to localize results.
+   */
+  userLocation?: {
+    type: 'approximate';
+    country?: string;
+    region?: string;
+    city?: string;
+  };
+};
+
+export const webSearchArgsSchema = lazySchema(() =>
+  zodSchema(
+    z.strictObject({
+      limit: z.number().int().min(1).max(50).optional(),
+      maxKeyword: z.number().int().min(1).max(50).optional(),
+      sources: z.array(z.enum(['toutiao', 'douyin', 'moji'])).optional(),
+      userLocation: z
+        .strictObject({
+          type: z.literal('approximate'),
+          country: z.string().optional(),
+          region: z.string().optional(),
+          city: z.string().optional(),
+        })
+        .optional(),
+    }),
+  ),
+);
+
+export const webSearchInputSchema = lazySchema(() =>
+  zodSchema(
+    z.object({
+      type: z.string().optional(),
+      query: z.string().optional(),
+    }),
+  ),
+);
+
+export const webSearchOutputSchema = lazySchema(() =>
+  zodSchema(
+    z.object({
+      status: z.string().optional(),
+    }),
+  ),
+);
+
+export const webSearch = createProviderToolFactoryWithOutputSchema<
+  { type?: string; query?: string },
+  { status?: string },
+  WebSearchArgs
+>({
+  id: 'seed.web_search',
+  inputSchema: webSearchInputSchema,
+  outputSchema: webSearchOutputSchema,
+});
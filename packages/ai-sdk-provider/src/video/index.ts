@@ -4,3 +4,14 @@ export {
   type SeedVideoConfig,
 } from './seed-video-model';
 export { type SeedVideoModelOptions } from './seed-video-options';
+export {
+  SeedVideoTasks,
+  type SeedVideoChainClip,
+  type SeedVideoContent,
+  type SeedVideoImageRole,
+  type SeedVideoTask,
+  type SeedVideoTaskCreateOptions,
+  type SeedVideoTaskStatus,
+  type SeedVideoTasksConfig,
+  type SeedVideoTimelineEntry,
+} from './seed-video-tasks';
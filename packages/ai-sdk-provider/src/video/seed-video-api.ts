@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+export const seedVideoCreateResponseSchema = z.object({
+  id: z.string().nullish(),
+});
+
+export const seedVideoTaskResponseSchema = z.object({
+  id: z.string().nullish(),
+  model: z.string().nullish(),
+  status: z
+    .enum(['queued', 'running', 'succeeded', 'failed', 'expired', 'cancelled'])
+    .nullish(),
+  error: z
+    .object({
+      code: z.string().nullish(),
+      message: z.string().nullish(),
+    })
+    .nullish(),
+  content: z
+    .object({
+      video_url: z.string().nullish(),
+      last_frame_url: z.string().nullish(),
+    })
+    .nullish(),
+  seed: z.number().nullish(),
+  resolution: z.string().nullish(),
+  ratio: z.string().nullish(),
+  duration: z.number().nullish(),
+  frames: z.number().nullish(),
+  framespersecond: z.number().nullish(),
+  generate_audio: z.boolean().nullish(),
+  draft: z.boolean().nullish(),
+  draft_task_id: z.string().nullish(),
+  service_tier: z.string().nullish(),
+  execution_expires_after: z.number().nullish(),
+  created_at: z.number().nullish(),
+  updated_at: z.number().nullish(),
+  usage: z
+    .object({
+      completion_tokens: z.number().nullish(),
+      total_tokens: z.number().nullish(),
+    })
+    .nullish(),
+});
+
+export const seedVideoTaskListResponseSchema = z.object({
+  items: z.array(seedVideoTaskResponseSchema).nullish(),
+  total: z.number().nullish(),
+});
+
+export type SeedVideoTaskResponse = z.infer<typeof seedVideoTaskResponseSchema>;
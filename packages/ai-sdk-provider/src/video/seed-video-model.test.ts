@@ -197,6 +197,173 @@ describe('SeedVideoModel', () => {
     });
   });
 
+  // ─── Image roles ──────────────────────────────────────────────────────────
+
+  describe('doGenerate – image roles', () => {
+    const firstFrame = {
+      url: 'https://example.com/first.png',
+      role: 'first_frame',
+    } as const;
+    const lastFrame = {
+      url: 'https://example.com/last.png',
+      role: 'last_frame',
+    } as const;
+    const reference = (n: number) =>
+      ({
+        url: `https://example.com/ref-${n}.png`,
+        role: 'reference_image',
+      }) as const;
+
+    it('sends first and last frames with roles', async () => {
+      const fetch = createMockFetch({ id: 'task-id-123' });
+      const result = await createModel(fetch).doGenerate({
+        ...defaultOptions,
+        providerOptions: { seed: { images: [firstFrame, lastFrame] } },
+      });
+
+      const body = await getCreateRequestBody(fetch);
+      expect(body.content).toEqual([
+        { type: 'text', text: prompt },
+        {
+          type: 'image_url',
+          image_url: { url: 'https://example.com/first.png' },
+          role: 'first_frame',
+        },
+        {
+          type: 'image_url',
+          image_url: { url: 'https://example.com/last.png' },
+          role: 'last_frame',
+        },
+      ]);
+      expect(body.images).toBeUndefined();
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('uses the standard image as first frame', async () => {
+      const fetch = createMockFetch({ id: 'task-id-123' });
+      await createModel(fetch).doGenerate({
+        ...defaultOptions,
+        image: { type: 'url', url: 'https://example.com/input-image.png' },
+        providerOptions: { seed: { images: [lastFrame] } },
+      });
+
+      const body = await getCreateRequestBody(fetch);
+      expect(body.content.slice(1)).toEqual([
+        {
+          type: 'image_url',
+          image_url: { url: 'https://example.com/input-image.png' },
+          role: 'first_frame',
+        },
+        {
+          type: 'image_url',
+          image_url: { url: 'https://example.com/last.png' },
+          role: 'last_frame',
+        },
+      ]);
+    });
+
+    it('warns when images override the standard image', async () => {
+      const fetch = createMockFetch({ id: 'task-id-123' });
+      const result = await createModel(fetch).doGenerate({
+        ...defaultOptions,
+        image: { type: 'url', url: 'https://example.com/input-image.png' },
+        providerOptions: { seed: { images: [firstFrame] } },
+      });
+
+      const body = await getCreateRequestBody(fetch);
+      expect(body.content).toHaveLength(2);
+      expect(body.content[1].image_url.url).toBe(
+        'https://example.com/first.png',
+      );
+      expect(result.warnings).toContainEqual(
+        expect.objectContaining({ type: 'unsupported', feature: 'image' }),
+      );
+    });
+
+    it('drops camera_fixed with reference images', async () => {
+      const fetch = createMockFetch({ id: 'task-id-123' });
+      const result = await createModel(
+        fetch,
+        'doubao-seedance-1-0-lite-i2v-250428',
+      ).doGenerate({
+        ...defaultOptions,
+        providerOptions: {
+          seed: { images: [reference(1), reference(2)], camera_fixed: true },
+        },
+      });
+
+      const body = await getCreateRequestBody(fetch);
+      expect(body.content.slice(1).map((item: any) => item.role)).toEqual([
+        'reference_image',
+        'reference_image',
+      ]);
+      expect(body.camera_fixed).toBeUndefined();
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          type: 'unsupported',
+          feature: 'camera_fixed',
+        }),
+      ]);
+    });
+
+    it('warns about roles the model does not support but still sends them', async () => {
+      const fetch = createMockFetch({ id: 'task-id-123' });
+      const result = await createModel(
+        fetch,
+        'doubao-seedance-1-0-pro-fast-251015',
+      ).doGenerate({
+        ...defaultOptions,
+        providerOptions: { seed: { images: [firstFrame, lastFrame] } },
+      });
+
+      const body = await getCreateRequestBody(fetch);
+      expect(body.content).toHaveLength(3);
+      expect(result.warnings).toEqual([
+        {
+          type: 'unsupported',
+          feature: 'images.last_frame',
+          details:
+            'doubao-seedance-1-0-pro-fast-251015 does not support last_frame images.',
+        },
+      ]);
+    });
+
+    it('does not check roles for unknown model IDs', async () => {
+      const fetch = createMockFetch({ id: 'task-id-123' });
+      const result = await createModel(fetch, 'ep-20250101-abcde').doGenerate({
+        ...defaultOptions,
+        providerOptions: { seed: { images: [reference(1)] } },
+      });
+
+      expect(result.warnings).toEqual([]);
+    });
+
+    it.each([
+      ['two first frames', [firstFrame, firstFrame], 'At most one first_frame'],
+      ['a last frame alone', [lastFrame], 'requires a first_frame'],
+      [
+        'references mixed with frames',
+        [firstFrame, reference(1)],
+        'cannot be combined',
+      ],
+      [
+        'more than 4 references',
+        [1, 2, 3, 4, 5].map(reference),
+        'At most 4 reference images',
+      ],
+    ])('rejects %s', async (_, images, message) => {
+      const fetch = createMockFetch({ id: 'task-id-123' });
+
+      await expect(
+        createModel(fetch).doGenerate({
+          ...defaultOptions,
+          providerOptions: { seed: { images } },
+        }),
+      ).rejects.toThrow(message);
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
   // ─── Provider options ─────────────────────────────────────────────────────
 
   describe('doGenerate – provider options', () => {
@@ -494,6 +661,24 @@ describe('SeedVideoModel', () => {
       );
     });
 
+    it('includes the cost when the model has a token price', async () => {
+      const fetch = createMockFetch({ id: 'task-id-123' });
+      const model = new SeedVideoModel('doubao-seedance-1-0-pro-250528', {
+        provider: 'seed.video',
+        baseURL: BASE_URL,
+        headers: () => ({ Authorization: 'Bearer test-key' }),
+        fetch: fetch as typeof globalThis.fetch,
+        pricing: { 'doubao-seedance-1-0-pro': { videoPerMillionTokens: 15 } },
+      });
+
+      const result = await model.doGenerate({ ...defaultOptions });
+
+      expect(result.providerMetadata?.seed?.cost).toEqual({
+        currency: 'CNY',
+        total: 0.0015,
+      });
+    });
+
     it('does not include draft_task_id in providerMetadata', async () => {
       const fetch = createMockFetch(
         { id: 'task-id-123' },
@@ -603,6 +788,53 @@ describe('SeedVideoModel', () => {
     });
   });
 
+  // ─── Resuming ─────────────────────────────────────────────────────────────
+
+  describe('doGenerate – resuming a task', () => {
+    it('waits for the given taskId without creating a new task', async () => {
+      const fetch = createMockFetch({ id: 'unused-task-id' });
+
+      const result = await createModel(fetch).doGenerate({
+        ...defaultOptions,
+        prompt: undefined,
+        providerOptions: { seed: { taskId: 'existing-task-id' } },
+      });
+
+      const calls = fetch.mock.calls as [string, RequestInit][];
+      expect(calls.some(([, init]) => init?.method === 'POST')).toBe(false);
+      expect(calls[0][0]).toBe(
+        `${BASE_URL}/contents/generations/tasks/existing-task-id`,
+      );
+      expect(result.providerMetadata?.seed?.taskId).toBe('existing-task-id');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it('warns about generation inputs that the resumed task ignores', async () => {
+      const fetch = createMockFetch({ id: 'unused-task-id' });
+
+      const result = await createModel(fetch).doGenerate({
+        ...defaultOptions,
+        prompt: 'A different prompt',
+        duration: 8,
+        providerOptions: {
+          seed: {
+            taskId: 'existing-task-id',
+            resolution: '1080p',
+            pollIntervalMs: 1,
+          },
+        },
+      });
+
+      expect(result.warnings).toEqual([
+        {
+          type: 'other',
+          message:
+            'Resuming task existing-task-id; ignored prompt, duration, providerOptions.seed.resolution.',
+        },
+      ]);
+    });
+  });
+
   // ─── Polling behavior ─────────────────────────────────────────────────────
 
   describe('doGenerate – polling', () => {
@@ -5,20 +5,29 @@ import {
 } from '@ai-sdk/provider';
 import {
   type FetchFunction,
-  combineHeaders,
   convertImageModelFileToDataUri,
-  createJsonResponseHandler,
-  delay,
-  getFromApi,
   parseProviderOptions,
-  postJsonToApi,
 } from '@ai-sdk/provider-utils';
-import { z } from 'zod';
-import { seedFailedResponseHandler } from '../chat/seed-error';
+import { type SeedEndpointResolver } from '../endpoints';
+import {
+  calculateSeedVideoCost,
+  getSeedModelPricing,
+  type SeedPricingTable,
+} from '../pricing';
+import {
+  type SeedTracer,
+  getSeedResultAttributes,
+  traceSeedCall,
+} from '../telemetry';
 import {
   seedVideoModelOptionsSchema,
   type SeedVideoModelOptions,
 } from './seed-video-options';
+import {
+  type SeedVideoContent,
+  type SeedVideoImageRole,
+  SeedVideoTasks,
+} from './seed-video-tasks';
 
 export type SeedVideoModelId =
   | 'doubao-seedance-2-0-pro-250528'
@@ -34,6 +43,9 @@ export interface SeedVideoConfig {
   baseURL: string;
   headers: () => Record<string, string>;
   fetch?: FetchFunction;
+  pricing?: SeedPricingTable;
+  endpoints?: SeedEndpointResolver;
+  tracer?: SeedTracer;
 }
 
 export class SeedVideoModel implements Experimental_VideoModelV3 {
@@ -44,13 +56,36 @@ export class SeedVideoModel implements Experimental_VideoModelV3 {
     return this.config.provider;
   }
 
+  private readonly tasks: SeedVideoTasks;
+
   constructor(
     readonly modelId: SeedVideoModelId,
     private readonly config: SeedVideoConfig,
-  ) {}
+  ) {
+    this.tasks = new SeedVideoTasks(config);
+  }
 
   async doGenerate(
     options: Parameters<Experimental_VideoModelV3['doGenerate']>[0],
+  ): Promise<Awaited<ReturnType<Experimental_VideoModelV3['doGenerate']>>> {
+    return traceSeedCall(
+      this.config.tracer,
+      { provider: this.provider, modelId: this.modelId },
+      () => this.generate(options),
+      result => ({
+        ...getSeedResultAttributes({
+          responseModelId: result.response.modelId,
+          providerMetadata: result.providerMetadata,
+        }),
+        'seed.video.task_id': result.providerMetadata?.seed?.taskId as
+          | string
+          | undefined,
+      }),
+    );
+  }
+
+  private async generate(
+    options: Parameters<Experimental_VideoModelV3['doGenerate']>[0],
   ): Promise<Awaited<ReturnType<Experimental_VideoModelV3['doGenerate']>>> {
     const warnings: SharedV3Warning[] = [];
 
@@ -60,26 +95,125 @@ export class SeedVideoModel implements Experimental_VideoModelV3 {
       schema: seedVideoModelOptionsSchema,
     })) as SeedVideoModelOptions | undefined;
 
+    // Resume an existing task instead of creating (and paying for) a new one
+    if (videoOptions?.taskId != null) {
+      warnAboutIgnoredResumeInputs(options, videoOptions, warnings);
+    }
+    const taskId =
+      videoOptions?.taskId ??
+      (await this.createTask(options, videoOptions, warnings));
+
+    const { task: taskResponse, responseHeaders } =
+      await this.tasks.waitWithHeaders(taskId, {
+        pollIntervalMs: videoOptions?.pollIntervalMs ?? undefined,
+        pollTimeoutMs: videoOptions?.pollTimeoutMs ?? undefined,
+        headers: options.headers,
+        abortSignal: options.abortSignal,
+      });
+
+    this.config.endpoints?.setResponseModelId(this.modelId, taskResponse.model);
+
+    const videoUrl = taskResponse.content?.video_url;
+    if (!videoUrl) {
+      throw new AISDKError({
+        name: 'SEED_VIDEO_GENERATION_ERROR',
+        message: `No video URL in succeeded task response (task: ${taskId})`,
+      });
+    }
+
+    const cost = calculateSeedVideoCost(
+      getSeedModelPricing(
+        this.config.pricing ?? {},
+        this.modelId,
+        this.config.endpoints?.getRequestModelId(this.modelId),
+        taskResponse.model,
+      ),
+      taskResponse.usage?.completion_tokens,
+    );
+
+    return {
+      videos: [
+        {
+          type: 'url',
+          url: videoUrl,
+          mediaType: 'video/mp4',
+        },
+      ],
+      warnings,
+      response: {
+        timestamp: new Date(),
+        modelId: taskResponse.model ?? this.modelId,
+        headers: responseHeaders,
+      },
+      providerMetadata: {
+        seed: {
+          taskId,
+          seed: taskResponse.seed,
+          resolution: taskResponse.resolution,
+          ratio: taskResponse.ratio,
+          duration: taskResponse.duration,
+          frames: taskResponse.frames,
+          framespersecond: taskResponse.framespersecond,
+          generate_audio: taskResponse.generate_audio,
+          draft: taskResponse.draft,
+          last_frame_url: taskResponse.content?.last_frame_url,
+          usage: taskResponse.usage,
+          ...(cost != null ? { cost: { ...cost } } : {}),
+        },
+      },
+    };
+  }
+
+  private async createTask(
+    options: Parameters<Experimental_VideoModelV3['doGenerate']>[0],
+    videoOptions: SeedVideoModelOptions | undefined,
+    warnings: SharedV3Warning[],
+  ): Promise<string> {
     // Build content array (Seed uses content[] instead of a flat prompt/image)
-    const content: Array<Record<string, unknown>> = [];
+    const content: SeedVideoContent[] = [];
 
     if (options.prompt) {
       content.push({ type: 'text', text: options.prompt });
     }
 
+    const images = videoOptions?.images ?? [];
+
     // Map AI SDK image input to Seed content items
     if (options.image != null) {
-      const imageUrl =
-        options.image.type === 'url'
-          ? options.image.url
-          : convertImageModelFileToDataUri(options.image);
+      if (images.some(image => image.role === 'first_frame')) {
+        warnings.push({
+          type: 'unsupported',
+          feature: 'image',
+          details: 'The first_frame from providerOptions.seed.images is used.',
+        });
+      } else {
+        const imageUrl =
+          options.image.type === 'url'
+            ? options.image.url
+            : convertImageModelFileToDataUri(options.image);
+        content.push({
+          type: 'image_url',
+          image_url: { url: imageUrl },
+          // role defaults to 'first_frame' when a single image is provided
+          ...(images.length > 0 ? { role: 'first_frame' as const } : {}),
+        });
+      }
+    }
+
+    for (const image of images) {
       content.push({
         type: 'image_url',
-        image_url: { url: imageUrl },
-        // role defaults to 'first_frame' when a single image is provided
+        image_url: { url: image.url },
+        role: image.role,
       });
     }
 
+    const isReferenceMode = validateImageRoles(
+      this.config.endpoints?.getModelInfoId(this.modelId) ?? this.modelId,
+      content,
+      warnings,
+    );
+
     if (content.length === 0) {
       throw new AISDKError({
         name: 'SEED_VIDEO_GENERATION_ERROR',
@@ -87,10 +221,7 @@ export class SeedVideoModel implements Experimental_VideoModelV3 {
       });
     }
 
-    const body: Record<string, unknown> = {
-      model: this.modelId,
-      content,
-    };
+    const body: Record<string, unknown> = {};
 
     // Map standard AI SDK options
     if (options.aspectRatio) {
@@ -107,26 +238,23 @@ export class SeedVideoModel implements Experimental_VideoModelV3 {
 
     // Map provider-specific options
     if (videoOptions != null) {
-      const knownKeys: Array<keyof SeedVideoModelOptions> = [
-        'resolution',
-        'ratio',
-        'duration',
-        'frames',
-        'camera_fixed',
-        'watermark',
-        'generate_audio',
-        'draft',
-        'return_last_frame',
-        'service_tier',
-        'execution_expires_after',
-        'callback_url',
+      const skippedKeys = new Set([
         'pollIntervalMs',
         'pollTimeoutMs',
-      ];
-      const skippedKeys = new Set(['pollIntervalMs', 'pollTimeoutMs']);
+        'taskId',
+        'images',
+      ]);
 
       for (const [key, value] of Object.entries(videoOptions)) {
         if (value == null || skippedKeys.has(key)) continue;
+        if (key === 'camera_fixed' && isReferenceMode) {
+          warnings.push({
+            type: 'unsupported',
+            feature: 'camera_fixed',
+            details: 'camera_fixed is not supported with reference images.',
+          });
+          continue;
+        }
         // Provider ratio overrides AI SDK aspectRatio
         body[key] = value;
       }
@@ -137,165 +265,125 @@ export class SeedVideoModel implements Experimental_VideoModelV3 {
       }
     }
 
-    // Step 1: Create the async video generation task
-    const { value: createResponse } = await postJsonToApi({
-      url: `${this.config.baseURL}/contents/generations/tasks`,
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body,
-      failedResponseHandler: seedFailedResponseHandler,
-      successfulResponseHandler: createJsonResponseHandler(
-        seedVideoCreateResponseSchema,
-      ),
+    return this.tasks.create({
+      // Resolved to the endpoint ID by the tasks client
+      model: this.modelId,
+      content,
+      ...body,
+      headers: options.headers,
       abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
     });
+  }
+}
 
-    const taskId = createResponse.id;
-    if (!taskId) {
-      throw new AISDKError({
-        name: 'SEED_VIDEO_GENERATION_ERROR',
-        message: 'No task ID returned from video generation API',
-      });
-    }
-
-    // Step 2: Poll for task completion
-    const pollIntervalMs = videoOptions?.pollIntervalMs ?? 5000;
-    const pollTimeoutMs = videoOptions?.pollTimeoutMs ?? 600000;
-    const startTime = Date.now();
-    let taskResponse: SeedVideoTaskResponse;
-    let responseHeaders: Record<string, string> | undefined;
-
-    while (true) {
-      if (options.abortSignal?.aborted) {
-        throw new AISDKError({
-          name: 'SEED_VIDEO_GENERATION_ABORTED',
-          message: 'Video generation request was aborted',
-        });
-      }
-
-      if (Date.now() - startTime > pollTimeoutMs) {
-        throw new AISDKError({
-          name: 'SEED_VIDEO_GENERATION_TIMEOUT',
-          message: `Video generation timed out after ${pollTimeoutMs}ms (task: ${taskId})`,
-        });
-      }
-
-      const { value: statusResponse, responseHeaders: statusHeaders } =
-        await getFromApi({
-          url: `${this.config.baseURL}/contents/generations/tasks/${taskId}`,
-          headers: combineHeaders(this.config.headers(), options.headers),
-          failedResponseHandler: seedFailedResponseHandler,
-          successfulResponseHandler: createJsonResponseHandler(
-            seedVideoTaskResponseSchema,
-          ),
-          abortSignal: options.abortSignal,
-          fetch: this.config.fetch,
-        });
+/** Options that only apply to polling, so they still matter when resuming */
+const RESUME_OPTION_KEYS = new Set([
+  'taskId',
+  'pollIntervalMs',
+  'pollTimeoutMs',
+]);
+
+/**
+ * A resumed task was created with its own inputs, so the generation inputs of
+ * this call are not used. Lists the ones that were passed.
+ */
+function warnAboutIgnoredResumeInputs(
+  options: Parameters<Experimental_VideoModelV3['doGenerate']>[0],
+  videoOptions: SeedVideoModelOptions,
+  warnings: SharedV3Warning[],
+) {
+  const ignored = [
+    ...Object.entries({
+      prompt: options.prompt,
+      image: options.image,
+      aspectRatio: options.aspectRatio,
+      duration: options.duration,
+      seed: options.seed,
+    })
+      .filter(([, value]) => value != null)
+      .map(([key]) => key),
+    ...Object.entries(videoOptions)
+      .filter(([key, value]) => value != null && !RESUME_OPTION_KEYS.has(key))
+      .map(([key]) => `providerOptions.seed.${key}`),
+  ];
+
+  if (ignored.length > 0) {
+    warnings.push({
+      type: 'other',
+      message: `Resuming task ${videoOptions.taskId}; ignored ${ignored.join(', ')}.`,
+    });
+  }
+}
 
-      const status = statusResponse.status;
+const MAX_REFERENCE_IMAGES = 4;
+
+/**
+ * Image roles per model family, matched by model ID prefix (more specific
+ * prefixes first). Models without an entry, e.g. endpoint IDs, are not checked.
+ */
+const IMAGE_ROLE_SUPPORT: Array<[prefix: string, roles: SeedVideoImageRole[]]> =
+  [
+    [
+      'doubao-seedance-1-0-lite-i2v',
+      ['first_frame', 'last_frame', 'reference_image'],
+    ],
+    ['doubao-seedance-1-0-lite-t2v', []],
+    ['doubao-seedance-1-0-pro-fast', ['first_frame']],
+    ['doubao-seedance-1-0-pro', ['first_frame', 'last_frame']],
+    ['doubao-seedance-1-5-pro', ['first_frame', 'last_frame']],
+  ];
+
+/**
+ * Checks the image roles in `content`. Invalid combinations throw; roles the
+ * model is not known to support only produce warnings, since the API has the
+ * final say.
+ *
+ * @returns whether the request uses reference images.
+ */
+function validateImageRoles(
+  modelId: SeedVideoModelId,
+  content: SeedVideoContent[],
+  warnings: SharedV3Warning[],
+): boolean {
+  const roles = content.flatMap(item =>
+    item.type === 'image_url' && item.role != null ? [item.role] : [],
+  );
+  const count = (role: SeedVideoImageRole) =>
+    roles.filter(r => r === role).length;
+
+  const fail = (message: string): never => {
+    throw new AISDKError({ name: 'SEED_VIDEO_GENERATION_ERROR', message });
+  };
+
+  if (count('first_frame') > 1 || count('last_frame') > 1) {
+    fail('At most one first_frame and one last_frame image can be provided');
+  }
+  if (count('last_frame') > 0 && count('first_frame') === 0) {
+    fail('A last_frame image requires a first_frame image');
+  }
 
-      if (status === 'succeeded') {
-        taskResponse = statusResponse;
-        responseHeaders = statusHeaders;
-        break;
-      }
+  const referenceCount = count('reference_image');
+  if (referenceCount > 0 && referenceCount < roles.length) {
+    fail('Reference images cannot be combined with first or last frames');
+  }
+  if (referenceCount > MAX_REFERENCE_IMAGES) {
+    fail(`At most ${MAX_REFERENCE_IMAGES} reference images can be provided`);
+  }
 
-      if (status === 'failed' || status === 'expired' || status === 'cancelled') {
-        const errMsg = statusResponse.error?.message ?? `Task ${status}`;
-        throw new AISDKError({
-          name: 'SEED_VIDEO_GENERATION_ERROR',
-          message: `Video generation ${status}: ${errMsg} (task: ${taskId})`,
+  const supportedRoles = IMAGE_ROLE_SUPPORT.find(([prefix]) =>
+    modelId.startsWith(prefix),
+  )?.[1];
+  if (supportedRoles != null) {
+    for (const role of new Set(roles)) {
+      if (!supportedRoles.includes(role)) {
+        warnings.push({
+          type: 'unsupported',
+          feature: `images.${role}`,
+          details: `${modelId} does not support ${role} images.`,
         });
       }
-
-      // status is 'queued' or 'running' — keep polling
-      await delay(pollIntervalMs);
     }
-
-    const videoUrl = taskResponse.content?.video_url;
-    if (!videoUrl) {
-      throw new AISDKError({
-        name: 'SEED_VIDEO_GENERATION_ERROR',
-        message: `No video URL in succeeded task response (task: ${taskId})`,
-      });
-    }
-
-    return {
-      videos: [
-        {
-          type: 'url',
-          url: videoUrl,
-          mediaType: 'video/mp4',
-        },
-      ],
-      warnings,
-      response: {
-        timestamp: new Date(),
-        modelId: taskResponse.model ?? this.modelId,
-        headers: responseHeaders,
-      },
-      providerMetadata: {
-        seed: {
-          taskId,
-          seed: taskResponse.seed,
-          resolution: taskResponse.resolution,
-          ratio: taskResponse.ratio,
-          duration: taskResponse.duration,
-          frames: taskResponse.frames,
-          framespersecond: taskResponse.framespersecond,
-          generate_audio: taskResponse.generate_audio,
-          draft: taskResponse.draft,
-          last_frame_url: taskResponse.content?.last_frame_url,
-          usage: taskResponse.usage,
-        },
-      },
-    };
   }
-}
-
-const seedVideoCreateResponseSchema = z.object({
-  id: z.string().nullish(),
-});
-
-const seedVideoTaskResponseSchema = z.object({
-  id: z.string().nullish(),
-  model: z.string().nullish(),
-  status: z
-    .enum(['queued', 'running', 'succeeded', 'failed', 'expired', 'cancelled'])
-    .nullish(),
-  error: z
-    .object({
-      code: z.string().nullish(),
-      message: z.string().nullish(),
-    })
-    .nullish(),
-  content: z
-    .object({
-      video_url: z.string().nullish(),
-      last_frame_url: z.string().nullish(),
-    })
-    .nullish(),
-  seed: z.number().nullish(),
-  resolution: z.string().nullish(),
-  ratio: z.string().nullish(),
-  duration: z.number().nullish(),
-  frames: z.number().nullish(),
-  framespersecond: z.number().nullish(),
-  generate_audio: z.boolean().nullish(),
-  draft: z.boolean().nullish(),
-  draft_task_id: z.string().nullish(),
-  service_tier: z.string().nullish(),
-  execution_expires_after: z.number().nullish(),
-  created_at: z.number().nullish(),
-  updated_at: z.number().nullish(),
-  usage: z
-    .object({
-      completion_tokens: z.number().nullish(),
-      total_tokens: z.number().nullish(),
-    })
-    .nullish(),
-});
 
-type SeedVideoTaskResponse = z.infer<
-  typeof seedVideoTaskResponseSchema
->;
+  return referenceCount > 0;
+}
@@ -52,12 +52,14 @@ export const seedVideoModelOptionsSchema = zodSchema(
       /**
        * Enable draft (preview) mode for low-cost validation.
        * Only supported by Seedance 1.5 pro. Default: false
+       * Render the final video with `seed.videoTasks.promoteDraft(taskId)`.
        */
       draft: z.boolean().nullish(),
 
       /**
        * Whether to return the last frame of the generated video.
-       * Useful for chaining multiple videos. Default: false
+       * Useful for chaining multiple videos (see `seed.videoTasks.chain`).
+       * Default: false
        */
       return_last_frame: z.boolean().nullish(),
 
@@ -77,6 +79,31 @@ export const seedVideoModelOptionsSchema = zodSchema(
        */
       callback_url: z.string().nullish(),
 
+      /**
+       * Input images with explicit roles. Use instead of the standard `image`
+       * option to send several images:
+       * - `first_frame` / `last_frame`: interpolate between two frames
+       *   (one of each; `last_frame` needs a `first_frame`)
+       * - `reference_image`: 1-4 subject references for consistent generation
+       *   (cannot be combined with frame roles or `camera_fixed`)
+       *
+       * `url` is an http(s) URL or a base64 data URI.
+       */
+      images: z
+        .array(
+          z.object({
+            url: z.string(),
+            role: z.enum(['first_frame', 'last_frame', 'reference_image']),
+          }),
+        )
+        .nullish(),
+
+      /**
+       * ID of an existing task to resume. No new task is created; the call
+       * waits for this task instead, e.g. after the process was restarted.
+       */
+      taskId: z.string().nullish(),
+
       /**
        * Poll interval in milliseconds. Default: 5000 (5 seconds).
        */
@@ -0,0 +1,405 @@
+import { APICallError } from '@ai-sdk/provider';
+import { describe, expect, it, vi } from 'vitest';
+import { SeedEndpointResolver } from '../endpoints';
+import { SeedVideoTasks } from './seed-video-tasks';
+
+const BASE_URL = 'https://ark.cn-beijing.volces.com/api/v3';
+const TASKS_URL = `${BASE_URL}/contents/generations/tasks`;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+function createTasks(fetchMock: ReturnType<typeof vi.fn>) {
+  return new SeedVideoTasks({
+    provider: 'seed.video',
+    baseURL: BASE_URL,
+    headers: () => ({ Authorization: 'Bearer test-key' }),
+    fetch: fetchMock as typeof fetch,
+  });
+}
+
+describe('SeedVideoTasks', () => {
+  describe('create', () => {
+    it('returns the task ID without polling', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({ id: 'cgt-1' }));
+
+      const taskId = await createTasks(fetch).create({
+        model: 'doubao-seedance-1-0-pro-250528',
+        content: [{ type: 'text', text: 'A cat surfing' }],
+        ratio: '16:9',
+        return_last_frame: true,
+      });
+
+      expect(taskId).toBe('cgt-1');
+      expect(fetch).toHaveBeenCalledTimes(1);
+      const [url, init] = fetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe(TASKS_URL);
+      expect(JSON.parse(init.body as string)).toEqual({
+        model: 'doubao-seedance-1-0-pro-250528',
+        content: [{ type: 'text', text: 'A cat surfing' }],
+        ratio: '16:9',
+        return_last_frame: true,
+      });
+    });
+
+    it('throws when no task ID is returned', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({}));
+
+      await expect(
+        createTasks(fetch).create({
+          model: 'doubao-seedance-1-0-pro-250528',
+          content: [{ type: 'text', text: 'A cat surfing' }],
+        }),
+      ).rejects.toThrow('No task ID returned');
+    });
+  });
+
+  describe('endpoints', () => {
+    it('sends the endpoint behind an alias when creating and listing tasks', async () => {
+      const fetch = vi
+        .fn()
+        .mockImplementation(async () => jsonResponse({ id: 'cgt-1' }));
+      const tasks = new SeedVideoTasks({
+        provider: 'seed.video',
+        baseURL: BASE_URL,
+        headers: () => ({ Authorization: 'Bearer test-key' }),
+        fetch,
+        endpoints: new SeedEndpointResolver({ prod: 'ep-20250101-abc' }),
+      });
+
+      await tasks.create({
+        model: 'prod',
+        content: [{ type: 'text', text: 'A cat surfing' }],
+      });
+      await tasks.list({ model: 'prod' });
+
+      const [[, createInit], [listUrl]] = fetch.mock.calls as [
+        string,
+        RequestInit,
+      ][];
+      expect(JSON.parse(createInit.body as string).model).toBe(
+        'ep-20250101-abc',
+      );
+      expect(new URL(listUrl).searchParams.get('filter.model')).toBe(
+        'ep-20250101-abc',
+      );
+    });
+  });
+
+  describe('get', () => {
+    it('fetches the task status', async () => {
+      const fetch = vi
+        .fn()
+        .mockResolvedValue(jsonResponse({ id: 'cgt-1', status: 'running' }));
+
+      const task = await createTasks(fetch).get('cgt-1');
+
+      expect(fetch.mock.calls[0][0]).toBe(`${TASKS_URL}/cgt-1`);
+      expect(task).toMatchObject({ id: 'cgt-1', status: 'running' });
+    });
+  });
+
+  describe('wait', () => {
+    it('polls until the task succeeds', async () => {
+      const fetch = vi
+        .fn()
+        .mockResolvedValueOnce(jsonResponse({ id: 'cgt-1', status: 'queued' }))
+        .mockResolvedValueOnce(jsonResponse({ id: 'cgt-1', status: 'running' }))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            id: 'cgt-1',
+            status: 'succeeded',
+            content: { video_url: 'https://cdn.seed.com/output.mp4' },
+          }),
+        );
+
+      const task = await createTasks(fetch).wait('cgt-1', {
+        pollIntervalMs: 1,
+      });
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(task.content?.video_url).toBe('https://cdn.seed.com/output.mp4');
+    });
+
+    it('throws when the task failed', async () => {
+      const fetch = vi.fn().mockResolvedValue(
+        jsonResponse({
+          id: 'cgt-1',
+          status: 'failed',
+          error: { message: 'Content policy violation' },
+        }),
+      );
+
+      await expect(createTasks(fetch).wait('cgt-1')).rejects.toThrow(
+        'Video generation failed: Content policy violation (task: cgt-1)',
+      );
+    });
+
+    it('stops when the abort signal is aborted', async () => {
+      const abortController = new AbortController();
+      const fetch = vi.fn().mockImplementation(async () => {
+        abortController.abort();
+        return jsonResponse({ id: 'cgt-1', status: 'running' });
+      });
+
+      await expect(
+        createTasks(fetch).wait('cgt-1', {
+          pollIntervalMs: 1,
+          abortSignal: abortController.signal,
+        }),
+      ).rejects.toThrow('aborted');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops waiting as soon as it is aborted', async () => {
+      const abortController = new AbortController();
+      const fetch = vi
+        .fn()
+        .mockResolvedValue(jsonResponse({ id: 'cgt-1', status: 'running' }));
+
+      const wait = createTasks(fetch).wait('cgt-1', {
+        pollIntervalMs: 60_000,
+        abortSignal: abortController.signal,
+      });
+      setTimeout(() => abortController.abort(), 10);
+
+      await expect(wait).rejects.toThrow('aborted');
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cancel', () => {
+    it('sends a DELETE request for the task', async () => {
+      const fetch = vi.fn().mockResolvedValue(jsonResponse({}));
+
+      await createTasks(fetch).cancel('cgt-1');
+
+      const [url, init] = fetch.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe(`${TASKS_URL}/cgt-1`);
+      expect(init.method).toBe('DELETE');
+      expect((init.headers as Record<string, string>)['Authorization']).toBe(
+        'Bearer test-key',
+      );
+    });
+
+    it('throws API errors', async () => {
+      const fetch = vi.fn().mockResolvedValue(
+        jsonResponse(
+          {
+            error: {
+              message: 'running tasks cannot be cancelled',
+              code: 'InvalidAction',
+            },
+          },
+          400,
+        ),
+      );
+
+      await expect(createTasks(fetch).cancel('cgt-1')).rejects.toThrow(
+        'running tasks cannot be cancelled',
+      );
+    });
+
+    it('throws retryable API call errors when the request fails', async () => {
+      const fetch = vi
+        .fn()
+        .mockRejectedValue(
+          new TypeError('fetch failed', { cause: new Error('ECONNRESET') }),
+        );
+
+      const error = await createTasks(fetch)
+        .cancel('cgt-1')
+        .catch(e => e);
+
+      expect(APICallError.isInstance(error)).toBe(true);
+      expect(error.isRetryable).toBe(true);
+      expect(error.url).toBe(`${TASKS_URL}/cgt-1`);
+      expect(error.message).toBe('Cannot connect to API: ECONNRESET');
+    });
+  });
+
+  describe('list', () => {
+    it('filters by status, model and task IDs', async () => {
+      const fetch = vi.fn().mockResolvedValue(
+        jsonResponse({
+          items: [{ id: 'cgt-1', status: 'succeeded' }],
+          total: 1,
+        }),
+      );
+
+      const result = await createTasks(fetch).list({
+        status: 'succeeded',
+        model: 'doubao-seedance-1-0-pro-250528',
+        taskIds: ['cgt-1', 'cgt-2'],
+        pageSize: 20,
+      });
+
+      const url = new URL(fetch.mock.calls[0][0] as string);
+      expect(url.pathname).toBe('/api/v3/contents/generations/tasks');
+      expect(url.searchParams.get('page_size')).toBe('20');
+      expect(url.searchParams.get('filter.status')).toBe('succeeded');
+      expect(url.searchParams.get('filter.model')).toBe(
+        'doubao-seedance-1-0-pro-250528',
+      );
+      expect(url.searchParams.getAll('filter.task_ids')).toEqual([
+        'cgt-1',
+        'cgt-2',
+      ]);
+      expect(result).toEqual({
+        tasks: [{ id: 'cgt-1', status: 'succeeded' }],
+        total: 1,
+      });
+    });
+  });
+
+  describe('promoteDraft', () => {
+    it('renders the final video with the draft parameters', async () => {
+      const fetch = vi.fn(async (url: string, init?: RequestInit) =>
+        init?.method === 'POST'
+          ? jsonResponse({ id: 'cgt-final' })
+          : url.endsWith('/cgt-draft')
+            ? jsonResponse({
+                id: 'cgt-draft',
+                model: 'doubao-seedance-1-5-pro-251215',
+                status: 'succeeded',
+                content: { video_url: 'https://cdn.seed.com/draft.mp4' },
+                seed: 7,
+                ratio: '16:9',
+                duration: 5,
+                draft: true,
+              })
+            : jsonResponse({
+                id: 'cgt-final',
+                status: 'succeeded',
+                content: { video_url: 'https://cdn.seed.com/final.mp4' },
+                draft_task_id: 'cgt-draft',
+              }),
+      );
+
+      const timeline = await createTasks(fetch).promoteDraft('cgt-draft', {
+        parameters: { resolution: '1080p' },
+      });
+
+      const [, init] = fetch.mock.calls.find(
+        ([, init]) => init?.method === 'POST',
+      )!;
+      expect(JSON.parse(init!.body as string)).toEqual({
+        model: 'doubao-seedance-1-5-pro-251215',
+        content: [{ type: 'draft_task', draft_task: { id: 'cgt-draft' } }],
+        seed: 7,
+        ratio: '16:9',
+        duration: 5,
+        resolution: '1080p',
+      });
+      expect(
+        timeline.map(({ taskId, videoUrl }) => ({ taskId, videoUrl })),
+      ).toEqual([
+        { taskId: 'cgt-draft', videoUrl: 'https://cdn.seed.com/draft.mp4' },
+        { taskId: 'cgt-final', videoUrl: 'https://cdn.seed.com/final.mp4' },
+      ]);
+    });
+
+    it('rejects tasks that are not drafts', async () => {
+      const fetch = vi.fn().mockResolvedValue(
+        jsonResponse({
+          id: 'cgt-1',
+          status: 'succeeded',
+          content: { video_url: 'https://cdn.seed.com/output.mp4' },
+          draft: false,
+        }),
+      );
+
+      await expect(createTasks(fetch).promoteDraft('cgt-1')).rejects.toThrow(
+        'Task cgt-1 is not a draft task',
+      );
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('chain', () => {
+    const createChainFetch = ({ lastFrames = true } = {}) => {
+      let created = 0;
+      return vi.fn(async (url: string, init?: RequestInit) => {
+        if (init?.method === 'POST') {
+          return jsonResponse({ id: `cgt-${++created}` });
+        }
+        const id = url.split('/').at(-1);
+        return jsonResponse({
+          id,
+          status: 'succeeded',
+          content: {
+            video_url: `https://cdn.seed.com/${id}.mp4`,
+            last_frame_url: lastFrames
+              ? `https://cdn.seed.com/${id}.png`
+              : undefined,
+          },
+        });
+      });
+    };
+
+    it('starts each clip from the last frame of the previous one', async () => {
+      const fetch = createChainFetch();
+      const onClip = vi.fn();
+
+      const timeline = await createTasks(fetch).chain({
+        model: 'doubao-seedance-1-0-pro-250528',
+        clips: [
+          { prompt: 'A boat leaves the harbor' },
+          {
+            prompt: 'The boat sails into a storm',
+            parameters: { duration: 10 },
+          },
+        ],
+        parameters: { ratio: '16:9', duration: 5 },
+        onClip,
+      });
+
+      const bodies = fetch.mock.calls
+        .filter(([, init]) => init?.method === 'POST')
+        .map(([, init]) => JSON.parse(init!.body as string));
+      expect(bodies).toEqual([
+        {
+          model: 'doubao-seedance-1-0-pro-250528',
+          content: [{ type: 'text', text: 'A boat leaves the harbor' }],
+          ratio: '16:9',
+          duration: 5,
+          return_last_frame: true,
+        },
+        {
+          model: 'doubao-seedance-1-0-pro-250528',
+          content: [
+            { type: 'text', text: 'The boat sails into a storm' },
+            {
+              type: 'image_url',
+              image_url: { url: 'https://cdn.seed.com/cgt-1.png' },
+              role: 'first_frame',
+            },
+          ],
+          ratio: '16:9',
+          duration: 10,
+          return_last_frame: true,
+        },
+      ]);
+      expect(timeline.map(entry => entry.videoUrl)).toEqual([
+        'https://cdn.seed.com/cgt-1.mp4',
+        'https://cdn.seed.com/cgt-2.mp4',
+      ]);
+      expect(onClip).toHaveBeenCalledTimes(2);
+      expect(onClip).toHaveBeenLastCalledWith(timeline[1], 1);
+    });
+
+    it('throws when a clip returns no last frame', async () => {
+      const fetch = createChainFetch({ lastFrames: false });
+
+      await expect(
+        createTasks(fetch).chain({
+          model: 'doubao-seedance-1-0-pro-250528',
+          clips: [{ prompt: 'first' }, { prompt: 'second' }],
+        }),
+      ).rejects.toThrow('No last frame returned for clip 0 (task: cgt-1)');
+    });
+  });
+});
@@ -0,0 +1,449 @@
+import { AISDKError } from '@ai-sdk/provider';
+import {
+  type FetchFunction,
+  combineHeaders,
+  createJsonResponseHandler,
+  delay,
+  getFromApi,
+  postJsonToApi,
+  removeUndefinedEntries,
+} from '@ai-sdk/provider-utils';
+import { deleteFromApi } from '../chat/delete-from-api';
+import { seedFailedResponseHandler } from '../chat/seed-error';
+import { SeedEndpointResolver } from '../endpoints';
+import {
+  type SeedVideoTaskResponse,
+  seedVideoCreateResponseSchema,
+  seedVideoTaskListResponseSchema,
+  seedVideoTaskResponseSchema,
+} from './seed-video-api';
+import type { SeedVideoModelId } from './seed-video-model';
+
+export interface SeedVideoTasksConfig {
+  provider: string;
+  baseURL: string;
+  headers: () => Record<string, string>;
+  fetch?: FetchFunction;
+  endpoints?: SeedEndpointResolver;
+}
+
+export type SeedVideoTask = SeedVideoTaskResponse;
+
+export type SeedVideoTaskStatus = NonNullable<SeedVideoTask['status']>;
+
+export type SeedVideoImageRole =
+  'first_frame' | 'last_frame' | 'reference_image';
+
+export type SeedVideoContent =
+  | { type: 'text'; text: string }
+  | {
+      type: 'image_url';
+      image_url: { url: string };
+      role?: SeedVideoImageRole;
+    }
+  | { type: 'draft_task'; draft_task: { id: string } };
+
+export interface SeedVideoTaskCreateOptions {
+  model: SeedVideoModelId;
+  content: SeedVideoContent[];
+  headers?: Record<string, string | undefined>;
+  abortSignal?: AbortSignal;
+  /**
+   * Additional task parameters in API format, e.g. `ratio`, `duration`,
+   * `resolution` or `return_last_frame`.
+   */
+  [parameter: string]: unknown;
+}
+
+/** A succeeded task in a `promoteDraft` or `chain` timeline. */
+export interface SeedVideoTimelineEntry {
+  taskId: string;
+  task: SeedVideoTask;
+  videoUrl: string;
+  /** Set when the task was created with `return_last_frame`. */
+  lastFrameUrl: string | undefined;
+}
+
+export interface SeedVideoChainClip {
+  prompt: string;
+  /** Task parameters for this clip. They override the shared `parameters`. */
+  parameters?: Record<string, unknown>;
+}
+
+type WaitOptions = {
+  pollIntervalMs?: number;
+  pollTimeoutMs?: number;
+};
+
+type RequestOptions = {
+  headers?: Record<string, string | undefined>;
+  abortSignal?: AbortSignal;
+};
+
+/**
+ * Client for Seedance video generation tasks.
+ *
+ * Unlike `SeedVideoModel.doGenerate`, creating a task returns immediately, so
+ * the task ID can be stored and the task resumed with `wait` from another
+ * process.
+ */
+export class SeedVideoTasks {
+  constructor(private readonly config: SeedVideoTasksConfig) {}
+
+  /**
+   * Creates a video generation task.
+   *
+   * @returns the task ID.
+   */
+  async create({
+    model,
+    content,
+    headers,
+    abortSignal,
+    ...parameters
+  }: SeedVideoTaskCreateOptions): Promise<string> {
+    const { value: response } = await postJsonToApi({
+      url: `${this.config.baseURL}/contents/generations/tasks`,
+      headers: combineHeaders(this.config.headers(), headers),
+      body: { model: this.getRequestModelId(model), content, ...parameters },
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        seedVideoCreateResponseSchema,
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    if (!response.id) {
+      throw new AISDKError({
+        name: 'SEED_VIDEO_GENERATION_ERROR',
+        message: 'No task ID returned from video generation API',
+      });
+    }
+
+    return response.id;
+  }
+
+  async get(
+    taskId: string,
+    options: RequestOptions = {},
+  ): Promise<SeedVideoTask> {
+    const { task } = await this.getWithHeaders(taskId, options);
+    return task;
+  }
+
+  /**
+   * Polls a task until it succeeds.
+   *
+   * @throws when the task fails, expires or is cancelled, when the timeout is
+   * reached, or when `abortSignal` is aborted.
+   */
+  async wait(
+    taskId: string,
+    options: WaitOptions & RequestOptions = {},
+  ): Promise<SeedVideoTask> {
+    const { task } = await this.waitWithHeaders(taskId, options);
+    return task;
+  }
+
+  /**
+   * Same as `wait`, but also returns the headers of the final status response.
+   */
+  async waitWithHeaders(
+    taskId: string,
+    {
+      pollIntervalMs = 5000,
+      pollTimeoutMs = 600000,
+      headers,
+      abortSignal,
+    }: WaitOptions & RequestOptions = {},
+  ): Promise<{
+    task: SeedVideoTask;
+    responseHeaders: Record<string, string> | undefined;
+  }> {
+    const startTime = Date.now();
+
+    while (true) {
+      if (abortSignal?.aborted) {
+        throw new AISDKError({
+          name: 'SEED_VIDEO_GENERATION_ABORTED',
+          message: 'Video generation request was aborted',
+        });
+      }
+
+      if (Date.now() - startTime > pollTimeoutMs) {
+        throw new AISDKError({
+          name: 'SEED_VIDEO_GENERATION_TIMEOUT',
+          message: `Video generation timed out after ${pollTimeoutMs}ms (task: ${taskId})`,
+        });
+      }
+
+      const result = await this.getWithHeaders(taskId, {
+        headers,
+        abortSignal,
+      });
+      const status = result.task.status;
+
+      if (status === 'succeeded') {
+        return result;
+      }
+
+      if (
+        status === 'failed' ||
+        status === 'expired' ||
+        status === 'cancelled'
+      ) {
+        const errMsg = result.task.error?.message ?? `Task ${status}`;
+        throw new AISDKError({
+          name: 'SEED_VIDEO_GENERATION_ERROR',
+          message: `Video generation ${status}: ${errMsg} (task: ${taskId})`,
+        });
+      }
+
+      // status is 'queued' or 'running' — keep polling
+      try {
+        await delay(pollIntervalMs, { abortSignal });
+      } catch {
+        // Aborted while sleeping; reported at the top of the loop
+      }
+    }
+  }
+
+  /**
+   * Renders the final video for a draft task (one created with `draft: true`),
+   * waiting for the draft first if it is still running. The final task reuses
+   * the draft's seed, ratio, duration and audio setting.
+   *
+   * @returns the draft and the final task, in that order.
+   */
+  async promoteDraft(
+    draftTaskId: string,
+    {
+      model,
+      parameters,
+      ...options
+    }: {
+      /** Defaults to the model of the draft task. */
+      model?: SeedVideoModelId;
+      /**
+       * Parameters for the final render, e.g. `resolution` or
+       * `return_last_frame`.
+       */
+      parameters?: Record<string, unknown>;
+    } & WaitOptions &
+      RequestOptions = {},
+  ): Promise<SeedVideoTimelineEntry[]> {
+    const draft = await this.waitForEntry(draftTaskId, options);
+
+    if (draft.task.draft === false) {
+      throw new AISDKError({
+        name: 'SEED_VIDEO_GENERATION_ERROR',
+        message: `Task ${draftTaskId} is not a draft task`,
+      });
+    }
+
+    const finalModel = model ?? draft.task.model;
+    if (finalModel == null) {
+      throw new AISDKError({
+        name: 'SEED_VIDEO_GENERATION_ERROR',
+        message: `No model returned for draft task ${draftTaskId}; pass \`model\``,
+      });
+    }
+
+    const taskId = await this.create({
+      model: finalModel,
+      content: [{ type: 'draft_task', draft_task: { id: draftTaskId } }],
+      ...removeUndefinedEntries({
+        seed: draft.task.seed ?? undefined,
+        ratio: draft.task.ratio ?? undefined,
+        duration: draft.task.duration ?? undefined,
+        generate_audio: draft.task.generate_audio ?? undefined,
+      }),
+      ...parameters,
+      headers: options.headers,
+      abortSignal: options.abortSignal,
+    });
+
+    return [draft, await this.waitForEntry(taskId, options)];
+  }
+
+  /**
+   * Generates clips one after another. Each clip starts from the last frame of
+   * the previous one, so the clips can be joined into a single video.
+   *
+   * @returns one entry per clip, in order.
+   */
+  async chain({
+    model,
+    clips,
+    firstFrameUrl,
+    parameters,
+    onClip,
+    ...options
+  }: {
+    model: SeedVideoModelId;
+    clips: SeedVideoChainClip[];
+    /** First frame of the first clip. Without it, the first clip is text-to-video. */
+    firstFrameUrl?: string;
+    /** Task parameters shared by all clips, e.g. `ratio` or `resolution`. */
+    parameters?: Record<string, unknown>;
+    /** Called when a clip has finished, e.g. to persist progress. */
+    onClip?: (
+      entry: SeedVideoTimelineEntry,
+      index: number,
+    ) => void | PromiseLike<void>;
+  } & WaitOptions &
+    RequestOptions): Promise<SeedVideoTimelineEntry[]> {
+    if (clips.length === 0) {
+      throw new AISDKError({
+        name: 'SEED_VIDEO_GENERATION_ERROR',
+        message: 'A chain needs at least one clip',
+      });
+    }
+
+    const timeline: SeedVideoTimelineEntry[] = [];
+    let frameUrl = firstFrameUrl;
+
+    for (const [index, clip] of clips.entries()) {
+      const content: SeedVideoContent[] = [{ type: 'text', text: clip.prompt }];
+      if (frameUrl != null) {
+        content.push({
+          type: 'image_url',
+          image_url: { url: frameUrl },
+          role: 'first_frame',
+        });
+      }
+
+      const taskId = await this.create({
+        model,
+        content,
+        ...parameters,
+        ...clip.parameters,
+        return_last_frame: true,
+        headers: options.headers,
+        abortSignal: options.abortSignal,
+      });
+      const entry = await this.waitForEntry(taskId, options);
+      timeline.push(entry);
+      await onClip?.(entry, index);
+
+      if (entry.lastFrameUrl == null && index < clips.length - 1) {
+        throw new AISDKError({
+          name: 'SEED_VIDEO_GENERATION_ERROR',
+          message: `No last frame returned for clip ${index} (task: ${taskId})`,
+        });
+      }
+      frameUrl = entry.lastFrameUrl;
+    }
+
+    return timeline;
+  }
+
+  /**
+   * Cancels a queued task. Finished tasks are deleted from the task list
+   * instead; running tasks cannot be cancelled.
+   */
+  async cancel(
+    taskId: string,
+    { headers, abortSignal }: RequestOptions = {},
+  ): Promise<void> {
+    await deleteFromApi({
+      url: `${this.config.baseURL}/contents/generations/tasks/${taskId}`,
+      headers: combineHeaders(this.config.headers(), headers),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+  }
+
+  async list({
+    status,
+    model,
+    taskIds,
+    pageNum,
+    pageSize,
+    headers,
+    abortSignal,
+  }: {
+    status?: SeedVideoTaskStatus;
+    model?: SeedVideoModelId;
+    taskIds?: string[];
+    /** Page number, starting at 1. */
+    pageNum?: number;
+    /** Page size, at most 500. */
+    pageSize?: number;
+  } & RequestOptions = {}): Promise<{ tasks: SeedVideoTask[]; total: number }> {
+    const query = new URLSearchParams(
+      removeUndefinedEntries({
+        page_num: pageNum?.toString(),
+        page_size: pageSize?.toString(),
+        'filter.status': status,
+        'filter.model':
+          model != null ? this.getRequestModelId(model) : undefined,
+      }),
+    );
+    for (const taskId of taskIds ?? []) {
+      query.append('filter.task_ids', taskId);
+    }
+    const queryString = query.toString();
+
+    const { value: response } = await getFromApi({
+      url: `${this.config.baseURL}/contents/generations/tasks${
+        queryString ? `?${queryString}` : ''
+      }`,
+      headers: combineHeaders(this.config.headers(), headers),
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        seedVideoTaskListResponseSchema,
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    const tasks = response.items ?? [];
+    return { tasks, total: response.total ?? tasks.length };
+  }
+
+  private getRequestModelId(model: string): string {
+    return this.config.endpoints?.getRequestModelId(model) ?? model;
+  }
+
+  private async waitForEntry(
+    taskId: string,
+    options: WaitOptions & RequestOptions,
+  ): Promise<SeedVideoTimelineEntry> {
+    const task = await this.wait(taskId, options);
+
+    const videoUrl = task.content?.video_url;
+    if (!videoUrl) {
+      throw new AISDKError({
+        name: 'SEED_VIDEO_GENERATION_ERROR',
+        message: `No video URL in succeeded task response (task: ${taskId})`,
+      });
+    }
+
+    return {
+      taskId,
+      task,
+      videoUrl,
+      lastFrameUrl: task.content?.last_frame_url ?? undefined,
+    };
+  }
+
+  private async getWithHeaders(
+    taskId: string,
+    { headers, abortSignal }: RequestOptions,
+  ) {
+    const { value: task, responseHeaders } = await getFromApi({
+      url: `${this.config.baseURL}/contents/generations/tasks/${taskId}`,
+      headers: combineHeaders(this.config.headers(), headers),
+      failedResponseHandler: seedFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(
+        seedVideoTaskResponseSchema,
+      ),
+      abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return { task, responseHeaders };
+  }
+}
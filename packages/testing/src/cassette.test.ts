@@ -0,0 +1,73 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { loadArkCassette, recordArk, saveArkCassette } from './cassette';
+import { createFakeArk } from './fake-ark';
+
+const BASE_URL = 'https://ark.cn-beijing.volces.com/api/v3';
+
+async function readJson(response: Response): Promise<any> {
+  return response.json();
+}
+
+describe('recordArk', () => {
+  it('should record requests and complete responses without headers', async () => {
+    const upstream = createFakeArk();
+    upstream.chat.push({ text: 'Recorded answer' });
+    const recorder = recordArk(upstream.fetch);
+
+    const response = await recorder.fetch(`${BASE_URL}/chat/completions`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret' },
+      body: JSON.stringify({ messages: [], stream: true }),
+    });
+    await response.text();
+    const cassette = await recorder.cassette();
+
+    expect(JSON.stringify(cassette)).not.toContain('secret');
+    expect(cassette.interactions).toMatchObject([
+      {
+        request: {
+          method: 'POST',
+          path: '/chat/completions',
+          body: { messages: [], stream: true },
+        },
+        response: { status: 200, contentType: 'text/event-stream' },
+      },
+    ]);
+    expect(cassette.interactions[0].response.body).toContain('Recorded');
+  });
+
+  it('should replay recorded interactions in order', async () => {
+    const upstream = createFakeArk();
+    upstream.chat.push({ text: 'First' }, { text: 'Second' });
+    const recorder = recordArk(upstream.fetch);
+    for (let i = 0; i < 2; i++) {
+      await recorder.fetch(`${BASE_URL}/chat/completions`, {
+        method: 'POST',
+        body: JSON.stringify({ messages: [] }),
+      });
+    }
+
+    const directory = await mkdtemp(join(tmpdir(), 'ark-cassette-'));
+    try {
+      const path = join(directory, 'chat.json');
+      await saveArkCassette(path, await recorder.cassette());
+      const fake = createFakeArk({ cassette: await loadArkCassette(path) });
+
+      const contents = [];
+      for (let i = 0; i < 3; i++) {
+        const response = await fake.fetch(
+          'https://fake-ark.local/api/v3/chat/completions',
+          { method: 'POST', body: JSON.stringify({ messages: [] }) },
+        );
+        contents.push((await readJson(response)).choices[0].message.content);
+      }
+
+      expect(contents).toEqual(['First', 'Second', 'Hello from Ark.']);
+    } finally {
+      await rm(directory, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseBody } from './http';
+
+type FetchFunction = typeof globalThis.fetch;
+
+/** One recorded request and its response. */
+export interface ArkInteraction {
+  request: {
+    method: string;
+    /** Path below the API version, e.g. `/chat/completions`. */
+    path: string;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    contentType: string;
+    /** Raw body, including the complete event stream of streaming calls. */
+    body: string;
+  };
+}
+
+/**
+ * Interactions recorded from a real Ark session. Replayed by the fake server
+ * in order, so tests see exactly the recorded responses.
+ */
+export interface ArkCassette {
+  version: 1;
+  interactions: ArkInteraction[];
+}
+
+/** Path below the API version, e.g. `/chat/completions` for any base URL. */
+export function getArkPath(url: URL): string {
+  return url.pathname.replace(/^.*\/v3(?=\/)/, '');
+}
+
+/**
+ * Wraps a fetch function to record the Ark calls made through it. Request
+ * headers, which carry the API key, are not recorded.
+ */
+export function recordArk(fetch: FetchFunction = globalThis.fetch): {
+  fetch: FetchFunction;
+  /** Resolves once the recorded responses have been read completely. */
+  cassette(): Promise<ArkCassette>;
+} {
+  const interactions: Array<Promise<ArkInteraction>> = [];
+
+  return {
+    fetch: async (input, init) => {
+      const request = new Request(input, init);
+      const requestBody = await request.clone().text();
+      const response = await fetch(request);
+
+      interactions.push(
+        response
+          .clone()
+          .text()
+          .then(body => ({
+            request: {
+              method: request.method,
+              path: getArkPath(new URL(request.url)),
+              body: parseBody(requestBody),
+            },
+            response: {
+              status: response.status,
+              contentType:
+                response.headers.get('content-type') ?? 'application/json',
+              body,
+            },
+          })),
+      );
+      return response;
+    },
+    cassette: async () => ({
+      version: 1,
+      interactions: await Promise.all(interactions),
+    }),
+  };
+}
+
+export async function loadArkCassette(path: string): Promise<ArkCassette> {
+  const cassette = JSON.parse(await readFile(path, 'utf8')) as ArkCassette;
+  if (cassette.version !== 1) {
+    throw new Error(`Unsupported Ark cassette version: ${cassette.version}`);
+  }
+  return cassette;
+}
+
+export async function saveArkCassette(
+  path: string,
+  cassette: ArkCassette,
+): Promise<void> {
+  await writeFile(path, `${JSON.stringify(cassette, null, 2)}\n`);
+}
@@ -0,0 +1,146 @@
+import { FakeArkContext, FakeArkReply, FakeArkRequest } from './fake-ark-types';
+import {
+  errorResponse,
+  estimateTokens,
+  eventStreamResponse,
+  jsonResponse,
+  splitDeltas,
+} from './http';
+
+export function getToolCallArguments(
+  toolCall: NonNullable<FakeArkReply['toolCalls']>[number],
+): string {
+  return typeof toolCall.arguments === 'string'
+    ? toolCall.arguments
+    : JSON.stringify(toolCall.arguments);
+}
+
+/** Token counts of a reply, estimated where the script leaves them unset. */
+export function getReplyUsage(reply: FakeArkReply, input: unknown) {
+  const reasoningTokens =
+    reply.usage?.reasoningTokens ?? estimateTokens(reply.reasoning ?? '');
+  const inputTokens = reply.usage?.inputTokens ?? estimateTokens(input);
+  const outputTokens =
+    reply.usage?.outputTokens ??
+    reasoningTokens +
+      estimateTokens(reply.text ?? '') +
+      estimateTokens(reply.toolCalls?.map(getToolCallArguments).join('') ?? '');
+  return {
+    inputTokens,
+    outputTokens,
+    cachedTokens: reply.usage?.cachedTokens ?? 0,
+    reasoningTokens,
+  };
+}
+
+function getChatUsage(reply: FakeArkReply, request: FakeArkRequest) {
+  const usage = getReplyUsage(reply, request.body?.messages);
+  return {
+    prompt_tokens: usage.inputTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: usage.inputTokens + usage.outputTokens,
+    prompt_tokens_details: { cached_tokens: usage.cachedTokens },
+    completion_tokens_details: { reasoning_tokens: usage.reasoningTokens },
+  };
+}
+
+function getFinishReason(reply: FakeArkReply) {
+  return (
+    reply.finishReason ?? (reply.toolCalls?.length ? 'tool_calls' : 'stop')
+  );
+}
+
+/** Handles `POST /chat/completions`, streaming when the request asks for it. */
+export function handleChatCompletion(
+  reply: FakeArkReply,
+  request: FakeArkRequest,
+  context: FakeArkContext,
+): Response {
+  const isStream = request.body?.stream === true;
+  if (reply.error != null || (reply.streamError != null && !isStream)) {
+    return errorResponse(reply.error ?? reply.streamError!);
+  }
+
+  const id = context.nextId('chatcmpl');
+  const created = context.now();
+  const model = reply.model ?? request.body?.model;
+  const toolCalls = (reply.toolCalls ?? []).map(toolCall => ({
+    id: toolCall.id ?? context.nextId('call'),
+    type: 'function' as const,
+    function: {
+      name: toolCall.name,
+      arguments: getToolCallArguments(toolCall),
+    },
+  }));
+
+  if (!isStream) {
+    return jsonResponse({
+      id,
+      object: 'chat.completion',
+      created,
+      model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: reply.text ?? '',
+            reasoning_content: reply.reasoning,
+            tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+          },
+          finish_reason: getFinishReason(reply),
+        },
+      ],
+      usage: getChatUsage(reply, request),
+    });
+  }
+
+  const chunk = (choices: unknown[], extra: Record<string, unknown> = {}) => ({
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model,
+    choices,
+    ...extra,
+  });
+  const delta = (value: Record<string, unknown>) =>
+    chunk([{ index: 0, delta: value, finish_reason: null }]);
+
+  const chunks = [
+    delta({ role: 'assistant', content: '' }),
+    ...splitDeltas(reply.reasoning ?? '').map(text =>
+      delta({ reasoning_content: text }),
+    ),
+    ...splitDeltas(reply.text ?? '').map(text => delta({ content: text })),
+    ...toolCalls.flatMap((toolCall, index) => [
+      delta({
+        tool_calls: [
+          {
+            index,
+            id: toolCall.id,
+            type: 'function',
+            function: { name: toolCall.function.name, arguments: '' },
+          },
+        ],
+      }),
+      delta({
+        tool_calls: [
+          { index, function: { arguments: toolCall.function.arguments } },
+        ],
+      }),
+    ]),
+  ];
+
+  if (reply.streamError != null) {
+    chunks.push(chunk([], { error: reply.streamError }));
+    return eventStreamResponse(chunks);
+  }
+
+  chunks.push(
+    chunk([{ index: 0, delta: {}, finish_reason: getFinishReason(reply) }]),
+  );
+  if (request.body?.stream_options?.include_usage === true) {
+    chunks.push(chunk([], { usage: getChatUsage(reply, request) }));
+  }
+  return eventStreamResponse(chunks, { done: true });
+}
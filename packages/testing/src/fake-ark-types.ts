@@ -0,0 +1,92 @@
+/** A request received by the fake server. */
+export interface FakeArkRequest {
+  method: string;
+  /** Path below the API version, e.g. `/chat/completions`. */
+  path: string;
+  query: URLSearchParams;
+  /** Parsed JSON body, `undefined` for requests without a body. */
+  body: any;
+}
+
+/** IDs and timestamps used to render replies deterministically. */
+export interface FakeArkContext {
+  nextId(prefix: string): string;
+  /** Unix time in seconds. */
+  now(): number;
+}
+
+/** An Ark error returned instead of a result. */
+export interface FakeArkError {
+  /** HTTP status. Defaults to 500. */
+  status?: number;
+  code: string;
+  message: string;
+}
+
+export interface FakeArkUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedTokens?: number;
+  reasoningTokens?: number;
+}
+
+/**
+ * A scripted language model reply, rendered as a Chat Completions or
+ * Responses API result (JSON or server-sent events) depending on the request.
+ */
+export interface FakeArkReply {
+  text?: string;
+  reasoning?: string;
+  /** Responses API only: returned as `encrypted_content` of the reasoning. */
+  encryptedReasoning?: string;
+  toolCalls?: Array<{
+    id?: string;
+    name: string;
+    /** JSON arguments. Objects are serialized. */
+    arguments: string | Record<string, unknown>;
+  }>;
+  /** Responses API only: built-in tool calls executed before the answer. */
+  builtInToolCalls?: Array<{
+    type: 'web_search_call' | 'image_process_call' | 'knowledge_search_call';
+    action?: Record<string, unknown>;
+  }>;
+  /** Responses API only: URL citations of the answer. */
+  citations?: Array<{ url: string; title?: string }>;
+  /** Defaults to `tool_calls` when there are tool calls, `stop` otherwise. */
+  finishReason?: 'stop' | 'length' | 'tool_calls' | 'content_filter';
+  /** Token counts. Unset counts are estimated from the request and reply. */
+  usage?: FakeArkUsage;
+  /** Model reported in the response. Defaults to the requested model. */
+  model?: string;
+  /** Fails the request with an HTTP error. */
+  error?: FakeArkError;
+  /** Fails a stream after the content has been sent. */
+  streamError?: { code: string; message: string };
+}
+
+export interface FakeArkImageReply {
+  /** Base64 images. Defaults to one 1×1 PNG per requested image. */
+  images?: string[];
+  /** Indexes of images that fail in streaming requests. */
+  failedImages?: number[];
+  model?: string;
+  error?: FakeArkError;
+}
+
+export interface FakeArkVideoReply {
+  /** Final status of the task. Defaults to `succeeded`. */
+  status?: 'succeeded' | 'failed' | 'expired';
+  videoUrl?: string;
+  lastFrameUrl?: string;
+  /** Number of polls that report `running` before the final status. */
+  pollsUntilDone?: number;
+  completionTokens?: number;
+  model?: string;
+  /** Fails task creation with an HTTP error. */
+  error?: FakeArkError;
+  /** Error of a failed task. */
+  taskError?: { code: string; message: string };
+}
+
+/** A reply, or a function that builds one from the request. */
+export type FakeArkReplySource<T> = T | ((request: FakeArkRequest) => T);
@@ -0,0 +1,294 @@
+import { describe, expect, it } from 'vitest';
+import { createFakeArk, FAKE_ARK_BASE_URL } from './fake-ark';
+
+function post(fake: ReturnType<typeof createFakeArk>, path: string, body: any) {
+  return fake.fetch(`${FAKE_ARK_BASE_URL}${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+async function readJson(response: Response): Promise<any> {
+  return response.json();
+}
+
+function parseEvents(text: string) {
+  return text
+    .split('\n')
+    .filter(line => line.startsWith('data: '))
+    .map(line => line.slice('data: '.length))
+    .map(data => (data === '[DONE]' ? data : JSON.parse(data)));
+}
+
+describe('createFakeArk', () => {
+  describe('chat completions', () => {
+    it('should return a scripted reply as JSON', async () => {
+      const fake = createFakeArk();
+      fake.chat.push({
+        text: 'Hi there',
+        reasoning: 'Greet back',
+        usage: { inputTokens: 10, outputTokens: 5 },
+      });
+
+      const response = await post(fake, '/chat/completions', {
+        model: 'doubao-seed-1-8-251228',
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      expect(await readJson(response)).toMatchInlineSnapshot(`
+        {
+          "choices": [
+            {
+              "finish_reason": "stop",
+              "index": 0,
+              "message": {
+                "content": "Hi there",
+                "reasoning_content": "Greet back",
+                "role": "assistant",
+              },
+            },
+          ],
+          "created": 1767225600,
+          "id": "chatcmpl-1",
+          "model": "doubao-seed-1-8-251228",
+          "object": "chat.completion",
+          "usage": {
+            "completion_tokens": 5,
+            "completion_tokens_details": {
+              "reasoning_tokens": 3,
+            },
+            "prompt_tokens": 10,
+            "prompt_tokens_details": {
+              "cached_tokens": 0,
+            },
+            "total_tokens": 15,
+          },
+        }
+      `);
+      expect(fake.requests).toMatchObject([
+        { method: 'POST', path: '/chat/completions' },
+      ]);
+    });
+
+    it('should stream tool calls and the usage chunk', async () => {
+      const fake = createFakeArk();
+      fake.chat.push({
+        toolCalls: [{ id: 'call-a', name: 'search', arguments: { q: 'ark' } }],
+      });
+
+      const response = await post(fake, '/chat/completions', {
+        model: 'doubao-seed-1-8-251228',
+        messages: [],
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      const events = parseEvents(await response.text());
+
+      expect(response.headers.get('content-type')).toBe('text/event-stream');
+      expect(events.at(-1)).toBe('[DONE]');
+      expect(events.at(-2).usage).toMatchObject({ completion_tokens: 3 });
+      expect(events.at(-3).choices[0].finish_reason).toBe('tool_calls');
+      expect(events[1].choices[0].delta.tool_calls[0]).toMatchObject({
+        id: 'call-a',
+        function: { name: 'search', arguments: '' },
+      });
+      expect(events[2].choices[0].delta.tool_calls[0].function.arguments).toBe(
+        '{"q":"ark"}',
+      );
+    });
+
+    it('should end the stream with an error chunk', async () => {
+      const fake = createFakeArk();
+      fake.chat.push({
+        text: 'Partial',
+        streamError: { code: 'InternalServiceError', message: 'Boom' },
+      });
+
+      const response = await post(fake, '/chat/completions', {
+        messages: [],
+        stream: true,
+      });
+      const events = parseEvents(await response.text());
+
+      expect(events.at(-1).error).toEqual({
+        code: 'InternalServiceError',
+        message: 'Boom',
+      });
+      expect(events).not.toContain('[DONE]');
+    });
+
+    it('should return scripted errors with their status', async () => {
+      const fake = createFakeArk();
+      fake.chat.push({
+        error: { status: 429, code: 'RateLimitExceeded', message: 'Slow down' },
+      });
+
+      const response = await post(fake, '/chat/completions', { messages: [] });
+
+      expect(response.status).toBe(429);
+      expect(await readJson(response)).toEqual({
+        error: {
+          code: 'RateLimitExceeded',
+          message: 'Slow down',
+          type: 'fake_ark_error',
+        },
+      });
+    });
+
+    it('should build replies from the request', async () => {
+      const fake = createFakeArk();
+      fake.chat.push(request => ({
+        text: `You said: ${request.body.messages[0].content}`,
+      }));
+
+      const response = await post(fake, '/chat/completions', {
+        messages: [{ role: 'user', content: 'ping' }],
+      });
+
+      expect((await readJson(response)).choices[0].message.content).toBe(
+        'You said: ping',
+      );
+    });
+  });
+
+  describe('responses', () => {
+    it('should return output items in order', async () => {
+      const fake = createFakeArk();
+      fake.responses.push({
+        reasoning: 'Look it up',
+        builtInToolCalls: [
+          { type: 'web_search_call', action: { query: 'weather' } },
+        ],
+        text: 'Sunny',
+        citations: [{ url: 'https://example.com', title: 'Weather' }],
+        finishReason: 'length',
+      });
+
+      const response = await post(fake, '/responses', {
+        model: 'doubao-seed-1-8-251228',
+        input: 'Weather?',
+      });
+      const body = await readJson(response);
+
+      expect(body.status).toBe('incomplete');
+      expect(body.incomplete_details).toEqual({ reason: 'max_output_tokens' });
+      expect(body.output.map((item: any) => item.type)).toEqual([
+        'reasoning',
+        'web_search_call',
+        'message',
+      ]);
+      expect(body.output[2].content[0].annotations).toEqual([
+        { type: 'url_citation', url: 'https://example.com', title: 'Weather' },
+      ]);
+    });
+
+    it('should stream named events', async () => {
+      const fake = createFakeArk();
+      fake.responses.push({
+        text: 'Done',
+        toolCalls: [{ id: 'call-a', name: 'finish', arguments: '{}' }],
+      });
+
+      const response = await post(fake, '/responses', {
+        input: 'Go',
+        stream: true,
+      });
+      const text = await response.text();
+
+      expect(text).toContain('event: response.created\n');
+      expect(parseEvents(text).map(event => event.type)).toEqual([
+        'response.created',
+        'response.output_item.added',
+        'response.output_text.delta',
+        'response.output_item.done',
+        'response.output_item.added',
+        'response.function_call_arguments.delta',
+        'response.function_call_arguments.done',
+        'response.output_item.done',
+        'response.completed',
+      ]);
+    });
+  });
+
+  describe('images', () => {
+    it('should return one image per requested image', async () => {
+      const fake = createFakeArk();
+
+      const response = await post(fake, '/images/generations', {
+        model: 'doubao-seedream-4-5-251128',
+        n: 2,
+        size: '1024x1024',
+      });
+      const body = await readJson(response);
+
+      expect(body.data).toHaveLength(2);
+      expect(body.data[0].size).toBe('1024x1024');
+      expect(body.usage.generated_images).toBe(2);
+    });
+
+    it('should stream partial results', async () => {
+      const fake = createFakeArk();
+      fake.images.push({ images: ['AAAA', 'BBBB'], failedImages: [1] });
+
+      const response = await post(fake, '/images/generations', {
+        model: 'doubao-seedream-4-5-251128',
+        stream: true,
+      });
+
+      expect(
+        parseEvents(await response.text()).map(event => event.type ?? event),
+      ).toEqual([
+        'image_generation.partial_succeeded',
+        'image_generation.partial_failed',
+        'image_generation.completed',
+        '[DONE]',
+      ]);
+    });
+  });
+
+  it('should return a 404 Ark error for unknown endpoints', async () => {
+    const fake = createFakeArk();
+
+    const response = await post(fake, '/embeddings/unknown', {});
+
+    expect(response.status).toBe(404);
+    expect((await readJson(response)).error.code).toBe('NotFound');
+  });
+
+  it('should forget state on reset', async () => {
+    const fake = createFakeArk();
+    fake.chat.push({ text: 'Scripted' });
+    await post(fake, '/chat/completions', { messages: [] });
+    fake.chat.push({ text: 'Never served' });
+
+    fake.reset();
+    const response = await post(fake, '/chat/completions', { messages: [] });
+
+    expect(fake.chat.pending).toBe(0);
+    expect(fake.requests).toHaveLength(1);
+    expect(await readJson(response)).toMatchObject({
+      id: 'chatcmpl-1',
+      choices: [{ message: { content: 'Hello from Ark.' } }],
+    });
+  });
+
+  it('should serve over HTTP', async () => {
+    const fake = createFakeArk();
+    fake.chat.push({ text: 'Over the wire' });
+    const server = await fake.listen();
+
+    try {
+      const response = await fetch(`${server.baseURL}/chat/completions`, {
+        method: 'POST',
+        body: JSON.stringify({ messages: [] }),
+      });
+
+      expect((await readJson(response)).choices[0].message.content).toBe(
+        'Over the wire',
+      );
+    } finally {
+      await server.close();
+    }
+  });
+});
@@ -0,0 +1,252 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ArkCassette, ArkInteraction, getArkPath } from './cassette';
+import { handleChatCompletion } from './chat-completions';
+import {
+  FakeArkContext,
+  FakeArkImageReply,
+  FakeArkReply,
+  FakeArkReplySource,
+  FakeArkRequest,
+  FakeArkVideoReply,
+} from './fake-ark-types';
+import { errorResponse, parseBody } from './http';
+import { handleImageGeneration } from './images';
+import { handleResponses } from './responses';
+import { FakeArkVideoTasks } from './video-tasks';
+
+type FetchFunction = typeof globalThis.fetch;
+
+/** Base URL to pass to clients that use the fake's `fetch`. */
+export const FAKE_ARK_BASE_URL = 'https://fake-ark.local/api/v3';
+
+const DEFAULT_NOW = 1767225600;
+
+export interface FakeArkOptions {
+  /** Recorded interactions, replayed before any scripted reply. */
+  cassette?: ArkCassette;
+  /** Language model reply used when no reply is queued. */
+  defaultReply?: FakeArkReply;
+  /** Unix time in seconds reported as creation time. */
+  now?: number;
+}
+
+/**
+ * Replies served in the order they were pushed. When the queue is empty, the
+ * fake answers with its default reply.
+ */
+export class FakeArkReplyQueue<T> {
+  private replies: Array<FakeArkReplySource<T>> = [];
+
+  constructor(private readonly defaultReply: T) {}
+
+  push(...replies: Array<FakeArkReplySource<T>>): this {
+    this.replies.push(...replies);
+    return this;
+  }
+
+  /** Number of replies that have not been served yet. */
+  get pending(): number {
+    return this.replies.length;
+  }
+
+  next(request: FakeArkRequest): T {
+    const reply = this.replies.shift() ?? this.defaultReply;
+    return typeof reply === 'function'
+      ? (reply as (request: FakeArkRequest) => T)(request)
+      : reply;
+  }
+
+  clear(): void {
+    this.replies = [];
+  }
+}
+
+export interface FakeArk {
+  /** Fetch function that answers Ark requests in process. */
+  fetch: FetchFunction;
+  /** Handles one request. */
+  handle(request: Request): Promise<Response>;
+  /** Requests received so far, in order. */
+  requests: FakeArkRequest[];
+  /** Replies of `/chat/completions`. */
+  chat: FakeArkReplyQueue<FakeArkReply>;
+  /** Replies of `/responses`. */
+  responses: FakeArkReplyQueue<FakeArkReply>;
+  /** Replies of `/images/generations`. */
+  images: FakeArkReplyQueue<FakeArkImageReply>;
+  /** Replies of video task creation. */
+  videos: FakeArkReplyQueue<FakeArkVideoReply>;
+  /**
+   * Serves the fake over HTTP on localhost, for clients that cannot take a
+   * fetch function. Resolves with the base URL to use.
+   */
+  listen(port?: number): Promise<{ baseURL: string; close(): Promise<void> }>;
+  /** Forgets requests, queued replies, video tasks and cassette progress. */
+  reset(): void;
+}
+
+/**
+ * Creates an in-process fake of the Ark API. Replies are scripted per
+ * endpoint or replayed from a recorded cassette, and IDs and timestamps are
+ * deterministic, so tests behave the same on every run.
+ */
+export function createFakeArk(options: FakeArkOptions = {}): FakeArk {
+  const now = options.now ?? DEFAULT_NOW;
+  let counters = new Map<string, number>();
+  const context: FakeArkContext = {
+    nextId: prefix => {
+      const count = (counters.get(prefix) ?? 0) + 1;
+      counters.set(prefix, count);
+      return `${prefix}-${count}`;
+    },
+    now: () => now,
+  };
+
+  const defaultReply = options.defaultReply ?? { text: 'Hello from Ark.' };
+  const requests: FakeArkRequest[] = [];
+  const chat = new FakeArkReplyQueue<FakeArkReply>(defaultReply);
+  const responses = new FakeArkReplyQueue<FakeArkReply>(defaultReply);
+  const images = new FakeArkReplyQueue<FakeArkImageReply>({});
+  const videos = new FakeArkReplyQueue<FakeArkVideoReply>({});
+  let videoTasks = new FakeArkVideoTasks(context);
+  let interactions = [...(options.cassette?.interactions ?? [])];
+
+  const replay = (request: FakeArkRequest): Response | undefined => {
+    const index = interactions.findIndex(
+      interaction =>
+        interaction.request.method === request.method &&
+        interaction.request.path === request.path,
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    const [{ response }] = interactions.splice(index, 1) as [ArkInteraction];
+    return new Response(response.body, {
+      status: response.status,
+      headers: { 'content-type': response.contentType },
+    });
+  };
+
+  const route = (request: FakeArkRequest): Response => {
+    const { method, path } = request;
+    const taskId = path.match(/^\/contents\/generations\/tasks\/([^/]+)$/)?.[1];
+
+    if (method === 'POST' && path === '/chat/completions') {
+      return handleChatCompletion(chat.next(request), request, context);
+    }
+    if (method === 'POST' && path === '/responses') {
+      return handleResponses(responses.next(request), request, context);
+    }
+    if (method === 'POST' && path === '/images/generations') {
+      return handleImageGeneration(images.next(request), request, context);
+    }
+    if (path === '/contents/generations/tasks') {
+      if (method === 'POST') {
+        return videoTasks.create(videos.next(request), request);
+      }
+      if (method === 'GET') {
+        return videoTasks.list(request.query);
+      }
+    }
+    if (taskId != null) {
+      if (method === 'GET') {
+        return videoTasks.get(taskId);
+      }
+      if (method === 'DELETE') {
+        return videoTasks.delete(taskId);
+      }
+    }
+
+    return errorResponse({
+      status: 404,
+      code: 'NotFound',
+      message: `${method} ${path} is not supported by the fake Ark server`,
+    });
+  };
+
+  const handle = async (input: Request): Promise<Response> => {
+    const url = new URL(input.url);
+    const request: FakeArkRequest = {
+      method: input.method,
+      path: getArkPath(url),
+      query: url.searchParams,
+      body: parseBody(await input.text()),
+    };
+    requests.push(request);
+    return replay(request) ?? route(request);
+  };
+
+  return {
+    fetch: (input, init) => handle(new Request(input, init)),
+    handle,
+    requests,
+    chat,
+    responses,
+    images,
+    videos,
+    listen: port => listen(handle, port),
+    reset: () => {
+      counters = new Map();
+      requests.length = 0;
+      chat.clear();
+      responses.clear();
+      images.clear();
+      videos.clear();
+      videoTasks = new FakeArkVideoTasks(context);
+      interactions = [...(options.cassette?.interactions ?? [])];
+    },
+  };
+}
+
+function listen(
+  handle: (request: Request) => Promise<Response>,
+  port = 0,
+): Promise<{ baseURL: string; close(): Promise<void> }> {
+  const server = createServer((incoming, outgoing) => {
+    serve(handle, incoming, outgoing).catch(error => {
+      outgoing.statusCode = 500;
+      outgoing.end(String(error));
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address() as AddressInfo;
+      resolve({
+        baseURL: `http://127.0.0.1:${address.port}/api/v3`,
+        close: () =>
+          new Promise((resolveClose, rejectClose) =>
+            server.close(error =>
+              error != null ? rejectClose(error) : resolveClose(),
+            ),
+          ),
+      });
+    });
+  });
+}
+
+async function serve(
+  handle: (request: Request) => Promise<Response>,
+  incoming: IncomingMessage,
+  outgoing: ServerResponse,
+) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of incoming) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const response = await handle(
+    new Request(`http://${incoming.headers.host}${incoming.url}`, {
+      method: incoming.method,
+      headers: incoming.headers as Record<string, string>,
+      body: chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+    }),
+  );
+
+  outgoing.writeHead(response.status, {
+    'content-type': response.headers.get('content-type') ?? 'text/plain',
+  });
+  outgoing.end(Buffer.from(await response.arrayBuffer()));
+}
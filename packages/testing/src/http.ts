@@ -0,0 +1,66 @@
+import { FakeArkError } from './fake-ark-types';
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+/** Ark error body: `{ error: { code, message, type } }`. */
+export function errorResponse({
+  status = 500,
+  code,
+  message,
+}: FakeArkError): Response {
+  return jsonResponse(
+    { error: { code, message, type: 'fake_ark_error' } },
+    status,
+  );
+}
+
+/**
+ * Serializes events as server-sent events. Chat Completions ends its streams
+ * with `data: [DONE]`; events with `named` carry their `type` as event name.
+ */
+export function eventStreamResponse(
+  events: unknown[],
+  { done = false, named = false }: { done?: boolean; named?: boolean } = {},
+): Response {
+  let text = '';
+  for (const event of events) {
+    if (named) {
+      text += `event: ${(event as { type: string }).type}\n`;
+    }
+    text += `data: ${JSON.stringify(event)}\n\n`;
+  }
+  if (done) {
+    text += 'data: [DONE]\n\n';
+  }
+  return new Response(text, {
+    headers: { 'content-type': 'text/event-stream' },
+  });
+}
+
+/** Deterministic token estimate of about four characters per token. */
+export function estimateTokens(value: unknown): number {
+  const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+  return Math.ceil(text.length / 4);
+}
+
+/** Splits text into word-sized deltas, keeping whitespace. */
+export function splitDeltas(text: string): string[] {
+  return text.match(/\s*\S+\s*/g) ?? (text.length > 0 ? [text] : []);
+}
+
+/** Parses a JSON request body, keeping other bodies as text. */
+export function parseBody(text: string): unknown {
+  if (text.length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  FakeArkContext,
+  FakeArkImageReply,
+  FakeArkRequest,
+} from './fake-ark-types';
+import { errorResponse, eventStreamResponse, jsonResponse } from './http';
+
+/** A transparent 1×1 PNG. */
+export const FAKE_ARK_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const TOKENS_PER_IMAGE = 4096;
+
+/** Handles `POST /images/generations`, streaming when the request asks for it. */
+export function handleImageGeneration(
+  reply: FakeArkImageReply,
+  request: FakeArkRequest,
+  context: FakeArkContext,
+): Response {
+  if (reply.error != null) {
+    return errorResponse(reply.error);
+  }
+
+  const model = reply.model ?? request.body?.model;
+  const count =
+    request.body?.sequential_image_generation === 'auto'
+      ? (request.body?.sequential_image_generation_options?.max_images ?? 1)
+      : (request.body?.n ?? 1);
+  const images =
+    reply.images ?? Array.from({ length: count }, () => FAKE_ARK_PNG);
+  const size =
+    typeof request.body?.size === 'string' ? request.body.size : '2048x2048';
+  const failedImages = new Set(reply.failedImages ?? []);
+  const generatedImages = images.length - failedImages.size;
+  const usage = {
+    generated_images: generatedImages,
+    output_tokens: generatedImages * TOKENS_PER_IMAGE,
+    total_tokens: generatedImages * TOKENS_PER_IMAGE,
+  };
+
+  if (request.body?.stream !== true) {
+    return jsonResponse({
+      model,
+      created: context.now(),
+      data: images.map(b64_json => ({ b64_json, size })),
+      usage,
+    });
+  }
+
+  return eventStreamResponse(
+    [
+      ...images.map((b64_json, index) =>
+        failedImages.has(index)
+          ? {
+              type: 'image_generation.partial_failed',
+              image_index: index,
+              error: {
+                code: 'OutputImageSensitiveContentDetected',
+                message: 'Image failed',
+              },
+            }
+          : {
+              type: 'image_generation.partial_succeeded',
+              model,
+              image_index: index,
+              b64_json,
+              size,
+            },
+      ),
+      { type: 'image_generation.completed', model, usage },
+    ],
+    { done: true },
+  );
+}
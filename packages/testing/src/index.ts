@@ -0,0 +1,23 @@
+export {
+  getArkPath,
+  loadArkCassette,
+  recordArk,
+  saveArkCassette,
+} from './cassette';
+export type { ArkCassette, ArkInteraction } from './cassette';
+export {
+  createFakeArk,
+  FAKE_ARK_BASE_URL,
+  FakeArkReplyQueue,
+} from './fake-ark';
+export type { FakeArk, FakeArkOptions } from './fake-ark';
+export type {
+  FakeArkError,
+  FakeArkImageReply,
+  FakeArkReply,
+  FakeArkReplySource,
+  FakeArkRequest,
+  FakeArkUsage,
+  FakeArkVideoReply,
+} from './fake-ark-types';
+export { FAKE_ARK_PNG } from './images';
@@ -0,0 +1,213 @@
+import { getReplyUsage, getToolCallArguments } from './chat-completions';
+import { FakeArkContext, FakeArkReply, FakeArkRequest } from './fake-ark-types';
+import {
+  errorResponse,
+  eventStreamResponse,
+  jsonResponse,
+  splitDeltas,
+} from './http';
+
+function getUsage(reply: FakeArkReply, request: FakeArkRequest) {
+  const usage = getReplyUsage(reply, request.body?.input);
+  return {
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    total_tokens: usage.inputTokens + usage.outputTokens,
+    input_tokens_details: { cached_tokens: usage.cachedTokens },
+    output_tokens_details: { reasoning_tokens: usage.reasoningTokens },
+  };
+}
+
+function getIncompleteDetails(reply: FakeArkReply) {
+  switch (reply.finishReason) {
+    case 'length':
+      return { reason: 'max_output_tokens' };
+    case 'content_filter':
+      return { reason: 'content_filter' };
+    default:
+      return null;
+  }
+}
+
+/** Output items in the order Ark returns them. */
+function getOutputItems(reply: FakeArkReply, context: FakeArkContext) {
+  const items: Array<Record<string, any>> = [];
+
+  if (reply.reasoning != null || reply.encryptedReasoning != null) {
+    items.push({
+      id: context.nextId('rs'),
+      type: 'reasoning',
+      summary:
+        reply.reasoning != null
+          ? [{ type: 'summary_text', text: reply.reasoning }]
+          : [],
+      encrypted_content: reply.encryptedReasoning,
+    });
+  }
+
+  for (const toolCall of reply.builtInToolCalls ?? []) {
+    items.push({
+      id: context.nextId('tool'),
+      type: toolCall.type,
+      status: 'completed',
+      action: toolCall.action,
+    });
+  }
+
+  if (reply.text != null) {
+    items.push({
+      id: context.nextId('msg'),
+      type: 'message',
+      role: 'assistant',
+      status: 'completed',
+      content: [
+        {
+          type: 'output_text',
+          text: reply.text,
+          annotations: (reply.citations ?? []).map(citation => ({
+            type: 'url_citation',
+            url: citation.url,
+            title: citation.title,
+          })),
+        },
+      ],
+    });
+  }
+
+  for (const toolCall of reply.toolCalls ?? []) {
+    items.push({
+      id: context.nextId('fc'),
+      type: 'function_call',
+      call_id: toolCall.id ?? context.nextId('call'),
+      name: toolCall.name,
+      arguments: getToolCallArguments(toolCall),
+      status: 'completed',
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Emits the events of one output item: `output_item.added`, the deltas of its
+ * content and `output_item.done`.
+ */
+function getItemEvents(item: Record<string, any>) {
+  const events: Array<Record<string, unknown>> = [];
+  const added = (value: Record<string, unknown>) =>
+    events.push({ type: 'response.output_item.added', item: value });
+  const done = () => events.push({ type: 'response.output_item.done', item });
+
+  switch (item.type) {
+    case 'reasoning':
+      added({ id: item.id, type: 'reasoning' });
+      for (const summary of item.summary) {
+        for (const delta of splitDeltas(summary.text)) {
+          events.push({
+            type: 'response.reasoning_summary_text.delta',
+            item_id: item.id,
+            delta,
+          });
+        }
+      }
+      break;
+    case 'message':
+      added({ id: item.id, type: 'message' });
+      for (const delta of splitDeltas(item.content[0].text)) {
+        events.push({
+          type: 'response.output_text.delta',
+          item_id: item.id,
+          delta,
+        });
+      }
+      for (const annotation of item.content[0].annotations) {
+        events.push({
+          type: 'response.output_text.annotation.added',
+          item_id: item.id,
+          annotation,
+        });
+      }
+      break;
+    case 'function_call':
+      added({ ...item, arguments: '' });
+      events.push(
+        {
+          type: 'response.function_call_arguments.delta',
+          item_id: item.id,
+          delta: item.arguments,
+        },
+        {
+          type: 'response.function_call_arguments.done',
+          item_id: item.id,
+          arguments: item.arguments,
+        },
+      );
+      break;
+    default:
+      // Built-in tool calls
+      added({ ...item, status: 'in_progress' });
+  }
+
+  done();
+  return events;
+}
+
+/** Handles `POST /responses`, streaming when the request asks for it. */
+export function handleResponses(
+  reply: FakeArkReply,
+  request: FakeArkRequest,
+  context: FakeArkContext,
+): Response {
+  const isStream = request.body?.stream === true;
+  if (reply.error != null || (reply.streamError != null && !isStream)) {
+    return errorResponse(reply.error ?? reply.streamError!);
+  }
+
+  const id = context.nextId('resp');
+  const createdAt = context.now();
+  const model = reply.model ?? request.body?.model;
+  const output = getOutputItems(reply, context);
+  const incompleteDetails = getIncompleteDetails(reply);
+  const usage = getUsage(reply, request);
+
+  if (!isStream) {
+    return jsonResponse({
+      id,
+      object: 'response',
+      created_at: createdAt,
+      model,
+      status: incompleteDetails != null ? 'incomplete' : 'completed',
+      output,
+      incomplete_details: incompleteDetails,
+      usage,
+    });
+  }
+
+  const events: Array<Record<string, unknown>> = [
+    {
+      type: 'response.created',
+      response: { id, created_at: createdAt, model, status: 'in_progress' },
+    },
+    ...output.flatMap(getItemEvents),
+  ];
+
+  if (reply.streamError != null) {
+    events.push(
+      { type: 'error', ...reply.streamError },
+      {
+        type: 'response.failed',
+        response: { incomplete_details: null, usage },
+      },
+    );
+  } else {
+    events.push({
+      type:
+        incompleteDetails != null
+          ? 'response.incomplete'
+          : 'response.completed',
+      response: { incomplete_details: incompleteDetails, usage },
+    });
+  }
+
+  return eventStreamResponse(events, { named: true });
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { createFakeArk, FAKE_ARK_BASE_URL } from './fake-ark';
+
+const TASKS_URL = `${FAKE_ARK_BASE_URL}/contents/generations/tasks`;
+
+async function createTask(
+  fake: ReturnType<typeof createFakeArk>,
+  body: Record<string, unknown> = {},
+) {
+  const response = await fake.fetch(TASKS_URL, {
+    method: 'POST',
+    body: JSON.stringify({ model: 'doubao-seedance-1-0-pro-250528', ...body }),
+  });
+  return ((await response.json()) as { id: string }).id;
+}
+
+async function getTask(
+  fake: ReturnType<typeof createFakeArk>,
+  id: string,
+): Promise<any> {
+  return (await fake.fetch(`${TASKS_URL}/${id}`)).json();
+}
+
+describe('FakeArkVideoTasks', () => {
+  it('should report running until the task is done', async () => {
+    const fake = createFakeArk();
+    fake.videos.push({ pollsUntilDone: 2, videoUrl: 'https://cdn/video.mp4' });
+    const id = await createTask(fake, { return_last_frame: true });
+
+    expect((await getTask(fake, id)).status).toBe('running');
+    expect((await getTask(fake, id)).status).toBe('running');
+    expect(await getTask(fake, id)).toMatchObject({
+      id: 'cgt-1',
+      status: 'succeeded',
+      content: {
+        video_url: 'https://cdn/video.mp4',
+        last_frame_url: 'https://fake-ark.local/videos/cgt-1.png',
+      },
+      usage: { completion_tokens: 108900 },
+    });
+  });
+
+  it('should report the error of failed tasks', async () => {
+    const fake = createFakeArk();
+    fake.videos.push({
+      status: 'failed',
+      pollsUntilDone: 0,
+      taskError: { code: 'OutputVideoSensitiveContentDetected', message: 'No' },
+    });
+    const id = await createTask(fake);
+
+    expect(await getTask(fake, id)).toMatchObject({
+      status: 'failed',
+      error: { code: 'OutputVideoSensitiveContentDetected', message: 'No' },
+    });
+  });
+
+  it('should cancel queued tasks and delete finished ones', async () => {
+    const fake = createFakeArk();
+    fake.videos.push({ pollsUntilDone: 0 });
+    const finished = await createTask(fake);
+    await getTask(fake, finished);
+    const queued = await createTask(fake);
+
+    await fake.fetch(`${TASKS_URL}/${queued}`, { method: 'DELETE' });
+    await fake.fetch(`${TASKS_URL}/${finished}`, { method: 'DELETE' });
+
+    expect((await getTask(fake, queued)).status).toBe('cancelled');
+    expect((await getTask(fake, finished)).error.code).toBe('ResourceNotFound');
+  });
+
+  it('should not cancel running tasks', async () => {
+    const fake = createFakeArk();
+    const id = await createTask(fake);
+    await getTask(fake, id);
+
+    const response = await fake.fetch(`${TASKS_URL}/${id}`, {
+      method: 'DELETE',
+    });
+
+    expect(response.status).toBe(409);
+  });
+
+  it('should list tasks newest first with filters and paging', async () => {
+    const fake = createFakeArk();
+    fake.videos.push({ pollsUntilDone: 0 });
+    const first = await createTask(fake);
+    await getTask(fake, first);
+    await createTask(fake, { model: 'doubao-seedance-1-0-lite-t2v-250428' });
+    await createTask(fake);
+
+    const all: any = await (
+      await fake.fetch(`${TASKS_URL}?page_size=2`)
+    ).json();
+    const succeeded: any = await (
+      await fake.fetch(`${TASKS_URL}?filter.status=succeeded`)
+    ).json();
+
+    expect(all.total).toBe(3);
+    expect(all.items.map((task: any) => task.id)).toEqual(['cgt-3', 'cgt-2']);
+    expect(succeeded.items.map((task: any) => task.id)).toEqual(['cgt-1']);
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  FakeArkContext,
+  FakeArkRequest,
+  FakeArkVideoReply,
+} from './fake-ark-types';
+import { errorResponse, jsonResponse } from './http';
+
+type FakeVideoTask = {
+  id: string;
+  model: string;
+  status:
+    'queued' | 'running' | 'succeeded' | 'failed' | 'expired' | 'cancelled';
+  reply: FakeArkVideoReply;
+  polls: number;
+  body: Record<string, any>;
+  createdAt: number;
+  updatedAt: number;
+};
+
+const TOKENS_PER_VIDEO = 108900;
+
+/**
+ * In-memory video tasks. A task is `queued` when created, reports `running`
+ * for `pollsUntilDone` polls and then its final status.
+ */
+export class FakeArkVideoTasks {
+  private readonly tasks = new Map<string, FakeVideoTask>();
+
+  constructor(private readonly context: FakeArkContext) {}
+
+  /** Handles `POST /contents/generations/tasks`. */
+  create(reply: FakeArkVideoReply, request: FakeArkRequest): Response {
+    if (reply.error != null) {
+      return errorResponse(reply.error);
+    }
+
+    const id = this.context.nextId('cgt');
+    const now = this.context.now();
+    this.tasks.set(id, {
+      id,
+      model: reply.model ?? request.body?.model,
+      status: 'queued',
+      reply,
+      polls: 0,
+      body: request.body ?? {},
+      createdAt: now,
+      updatedAt: now,
+    });
+    return jsonResponse({ id });
+  }
+
+  /** Handles `GET /contents/generations/tasks/{id}`. */
+  get(taskId: string): Response {
+    const task = this.tasks.get(taskId);
+    if (task == null) {
+      return notFound(taskId);
+    }
+
+    if (task.status === 'queued' || task.status === 'running') {
+      task.polls += 1;
+      task.status =
+        task.polls > (task.reply.pollsUntilDone ?? 1)
+          ? (task.reply.status ?? 'succeeded')
+          : 'running';
+      task.updatedAt = this.context.now();
+    }
+    return jsonResponse(this.serialize(task));
+  }
+
+  /**
+   * Handles `DELETE /contents/generations/tasks/{id}`: queued tasks are
+   * cancelled, finished tasks deleted and running tasks cannot be cancelled.
+   */
+  delete(taskId: string): Response {
+    const task = this.tasks.get(taskId);
+    if (task == null) {
+      return notFound(taskId);
+    }
+
+    switch (task.status) {
+      case 'queued':
+        task.status = 'cancelled';
+        task.updatedAt = this.context.now();
+        break;
+      case 'running':
+        return errorResponse({
+          status: 409,
+          code: 'InvalidAction.TaskRunning',
+          message: `Task ${taskId} is running and cannot be cancelled`,
+        });
+      default:
+        this.tasks.delete(taskId);
+    }
+    return jsonResponse({});
+  }
+
+  /** Handles `GET /contents/generations/tasks` with Ark's filters and paging. */
+  list(query: URLSearchParams): Response {
+    const status = query.get('filter.status');
+    const model = query.get('filter.model');
+    const taskIds = query.getAll('filter.task_ids');
+    const pageNum = Number(query.get('page_num') ?? 1);
+    const pageSize = Number(query.get('page_size') ?? 10);
+
+    const tasks = [...this.tasks.values()]
+      .filter(
+        task =>
+          (status == null || task.status === status) &&
+          (model == null || task.model === model) &&
+          (taskIds.length === 0 || taskIds.includes(task.id)),
+      )
+      .reverse();
+
+    return jsonResponse({
+      items: tasks
+        .slice((pageNum - 1) * pageSize, pageNum * pageSize)
+        .map(task => this.serialize(task)),
+      total: tasks.length,
+    });
+  }
+
+  private serialize(task: FakeVideoTask) {
+    const { reply, body } = task;
+    const succeeded = task.status === 'succeeded';
+    return {
+      id: task.id,
+      model: task.model,
+      status: task.status,
+      error:
+        task.status === 'failed'
+          ? (reply.taskError ?? {
+              code: 'InternalServiceError',
+              message: 'Video generation failed',
+            })
+          : null,
+      content: succeeded
+        ? {
+            video_url:
+              reply.videoUrl ?? `https://fake-ark.local/videos/${task.id}.mp4`,
+            last_frame_url:
+              body.return_last_frame === true
+                ? (reply.lastFrameUrl ??
+                  `https://fake-ark.local/videos/${task.id}.png`)
+                : undefined,
+          }
+        : undefined,
+      seed: body.seed ?? 42,
+      resolution: body.resolution ?? '720p',
+      ratio: body.ratio ?? '16:9',
+      duration: body.duration ?? 5,
+      framespersecond: 24,
+      draft: body.draft,
+      service_tier: body.service_tier ?? 'default',
+      created_at: task.createdAt,
+      updated_at: task.updatedAt,
+      usage: succeeded
+        ? {
+            completion_tokens: reply.completionTokens ?? TOKENS_PER_VIDEO,
+            total_tokens: reply.completionTokens ?? TOKENS_PER_VIDEO,
+          }
+        : undefined,
+    };
+  }
+}
+
+function notFound(taskId: string) {
+  return errorResponse({
+    status: 404,
+    code: 'ResourceNotFound',
+    message: `Task ${taskId} not found`,
+  });
+}